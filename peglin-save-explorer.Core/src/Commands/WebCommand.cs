@@ -11,7 +11,9 @@ using peglin_save_explorer.Core;
 using peglin_save_explorer.Utils;
 using peglin_save_explorer.Services;
 using peglin_save_explorer.Data;
+using System.Collections.Concurrent;
 using System.Diagnostics;
+using System.Threading.Channels;
 using System.Linq;
 
 namespace peglin_save_explorer.Commands
@@ -110,6 +112,17 @@ namespace peglin_save_explorer.Commands
             // Initialize all data and services before setting up middlewares
             var (configManager, analysisService, currentData, spriteCacheDirectory) = await InitializeDataAndServices(saveFile);
 
+            // Reloads build the new data first and swap it in under this lock; handlers
+            // take one snapshot per request so they never mix old and new data
+            var currentDataLock = new object();
+            RunHistoryData GetCurrentData()
+            {
+                lock (currentDataLock)
+                {
+                    return currentData;
+                }
+            }
+
             // Configure static file serving for sprite cache
             if (Directory.Exists(spriteCacheDirectory))
             {
@@ -206,6 +219,53 @@ namespace peglin_save_explorer.Commands
                 }
             }
 
+            // Watch the active save file and push newly finished runs to connected clients
+            var runUpdateClients = new ConcurrentDictionary<Guid, Channel<string>>();
+            var watchedSavePath = saveFile?.FullName ?? configManager.GetEffectiveSaveFilePath();
+            var liveUpdatesEnabled = !string.IsNullOrEmpty(watchedSavePath);
+            using var saveFileWatcher = liveUpdatesEnabled ? new SaveFileWatcher(watchedSavePath!) : null;
+
+            if (saveFileWatcher != null)
+            {
+                saveFileWatcher.StatsFileChanged += savePath =>
+                {
+                    // A manual upload replaces the watched data until the server restarts
+                    if (!liveUpdatesEnabled) return;
+
+                    try
+                    {
+                        var reloadedData = analysisService.LoadCompleteRunData(new FileInfo(savePath));
+                        RunHistoryData previousData;
+                        lock (currentDataLock)
+                        {
+                            // An upload may have landed while the file was being read
+                            if (!liveUpdatesEnabled) return;
+                            previousData = currentData;
+                            currentData = reloadedData;
+                        }
+
+                        var knownRunIds = previousData.Runs.Select(r => r.Id).ToHashSet();
+                        var newRuns = reloadedData.Runs.Where(r => !knownRunIds.Contains(r.Id)).ToList();
+
+                        if (newRuns.Count == 0) return;
+
+                        Logger.Info($"Detected {newRuns.Count} new run(s), notifying {runUpdateClients.Count} client(s)");
+                        var payload = JsonSerializer.Serialize(
+                            new { runs = newRuns, totalRuns = reloadedData.TotalRuns },
+                            new JsonSerializerOptions(JsonSerializerDefaults.Web));
+
+                        foreach (var client in runUpdateClients.Values)
+                        {
+                            client.Writer.TryWrite(payload);
+                        }
+                    }
+                    catch (Exception ex)
+                    {
+                        Logger.Error($"Error reloading runs after save file change: {ex.Message}");
+                    }
+                };
+                saveFileWatcher.Start();
+            }
 
             // API Routes with enhanced error handling
             app.MapGet("/api/health", () =>
@@ -221,11 +281,27 @@ namespace peglin_save_explorer.Commands
                 }
             });
 
-            app.MapGet("/api/runs", () =>
+            app.MapGet("/api/runs", (HttpContext context) =>
             {
                 try
                 {
-                    return CreateApiResponse(currentData);
+                    var runData = GetCurrentData();
+                    // includeRuns=false returns only the aggregate statistics, runs are then paged via /api/runs/filtered
+                    if (bool.TryParse(context.Request.Query["includeRuns"], out var includeRuns) && !includeRuns)
+                    {
+                        return CreateApiResponse(new RunHistoryData
+                        {
+                            ClassStatistics = runData.ClassStatistics,
+                            OrbStatistics = runData.OrbStatistics,
+                            RelicStatistics = runData.RelicStatistics,
+                            PlayerStatistics = runData.PlayerStatistics,
+                            TotalRuns = runData.TotalRuns,
+                            TotalWins = runData.TotalWins,
+                            WinRate = runData.WinRate
+                        });
+                    }
+
+                    return CreateApiResponse(runData);
                 }
                 catch (Exception ex)
                 {
@@ -238,9 +314,19 @@ namespace peglin_save_explorer.Commands
             {
                 try
                 {
+                    var runData = GetCurrentData();
                     var filter = CreateFilterFromQuery(context.Request.Query);
-                    var filteredRuns = analysisService.FilterRuns(currentData.Runs, filter);
-                    return CreateApiResponse(new { runs = filteredRuns, totalCount = filteredRuns.Count });
+                    var filteredRuns = analysisService.FilterRuns(runData.Runs, filter);
+
+                    // Without paging parameters keep returning the whole list for older clients
+                    var query = context.Request.Query;
+                    if (!query.ContainsKey("page") && !query.ContainsKey("pageSize") && !query.ContainsKey("cursor"))
+                    {
+                        return CreateApiResponse(new { runs = filteredRuns, totalCount = filteredRuns.Count });
+                    }
+
+                    var page = analysisService.PageRuns(filteredRuns, CreatePageRequestFromQuery(query));
+                    return CreateApiResponse(page);
                 }
                 catch (Exception ex)
                 {
@@ -249,11 +335,57 @@ namespace peglin_save_explorer.Commands
                 }
             });
 
+            // Server-sent events stream of runs added since the client connected
+            app.MapGet("/api/runs/stream", async (HttpContext context) =>
+            {
+                var clientId = Guid.NewGuid();
+                var channel = Channel.CreateUnbounded<string>();
+                runUpdateClients[clientId] = channel;
+
+                context.Response.Headers["Content-Type"] = "text/event-stream";
+                context.Response.Headers["Cache-Control"] = "no-cache";
+                context.Response.Headers["X-Accel-Buffering"] = "no";
+
+                try
+                {
+                    await context.Response.WriteAsync($"event: status\ndata: {{\"watching\":{(liveUpdatesEnabled ? "true" : "false")}}}\n\n", context.RequestAborted);
+                    await context.Response.Body.FlushAsync(context.RequestAborted);
+
+                    while (!context.RequestAborted.IsCancellationRequested)
+                    {
+                        // Send a comment every 30 seconds so proxies don't close idle connections
+                        using var heartbeat = CancellationTokenSource.CreateLinkedTokenSource(context.RequestAborted);
+                        heartbeat.CancelAfter(TimeSpan.FromSeconds(30));
+
+                        try
+                        {
+                            var payload = await channel.Reader.ReadAsync(heartbeat.Token);
+                            await context.Response.WriteAsync($"event: runs\ndata: {payload}\n\n", context.RequestAborted);
+                        }
+                        catch (OperationCanceledException) when (!context.RequestAborted.IsCancellationRequested)
+                        {
+                            await context.Response.WriteAsync(": keep-alive\n\n", context.RequestAborted);
+                        }
+
+                        await context.Response.Body.FlushAsync(context.RequestAborted);
+                    }
+                }
+                catch (OperationCanceledException)
+                {
+                    // Client disconnected
+                }
+                finally
+                {
+                    runUpdateClients.TryRemove(clientId, out _);
+                }
+            });
+
             app.MapGet("/api/runs/{id}", (string id) =>
             {
                 try
                 {
-                    var run = currentData.Runs.FirstOrDefault(r => r.Id == id);
+                    var runData = GetCurrentData();
+                    var run = runData.Runs.FirstOrDefault(r => r.Id == id);
                     if (run == null)
                     {
                         return Results.NotFound(CreateApiResponse<object>(null, "Run not found"));
@@ -271,16 +403,18 @@ namespace peglin_save_explorer.Commands
             {
                 try
                 {
+                    var runData = GetCurrentData();
                     return CreateApiResponse(new
                     {
-                        classStatistics = currentData.ClassStatistics,
-                        orbStatistics = currentData.OrbStatistics,
-                        playerStatistics = currentData.PlayerStatistics,
+                        classStatistics = runData.ClassStatistics,
+                        orbStatistics = runData.OrbStatistics,
+                        relicStatistics = runData.RelicStatistics,
+                        playerStatistics = runData.PlayerStatistics,
                         summary = new
                         {
-                            totalRuns = currentData.TotalRuns,
-                            totalWins = currentData.TotalWins,
-                            winRate = currentData.WinRate
+                            totalRuns = runData.TotalRuns,
+                            totalWins = runData.TotalWins,
+                            winRate = runData.WinRate
                         }
                     });
                 }
@@ -291,21 +425,29 @@ namespace peglin_save_explorer.Commands
                 }
             });
 
-            app.MapGet("/api/summary", () =>
+            app.MapGet("/api/summary", (HttpContext context) =>
             {
-                if (currentData.Runs.Count == 0)
+                var runData = GetCurrentData();
+                if (runData.Runs.Count == 0)
                 {
                     return CreateApiResponse(new { message = "No data loaded" });
                 }
 
+                // Takes the same exclusion parameters as /api/runs/filtered so the dashboard matches the run list
+                var runs = analysisService.FilterRuns(runData.Runs, CreateFilterFromQuery(context.Request.Query));
+                var classStatistics = analysisService.GetClassStatistics(runs);
+                var totalWins = runs.Count(r => r.Won);
+
+                // Rank classes by the lower bound of their win rate so a 1/1 class doesn't top the list
                 var basicStats = new
                 {
-                    totalRuns = currentData.TotalRuns,
-                    totalWins = currentData.TotalWins,
-                    winRate = Math.Round(currentData.WinRate * 100, 2),
-                    averageDamage = currentData.Runs.Count > 0 ? Math.Round(currentData.Runs.Average(r => (double)r.DamageDealt), 0) : 0,
-                    averageDuration = currentData.Runs.Count > 0 ? TimeSpan.FromSeconds(currentData.Runs.Average(r => r.Duration.TotalSeconds)) : TimeSpan.Zero,
-                    topClasses = currentData.ClassStatistics.OrderByDescending(c => c.Value.WinRate).Take(3).ToDictionary(c => c.Key, c => c.Value)
+                    totalRuns = runs.Count,
+                    totalWins,
+                    winRate = runs.Count > 0 ? Math.Round((double)totalWins / runs.Count * 100, 2) : 0,
+                    averageDamage = runs.Count > 0 ? Math.Round(runs.Average(r => (double)r.DamageDealt), 0) : 0,
+                    averageDuration = runs.Count > 0 ? TimeSpan.FromSeconds(runs.Average(r => r.Duration.TotalSeconds)) : TimeSpan.Zero,
+                    topClasses = classStatistics.OrderByDescending(c => WinRateStatistics.WilsonInterval(c.Value.Wins, c.Value.TotalRuns).Lower).Take(3).ToDictionary(c => c.Key, c => c.Value),
+                    classStatistics
                 };
 
                 return CreateApiResponse(basicStats);
@@ -332,18 +474,23 @@ namespace peglin_save_explorer.Commands
 
                     // Load the data
                     var fileInfo = new FileInfo(tempPath);
-                    currentData = analysisService.LoadCompleteRunData(fileInfo);
+                    var uploadedData = analysisService.LoadCompleteRunData(fileInfo);
+                    lock (currentDataLock)
+                    {
+                        currentData = uploadedData;
+                        liveUpdatesEnabled = false;
+                    }
 
                     // Clean up temp file
                     File.Delete(tempPath);
 
-                    Logger.Info($"Loaded {currentData.TotalRuns} runs from uploaded file");
+                    Logger.Info($"Loaded {uploadedData.TotalRuns} runs from uploaded file");
                     return Results.Ok(CreateApiResponse(new
                     {
-                        message = $"Successfully loaded {currentData.TotalRuns} runs",
-                        totalRuns = currentData.TotalRuns,
-                        totalWins = currentData.TotalWins,
-                        winRate = currentData.WinRate
+                        message = $"Successfully loaded {uploadedData.TotalRuns} runs",
+                        totalRuns = uploadedData.TotalRuns,
+                        totalWins = uploadedData.TotalWins,
+                        winRate = uploadedData.WinRate
                     }));
                 }
                 catch (Exception ex)
@@ -353,6 +500,43 @@ namespace peglin_save_explorer.Commands
                 }
             });
 
+            app.MapGet("/api/config", () =>
+            {
+                try
+                {
+                    // Null until the web UI has saved its settings at least once
+                    return Results.Ok(CreateApiResponse(configManager.Config.WebUiSettings));
+                }
+                catch (Exception ex)
+                {
+                    if (isDevelopment) Console.WriteLine($"Get config error: {ex}");
+                    return Results.Problem($"Failed to get configuration: {ex.Message}");
+                }
+            });
+
+            app.MapPost("/api/config", async (HttpContext context) =>
+            {
+                try
+                {
+                    var settings = await context.Request.ReadFromJsonAsync<WebUiSettings>();
+                    if (settings == null || settings.Version <= 0)
+                    {
+                        return Results.BadRequest(CreateApiResponse<object>(null, "Invalid configuration data"));
+                    }
+
+                    configManager.Config.WebUiSettings = settings;
+                    configManager.Config.LastModified = DateTime.Now;
+                    configManager.SaveConfiguration();
+
+                    return Results.Ok(CreateApiResponse(settings));
+                }
+                catch (Exception ex)
+                {
+                    if (isDevelopment) Console.WriteLine($"Save config error: {ex}");
+                    return Results.BadRequest(CreateApiResponse<object>(null, "Failed to save configuration"));
+                }
+            });
+
             app.MapPost("/api/update-cruciball", async (HttpContext context) =>
             {
                 try
@@ -399,14 +583,15 @@ namespace peglin_save_explorer.Commands
             {
                 try
                 {
+                    var runData = GetCurrentData();
                     if (format.ToLower() == "csv")
                     {
-                        var csv = analysisService.ExportToCsv(currentData.Runs);
+                        var csv = analysisService.ExportToCsv(runData.Runs);
                         return Results.File(System.Text.Encoding.UTF8.GetBytes(csv), "text/csv", "runs.csv");
                     }
                     else
                     {
-                        var json = JsonSerializer.Serialize(currentData, new JsonSerializerOptions { WriteIndented = true });
+                        var json = JsonSerializer.Serialize(runData, new JsonSerializerOptions { WriteIndented = true });
                         return Results.File(System.Text.Encoding.UTF8.GetBytes(json), "application/json", "runs.json");
                     }
                 }
@@ -419,13 +604,15 @@ namespace peglin_save_explorer.Commands
 
             app.MapGet("/api/classes", () =>
             {
-                var classes = currentData.ClassStatistics.Keys.ToList();
+                var runData = GetCurrentData();
+                var classes = runData.ClassStatistics.Keys.ToList();
                 return CreateApiResponse(classes);
             });
 
             app.MapGet("/api/classes/{className}/stats", (string className) =>
             {
-                if (currentData.ClassStatistics.TryGetValue(className, out var stats))
+                var runData = GetCurrentData();
+                if (runData.ClassStatistics.TryGetValue(className, out var stats))
                 {
                     return CreateApiResponse(stats);
                 }
@@ -597,9 +784,10 @@ namespace peglin_save_explorer.Commands
                     Console.WriteLine($"Please open {serverUrl} in your web browser manually.");
                 }
             });
-            if (currentData.TotalRuns > 0)
+            var startupData = GetCurrentData();
+            if (startupData.TotalRuns > 0)
             {
-                Console.WriteLine($"Loaded {currentData.TotalRuns} runs, {currentData.TotalWins} wins ({currentData.WinRate:P1} win rate)");
+                Console.WriteLine($"Loaded {startupData.TotalRuns} runs, {startupData.TotalWins} wins ({startupData.WinRate:P1} win rate)");
             }
             else
             {
@@ -921,9 +1109,61 @@ namespace peglin_save_explorer.Commands
                 filter.MaxDuration = TimeSpan.FromMinutes(maxDurationMinutes);
             }
 
+            if (query.ContainsKey("excludeCustomRuns") && bool.TryParse(query["excludeCustomRuns"], out bool excludeCustomRuns))
+            {
+                filter.ExcludeCustomRuns = excludeCustomRuns;
+            }
+
+            if (query.ContainsKey("excludeTestRuns") && bool.TryParse(query["excludeTestRuns"], out bool excludeTestRuns))
+            {
+                filter.ExcludeTestRuns = excludeTestRuns;
+            }
+
+            if (query.ContainsKey("testRunMaxMinutes") && double.TryParse(query["testRunMaxMinutes"], out double testRunMaxMinutes) && testRunMaxMinutes > 0)
+            {
+                filter.TestRunMaxDuration = TimeSpan.FromMinutes(testRunMaxMinutes);
+            }
+
+            if (query.ContainsKey("excludeIncompletRuns") && bool.TryParse(query["excludeIncompletRuns"], out bool excludeIncompleteRuns))
+            {
+                filter.ExcludeIncompleteRuns = excludeIncompleteRuns;
+            }
+
             return filter;
         }
 
+        private RunPageRequest CreatePageRequestFromQuery(IQueryCollection query)
+        {
+            var request = new RunPageRequest();
+
+            if (query.ContainsKey("page") && int.TryParse(query["page"], out int page) && page >= 0)
+            {
+                request.Page = page;
+            }
+
+            if (query.ContainsKey("pageSize") && int.TryParse(query["pageSize"], out int pageSize) && pageSize > 0)
+            {
+                request.PageSize = pageSize;
+            }
+
+            if (query.ContainsKey("sortField") && !string.IsNullOrEmpty(query["sortField"]))
+            {
+                request.SortField = query["sortField"];
+            }
+
+            if (query.ContainsKey("sortOrder") && !string.IsNullOrEmpty(query["sortOrder"]))
+            {
+                request.SortOrder = query["sortOrder"];
+            }
+
+            if (query.ContainsKey("cursor") && !string.IsNullOrEmpty(query["cursor"]))
+            {
+                request.Cursor = query["cursor"];
+            }
+
+            return request;
+        }
+
         private object CreateApiResponse<T>(T? data, string? error = null)
         {
             return new
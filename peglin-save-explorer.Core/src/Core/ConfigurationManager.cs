@@ -598,5 +598,16 @@ namespace peglin_save_explorer.Core
         public DateTime LastModified { get; set; } = DateTime.Now;
         public List<string>? CachedPeglinInstallations { get; set; }
         public DateTime? CachedPeglinInstallationsTimestamp { get; set; }
+        public WebUiSettings? WebUiSettings { get; set; }
+    }
+
+    /// <summary>
+    /// Preferences for the web UI, stored with a schema version so the frontend can migrate older copies
+    /// </summary>
+    public class WebUiSettings
+    {
+        public int Version { get; set; }
+        // Values are booleans and numbers, kept as raw JSON so new settings round-trip untouched
+        public Dictionary<string, JsonElement> Config { get; set; } = new();
     }
 }
\ No newline at end of file
@@ -1826,6 +1826,51 @@ namespace peglin_save_explorer.Core
 
             return orbStats;
         }
+
+        public Dictionary<string, RelicStatistics> GetRelicStatistics(List<RunRecord> runs)
+        {
+            var relicStats = new Dictionary<string, RelicStatistics>();
+            if (runs.Count == 0) return relicStats;
+
+            var totalWins = runs.Count(r => r.Won);
+
+            // Win rate at each cruciball level, used to tell how many wins a relic's runs would have had anyway
+            var winRateByCruciball = runs
+                .GroupBy(r => r.CruciballLevel)
+                .ToDictionary(g => g.Key, g => (double)g.Count(r => r.Won) / g.Count());
+
+            foreach (var run in runs)
+            {
+                foreach (var relic in run.RelicNames.Distinct())
+                {
+                    if (string.IsNullOrEmpty(relic)) continue;
+
+                    if (!relicStats.ContainsKey(relic))
+                    {
+                        relicStats[relic] = new RelicStatistics
+                        {
+                            RelicName = relic,
+                            TotalRuns = runs.Count,
+                            TotalWins = totalWins
+                        };
+                    }
+
+                    var stats = relicStats[relic];
+                    stats.TimesPicked++;
+
+                    if (run.Won)
+                    {
+                        stats.WinsWithRelic++;
+                    }
+
+                    stats.TotalDamageWithRelic += run.DamageDealt;
+                    stats.TotalCruciballWithRelic += run.CruciballLevel;
+                    stats.ExpectedWins += winRateByCruciball[run.CruciballLevel];
+                }
+            }
+
+            return relicStats;
+        }
     }
 
     public class ClassStatistics
@@ -1835,6 +1880,8 @@ namespace peglin_save_explorer.Core
         public int Wins { get; set; }
         public int Losses => TotalRuns - Wins;
         public double WinRate => TotalRuns > 0 ? (double)Wins / TotalRuns : 0;
+        public double WinRateLowerBound => WinRateStatistics.WilsonInterval(Wins, TotalRuns).Lower;
+        public double WinRateUpperBound => WinRateStatistics.WilsonInterval(Wins, TotalRuns).Upper;
         public long TotalDamage { get; set; }
         public int TotalPegsHit { get; set; }
         public TimeSpan TotalDuration { get; set; }
@@ -1855,9 +1902,45 @@ namespace peglin_save_explorer.Core
         public long TotalDamageWithOrb { get; set; }
 
         public double WinRateWithOrb => TotalRunsWithOrb > 0 ? (double)WinsWithOrb / TotalRunsWithOrb : 0;
+        public double WinRateLowerBoundWithOrb => WinRateStatistics.WilsonInterval(WinsWithOrb, TotalRunsWithOrb).Lower;
+        public double WinRateUpperBoundWithOrb => WinRateStatistics.WilsonInterval(WinsWithOrb, TotalRunsWithOrb).Upper;
         public double AverageDamageWithOrb => TotalRunsWithOrb > 0 ? (double)TotalDamageWithOrb / TotalRunsWithOrb : 0;
     }
 
+    public class RelicStatistics
+    {
+        public string RelicName { get; set; } = string.Empty;
+        public int TimesPicked { get; set; }
+        public int WinsWithRelic { get; set; }
+        public long TotalDamageWithRelic { get; set; }
+        public long TotalCruciballWithRelic { get; set; }
+        public int TotalRuns { get; set; }
+        public int TotalWins { get; set; }
+
+        /// <summary>
+        /// Wins the runs with this relic would have had at the overall win rate of their cruciball levels
+        /// </summary>
+        public double ExpectedWins { get; set; }
+
+        public int RunsWithoutRelic => TotalRuns - TimesPicked;
+        public int WinsWithoutRelic => TotalWins - WinsWithRelic;
+        public double PickRate => TotalRuns > 0 ? (double)TimesPicked / TotalRuns : 0;
+        public double WinRateWithRelic => TimesPicked > 0 ? (double)WinsWithRelic / TimesPicked : 0;
+        public double WinRateLowerBoundWithRelic => WinRateStatistics.WilsonInterval(WinsWithRelic, TimesPicked).Lower;
+        public double WinRateUpperBoundWithRelic => WinRateStatistics.WilsonInterval(WinsWithRelic, TimesPicked).Upper;
+        public double WinRateWithoutRelic => RunsWithoutRelic > 0 ? (double)WinsWithoutRelic / RunsWithoutRelic : 0;
+        public double AverageDamageWithRelic => TimesPicked > 0 ? (double)TotalDamageWithRelic / TimesPicked : 0;
+        public double AverageCruciballWithRelic => TimesPicked > 0 ? (double)TotalCruciballWithRelic / TimesPicked : 0;
+
+        /// <summary>
+        /// Overall win rate plus the relic's wins above expectation, so relics mostly taken on
+        /// high cruciball runs aren't penalised for the harder difficulty
+        /// </summary>
+        public double CruciballAdjustedWinRate => TimesPicked > 0 && TotalRuns > 0
+            ? Math.Clamp((double)TotalWins / TotalRuns + (WinsWithRelic - ExpectedWins) / TimesPicked, 0, 1)
+            : 0;
+    }
+
     public class RoomInfo
     {
         public int Id { get; set; }
@@ -39,6 +39,7 @@ namespace peglin_save_explorer.Services
                 var runs = RunDataService.LoadRunHistory(saveFile, _configManager);
                 var classStats = _runHistoryManager.GetClassStatistics(runs);
                 var orbStats = _runHistoryManager.GetOrbStatistics(runs);
+                var relicStats = _runHistoryManager.GetRelicStatistics(runs);
                 var playerStats = ExtractPlayerStatistics(saveData);
 
                 return new RunHistoryData
@@ -46,6 +47,7 @@ namespace peglin_save_explorer.Services
                     Runs = runs,
                     ClassStatistics = classStats,
                     OrbStatistics = orbStats,
+                    RelicStatistics = relicStats,
                     PlayerStatistics = playerStats,
                     TotalRuns = runs.Count,
                     TotalWins = runs.Count(r => r.Won),
@@ -106,6 +108,14 @@ namespace peglin_save_explorer.Services
             return summary;
         }
 
+        /// <summary>
+        /// Per-class statistics for a subset of runs, e.g. after filtering
+        /// </summary>
+        public Dictionary<string, ClassStatistics> GetClassStatistics(List<RunRecord> runs)
+        {
+            return _runHistoryManager.GetClassStatistics(runs);
+        }
+
         /// <summary>
         /// Filter runs based on criteria (extracted from WebCommand)
         /// </summary>
@@ -123,14 +133,18 @@ namespace peglin_save_explorer.Services
                 filteredRuns = filteredRuns.Where(r => r.Won == filter.Won.Value);
             }
 
+            // The web UI sends the bounds of local days as UTC instants and run timestamps
+            // come in mixed kinds, so compare in UTC; both ends are inclusive
             if (filter.StartDate.HasValue)
             {
-                filteredRuns = filteredRuns.Where(r => r.Timestamp >= filter.StartDate.Value);
+                var startDate = filter.StartDate.Value.ToUniversalTime();
+                filteredRuns = filteredRuns.Where(r => r.Timestamp.ToUniversalTime() >= startDate);
             }
 
             if (filter.EndDate.HasValue)
             {
-                filteredRuns = filteredRuns.Where(r => r.Timestamp <= filter.EndDate.Value);
+                var endDate = filter.EndDate.Value.ToUniversalTime();
+                filteredRuns = filteredRuns.Where(r => r.Timestamp.ToUniversalTime() <= endDate);
             }
 
             if (filter.MinDamage.HasValue)
@@ -153,9 +167,77 @@ namespace peglin_save_explorer.Services
                 filteredRuns = filteredRuns.Where(r => r.Duration <= filter.MaxDuration.Value);
             }
 
+            // Exclusion rules from the web UI configuration
+            if (filter.ExcludeCustomRuns)
+            {
+                filteredRuns = filteredRuns.Where(r => !r.IsCustomRun);
+            }
+
+            if (filter.ExcludeTestRuns)
+            {
+                filteredRuns = filteredRuns.Where(r => r.Duration >= filter.TestRunMaxDuration);
+            }
+
+            if (filter.ExcludeIncompleteRuns)
+            {
+                filteredRuns = filteredRuns.Where(r => r.Won || r.VisitedRooms.Contains(BossRoomId));
+            }
+
             return filteredRuns.ToList();
         }
 
+        private const int BossRoomId = 7;
+
+        /// <summary>
+        /// Sort runs and return one page, starting after the cursor run if one is given
+        /// </summary>
+        public RunPage PageRuns(List<RunRecord> runs, RunPageRequest request)
+        {
+            var pageSize = Math.Clamp(request.PageSize, 1, 500);
+            var descending = !string.Equals(request.SortOrder, "asc", StringComparison.OrdinalIgnoreCase);
+
+            // Id is the tiebreaker so the order (and therefore cursors) stays stable
+            var sortedRuns = (request.SortField?.ToLowerInvariant() switch
+            {
+                "characterclass" => SortBy(runs, r => r.CharacterClass, descending),
+                "won" => SortBy(runs, r => r.Won, descending),
+                "damagedealt" => SortBy(runs, r => r.DamageDealt, descending),
+                "pegshit" => SortBy(runs, r => r.PegsHit, descending),
+                "duration" => SortBy(runs, r => r.Duration, descending),
+                "finallevel" => SortBy(runs, r => r.FinalLevel, descending),
+                "cruciballlevel" => SortBy(runs, r => r.CruciballLevel, descending),
+                "coinsearned" => SortBy(runs, r => r.CoinsEarned, descending),
+                _ => SortBy(runs, r => r.Timestamp, descending)
+            }).ThenBy(r => r.Id).ToList();
+
+            var startIndex = request.Page * pageSize;
+            if (!string.IsNullOrEmpty(request.Cursor))
+            {
+                var cursorIndex = sortedRuns.FindIndex(r => r.Id == request.Cursor);
+                if (cursorIndex >= 0)
+                {
+                    startIndex = cursorIndex + 1;
+                }
+            }
+
+            var pageRuns = sortedRuns.Skip(startIndex).Take(pageSize).ToList();
+            var hasMore = startIndex + pageRuns.Count < sortedRuns.Count;
+
+            return new RunPage
+            {
+                Runs = pageRuns,
+                TotalCount = sortedRuns.Count,
+                Page = startIndex / pageSize,
+                PageSize = pageSize,
+                NextCursor = hasMore && pageRuns.Count > 0 ? pageRuns[^1].Id : null
+            };
+        }
+
+        private static IOrderedEnumerable<RunRecord> SortBy<TKey>(List<RunRecord> runs, Func<RunRecord, TKey> keySelector, bool descending)
+        {
+            return descending ? runs.OrderByDescending(keySelector) : runs.OrderBy(keySelector);
+        }
+
         /// <summary>
         /// Export runs to CSV format
         /// </summary>
@@ -359,6 +441,7 @@ namespace peglin_save_explorer.Services
         public List<RunRecord> Runs { get; set; } = new();
         public Dictionary<string, ClassStatistics> ClassStatistics { get; set; } = new();
         public Dictionary<string, OrbStatistics> OrbStatistics { get; set; } = new();
+        public Dictionary<string, RelicStatistics> RelicStatistics { get; set; } = new();
         public PlayerStatistics? PlayerStatistics { get; set; }
         public int TotalRuns { get; set; }
         public int TotalWins { get; set; }
@@ -392,6 +475,31 @@ namespace peglin_save_explorer.Services
         public long? MaxDamage { get; set; }
         public TimeSpan? MinDuration { get; set; }
         public TimeSpan? MaxDuration { get; set; }
+        public bool ExcludeCustomRuns { get; set; }
+        public bool ExcludeTestRuns { get; set; }
+        /// <summary>
+        /// Runs shorter than this are treated as test runs when ExcludeTestRuns is set
+        /// </summary>
+        public TimeSpan TestRunMaxDuration { get; set; } = TimeSpan.FromMinutes(5);
+        public bool ExcludeIncompleteRuns { get; set; }
+    }
+
+    public class RunPageRequest
+    {
+        public int Page { get; set; }
+        public int PageSize { get; set; } = 25;
+        public string? SortField { get; set; }
+        public string? SortOrder { get; set; }
+        public string? Cursor { get; set; }
+    }
+
+    public class RunPage
+    {
+        public List<RunRecord> Runs { get; set; } = new();
+        public int TotalCount { get; set; }
+        public int Page { get; set; }
+        public int PageSize { get; set; }
+        public string? NextCursor { get; set; }
     }
 
     #endregion
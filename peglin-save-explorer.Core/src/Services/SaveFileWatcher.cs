@@ -0,0 +1,95 @@
+using System;
+using System.IO;
+using System.Threading.Tasks;
+using peglin_save_explorer.Utils;
+
+namespace peglin_save_explorer.Services
+{
+    /// <summary>
+    /// Watches the stats file that belongs to a save file and raises an event once a write has settled
+    /// </summary>
+    public class SaveFileWatcher : IDisposable
+    {
+        private readonly string _saveFilePath;
+        private readonly string _statsFilePath;
+        private readonly object _lock = new object();
+        private FileSystemWatcher? _fileWatcher;
+        private DateTime _lastStatsModified = DateTime.MinValue;
+
+        /// <summary>
+        /// Raised with the save file path after the stats file has been rewritten by the game
+        /// </summary>
+        public event Action<string>? StatsFileChanged;
+
+        public SaveFileWatcher(string saveFilePath)
+        {
+            _saveFilePath = saveFilePath;
+            _statsFilePath = RunDataService.GetStatsFilePath(saveFilePath);
+        }
+
+        public bool Start()
+        {
+            var saveDirectory = Path.GetDirectoryName(_saveFilePath);
+            if (string.IsNullOrEmpty(_statsFilePath) || string.IsNullOrEmpty(saveDirectory) || !Directory.Exists(saveDirectory))
+            {
+                Logger.Warning($"Cannot watch for run updates, no stats file found for: {_saveFilePath}");
+                return false;
+            }
+
+            if (File.Exists(_statsFilePath))
+            {
+                _lastStatsModified = File.GetLastWriteTime(_statsFilePath);
+            }
+
+            _fileWatcher = new FileSystemWatcher(saveDirectory)
+            {
+                Filter = Path.GetFileName(_statsFilePath),
+                NotifyFilter = NotifyFilters.LastWrite | NotifyFilters.Size | NotifyFilters.FileName,
+                EnableRaisingEvents = true
+            };
+
+            _fileWatcher.Changed += OnStatsFileChanged;
+            _fileWatcher.Created += OnStatsFileChanged;
+            _fileWatcher.Renamed += OnStatsFileChanged;
+
+            Logger.Info($"Watching for run updates in: {_statsFilePath}");
+            return true;
+        }
+
+        private async void OnStatsFileChanged(object sender, FileSystemEventArgs e)
+        {
+            try
+            {
+                // Debounce file changes - wait for file to be completely written
+                await Task.Delay(1000);
+
+                lock (_lock)
+                {
+                    var lastModified = File.GetLastWriteTime(_statsFilePath);
+                    if (lastModified <= _lastStatsModified)
+                    {
+                        return; // Already handled this write
+                    }
+                    _lastStatsModified = lastModified;
+                }
+
+                Logger.Debug($"Stats file changed: {e.FullPath}");
+                StatsFileChanged?.Invoke(_saveFilePath);
+            }
+            catch (Exception ex)
+            {
+                Logger.Warning($"Error processing stats file change: {ex.Message}");
+            }
+        }
+
+        public void Dispose()
+        {
+            if (_fileWatcher != null)
+            {
+                _fileWatcher.EnableRaisingEvents = false;
+                _fileWatcher.Dispose();
+                _fileWatcher = null;
+            }
+        }
+    }
+}
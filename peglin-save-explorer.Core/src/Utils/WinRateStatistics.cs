@@ -0,0 +1,37 @@
+using System;
+
+namespace peglin_save_explorer.Utils
+{
+    /// <summary>
+    /// Sample-size aware win rates, mirrored by utils/winRate.ts in the web frontend
+    /// </summary>
+    public static class WinRateStatistics
+    {
+        // z for a 95% two-sided interval
+        public const double Z95 = 1.96;
+
+        /// <summary>
+        /// Wilson score interval for wins out of total runs
+        /// </summary>
+        public static (double Lower, double Upper) WilsonInterval(int wins, int total, double z = Z95)
+        {
+            if (total <= 0) return (0, 1);
+
+            var p = (double)wins / total;
+            var z2 = z * z;
+            var denominator = 1 + z2 / total;
+            var center = (p + z2 / (2 * total)) / denominator;
+            var margin = z * Math.Sqrt(p * (1 - p) / total + z2 / (4.0 * total * total)) / denominator;
+
+            return (Math.Max(0, center - margin), Math.Min(1, center + margin));
+        }
+
+        /// <summary>
+        /// Posterior mean under a Beta prior centred on priorRate, worth priorStrength runs
+        /// </summary>
+        public static double ShrinkWinRate(int wins, int total, double priorRate, double priorStrength = 10)
+        {
+            return (wins + priorRate * priorStrength) / (total + priorStrength);
+        }
+    }
+}
@@ -9,24 +9,44 @@ import {
   Alert,
   CircularProgress,
   Backdrop,
+  LinearProgress,
 } from "@mui/material";
 import Dashboard from "./components/Dashboard";
 import RunList from "./components/RunList";
 import RunDetail from "./components/RunDetail";
+import RunCompare from "./components/RunCompare";
+import Sessions from "./components/Sessions";
 import Statistics from "./components/Statistics";
+import Enemies from "./components/Enemies";
+import Records from "./components/Records";
+import CohortCompare from "./components/CohortCompare";
+import PivotExplorer from "./components/PivotExplorer";
+import RouteAnalysis from "./components/RouteAnalysis";
 import SaveData from "./components/SaveData";
 import ImageGallery from "./components/ImageGallery";
 import Config from "./components/Config";
 import FileUpload from "./components/FileUpload";
 import EntitySpriteBrowser from "./components/EntitySpriteBrowser";
+import EntityDetail from "./components/EntityDetail";
 import Navigation from "./components/Navigation";
-import { useAppStore } from "./store/useAppStore";
+import RunUpdateToast from "./components/RunUpdateToast";
+import { useAppStore, useRunsLoading } from "./store/useAppStore";
 import { useSpriteActions } from "./store/useSpriteStore";
 
 function App() {
-  const { isLoading, error, isInitialized, hasData, initialize, clearError } =
-    useAppStore();
+  const {
+    isLoading,
+    error,
+    isInitialized,
+    backendAvailable,
+    hasData,
+    initialize,
+    clearError,
+    startRunUpdates,
+    stopRunUpdates,
+  } = useAppStore();
   const { initialize: initializeSprites } = useSpriteActions();
+  const runsLoading = useRunsLoading();
 
   useEffect(() => {
     if (!isInitialized) {
@@ -36,6 +56,13 @@ function App() {
     initializeSprites();
   }, [isInitialized, initialize, initializeSprites]);
 
+  // Listen for new runs while the app is mounted
+  useEffect(() => {
+    if (!isInitialized || !backendAvailable) return;
+    startRunUpdates();
+    return stopRunUpdates;
+  }, [isInitialized, backendAvailable, startRunUpdates, stopRunUpdates]);
+
   const handleUploadComplete = async () => {
     // Data will be automatically refreshed by the store action
   };
@@ -66,6 +93,9 @@ function App() {
 
       <Navigation />
 
+      {/* Run-based pages fill in once the full run list has loaded in the background */}
+      {runsLoading && <LinearProgress />}
+
       <Container maxWidth="xl" sx={{ mt: 2, mb: 2 }}>
         {error && (
           <Alert severity="error" sx={{ mb: 2 }} onClose={() => clearError()}>
@@ -79,11 +109,19 @@ function App() {
           <Routes>
             <Route path="/" element={<Dashboard />} />
             <Route path="/runs" element={<RunList />} />
+            <Route path="/runs/compare" element={<RunCompare />} />
+            <Route path="/runs/sessions" element={<Sessions />} />
             <Route path="/runs/:id" element={<RunDetail />} />
             <Route path="/statistics" element={<Statistics />} />
+            <Route path="/cohorts" element={<CohortCompare />} />
+            <Route path="/pivot" element={<PivotExplorer />} />
+            <Route path="/routes" element={<RouteAnalysis />} />
+            <Route path="/enemies" element={<Enemies />} />
+            <Route path="/records" element={<Records />} />
             <Route path="/save-data" element={<SaveData />} />
             <Route path="/gallery" element={<ImageGallery />} />
             <Route path="/entities" element={<EntitySpriteBrowser />} />
+            <Route path="/entities/:type/:id" element={<EntityDetail />} />
             <Route path="/config" element={<Config />} />
             <Route
               path="/upload"
@@ -92,6 +130,8 @@ function App() {
           </Routes>
         )}
       </Container>
+
+      <RunUpdateToast />
     </Box>
   );
 }
@@ -6,10 +6,23 @@ import {
   Summary,
   ClassStatistics,
   OrbStatistics,
+  RunQuery,
+  RunPage,
 } from "./types";
+import type { PersistedConfig } from "./utils/configStorage";
 
 const API_BASE = "/api";
 
+const toQueryString = (filters?: RunQuery) => {
+  const params = new URLSearchParams();
+  Object.entries(filters || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      params.append(key, value.toString());
+    }
+  });
+  return params.toString() ? `?${params.toString()}` : "";
+};
+
 export const api = {
   async getHealth(): Promise<{ status: string; timestamp: string }> {
     const response = await fetch(`${API_BASE}/health`);
@@ -23,8 +36,12 @@ export const api = {
     return result.data;
   },
 
-  async getRunHistory(): Promise<RunHistoryData> {
-    const response = await fetch(`${API_BASE}/runs`);
+  // Pass includeRuns: false to fetch only the aggregate statistics
+  async getRunHistory(
+    options: { includeRuns?: boolean } = {}
+  ): Promise<RunHistoryData> {
+    const query = options.includeRuns === false ? "?includeRuns=false" : "";
+    const response = await fetch(`${API_BASE}/runs${query}`);
     const result: ApiResponse<RunHistoryData> = await response.json();
 
     if (!result.success || !result.data) {
@@ -34,31 +51,10 @@ export const api = {
     return result.data;
   },
 
-  async getRuns(filters?: {
-    characterClass?: string;
-    won?: boolean;
-    startDate?: string;
-    endDate?: string;
-    minDamage?: number;
-    maxDamage?: number;
-    minDuration?: number;
-    maxDuration?: number;
-  }): Promise<{ runs: RunRecord[]; totalCount: number }> {
-    const params = new URLSearchParams();
-    if (filters) {
-      Object.entries(filters).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          params.append(key, value.toString());
-        }
-      });
-    }
-
-    const url = `${API_BASE}/runs/filtered${
-      params.toString() ? `?${params.toString()}` : ""
-    }`;
+  async getRuns(filters?: RunQuery): Promise<RunPage> {
+    const url = `${API_BASE}/runs/filtered${toQueryString(filters)}`;
     const response = await fetch(url);
-    const result: ApiResponse<{ runs: RunRecord[]; totalCount: number }> =
-      await response.json();
+    const result: ApiResponse<RunPage> = await response.json();
 
     if (!result.success || !result.data) {
       throw new Error(result.error || "Failed to fetch filtered runs");
@@ -98,8 +94,9 @@ export const api = {
     return result.data;
   },
 
-  async getSummary(): Promise<Summary> {
-    const response = await fetch(`${API_BASE}/summary`);
+  // Takes the same exclusions as getRuns
+  async getSummary(filters?: RunQuery): Promise<Summary> {
+    const response = await fetch(`${API_BASE}/summary${toQueryString(filters)}`);
     const result: ApiResponse<Summary> = await response.json();
 
     if (!result.success || !result.data) {
@@ -156,6 +153,58 @@ export const api = {
     return result.data;
   },
 
+  async getConfig(): Promise<PersistedConfig | null> {
+    const response = await fetch(`${API_BASE}/config`);
+    const result: ApiResponse<PersistedConfig | null> = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error || "Failed to fetch configuration");
+    }
+
+    // The server has no web settings until they have been saved once
+    return result.data ?? null;
+  },
+
+  async saveConfig(config: PersistedConfig): Promise<PersistedConfig> {
+    const response = await fetch(`${API_BASE}/config`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(config),
+    });
+    const result: ApiResponse<PersistedConfig> = await response.json();
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error || "Failed to save configuration");
+    }
+
+    return result.data;
+  },
+
+  // Listen for runs the server picks up from the watched save file.
+  // Returns a function that closes the connection.
+  subscribeToRunUpdates(
+    onRuns: (update: { runs: RunRecord[]; totalRuns: number }) => void,
+    onError?: () => void
+  ): () => void {
+    const source = new EventSource(`${API_BASE}/runs/stream`);
+
+    source.addEventListener("runs", (event) => {
+      try {
+        onRuns(JSON.parse((event as MessageEvent<string>).data));
+      } catch (error) {
+        console.error("Invalid run update:", error);
+      }
+    });
+
+    if (onError) {
+      source.onerror = onError;
+    }
+
+    return () => source.close();
+  },
+
   async exportRuns(format: "json" | "csv" = "json"): Promise<Blob> {
     const response = await fetch(`${API_BASE}/export?format=${format}`);
 
@@ -0,0 +1,248 @@
+import React, { useRef, useState } from "react";
+import { Box, Button, Tooltip } from "@mui/material";
+import { Download as DownloadIcon } from "@mui/icons-material";
+import { alpha, useTheme } from "@mui/material/styles";
+import { RoomInfo, RunRecord } from "../types";
+import { useEntities, useSpriteActions } from "../store/useSpriteStore";
+import { groupRoomsByAct } from "../utils/saveFileParser";
+import { findBossEntity } from "../utils/enemyMatching";
+import { downloadSvgAsPng } from "../utils/imageExport";
+
+interface ActMapProps {
+  run: RunRecord;
+}
+
+const BOSS_ROOM_ID = 7;
+const ACT_WIDTH = 170;
+const HEADER_HEIGHT = 28;
+const PADDING = 36;
+const NODE_SPACING = 58;
+const NODE_RADIUS = 16;
+const BOSS_RADIUS = 24;
+// Sideways offsets so a column of rooms reads like a path rather than a list
+const WIGGLE = [0, 18, -10, 14, -18, 8];
+
+interface MapNode {
+  room: RoomInfo;
+  roomNumber: number;
+  x: number;
+  y: number;
+  isBoss: boolean;
+  bossName?: string;
+  isDeath: boolean;
+}
+
+// The run's rooms drawn as one vertical path per act, from the first room at the
+// bottom up to the boss, like the in-game map
+const ActMap: React.FC<ActMapProps> = ({ run }) => {
+  const theme = useTheme();
+  const entities = useEntities();
+  const { getEntitySprite } = useSpriteActions();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const acts = groupRoomsByAct(run.visitedRoomsInfo || []);
+  const longestAct = acts.reduce((max, act) => Math.max(max, act.length), 1);
+  const width = Math.max(acts.length, 1) * ACT_WIDTH;
+  const height = HEADER_HEIGHT + PADDING * 2 + (longestAct - 1) * NODE_SPACING;
+
+  let roomNumber = 0;
+  const actNodes: MapNode[][] = acts.map((act, actIndex) =>
+    act.map((room, index) => {
+      roomNumber++;
+      const isBoss = room.id === BOSS_ROOM_ID;
+      const isLastRoom = roomNumber === run.visitedRoomsInfo.length;
+      return {
+        room,
+        roomNumber,
+        x: actIndex * ACT_WIDTH + ACT_WIDTH / 2 + WIGGLE[index % WIGGLE.length],
+        y: height - PADDING - index * NODE_SPACING,
+        isBoss,
+        bossName: isBoss ? run.bossNames?.[actIndex] : undefined,
+        isDeath: isLastRoom && !run.won,
+      };
+    })
+  );
+
+  const getRoomColor = (room: RoomInfo) => {
+    const paletteColor = theme.palette[room.color as "primary"];
+    return paletteColor?.main ?? theme.palette.grey[500];
+  };
+
+  const getTooltip = (node: MapNode) => {
+    const label = node.bossName
+      ? `${node.bossName} (Boss)`
+      : node.room.name.replace(/_/g, " ");
+    const ending = node.isDeath
+      ? ` - the run ended here${run.defeatedBy ? `, defeated by ${run.defeatedBy}` : ""}`
+      : "";
+    return `Room ${node.roomNumber}: ${label}${ending}`;
+  };
+
+  const handleExport = async () => {
+    if (!svgRef.current) return;
+    setExporting(true);
+    try {
+      await downloadSvgAsPng(
+        svgRef.current,
+        `peglin-run-${run.id}-map.png`,
+        theme.palette.background.paper
+      );
+    } catch (error) {
+      console.error("Failed to export the act map:", error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderNode = (node: MapNode) => {
+    const radius = node.isBoss ? BOSS_RADIUS : NODE_RADIUS;
+    const color = getRoomColor(node.room);
+    const bossEntity =
+      node.bossName && entities
+        ? findBossEntity(node.bossName, entities.enemies)
+        : null;
+    const bossSprite = bossEntity ? getEntitySprite(bossEntity) : null;
+
+    return (
+      <Tooltip key={node.roomNumber} title={getTooltip(node)} arrow>
+        <g>
+          {node.isDeath && (
+            <circle
+              cx={node.x}
+              cy={node.y}
+              r={radius + 7}
+              fill="none"
+              stroke={theme.palette.error.main}
+              strokeWidth={3}
+              strokeDasharray="5 3"
+            />
+          )}
+          <circle
+            cx={node.x}
+            cy={node.y}
+            r={radius}
+            fill={alpha(color, node.isBoss ? 0.35 : 0.15)}
+            stroke={color}
+            strokeWidth={node.isBoss ? 3 : 2}
+          />
+          {bossSprite ? (
+            <image
+              href={bossSprite.url}
+              x={node.x - radius * 0.7}
+              y={node.y - radius * 0.7}
+              width={radius * 1.4}
+              height={radius * 1.4}
+              preserveAspectRatio="xMidYMid meet"
+              style={{ imageRendering: "pixelated" }}
+            />
+          ) : (
+            <text
+              x={node.x}
+              y={node.y}
+              textAnchor="middle"
+              dominantBaseline="central"
+              fontSize={node.isBoss ? 22 : 15}
+            >
+              {node.room.symbol}
+            </text>
+          )}
+          <text
+            x={node.x - radius - 6}
+            y={node.y}
+            textAnchor="end"
+            dominantBaseline="central"
+            fontSize={9}
+            fill={theme.palette.text.secondary}
+          >
+            {node.roomNumber}
+          </text>
+          {node.bossName && (
+            <text
+              x={node.x}
+              y={node.y - radius - 8}
+              textAnchor="middle"
+              fontSize={11}
+              fontWeight="bold"
+              fill={theme.palette.text.primary}
+            >
+              {node.bossName.length > 22
+                ? `${node.bossName.slice(0, 21)}…`
+                : node.bossName}
+            </text>
+          )}
+          {node.isDeath && (
+            <text
+              x={node.x + radius + 10}
+              y={node.y}
+              dominantBaseline="central"
+              fontSize={14}
+            >
+              ☠
+            </text>
+          )}
+        </g>
+      </Tooltip>
+    );
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: "flex", justifyContent: "flex-end", mb: 1 }}>
+        <Button
+          size="small"
+          startIcon={<DownloadIcon />}
+          onClick={handleExport}
+          disabled={exporting}
+        >
+          Export Image
+        </Button>
+      </Box>
+      <Box sx={{ overflowX: "auto" }}>
+        <svg
+          ref={svgRef}
+          width={width}
+          height={height}
+          role="img"
+          aria-label="Act map"
+          fontFamily={theme.typography.fontFamily}
+        >
+          {actNodes.map((nodes, actIndex) => {
+            const completed = nodes[nodes.length - 1]?.isBoss;
+            return (
+              <g key={actIndex}>
+                <text
+                  x={actIndex * ACT_WIDTH + ACT_WIDTH / 2}
+                  y={18}
+                  textAnchor="middle"
+                  fontSize={13}
+                  fontWeight="bold"
+                  fill={theme.palette.text.primary}
+                >
+                  Act {actIndex + 1}
+                  {completed ? "" : " (Incomplete)"}
+                </text>
+                {nodes.slice(1).map((node, index) => (
+                  <line
+                    key={node.roomNumber}
+                    x1={nodes[index].x}
+                    y1={nodes[index].y}
+                    x2={node.x}
+                    y2={node.y}
+                    stroke={theme.palette.divider}
+                    strokeWidth={3}
+                    strokeDasharray="2 4"
+                    strokeLinecap="round"
+                  />
+                ))}
+                {nodes.map(renderNode)}
+              </g>
+            );
+          })}
+        </svg>
+      </Box>
+    </Box>
+  );
+};
+
+export default ActMap;
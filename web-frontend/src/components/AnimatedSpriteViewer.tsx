@@ -15,6 +15,7 @@ import {
 } from "@mui/icons-material";
 import { Sprite } from "../store/useSpriteStore";
 import SpriteRenderer from "./SpriteRenderer";
+import { isAbortError, runInWorker } from "../workers/workerClient";
 
 interface AnimatedSpriteViewerProps extends Omit<BoxProps, "component"> {
   sprite: Sprite;
@@ -26,66 +27,6 @@ interface AnimatedSpriteViewerProps extends Omit<BoxProps, "component"> {
   skipEmptyFrames?: boolean; // whether to skip frames that contain only transparent pixels
 }
 
-/**
- * Utility function to check if a frame region contains only transparent pixels
- */
-const isFrameEmpty = async (
-  imageUrl: string,
-  frameX: number,
-  frameY: number,
-  frameWidth: number,
-  frameHeight: number
-): Promise<boolean> => {
-  return new Promise((resolve) => {
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-
-    img.onload = () => {
-      // Create a temporary canvas to analyze the frame
-      const canvas = document.createElement("canvas");
-      const ctx = canvas.getContext("2d");
-      if (!ctx) {
-        resolve(false);
-        return;
-      }
-
-      canvas.width = frameWidth;
-      canvas.height = frameHeight;
-
-      // Draw the frame region
-      ctx.drawImage(
-        img,
-        frameX,
-        frameY,
-        frameWidth,
-        frameHeight,
-        0,
-        0,
-        frameWidth,
-        frameHeight
-      );
-
-      // Get pixel data
-      const imageData = ctx.getImageData(0, 0, frameWidth, frameHeight);
-      const data = imageData.data;
-
-      // Check if all pixels are transparent (alpha channel = 0)
-      for (let i = 3; i < data.length; i += 4) {
-        // Check every 4th value (alpha channel)
-        if (data[i] > 0) {
-          resolve(false); // Found a non-transparent pixel
-          return;
-        }
-      }
-
-      resolve(true); // All pixels are transparent
-    };
-
-    img.onerror = () => resolve(false);
-    img.src = imageUrl;
-  });
-};
-
 /**
  * AnimatedSpriteViewer component that displays sprites with frame navigation controls
  * for animated sprites and single frame display for static sprites.
@@ -251,41 +192,39 @@ const AnimatedSpriteViewer: React.FC<AnimatedSpriteViewerProps> = ({
       return;
     }
 
-    const detectEmptyFrames = async () => {
-      const validFrameIndices: number[] = [];
-
-      for (let i = 0; i < frameInfo.totalFrames; i++) {
-        const frame = frameInfo.frames[i];
-        const isEmpty = await isFrameEmpty(
-          sprite.url,
-          frame.x,
-          frame.y,
-          frame.width,
-          frame.height
-        );
-
-        if (!isEmpty) {
-          validFrameIndices.push(i);
+    // The sheet is decoded and scanned in the analytics worker
+    const controller = new AbortController();
+    runInWorker(
+      "nonEmptyFrames",
+      null,
+      {
+        url: new URL(sprite.url, window.location.href).href,
+        frames: frameInfo.frames.slice(0, frameInfo.totalFrames),
+      },
+      controller.signal
+    )
+      .then((validFrameIndices) => {
+        // Ensure we always have at least one frame
+        if (validFrameIndices.length === 0) {
+          validFrameIndices.push(0);
         }
-      }
-
-      // Ensure we always have at least one frame
-      if (validFrameIndices.length === 0) {
-        validFrameIndices.push(0);
-      }
-
-      setNonEmptyFrames(validFrameIndices);
 
-      // Reset current frame to first valid frame if current frame is empty
-      setCurrentFrame((prevFrame) => {
-        if (!validFrameIndices.includes(prevFrame)) {
-          return validFrameIndices[0];
-        }
-        return prevFrame;
+        setNonEmptyFrames(validFrameIndices);
+
+        // Reset current frame to first valid frame if current frame is empty
+        setCurrentFrame((prevFrame) => {
+          if (!validFrameIndices.includes(prevFrame)) {
+            return validFrameIndices[0];
+          }
+          return prevFrame;
+        });
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        setNonEmptyFrames(frameInfo.validFrames || []);
       });
-    };
 
-    detectEmptyFrames();
+    return () => controller.abort();
   }, [sprite.url, frameInfo, skipEmptyFrames]);
 
   // Get the frames we should actually display (either all frames or just non-empty ones)
@@ -0,0 +1,283 @@
+import React, { useMemo } from "react";
+import {
+  Paper,
+  Typography,
+  Box,
+  Grid,
+  Button,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+} from "@mui/material";
+import { SwapHoriz } from "@mui/icons-material";
+import { useSearchParams } from "react-router-dom";
+import {
+  useFilteredRuns,
+  useFilterPresets,
+  useRunHistoryData,
+} from "../store/useAppStore";
+import { useRunFilters } from "../hooks/useRunFilters";
+import {
+  RunFilterState,
+  EMPTY_RUN_FILTERS,
+  applyRunFilters,
+  describeRunFilters,
+  writeRunFilterParams,
+} from "../utils/runFilterParams";
+import { compareCohorts, CohortMetricComparison } from "../utils/cohorts";
+import { toLocalDateKey } from "../utils/sessions";
+import RunFilterFields from "./RunFilterFields";
+import FilterPresets from "./FilterPresets";
+import WinRateRange from "./WinRateRange";
+import SignificanceChip from "./SignificanceChip";
+
+// URL key prefixes of the two cohorts' filters
+const PREFIX_A = "a.";
+const PREFIX_B = "b.";
+
+const CohortCompare: React.FC = () => {
+  const runs = useFilteredRuns();
+  const runHistoryData = useRunHistoryData();
+  const presets = useFilterPresets();
+  const [, setSearchParams] = useSearchParams();
+  const cohortA = useRunFilters(PREFIX_A);
+  const cohortB = useRunFilters(PREFIX_B);
+
+  const characterClasses = useMemo(() => {
+    return Object.keys(runHistoryData?.classStatistics || {}).sort();
+  }, [runHistoryData]);
+
+  const runsA = useMemo(
+    () => applyRunFilters(runs, cohortA.filters),
+    [runs, cohortA.filters]
+  );
+  const runsB = useMemo(
+    () => applyRunFilters(runs, cohortB.filters),
+    [runs, cohortB.filters]
+  );
+  const comparison = useMemo(
+    () => compareCohorts(runsA, runsB),
+    [runsA, runsB]
+  );
+
+  // A saved preset's name, else the filters in query syntax
+  const getCohortLabel = (filters: RunFilterState) => {
+    const params = writeRunFilterParams(new URLSearchParams(), filters).toString();
+    const preset = presets.find((entry) => entry.params === params);
+    return preset?.name || describeRunFilters(filters) || "All runs";
+  };
+  const labelA = getCohortLabel(cohortA.filters);
+  const labelB = getCohortLabel(cohortB.filters);
+
+  const setBoth = (filtersA: RunFilterState, filtersB: RunFilterState) => {
+    setSearchParams(
+      (prev) =>
+        writeRunFilterParams(
+          writeRunFilterParams(prev, filtersA, PREFIX_A),
+          filtersB,
+          PREFIX_B
+        ),
+      { replace: true }
+    );
+  };
+
+  const handleSwap = () => setBoth(cohortB.filters, cohortA.filters);
+
+  // Everything the first cohort leaves out, expressed as a negated query
+  const handleComplement = () => {
+    const description = describeRunFilters(cohortA.filters);
+    cohortB.setFilters({
+      ...EMPTY_RUN_FILTERS,
+      search: description ? `-(${description})` : "",
+    });
+  };
+
+  const handleRecent = () => {
+    const since = new Date();
+    since.setDate(since.getDate() - 30);
+    const before = new Date(since);
+    before.setDate(before.getDate() - 1);
+    setBoth(
+      { ...EMPTY_RUN_FILTERS, startDate: toLocalDateKey(since) },
+      { ...EMPTY_RUN_FILTERS, endDate: toLocalDateKey(before) }
+    );
+  };
+
+  const renderDifference = (row: CohortMetricComparison) => {
+    if (row.valueA === null || row.valueB === null) return "-";
+    const difference = row.valueA - row.valueB;
+    const better = row.metric.higherIsBetter ? difference > 0 : difference < 0;
+    const sign = difference > 0 ? "+" : difference < 0 ? "−" : "";
+    return (
+      <Typography
+        variant="body2"
+        component="span"
+        color={
+          difference === 0 ? "textSecondary" : better ? "success.main" : "error.main"
+        }
+      >
+        {sign}
+        {row.metric.format(Math.abs(difference))}
+      </Typography>
+    );
+  };
+
+  const renderValue = (
+    row: CohortMetricComparison,
+    value: number | null,
+    samples: number,
+    isA: boolean
+  ) => {
+    if (row.metric.key === "winRate") {
+      const estimate = isA ? comparison.winRateA : comparison.winRateB;
+      return <WinRateRange wins={estimate.wins} total={estimate.total} />;
+    }
+    if (value === null) return "-";
+    return (
+      <Tooltip title={`${samples} runs`}>
+        <span>{row.metric.format(value)}</span>
+      </Tooltip>
+    );
+  };
+
+  const renderCohortEditor = (
+    title: string,
+    prefix: string,
+    cohort: ReturnType<typeof useRunFilters>,
+    count: number
+  ) => (
+    <Paper sx={{ p: 2, height: "100%" }}>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 2,
+        }}
+      >
+        <Box>
+          <Typography variant="h6">{title}</Typography>
+          <Typography variant="body2" color="textSecondary">
+            {count} runs
+          </Typography>
+        </Box>
+        <FilterPresets prefix={prefix} />
+      </Box>
+      <RunFilterFields
+        filters={cohort.filters}
+        onChange={cohort.setFilters}
+        characterClasses={characterClasses}
+        compact
+      />
+    </Paper>
+  );
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          flexWrap: "wrap",
+          gap: 1,
+          mb: 2,
+        }}
+      >
+        <Typography variant="h4">Compare Cohorts</Typography>
+        <Box sx={{ display: "flex", gap: 1 }}>
+          <Button variant="outlined" size="small" onClick={handleComplement}>
+            B = everything else
+          </Button>
+          <Button variant="outlined" size="small" onClick={handleRecent}>
+            Last 30 days vs before
+          </Button>
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<SwapHoriz />}
+            onClick={handleSwap}
+          >
+            Swap
+          </Button>
+        </Box>
+      </Box>
+
+      <Grid container spacing={3}>
+        <Grid size={{ xs: 12, md: 6 }}>
+          {renderCohortEditor("Cohort A", PREFIX_A, cohortA, runsA.length)}
+        </Grid>
+        <Grid size={{ xs: 12, md: 6 }}>
+          {renderCohortEditor("Cohort B", PREFIX_B, cohortB, runsB.length)}
+        </Grid>
+
+        <Grid size={12}>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              Report
+            </Typography>
+            {comparison.overlap > 0 && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                {comparison.overlap} runs are in both cohorts, which weakens the
+                significance tests.
+              </Alert>
+            )}
+            {runsA.length === 0 || runsB.length === 0 ? (
+              <Alert severity="info">
+                Both cohorts need at least one run to compare.
+              </Alert>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Metric</TableCell>
+                      <TableCell align="right">A: {labelA}</TableCell>
+                      <TableCell align="right">B: {labelB}</TableCell>
+                      <TableCell align="right">A − B</TableCell>
+                      <TableCell align="right">Significance</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {comparison.metrics.map((row) => (
+                      <TableRow key={row.metric.key}>
+                        <TableCell>
+                          {row.metric.description ? (
+                            <Tooltip title={row.metric.description}>
+                              <span>{row.metric.label}</span>
+                            </Tooltip>
+                          ) : (
+                            row.metric.label
+                          )}
+                        </TableCell>
+                        <TableCell align="right">
+                          {renderValue(row, row.valueA, row.samplesA, true)}
+                        </TableCell>
+                        <TableCell align="right">
+                          {renderValue(row, row.valueB, row.samplesB, false)}
+                        </TableCell>
+                        <TableCell align="right">
+                          {renderDifference(row)}
+                        </TableCell>
+                        <TableCell align="right">
+                          <SignificanceChip pValue={row.pValue} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Paper>
+        </Grid>
+      </Grid>
+    </Box>
+  );
+};
+
+export default CohortCompare;
@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useState } from "react";
 import {
   Paper,
   Typography,
@@ -11,17 +11,59 @@ import {
   Divider,
   Alert,
   Button,
+  Stack,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
 } from "@mui/material";
-import { useAppConfig, useAppActions } from "../store/useAppStore";
+import { Download, Upload } from "@mui/icons-material";
+import { AppConfig, useAppConfig, useAppActions } from "../store/useAppStore";
+import { TEST_RUN_THRESHOLD_OPTIONS } from "../utils/configStorage";
 
 const Config: React.FC = () => {
   const config = useAppConfig();
-  const { updateConfig, refresh } = useAppActions();
+  const { updateConfig, refresh, importConfig, exportConfig } = useAppActions();
+  const [importStatus, setImportStatus] = useState<{
+    type: "success" | "error";
+    message: string;
+  } | null>(null);
 
-  const handleConfigChange = async (key: string, value: boolean) => {
+  // Filters are applied client-side, so pages update as soon as the config changes
+  const handleConfigChange = async (
+    key: keyof AppConfig,
+    value: boolean | number
+  ) => {
     await updateConfig({ [key]: value });
-    // Refresh data when configuration changes
-    await refresh();
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(exportConfig());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "peglin-save-explorer-settings.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      await importConfig(file);
+      setImportStatus({
+        type: "success",
+        message: `Imported settings from ${file.name}`,
+      });
+    } catch (error) {
+      setImportStatus({
+        type: "error",
+        message:
+          error instanceof Error ? error.message : "Failed to import settings",
+      });
+    }
   };
 
   return (
@@ -76,16 +118,36 @@ const Config: React.FC = () => {
                   }
                 />
               }
-              label="Exclude Test Runs"
+              label={`Exclude Test Runs (shorter than ${config.testRunMaxMinutes} minutes)`}
             />
             <Typography
               variant="body2"
               color="textSecondary"
               sx={{ mt: 1, mb: 2 }}
             >
-              Filter out very short runs (less than 5 minutes) that might be
-              test runs or quick exits.
+              Filter out very short runs that might be test runs or quick
+              exits. Save files don't mark test runs, so this goes by duration
+              alone and also hides real runs that ended this early.
             </Typography>
+            <FormControl size="small" sx={{ minWidth: 200, mb: 2 }}>
+              <InputLabel>Test Run Threshold</InputLabel>
+              <Select
+                value={config.testRunMaxMinutes}
+                label="Test Run Threshold"
+                onChange={(e) =>
+                  handleConfigChange("testRunMaxMinutes", Number(e.target.value))
+                }
+              >
+                {/* Keep an imported value selectable even if it isn't a preset */}
+                {[...new Set([...TEST_RUN_THRESHOLD_OPTIONS, config.testRunMaxMinutes])]
+                  .sort((a, b) => a - b)
+                  .map((minutes) => (
+                    <MenuItem key={minutes} value={minutes}>
+                      Under {minutes} minute{minutes === 1 ? "" : "s"}
+                    </MenuItem>
+                  ))}
+              </Select>
+            </FormControl>
 
             <Divider sx={{ my: 2 }} />
 
@@ -141,7 +203,7 @@ const Config: React.FC = () => {
                 </Typography>
                 <Typography variant="body2" color="textSecondary">
                   {config.excludeTestRuns
-                    ? "Short test runs are filtered out"
+                    ? `Runs under ${config.testRunMaxMinutes} minutes are filtered out`
                     : "All runs regardless of duration"}
                 </Typography>
               </Box>
@@ -170,13 +232,58 @@ const Config: React.FC = () => {
           </Card>
         </Grid>
 
+        {/* Settings File */}
+        <Grid size={12}>
+          <Paper sx={{ p: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              Settings File
+            </Typography>
+            <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+              Export your settings to a file to back them up or move them to
+              another browser. Older settings files are upgraded automatically
+              when imported.
+            </Typography>
+
+            {importStatus && (
+              <Alert
+                severity={importStatus.type}
+                sx={{ mb: 2 }}
+                onClose={() => setImportStatus(null)}
+              >
+                {importStatus.message}
+              </Alert>
+            )}
+
+            <Stack direction="row" spacing={2}>
+              <Button
+                variant="outlined"
+                startIcon={<Download />}
+                onClick={handleExport}
+              >
+                Export Settings
+              </Button>
+              <Button variant="outlined" component="label" startIcon={<Upload />}>
+                Import Settings
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  hidden
+                  onChange={handleImport}
+                />
+              </Button>
+            </Stack>
+          </Paper>
+        </Grid>
+
         {/* Information */}
         <Grid size={12}>
           <Alert severity="info">
             <Typography variant="body2">
               Configuration changes will automatically refresh your data and
               update all statistics, charts, and run lists. These settings are
-              saved in your browser and will persist between sessions.
+              saved in your browser and will persist between sessions. When the
+              app is served by the CLI they are also stored in its settings.json,
+              so every browser shares the same preferences.
             </Typography>
           </Alert>
         </Grid>
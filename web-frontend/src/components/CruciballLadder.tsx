@@ -0,0 +1,150 @@
+import React, { useMemo } from "react";
+import {
+  Paper,
+  Typography,
+  Box,
+  Chip,
+  Alert,
+  ToggleButton,
+  ToggleButtonGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Link as MuiLink,
+} from "@mui/material";
+import { Link } from "react-router-dom";
+import { RunRecord } from "../types";
+import { CruciballRung, getCruciballLadders } from "../utils/cruciballLadder";
+import { useUrlParam } from "../hooks/useUrlState";
+import WinRateRange from "./WinRateRange";
+
+interface CruciballLadderProps {
+  runs: RunRecord[];
+}
+
+const RunDateLink: React.FC<{ run: RunRecord | null }> = ({ run }) =>
+  run ? (
+    <MuiLink component={Link} to={`/runs/${encodeURIComponent(run.id)}`}>
+      {new Date(run.timestamp).toLocaleDateString()}
+    </MuiLink>
+  ) : (
+    <>—</>
+  );
+
+const getRungStatus = (rung: CruciballRung, stallLevel: number | undefined) => {
+  if (rung.wins > 0) return <Chip size="small" color="success" label="Beaten" />;
+  if (rung.level === stallLevel) {
+    return <Chip size="small" color="warning" label="Stalled" />;
+  }
+  if (rung.attempts > 0) return <Chip size="small" label="Not beaten" />;
+  return <Chip size="small" variant="outlined" label="Skipped" />;
+};
+
+const CruciballLadder: React.FC<CruciballLadderProps> = ({ runs }) => {
+  const ladders = useMemo(() => getCruciballLadders(runs), [runs]);
+  const [selectedClass, setSelectedClass] = useUrlParam("ladder");
+
+  const ladder =
+    ladders.find((entry) => entry.characterClass === selectedClass) ??
+    ladders[0];
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Typography variant="h6" gutterBottom>
+        Cruciball Progression
+      </Typography>
+      <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+        When each class first attempted and first beat each cruciball level,
+        from your run history. The first level with attempts but no win is
+        where a class is stalling.
+      </Typography>
+
+      {!ladder ? (
+        <Alert severity="info">No runs to build a ladder from.</Alert>
+      ) : (
+        <>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={ladder.characterClass}
+            onChange={(_, value) => value && setSelectedClass(value)}
+            sx={{ mb: 2, flexWrap: "wrap" }}
+          >
+            {ladders.map((entry) => (
+              <ToggleButton key={entry.characterClass} value={entry.characterClass}>
+                {entry.characterClass}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+
+          <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap", mb: 2 }}>
+            <Chip
+              label={`Highest beaten: ${ladder.highestBeaten ?? "none"}`}
+              color={ladder.highestBeaten !== null ? "success" : "default"}
+            />
+            <Chip label={`Highest attempted: ${ladder.highestAttempted}`} />
+            {ladder.stall && (
+              <Chip
+                color="warning"
+                label={`Stalled at ${ladder.stall.level}: ${ladder.stall.attempts} attempt${
+                  ladder.stall.attempts === 1 ? "" : "s"
+                } without a win`}
+              />
+            )}
+          </Box>
+
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Level</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>First Attempted</TableCell>
+                  <TableCell>First Beaten</TableCell>
+                  <TableCell align="right">Attempts to Beat</TableCell>
+                  <TableCell align="right">Attempts</TableCell>
+                  <TableCell align="right">Wins</TableCell>
+                  <TableCell>Win Rate</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {ladder.rungs.map((rung) => (
+                  <TableRow
+                    key={rung.level}
+                    selected={rung.level === ladder.stall?.level}
+                  >
+                    <TableCell>{rung.level}</TableCell>
+                    <TableCell>{getRungStatus(rung, ladder.stall?.level)}</TableCell>
+                    <TableCell>
+                      <RunDateLink run={rung.firstAttempt} />
+                    </TableCell>
+                    <TableCell>
+                      <RunDateLink run={rung.firstWin} />
+                    </TableCell>
+                    <TableCell align="right">
+                      {rung.attemptsToFirstWin ?? "—"}
+                    </TableCell>
+                    <TableCell align="right">{rung.attempts}</TableCell>
+                    <TableCell align="right">{rung.wins}</TableCell>
+                    <TableCell>
+                      {rung.attempts > 0 ? (
+                        <WinRateRange wins={rung.wins} total={rung.attempts} />
+                      ) : (
+                        "—"
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default CruciballLadder;
@@ -1,4 +1,4 @@
-import React, { useMemo } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   Paper,
   Typography,
@@ -9,6 +9,7 @@ import {
   Chip,
   Alert,
   CardActionArea,
+  LinearProgress,
 } from "@mui/material";
 import {
   TrendingUp,
@@ -21,78 +22,157 @@ import { useNavigate } from "react-router-dom";
 import {
   useRunHistoryData,
   useSummary,
-  useRunsAndConfig,
+  useAppConfig,
+  useAppActions,
+  useRunsLoaded,
+  useBackendAvailable,
 } from "../store/useAppStore";
+import { useRunFilters, useUrlFilteredRuns } from "../hooks/useRunFilters";
+import FilterPresets from "./FilterPresets";
+import { describeRunExclusions } from "../utils/runFilters";
+import { hasRunFilters } from "../utils/runFilterParams";
+import { RunGroup } from "../utils/analytics";
+import { RunRecord } from "../types";
+import { useRunSummary, useRunGroups } from "../hooks/useAnalytics";
+import {
+  compareByLowerBound,
+  estimateWinRate,
+  formatWinRateRange,
+} from "../utils/winRate";
+import WinRateRange from "./WinRateRange";
 
-const Dashboard: React.FC = () => {
-  const navigate = useNavigate();
-  const runHistoryData = useRunHistoryData();
+type ClassTotals = Pick<RunGroup, "key" | "wins" | "meanDamage" | "winRateEstimate">;
+
+interface DashboardStats {
+  count: number;
+  wins: number;
+  classes: ClassTotals[];
+}
+
+interface DashboardViewProps {
+  // Null while the numbers are still loading
+  stats: DashboardStats | null;
+  recentRuns: RunRecord[];
+}
+
+// Without URL filters everything comes from the summary, so the landing page
+// doesn't download the full run list
+const SummaryDashboard: React.FC = () => {
   const summary = useSummary();
-  const { runs, excludeCustomRuns } = useRunsAndConfig();
-
-  // Filter runs based on config - using useMemo to prevent infinite loops
-  const filteredRuns = useMemo(() => {
-    return excludeCustomRuns ? runs.filter((run) => !run.isCustomRun) : runs;
-  }, [runs, excludeCustomRuns]);
-
-  // Calculate class statistics from filtered runs
-  const classStats = useMemo(() => {
-    return filteredRuns.reduce((acc, run) => {
-      const className = run.characterClass;
-      if (!acc[className]) {
-        acc[className] = { totalRuns: 0, wins: 0, totalDamage: 0 };
-      }
-      acc[className].totalRuns++;
-      if (run.won) acc[className].wins++;
-      acc[className].totalDamage += run.damageDealt;
-      return acc;
-    }, {} as Record<string, { totalRuns: number; wins: number; totalDamage: number }>);
-  }, [filteredRuns]);
-
-  // Calculate summary stats from filtered data
-  const summaryStats = useMemo(() => {
-    const totalRuns = filteredRuns.length;
-    const totalWins = filteredRuns.filter((run) => run.won).length;
-    const winRate = totalRuns > 0 ? totalWins / totalRuns : 0;
-    return { totalRuns, totalWins, winRate };
-  }, [filteredRuns]);
+  const { getFilteredRuns } = useAppActions();
+  const [recentRuns, setRecentRuns] = useState<RunRecord[]>([]);
+
+  // Refetched whenever the summary changes, e.g. after new runs or a config change
+  useEffect(() => {
+    let cancelled = false;
+    getFilteredRuns({
+      page: 0,
+      pageSize: 5,
+      sortField: "timestamp",
+      sortOrder: "desc",
+    })
+      .then((page) => {
+        if (!cancelled) setRecentRuns(page.runs);
+      })
+      .catch(() => {}); // getFilteredRuns already reports the error
+    return () => {
+      cancelled = true;
+    };
+  }, [getFilteredRuns, summary]);
+
+  const stats = useMemo(
+    () =>
+      summary && {
+        count: summary.totalRuns,
+        wins: summary.totalWins,
+        classes: Object.values(summary.classStatistics)
+          .sort((a, b) => b.totalRuns - a.totalRuns)
+          .map((classStats) => ({
+            key: classStats.className,
+            wins: classStats.wins,
+            meanDamage: classStats.averageDamage,
+            winRateEstimate: estimateWinRate(classStats.wins, classStats.totalRuns),
+          })),
+      },
+    [summary]
+  );
+
+  return <DashboardView stats={stats} recentRuns={recentRuns} />;
+};
+
+// A preset or shared link narrows the charts to the runs matching the URL filters
+const FilteredDashboard: React.FC = () => {
+  const filteredRuns = useUrlFilteredRuns();
+  const runsLoaded = useRunsLoaded();
+  const backendAvailable = useBackendAvailable();
 
+  const summaryStats = useRunSummary(filteredRuns);
+  const classGroups = useRunGroups(filteredRuns, "class");
   const recentRuns = useMemo(() => filteredRuns.slice(0, 5), [filteredRuns]);
 
+  const stats = useMemo(
+    () => ({
+      count: summaryStats.count,
+      wins: summaryStats.wins,
+      classes: classGroups,
+    }),
+    [summaryStats, classGroups]
+  );
+
+  return (
+    <DashboardView
+      stats={backendAvailable && !runsLoaded ? null : stats}
+      recentRuns={recentRuns}
+    />
+  );
+};
+
+const DashboardView: React.FC<DashboardViewProps> = ({ stats, recentRuns }) => {
+  const navigate = useNavigate();
+  const config = useAppConfig();
+  const exclusions = describeRunExclusions(config);
+
   const winsByClass = useMemo(() => {
-    return Object.entries(classStats).map(([className, stats]) => ({
-      label: className,
-      value: stats.wins,
+    return (stats?.classes || []).map((group) => ({
+      label: group.key,
+      value: group.wins,
     }));
-  }, [classStats]);
+  }, [stats]);
 
   const damageByClass = useMemo(() => {
-    return Object.entries(classStats).map(([className, stats]) => ({
-      className,
-      damage: stats.totalRuns > 0 ? stats.totalDamage / stats.totalRuns : 0,
+    return (stats?.classes || []).map((group) => ({
+      className: group.key,
+      damage: group.meanDamage,
     }));
-  }, [classStats]);
+  }, [stats]);
 
-  // Calculate best class from filtered data
+  // Best class by the lower bound of its win rate interval, so a 1/1 class doesn't win
   const bestClass = useMemo(() => {
-    return (
-      Object.entries(classStats).sort((a, b) => {
-        const aWinRate = a[1].totalRuns > 0 ? a[1].wins / a[1].totalRuns : 0;
-        const bWinRate = b[1].totalRuns > 0 ? b[1].wins / b[1].totalRuns : 0;
-        return bWinRate - aWinRate;
-      })[0]?.[0] || "N/A"
+    const [best] = [...(stats?.classes || [])].sort((a, b) =>
+      compareByLowerBound(a.winRateEstimate, b.winRateEstimate)
     );
-  }, [classStats]);
+    return best;
+  }, [stats]);
+
+  const header = (
+    <Box
+      sx={{
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+        mb: 1,
+      }}
+    >
+      <Typography variant="h4">Dashboard</Typography>
+      <FilterPresets showActiveFilters />
+    </Box>
+  );
 
-  if (!runHistoryData || !summary) {
+  if (!stats) {
     return (
       <Box>
-        <Typography variant="h4" gutterBottom>
-          Dashboard
-        </Typography>
-        <Alert severity="info">
-          No data available. Please upload a save file to see your statistics.
-        </Alert>
+        {header}
+        <LinearProgress />
       </Box>
     );
   }
@@ -134,9 +214,7 @@ const Dashboard: React.FC = () => {
 
   return (
     <Box>
-      <Typography variant="h4" gutterBottom>
-        Dashboard
-      </Typography>
+      {header}
       <Grid container spacing={3}>
         {/* Summary Cards */}
         <Grid
@@ -153,10 +231,10 @@ const Dashboard: React.FC = () => {
                   <Typography color="textSecondary" gutterBottom>
                     Total Runs
                   </Typography>
-                  <Typography variant="h5">{summaryStats.totalRuns}</Typography>
-                  {excludeCustomRuns && (
+                  <Typography variant="h5">{stats.count}</Typography>
+                  {exclusions.length > 0 && (
                     <Typography variant="caption" color="textSecondary">
-                      (Custom runs excluded)
+                      ({exclusions.join(", ")} runs excluded)
                     </Typography>
                   )}
                 </Box>
@@ -179,7 +257,7 @@ const Dashboard: React.FC = () => {
                   <Typography color="textSecondary" gutterBottom>
                     Total Wins
                   </Typography>
-                  <Typography variant="h5">{summaryStats.totalWins}</Typography>
+                  <Typography variant="h5">{stats.wins}</Typography>
                 </Box>
               </Box>
             </CardContent>
@@ -200,9 +278,11 @@ const Dashboard: React.FC = () => {
                   <Typography color="textSecondary" gutterBottom>
                     Win Rate
                   </Typography>
-                  <Typography variant="h5">
-                    {(summaryStats.winRate * 100).toFixed(1)}%
-                  </Typography>
+                  <WinRateRange
+                    wins={stats.wins}
+                    total={stats.count}
+                    variant="h5"
+                  />
                 </Box>
               </Box>
             </CardContent>
@@ -223,7 +303,14 @@ const Dashboard: React.FC = () => {
                   <Typography color="textSecondary" gutterBottom>
                     Best Class
                   </Typography>
-                  <Typography variant="h6">{bestClass}</Typography>
+                  <Typography variant="h6">
+                    {bestClass?.key || "N/A"}
+                  </Typography>
+                  {bestClass && (
+                    <Typography variant="caption" color="textSecondary">
+                      {formatWinRateRange(bestClass.winRateEstimate)}
+                    </Typography>
+                  )}
                 </Box>
               </Box>
             </CardContent>
@@ -365,4 +452,24 @@ const Dashboard: React.FC = () => {
   );
 };
 
+const Dashboard: React.FC = () => {
+  const runHistoryData = useRunHistoryData();
+  const { filters } = useRunFilters();
+
+  if (!runHistoryData) {
+    return (
+      <Box>
+        <Typography variant="h4" gutterBottom>
+          Dashboard
+        </Typography>
+        <Alert severity="info">
+          No data available. Please upload a save file to see your statistics.
+        </Alert>
+      </Box>
+    );
+  }
+
+  return hasRunFilters(filters) ? <FilteredDashboard /> : <SummaryDashboard />;
+};
+
 export default Dashboard;
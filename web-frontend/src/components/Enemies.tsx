@@ -0,0 +1,380 @@
+import React, { useMemo } from "react";
+import {
+  Paper,
+  Typography,
+  Box,
+  Grid,
+  Card,
+  CardContent,
+  CardActionArea,
+  Chip,
+  Alert,
+  IconButton,
+  Tooltip,
+} from "@mui/material";
+import { Close as CloseIcon } from "@mui/icons-material";
+import { DataGrid, GridColDef } from "@mui/x-data-grid";
+import { useNavigate } from "react-router-dom";
+import { useUrlFilteredRuns } from "../hooks/useRunFilters";
+import { useUrlParam } from "../hooks/useUrlState";
+import { useEntities, useSpriteActions, Entity } from "../store/useSpriteStore";
+import { getEnemyStatistics, EnemyStatistics } from "../utils/enemyStatistics";
+import { useWorkerTask } from "../hooks/useWorkerTask";
+import FilterPresets from "./FilterPresets";
+
+interface EnemyRow extends EnemyStatistics {
+  id: string;
+  entity?: Entity;
+  displayName: string;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const formatNumber = (num: number) => {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+  return Math.round(num).toString();
+};
+
+const Enemies: React.FC = () => {
+  const navigate = useNavigate();
+  const filteredRuns = useUrlFilteredRuns();
+  const entities = useEntities();
+  const { getEntitySprite } = useSpriteActions();
+  // Enemy whose kills are listed below the table
+  const [selectedEnemy, setSelectedEnemy] = useUrlParam("enemy");
+
+  const summary = useMemo(
+    () => getEnemyStatistics(filteredRuns),
+    [filteredRuns]
+  );
+
+  const enemyNames = useMemo(
+    () => summary.enemies.map((stats) => stats.name),
+    [summary]
+  );
+  const { data: enemyMatches } = useWorkerTask(
+    "enemyMatches",
+    null,
+    { names: enemyNames, enemies: entities?.enemies },
+    !!entities && enemyNames.length > 0
+  );
+
+  const rows = useMemo<EnemyRow[]>(() => {
+    const entitiesById = new Map(
+      (entities?.enemies ?? []).map((entity) => [entity.id, entity])
+    );
+    return summary.enemies.map((stats) => {
+      const entityId = enemyMatches?.[stats.name];
+      const entity = entityId ? entitiesById.get(entityId) : undefined;
+      return {
+        ...stats,
+        id: stats.name,
+        entity,
+        displayName: entity?.name || stats.name,
+      };
+    });
+  }, [summary, entities, enemyMatches]);
+
+  const selectedRow = rows.find((row) => row.name === selectedEnemy);
+
+  const killedRuns = useMemo(() => {
+    if (!selectedRow) return [];
+    const ids = new Set(selectedRow.killedRunIds);
+    return filteredRuns
+      .filter((run) => ids.has(run.id))
+      .sort(
+        (a, b) =>
+          new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      );
+  }, [selectedRow, filteredRuns]);
+
+  const deadliest = rows.find((row) => row.kills > 0);
+  const hardestHitting = [...rows]
+    .filter((row) => row.encounters > 0)
+    .sort((a, b) => b.averageDamagePerEncounter - a.averageDamagePerEncounter)[0];
+
+  const renderEnemyName = (row: EnemyRow) => {
+    const sprite = row.entity ? getEntitySprite(row.entity) : null;
+    return (
+      <Box sx={{ display: "flex", alignItems: "center", gap: 1, height: "100%" }}>
+        {sprite && (
+          <img
+            src={sprite.url}
+            alt={row.displayName}
+            style={{
+              width: 24,
+              height: 24,
+              objectFit: "contain",
+              imageRendering: "pixelated",
+            }}
+          />
+        )}
+        <Tooltip title={row.name !== row.displayName ? row.name : ""}>
+          <span>{row.displayName}</span>
+        </Tooltip>
+      </Box>
+    );
+  };
+
+  const columns: GridColDef<EnemyRow>[] = [
+    {
+      field: "displayName",
+      headerName: "Enemy",
+      flex: 1,
+      minWidth: 220,
+      renderCell: (params) => renderEnemyName(params.row),
+    },
+    {
+      field: "maxHealth",
+      headerName: "Max HP",
+      type: "number",
+      width: 90,
+      valueGetter: (_value, row) => row.entity?.maxHealth ?? null,
+    },
+    {
+      field: "runsFought",
+      headerName: "Runs",
+      type: "number",
+      width: 80,
+    },
+    {
+      field: "encounters",
+      headerName: "Encounters",
+      type: "number",
+      width: 110,
+    },
+    {
+      field: "kills",
+      headerName: "Killed You",
+      type: "number",
+      width: 110,
+    },
+    {
+      field: "killRate",
+      headerName: "Kill Rate",
+      description: "Share of the runs it was fought in that it ended",
+      type: "number",
+      width: 100,
+      valueFormatter: (value: number) => formatPercent(value),
+    },
+    {
+      field: "lossShare",
+      headerName: "Share of Losses",
+      type: "number",
+      width: 130,
+      valueFormatter: (value: number) => formatPercent(value),
+    },
+    {
+      field: "averageDamagePerEncounter",
+      headerName: "Avg Damage / Encounter",
+      type: "number",
+      width: 180,
+      valueFormatter: (value: number) => value.toFixed(1),
+    },
+    {
+      field: "meleeDamageReceived",
+      headerName: "Melee Damage",
+      type: "number",
+      width: 120,
+      valueFormatter: (value: number) => formatNumber(value),
+    },
+    {
+      field: "rangedDamageReceived",
+      headerName: "Ranged Damage",
+      type: "number",
+      width: 120,
+      valueFormatter: (value: number) => formatNumber(value),
+    },
+  ];
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 1,
+        }}
+      >
+        <Typography variant="h4">Enemies</Typography>
+        <FilterPresets showActiveFilters />
+      </Box>
+
+      {rows.length === 0 ? (
+        <Alert severity="info">No enemy data in the selected runs.</Alert>
+      ) : (
+        <Grid container spacing={3}>
+          <Grid size={{ xs: 12, sm: 4 }}>
+            <Card>
+              <CardContent>
+                <Typography color="textSecondary" gutterBottom>
+                  Losses
+                </Typography>
+                <Typography variant="h5">{summary.totalLosses}</Typography>
+                {summary.unattributedLosses > 0 && (
+                  <Typography variant="body2" color="textSecondary">
+                    {summary.unattributedLosses} without a recorded killer
+                  </Typography>
+                )}
+              </CardContent>
+            </Card>
+          </Grid>
+          <Grid size={{ xs: 12, sm: 4 }}>
+            <Card>
+              <CardActionArea
+                disabled={!deadliest}
+                onClick={() => deadliest && setSelectedEnemy(deadliest.name)}
+              >
+                <CardContent>
+                  <Typography color="textSecondary" gutterBottom>
+                    Deadliest Enemy
+                  </Typography>
+                  <Typography variant="h5">
+                    {deadliest?.displayName ?? "N/A"}
+                  </Typography>
+                  {deadliest && (
+                    <Typography variant="body2" color="textSecondary">
+                      {deadliest.kills} kills,{" "}
+                      {formatPercent(deadliest.lossShare)} of losses
+                    </Typography>
+                  )}
+                </CardContent>
+              </CardActionArea>
+            </Card>
+          </Grid>
+          <Grid size={{ xs: 12, sm: 4 }}>
+            <Card>
+              <CardContent>
+                <Typography color="textSecondary" gutterBottom>
+                  Hardest Hitting
+                </Typography>
+                <Typography variant="h5">
+                  {hardestHitting?.displayName ?? "N/A"}
+                </Typography>
+                {hardestHitting && (
+                  <Typography variant="body2" color="textSecondary">
+                    {hardestHitting.averageDamagePerEncounter.toFixed(1)} damage
+                    per encounter
+                  </Typography>
+                )}
+              </CardContent>
+            </Card>
+          </Grid>
+
+          <Grid size={12}>
+            <Paper sx={{ p: 2 }}>
+              <Typography variant="h6" gutterBottom>
+                Lethality
+              </Typography>
+              <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+                Click an enemy to see the runs it ended.
+              </Typography>
+              <DataGrid
+                rows={rows}
+                columns={columns}
+                initialState={{
+                  sorting: { sortModel: [{ field: "kills", sort: "desc" }] },
+                  pagination: { paginationModel: { pageSize: 25 } },
+                }}
+                pageSizeOptions={[25, 50, 100]}
+                onRowClick={(params) => setSelectedEnemy(String(params.id))}
+                getRowClassName={(params) =>
+                  params.id === selectedEnemy ? "Mui-selected" : ""
+                }
+                sx={{ "& .MuiDataGrid-row": { cursor: "pointer" } }}
+                disableRowSelectionOnClick
+                autoHeight
+              />
+            </Paper>
+          </Grid>
+
+          {selectedRow && (
+            <Grid size={12}>
+              <Paper sx={{ p: 2 }}>
+                <Box
+                  sx={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    alignItems: "center",
+                    mb: 2,
+                  }}
+                >
+                  <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                    <Typography variant="h6">Runs ended by</Typography>
+                    {renderEnemyName(selectedRow)}
+                  </Box>
+                  <IconButton size="small" onClick={() => setSelectedEnemy("")}>
+                    <CloseIcon />
+                  </IconButton>
+                </Box>
+
+                {killedRuns.length === 0 ? (
+                  <Alert severity="info">
+                    {selectedRow.displayName} hasn't ended any of the selected
+                    runs.
+                  </Alert>
+                ) : (
+                  <Grid container spacing={2}>
+                    {killedRuns.map((run) => (
+                      <Grid key={run.id} size={{ xs: 12, sm: 6, md: 4 }}>
+                        <Card variant="outlined">
+                          <CardActionArea
+                            onClick={() =>
+                              navigate(`/runs/${encodeURIComponent(run.id)}`)
+                            }
+                          >
+                            <CardContent>
+                              <Box
+                                sx={{
+                                  display: "flex",
+                                  justifyContent: "space-between",
+                                  mb: 1,
+                                }}
+                              >
+                                <Typography variant="subtitle1">
+                                  {run.characterClass}
+                                </Typography>
+                                <Typography
+                                  variant="body2"
+                                  color="textSecondary"
+                                >
+                                  {new Date(run.timestamp).toLocaleDateString()}
+                                </Typography>
+                              </Box>
+                              <Box
+                                sx={{ display: "flex", gap: 1, flexWrap: "wrap" }}
+                              >
+                                {run.cruciballLevel > 0 && (
+                                  <Chip
+                                    size="small"
+                                    label={`Cruciball ${run.cruciballLevel}`}
+                                  />
+                                )}
+                                <Chip
+                                  size="small"
+                                  label={`Level ${run.finalLevel}`}
+                                />
+                                <Chip
+                                  size="small"
+                                  label={`${formatNumber(run.damageDealt)} damage`}
+                                />
+                              </Box>
+                            </CardContent>
+                          </CardActionArea>
+                        </Card>
+                      </Grid>
+                    ))}
+                  </Grid>
+                )}
+              </Paper>
+            </Grid>
+          )}
+        </Grid>
+      )}
+    </Box>
+  );
+};
+
+export default Enemies;
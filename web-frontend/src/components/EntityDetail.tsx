@@ -0,0 +1,194 @@
+import React, { useMemo } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import {
+  Typography,
+  Box,
+  Grid,
+  Card,
+  CardContent,
+  Chip,
+  Alert,
+  Button,
+  CircularProgress,
+  Tooltip,
+} from "@mui/material";
+import { ArrowBack, HelpOutline } from "@mui/icons-material";
+import { useUrlFilteredRuns } from "../hooks/useRunFilters";
+import {
+  Entity,
+  useEntities,
+  useSpriteActions,
+  useSpriteLoading,
+} from "../store/useSpriteStore";
+import {
+  getRarityName,
+  getRarityColor,
+  getRarityTooltip,
+  isUnavailableRarity,
+} from "../utils/rarityHelper";
+import AnimatedSpriteViewer from "./AnimatedSpriteViewer";
+import EntityRunHistory from "./EntityRunHistory";
+import FilterPresets from "./FilterPresets";
+import FormattedDescription from "./FormattedDescription";
+import OrbCareer from "./OrbCareer";
+
+const ENTITY_TYPE_COLORS: Record<Entity["type"], "primary" | "error" | "secondary"> = {
+  relic: "primary",
+  enemy: "error",
+  orb: "secondary",
+};
+
+// A relic, enemy or orb at /entities/:type/:id, with your runs featuring it
+const EntityDetail: React.FC = () => {
+  const { type, id } = useParams<{ type: string; id: string }>();
+  const navigate = useNavigate();
+  const entities = useEntities();
+  const spritesLoading = useSpriteLoading();
+  const { getEntitySprite } = useSpriteActions();
+  const filteredRuns = useUrlFilteredRuns();
+
+  const entity = useMemo(() => {
+    const decodedId = id ? decodeURIComponent(id) : id;
+    const candidates =
+      type === "relic"
+        ? entities?.relics
+        : type === "enemy"
+        ? entities?.enemies
+        : type === "orb"
+        ? entities?.orbs
+        : undefined;
+    return candidates?.find((candidate) => candidate.id === decodedId);
+  }, [entities, type, id]);
+
+  const backButton = (
+    <Button
+      startIcon={<ArrowBack />}
+      onClick={() => navigate(`/entities?tab=${type}`)}
+      sx={{ mb: 2 }}
+    >
+      Back to Entities
+    </Button>
+  );
+
+  if (!entity) {
+    return (
+      <Box>
+        {backButton}
+        {spritesLoading || !entities ? (
+          <Box sx={{ display: "flex", justifyContent: "center", p: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Alert severity="error">
+            Entity not found. It may not be in the extracted entity data.
+          </Alert>
+        )}
+      </Box>
+    );
+  }
+
+  const sprite = getEntitySprite(entity);
+  // Orb descriptions live on their levels
+  const description = entity.description || entity.levels?.[0]?.description;
+
+  return (
+    <Box>
+      {backButton}
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 1,
+        }}
+      >
+        <Typography variant="h4">{entity.name}</Typography>
+        <FilterPresets showActiveFilters />
+      </Box>
+
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, md: 8 }}>
+              <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap", mb: 2 }}>
+                <Chip
+                  label={entity.type}
+                  size="small"
+                  color={ENTITY_TYPE_COLORS[entity.type]}
+                />
+                {entity.rarity && (
+                  <Tooltip title={getRarityTooltip(entity.rarity) || ""} arrow>
+                    <Chip
+                      label={getRarityName(entity.rarity)}
+                      size="small"
+                      color={getRarityColor(entity.rarity)}
+                      icon={
+                        isUnavailableRarity(entity.rarity) ? (
+                          <HelpOutline fontSize="small" />
+                        ) : undefined
+                      }
+                    />
+                  </Tooltip>
+                )}
+                {entity.enemyType && (
+                  <Chip label={entity.enemyType} size="small" variant="outlined" />
+                )}
+                {entity.location && (
+                  <Chip label={entity.location} size="small" variant="outlined" />
+                )}
+                {entity.maxHealth && (
+                  <Chip
+                    label={`${entity.maxHealth} HP`}
+                    size="small"
+                    variant="outlined"
+                  />
+                )}
+              </Box>
+              {description && (
+                <FormattedDescription variant="body1" color="textSecondary" gutterBottom>
+                  {description}
+                </FormattedDescription>
+              )}
+              {entity.effect && entity.effect !== description && (
+                <FormattedDescription
+                  variant="body2"
+                  color="textSecondary"
+                  sx={{ fontStyle: "italic" }}
+                >
+                  {entity.effect}
+                </FormattedDescription>
+              )}
+            </Grid>
+            <Grid size={{ xs: 12, md: 4 }}>
+              {sprite ? (
+                <Box sx={{ display: "flex", justifyContent: "center" }}>
+                  <AnimatedSpriteViewer
+                    sprite={sprite}
+                    size={128}
+                    showControls={true}
+                    showFrameInfo={true}
+                    autoPlay={true}
+                    frameRate={10}
+                    skipEmptyFrames={true}
+                  />
+                </Box>
+              ) : (
+                <Typography variant="body2" color="textSecondary">
+                  No matching sprite found
+                </Typography>
+              )}
+            </Grid>
+          </Grid>
+        </CardContent>
+      </Card>
+
+      {entity.type === "orb" ? (
+        <OrbCareer orb={entity} runs={filteredRuns} />
+      ) : (
+        <EntityRunHistory entity={entity} runs={filteredRuns} />
+      )}
+    </Box>
+  );
+};
+
+export default EntityDetail;
@@ -0,0 +1,231 @@
+import React, { useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Paper,
+  Typography,
+  Grid,
+  Card,
+  CardContent,
+  Chip,
+  Alert,
+  LinearProgress,
+} from "@mui/material";
+import { DataGrid, GridColDef } from "@mui/x-data-grid";
+import { RunRecord } from "../types";
+import { Entity, useEntities } from "../store/useSpriteStore";
+import { useWorkerTask } from "../hooks/useWorkerTask";
+import {
+  EntityRun,
+  getEnemyRuns,
+  getRelicRuns,
+  getRunEnemyNames,
+} from "../utils/entityRuns";
+import WinRateRange from "./WinRateRange";
+
+interface EntityRunHistoryProps {
+  // A relic or an enemy
+  entity: Entity;
+  runs: RunRecord[];
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const formatNumber = (num: number) => {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+  return Math.round(num).toString();
+};
+
+// Your runs featuring a relic or an enemy, with how they went
+const EntityRunHistory: React.FC<EntityRunHistoryProps> = ({ entity, runs }) => {
+  const navigate = useNavigate();
+  const entities = useEntities();
+  const isEnemy = entity.type === "enemy";
+
+  // Run enemy names are matched to entities by word similarity in the analytics worker
+  const enemyNames = useMemo(
+    () => (isEnemy ? getRunEnemyNames(runs) : []),
+    [isEnemy, runs]
+  );
+  const { data: enemyMatches, loading: matching } = useWorkerTask(
+    "enemyMatches",
+    null,
+    { names: enemyNames, enemies: entities?.enemies },
+    !!entities && enemyNames.length > 0
+  );
+
+  const entityRuns = useMemo<EntityRun[]>(() => {
+    if (!isEnemy) return getRelicRuns(entity, runs);
+    const matchedNames = enemyNames.filter(
+      (name) => enemyMatches?.[name] === entity.id
+    );
+    return getEnemyRuns(matchedNames, runs);
+  }, [isEnemy, entity, runs, enemyNames, enemyMatches]);
+
+  const wins = entityRuns.filter(({ run }) => run.won).length;
+  const runsWithout = runs.length - entityRuns.length;
+  const winsWithout = runs.filter((run) => run.won).length - wins;
+  const runsEnded = entityRuns.filter(({ endedRun }) => endedRun).length;
+  const averageDamage =
+    entityRuns.length > 0
+      ? entityRuns.reduce((sum, { run }) => sum + run.damageDealt, 0) /
+        entityRuns.length
+      : 0;
+
+  const columns: GridColDef<EntityRun>[] = [
+    {
+      field: "timestamp",
+      headerName: "Date",
+      width: 130,
+      valueGetter: (_value, row) => new Date(row.run.timestamp).getTime(),
+      valueFormatter: (value: number) => new Date(value).toLocaleDateString(),
+    },
+    {
+      field: "characterClass",
+      headerName: "Class",
+      width: 120,
+      valueGetter: (_value, row) => row.run.characterClass,
+    },
+    {
+      field: "cruciballLevel",
+      headerName: "Cruciball",
+      type: "number",
+      width: 100,
+      valueGetter: (_value, row) => row.run.cruciballLevel,
+    },
+    {
+      field: "won",
+      headerName: "Result",
+      width: 100,
+      valueGetter: (_value, row) => row.run.won,
+      renderCell: (params) => (
+        <Chip
+          label={params.value ? "Victory" : "Defeat"}
+          color={params.value ? "success" : "error"}
+          size="small"
+        />
+      ),
+    },
+    {
+      field: "damageDealt",
+      headerName: "Damage",
+      type: "number",
+      width: 110,
+      valueGetter: (_value, row) => row.run.damageDealt,
+      valueFormatter: (value: number) => formatNumber(value),
+    },
+    ...(isEnemy
+      ? ([
+          {
+            field: "encounters",
+            headerName: "Encounters",
+            type: "number",
+            width: 110,
+          },
+          {
+            field: "damageReceived",
+            headerName: "Damage Taken",
+            type: "number",
+            width: 120,
+          },
+          {
+            field: "endedRun",
+            headerName: "Ended the Run",
+            width: 130,
+            renderCell: (params) =>
+              params.value ? <Chip label="Killed you" size="small" /> : null,
+          },
+        ] as GridColDef<EntityRun>[])
+      : []),
+  ];
+
+  if (isEnemy && matching) {
+    return <LinearProgress />;
+  }
+
+  if (entityRuns.length === 0) {
+    return (
+      <Alert severity="info">
+        {entity.name} doesn't appear in any of the selected runs.
+      </Alert>
+    );
+  }
+
+  return (
+    <Grid container spacing={3}>
+      <Grid size={{ xs: 12, sm: 4 }}>
+        <Card>
+          <CardContent>
+            <Typography color="textSecondary" gutterBottom>
+              {isEnemy ? "Runs Fought" : "Times Taken"}
+            </Typography>
+            <Typography variant="h5">{entityRuns.length}</Typography>
+            <Typography variant="body2" color="textSecondary">
+              {formatPercent(entityRuns.length / runs.length)} of runs
+            </Typography>
+          </CardContent>
+        </Card>
+      </Grid>
+      <Grid size={{ xs: 12, sm: 4 }}>
+        <Card>
+          <CardContent>
+            <Typography color="textSecondary" gutterBottom>
+              Win Rate
+            </Typography>
+            <WinRateRange wins={wins} total={entityRuns.length} variant="h5" />
+            <Typography variant="body2" color="textSecondary">
+              Without it:{" "}
+              {runsWithout > 0 ? formatPercent(winsWithout / runsWithout) : "—"}
+            </Typography>
+          </CardContent>
+        </Card>
+      </Grid>
+      <Grid size={{ xs: 12, sm: 4 }}>
+        <Card>
+          <CardContent>
+            <Typography color="textSecondary" gutterBottom>
+              {isEnemy ? "Runs Ended" : "Average Damage"}
+            </Typography>
+            <Typography variant="h5">
+              {isEnemy ? runsEnded : formatNumber(averageDamage)}
+            </Typography>
+            <Typography variant="body2" color="textSecondary">
+              {isEnemy
+                ? `${formatPercent(runsEnded / entityRuns.length)} of runs fought`
+                : "per run taken"}
+            </Typography>
+          </CardContent>
+        </Card>
+      </Grid>
+
+      <Grid size={12}>
+        <Paper sx={{ p: 2 }}>
+          <Typography variant="h6" gutterBottom>
+            Runs
+          </Typography>
+          <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+            Click a run to open it.
+          </Typography>
+          <DataGrid
+            rows={entityRuns}
+            columns={columns}
+            getRowId={(row) => row.run.id}
+            initialState={{
+              sorting: { sortModel: [{ field: "timestamp", sort: "desc" }] },
+              pagination: { paginationModel: { pageSize: 25 } },
+            }}
+            pageSizeOptions={[25, 50, 100]}
+            onRowClick={(params) =>
+              navigate(`/runs/${encodeURIComponent(String(params.id))}`)
+            }
+            sx={{ "& .MuiDataGrid-row": { cursor: "pointer" } }}
+            disableRowSelectionOnClick
+            autoHeight
+          />
+        </Paper>
+      </Grid>
+    </Grid>
+  );
+};
+
+export default EntityRunHistory;
@@ -18,12 +18,15 @@ import {
   Switch,
   Tooltip,
   IconButton,
+  Button,
 } from "@mui/material";
+import { Link } from "react-router-dom";
 import {
   Search as SearchIcon,
   HelpOutline,
   ArrowBackIos,
   ArrowForwardIos,
+  Timeline as TimelineIcon,
 } from "@mui/icons-material";
 import {
   useEntities,
@@ -33,6 +36,7 @@ import {
   Entity,
   Sprite,
 } from "../store/useSpriteStore";
+import { useUrlParam, useUrlBooleanParam } from "../hooks/useUrlState";
 import SpriteText from "./SpriteText";
 import AnimatedSpriteViewer from "./AnimatedSpriteViewer";
 import {
@@ -198,11 +202,18 @@ const EntitySpriteBrowser: React.FC = () => {
   const error = useSpriteError();
   const { initialize, getEntitySprite } = useSpriteActions();
 
-  const [selectedEntity, setSelectedEntity] = useState<Entity | null>(null);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [selectedTab, setSelectedTab] = useState(0);
-  const [showOnlyWithSprites, setShowOnlyWithSprites] = useState(false);
-  const [skipEmptyFrames, setSkipEmptyFrames] = useState(true);
+  // Tab, search, toggles and the selected entity are kept in the URL so they can be linked
+  const [selectedEntityKey, setSelectedEntityKey] = useUrlParam("entity");
+  const [searchQuery, setSearchQuery] = useUrlParam("q");
+  const [selectedTab, setSelectedTab] = useUrlParam("tab", "relic");
+  const [showOnlyWithSprites, setShowOnlyWithSprites] = useUrlBooleanParam(
+    "withSprites",
+    false
+  );
+  const [skipEmptyFrames, setSkipEmptyFrames] = useUrlBooleanParam(
+    "skipEmpty",
+    true
+  );
 
   // Initialize sprite store on component mount
   useEffect(() => {
@@ -219,15 +230,23 @@ const EntitySpriteBrowser: React.FC = () => {
     ];
   }, [entitiesData]);
 
+  const selectedEntity = useMemo(
+    () =>
+      allEntities.find(
+        (entity) => `${entity.type}:${entity.id}` === selectedEntityKey
+      ) || null,
+    [allEntities, selectedEntityKey]
+  );
+  const setSelectedEntity = (entity: Entity | null) =>
+    setSelectedEntityKey(entity ? `${entity.type}:${entity.id}` : "");
+
   // Filter entities based on current tab and search
   const filteredEntities = useMemo(() => {
     let entities = allEntities;
 
     // Filter by tab
-    const tabFilters = ["relic", "enemy", "orb", "all"];
-    const currentFilter = tabFilters[selectedTab];
-    if (currentFilter !== "all") {
-      entities = entities.filter((entity) => entity.type === currentFilter);
+    if (selectedTab !== "all") {
+      entities = entities.filter((entity) => entity.type === selectedTab);
     }
 
     // Filter by search query
@@ -270,7 +289,7 @@ const EntitySpriteBrowser: React.FC = () => {
     return sprite ? [sprite] : [];
   };
 
-  const handleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
+  const handleTabChange = (_event: React.SyntheticEvent, newValue: string) => {
     setSelectedTab(newValue);
   };
 
@@ -397,10 +416,10 @@ const EntitySpriteBrowser: React.FC = () => {
         </Grid>
       </Paper>
       <Tabs value={selectedTab} onChange={handleTabChange} sx={{ mb: 2 }}>
-        <Tab label={`Relics (${entitiesData.relics.length})`} />
-        <Tab label={`Enemies (${entitiesData.enemies.length})`} />
-        <Tab label={`Orbs (${entitiesData.orbs.length})`} />
-        <Tab label={`All (${allEntities.length})`} />
+        <Tab value="relic" label={`Relics (${entitiesData.relics.length})`} />
+        <Tab value="enemy" label={`Enemies (${entitiesData.enemies.length})`} />
+        <Tab value="orb" label={`Orbs (${entitiesData.orbs.length})`} />
+        <Tab value="all" label={`All (${allEntities.length})`} />
       </Tabs>
       {selectedEntity && (
         <Card sx={{ mb: 3 }}>
@@ -468,6 +487,16 @@ const EntitySpriteBrowser: React.FC = () => {
                   selectedEntity.levels.length > 0 && (
                     <OrbLevelCarousel levels={selectedEntity.levels} />
                   )}
+                <Button
+                  component={Link}
+                  to={`/entities/${selectedEntity.type}/${encodeURIComponent(
+                    selectedEntity.id
+                  )}`}
+                  startIcon={<TimelineIcon />}
+                  sx={{ mt: 2 }}
+                >
+                  Details &amp; Play History
+                </Button>
               </Grid>
               <Grid
                 size={{
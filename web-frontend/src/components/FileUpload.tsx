@@ -7,7 +7,7 @@ import {
   CircularProgress,
 } from "@mui/material";
 import { Upload as UploadIcon } from "@mui/icons-material";
-import { useAppActions } from "../store/useAppStore";
+import { useAppActions, useBackendAvailable } from "../store/useAppStore";
 
 interface FileUploadProps {
   onUploadComplete?: () => void;
@@ -15,21 +15,31 @@ interface FileUploadProps {
 
 const FileUpload: React.FC<FileUploadProps> = ({ onUploadComplete }) => {
   const { uploadSaveFile } = useAppActions();
+  const backendAvailable = useBackendAvailable();
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
 
   const handleFileUpload = useCallback(
-    async (file: File) => {
-      if (!file) return;
+    async (files: File[]) => {
+      if (files.length === 0) return;
 
       setUploading(true);
       setError(null);
       setSuccess(null);
 
       try {
-        await uploadSaveFile(file);
-        setSuccess(`Successfully loaded save file: ${file.name}`);
+        // Load save files before stats files so player statistics are attached to the runs
+        const ordered = [...files].sort(
+          (a, b) =>
+            Number(/^stats/i.test(a.name)) - Number(/^stats/i.test(b.name))
+        );
+        for (const file of ordered) {
+          await uploadSaveFile(file);
+        }
+        setSuccess(
+          `Successfully loaded save file: ${files.map((f) => f.name).join(", ")}`
+        );
         if (onUploadComplete) {
           onUploadComplete();
         }
@@ -46,10 +56,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onUploadComplete }) => {
 
   const handleFileSelect = useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
-      const file = event.target.files?.[0];
-      if (file) {
-        handleFileUpload(file);
-      }
+      handleFileUpload(Array.from(event.target.files ?? []));
     },
     [handleFileUpload]
   );
@@ -57,10 +64,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onUploadComplete }) => {
   const handleDrop = useCallback(
     (event: React.DragEvent<HTMLDivElement>) => {
       event.preventDefault();
-      const file = event.dataTransfer.files[0];
-      if (file) {
-        handleFileUpload(file);
-      }
+      handleFileUpload(Array.from(event.dataTransfer.files));
     },
     [handleFileUpload]
   );
@@ -90,6 +94,14 @@ const FileUpload: React.FC<FileUploadProps> = ({ onUploadComplete }) => {
         formats: .data files
       </Alert>
 
+      {!backendAvailable && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          No server connection - files are decoded in your browser. Run history
+          is stored in Stats_0.data; add Save_0.data as well for player
+          statistics and cruciball levels.
+        </Alert>
+      )}
+
       {error && (
         <Alert severity="error" sx={{ mb: 2 }}>
           {error}
@@ -123,6 +135,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onUploadComplete }) => {
         <input
           type="file"
           accept=".data,.save"
+          multiple
           style={{ display: "none" }}
           onChange={handleFileSelect}
           disabled={uploading}
@@ -141,7 +154,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onUploadComplete }) => {
             <UploadIcon sx={{ fontSize: 64, color: "grey.400", mb: 2 }} />
 
             <Typography variant="h6" gutterBottom>
-              Drag and drop your save file here
+              Drag and drop your save files here
             </Typography>
 
             <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
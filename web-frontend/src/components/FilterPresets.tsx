@@ -0,0 +1,178 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  ListItemText,
+  Menu,
+  MenuItem,
+  TextField,
+} from "@mui/material";
+import { BookmarkBorder, Delete, FilterList } from "@mui/icons-material";
+import { useFilterPresets, useAppActions } from "../store/useAppStore";
+import { useRunFilters } from "../hooks/useRunFilters";
+import {
+  describeRunFilters,
+  hasRunFilters,
+  parseRunFilterParams,
+  writeRunFilterParams,
+} from "../utils/runFilterParams";
+import { FilterPreset } from "../utils/filterPresets";
+
+interface FilterPresetsProps {
+  // Show the active filters as a removable chip (for views without a filter panel)
+  showActiveFilters?: boolean;
+  // URL key prefix of the filters to load and save, see useRunFilters
+  prefix?: string;
+}
+
+const FilterPresets: React.FC<FilterPresetsProps> = ({
+  showActiveFilters = false,
+  prefix = "",
+}) => {
+  const presets = useFilterPresets();
+  const { saveFilterPreset, deleteFilterPreset } = useAppActions();
+  const { filters, setFilters, clearFilters } = useRunFilters(prefix);
+
+  const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [presetName, setPresetName] = useState("");
+
+  const filtersActive = hasRunFilters(filters);
+  const currentParams = writeRunFilterParams(
+    new URLSearchParams(),
+    filters
+  ).toString();
+
+  const handleApply = (preset: FilterPreset) => {
+    setFilters(parseRunFilterParams(new URLSearchParams(preset.params)));
+    setMenuAnchor(null);
+  };
+
+  const handleOpenSave = () => {
+    setPresetName(describeRunFilters(filters));
+    setSaveDialogOpen(true);
+    setMenuAnchor(null);
+  };
+
+  const handleSave = () => {
+    saveFilterPreset(presetName.trim(), currentParams);
+    setSaveDialogOpen(false);
+  };
+
+  return (
+    <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+      {showActiveFilters && filtersActive && (
+        <Chip
+          icon={<FilterList />}
+          label={describeRunFilters(filters)}
+          onDelete={clearFilters}
+          color="primary"
+          variant="outlined"
+        />
+      )}
+
+      <Button
+        variant="outlined"
+        size="small"
+        startIcon={<BookmarkBorder />}
+        onClick={(e) => setMenuAnchor(e.currentTarget)}
+      >
+        Presets
+      </Button>
+
+      <Menu
+        anchorEl={menuAnchor}
+        open={!!menuAnchor}
+        onClose={() => setMenuAnchor(null)}
+      >
+        {presets.length === 0 && (
+          <MenuItem disabled>No saved presets</MenuItem>
+        )}
+        {presets.map((preset) => (
+          <MenuItem
+            key={preset.id}
+            selected={preset.params === currentParams && filtersActive}
+            onClick={() => handleApply(preset)}
+          >
+            <ListItemText
+              primary={preset.name}
+              secondary={describeRunFilters(
+                parseRunFilterParams(new URLSearchParams(preset.params))
+              )}
+            />
+            <IconButton
+              size="small"
+              edge="end"
+              sx={{ ml: 2 }}
+              onClick={(e) => {
+                e.stopPropagation();
+                deleteFilterPreset(preset.id);
+              }}
+            >
+              <Delete fontSize="small" />
+            </IconButton>
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem disabled={!filtersActive} onClick={handleOpenSave}>
+          Save current filters...
+        </MenuItem>
+        <MenuItem
+          disabled={!filtersActive}
+          onClick={() => {
+            clearFilters();
+            setMenuAnchor(null);
+          }}
+        >
+          Clear filters
+        </MenuItem>
+      </Menu>
+
+      <Dialog
+        open={saveDialogOpen}
+        onClose={() => setSaveDialogOpen(false)}
+        fullWidth
+        maxWidth="xs"
+      >
+        <DialogTitle>Save Filter Preset</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="Preset name"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && presetName.trim()) handleSave();
+            }}
+            helperText={
+              presets.some((preset) => preset.name === presetName.trim())
+                ? "This will replace the existing preset"
+                : undefined
+            }
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={!presetName.trim()}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default FilterPresets;
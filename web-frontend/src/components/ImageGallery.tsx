@@ -25,6 +25,7 @@ import {
   Animation as AnimationIcon,
   Info as InfoIcon,
 } from "@mui/icons-material";
+import { useUrlParam } from "../hooks/useUrlState";
 
 interface SpriteFrame {
   name: string;
@@ -78,7 +79,7 @@ const ImageGallery: React.FC = () => {
   const [sprites, setSprites] = useState<Sprite[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedTab, setSelectedTab] = useState(0);
+  const [selectedTab, setSelectedTab] = useUrlParam("tab", "all");
   const [selectedSprite, setSelectedSprite] = useState<Sprite | null>(null);
   const [animationData, setAnimationData] = useState<AnimationData | null>(
     null
@@ -145,13 +146,11 @@ const ImageGallery: React.FC = () => {
 
   const getFilteredSprites = () => {
     switch (selectedTab) {
-      case 0: // All
-        return sprites;
-      case 1: // Relics
+      case "relics":
         return sprites.filter((s) => s.type === "relic");
-      case 2: // Enemies
+      case "enemies":
         return sprites.filter((s) => s.type === "enemy");
-      case 3: // Atlases
+      case "atlases":
         return sprites.filter((s) => s.isAtlas);
       default:
         return sprites;
@@ -217,10 +216,10 @@ const ImageGallery: React.FC = () => {
           value={selectedTab}
           onChange={(e, newValue) => setSelectedTab(newValue)}
         >
-          <Tab label={`All (${sprites.length})`} />
-          <Tab label={`Relics (${relicCount})`} />
-          <Tab label={`Enemies (${enemyCount})`} />
-          <Tab label={`Atlases (${atlasCount})`} />
+          <Tab value="all" label={`All (${sprites.length})`} />
+          <Tab value="relics" label={`Relics (${relicCount})`} />
+          <Tab value="enemies" label={`Enemies (${enemyCount})`} />
+          <Tab value="atlases" label={`Atlases (${atlasCount})`} />
         </Tabs>
       </Box>
       <Grid container spacing={2}>
@@ -1,6 +1,6 @@
 import React from "react";
 import { Link, useLocation } from "react-router-dom";
-import { Tabs, Tab, Box } from "@mui/material";
+import { Tabs, Tab, Box, Badge } from "@mui/material";
 import {
   Dashboard as DashboardIcon,
   List as ListIcon,
@@ -10,30 +10,56 @@ import {
   Settings as SettingsIcon,
   Image as ImageIcon,
   Link as LinkIcon,
+  PestControl as EnemyIcon,
+  EmojiEvents as RecordsIcon,
 } from "@mui/icons-material";
+import { RUN_FILTER_PARAM_KEYS } from "../utils/runFilterParams";
+import { useRecords } from "../hooks/useRecords";
 
 const Navigation: React.FC = () => {
   const location = useLocation();
+  // Flags records set by uploaded or live-updated runs on every page
+  const { newRecordIds } = useRecords();
+
+  // Carry the run filters between the views that share them
+  const runFilterSearch = (() => {
+    const current = new URLSearchParams(location.search);
+    const params = new URLSearchParams();
+    RUN_FILTER_PARAM_KEYS.forEach((key) => {
+      const value = current.get(key);
+      if (value !== null) params.set(key, value);
+    });
+    const search = params.toString();
+    return search ? `?${search}` : "";
+  })();
 
   const getCurrentTab = () => {
     if (location.pathname.startsWith("/runs")) {
       return 1; // Run History tab for both /runs and /runs/:id
     }
+    if (location.pathname.startsWith("/entities")) {
+      return 7; // Entities tab for the browser and entity pages
+    }
     switch (location.pathname) {
       case "/":
         return 0;
       case "/statistics":
+      case "/cohorts":
+      case "/pivot":
+      case "/routes":
         return 2;
-      case "/save-data":
+      case "/enemies":
         return 3;
-      case "/gallery":
+      case "/records":
         return 4;
-      case "/entities":
+      case "/save-data":
         return 5;
-      case "/config":
+      case "/gallery":
         return 6;
+      case "/config":
+        return 8;
       case "/upload":
-        return 7;
+        return 9;
       default:
         return 0;
     }
@@ -46,19 +72,35 @@ const Navigation: React.FC = () => {
           icon={<DashboardIcon />}
           label="Dashboard"
           component={Link}
-          to="/"
+          to={{ pathname: "/", search: runFilterSearch }}
         />
         <Tab
           icon={<ListIcon />}
           label="Run History"
           component={Link}
-          to="/runs"
+          to={{ pathname: "/runs", search: runFilterSearch }}
         />
         <Tab
           icon={<AnalyticsIcon />}
           label="Statistics"
           component={Link}
-          to="/statistics"
+          to={{ pathname: "/statistics", search: runFilterSearch }}
+        />
+        <Tab
+          icon={<EnemyIcon />}
+          label="Enemies"
+          component={Link}
+          to={{ pathname: "/enemies", search: runFilterSearch }}
+        />
+        <Tab
+          icon={
+            <Badge color="secondary" badgeContent={newRecordIds.length}>
+              <RecordsIcon />
+            </Badge>
+          }
+          label="Records"
+          component={Link}
+          to="/records"
         />
         <Tab
           icon={<StorageIcon />}
@@ -0,0 +1,244 @@
+import React, { useMemo } from "react";
+import { Typography, Box, Grid, Chip } from "@mui/material";
+import { BarChart, PieChart } from "@mui/x-charts";
+import { DataGrid, GridColDef } from "@mui/x-data-grid";
+import { RunRecord } from "../types";
+import { useSpriteActions, Entity } from "../store/useSpriteStore";
+import {
+  ORB_LEVELS,
+  OrbBreakdownRow,
+  getOrbBreakdown,
+} from "../utils/orbBreakdown";
+
+interface OrbBreakdownProps {
+  run: RunRecord;
+  // Orb entities keyed like run.orbStats, as built by RunDetail
+  orbEntities: Record<string, Entity>;
+}
+
+// Slices beyond this are merged into "Other" in the damage share pie
+const MAX_PIE_SLICES = 8;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const formatNumber = (num: number) => {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+  return Math.round(num).toString();
+};
+
+// Entity name when the orb is mapped, otherwise the run name without its level
+const getOrbName = (row: OrbBreakdownRow, orbEntities: Record<string, Entity>) =>
+  orbEntities[row.id]?.name || row.orb.name.replace(/-Lvl\d+$/i, "");
+
+const OrbBreakdown: React.FC<OrbBreakdownProps> = ({ run, orbEntities }) => {
+  const { getEntitySprite } = useSpriteActions();
+  const breakdown = useMemo(() => getOrbBreakdown(run), [run]);
+
+  const pieData = useMemo(() => {
+    const dealtDamage = breakdown.rows.filter((row) => row.damageDealt > 0);
+    const slices = dealtDamage.slice(0, MAX_PIE_SLICES).map((row) => ({
+      id: row.id,
+      label: getOrbName(row, orbEntities),
+      value: row.damageDealt,
+    }));
+    const otherDamage = dealtDamage
+      .slice(MAX_PIE_SLICES)
+      .reduce((sum, row) => sum + row.damageDealt, 0);
+    if (otherDamage > 0) {
+      slices.push({ id: "other", label: "Other", value: otherDamage });
+    }
+    return slices;
+  }, [breakdown, orbEntities]);
+
+  const deckRows = breakdown.rows.filter((row) => row.deckCount > 0);
+
+  const columns: GridColDef<OrbBreakdownRow>[] = [
+    {
+      field: "name",
+      headerName: "Orb",
+      flex: 1,
+      minWidth: 180,
+      valueGetter: (_value, row) => getOrbName(row, orbEntities),
+      renderCell: (params) => {
+        const orbEntity = orbEntities[params.row.id];
+        const sprite = orbEntity ? getEntitySprite(orbEntity) : null;
+        return (
+          <Box sx={{ display: "flex", alignItems: "center", gap: 1, height: "100%" }}>
+            {sprite && (
+              <img
+                src={sprite.url}
+                alt={params.value}
+                style={{
+                  width: 24,
+                  height: 24,
+                  objectFit: "contain",
+                  imageRendering: "pixelated",
+                }}
+              />
+            )}
+            <span>{params.value}</span>
+          </Box>
+        );
+      },
+    },
+    {
+      field: "damageDealt",
+      headerName: "Damage",
+      type: "number",
+      width: 100,
+      valueFormatter: (value: number) => formatNumber(value),
+    },
+    {
+      field: "damageShare",
+      headerName: "Share",
+      type: "number",
+      width: 90,
+      valueFormatter: (value: number) => formatPercent(value),
+    },
+    {
+      field: "timesFired",
+      headerName: "Fired",
+      type: "number",
+      width: 80,
+    },
+    {
+      field: "damagePerFire",
+      headerName: "Damage / Fire",
+      type: "number",
+      width: 120,
+      valueFormatter: (value: number | null) =>
+        value === null ? "—" : formatNumber(value),
+    },
+    {
+      field: "timesDiscarded",
+      headerName: "Discarded",
+      type: "number",
+      width: 100,
+    },
+    {
+      field: "discardRate",
+      headerName: "Discard Rate",
+      description: "Share of draws that were discarded instead of fired",
+      type: "number",
+      width: 120,
+      valueFormatter: (value: number | null) =>
+        value === null ? "—" : formatPercent(value),
+    },
+    {
+      field: "timesRemoved",
+      headerName: "Removed",
+      type: "number",
+      width: 90,
+    },
+    {
+      field: "deckCount",
+      headerName: "In Deck",
+      description: "Copies in the final deck by level",
+      type: "number",
+      width: 140,
+      renderCell: (params) =>
+        params.row.levelCounts
+          .map((count, index) => (count > 0 ? `${count}× L${index + 1}` : null))
+          .filter(Boolean)
+          .join(", ") || "0",
+    },
+  ];
+
+  return (
+    <Grid container spacing={2}>
+      <Grid size={{ xs: 12, md: 5 }}>
+        <Typography variant="subtitle1" fontWeight="bold">
+          Damage Share
+        </Typography>
+        <Typography variant="body2" color="textSecondary">
+          {formatNumber(breakdown.totalDamage)} damage from orbs
+        </Typography>
+        {pieData.length > 0 ? (
+          <Box sx={{ display: "flex", justifyContent: "center" }}>
+            <PieChart
+              series={[
+                {
+                  data: pieData,
+                  innerRadius: 30,
+                  outerRadius: 90,
+                  paddingAngle: 2,
+                  cornerRadius: 5,
+                  valueFormatter: (item) =>
+                    `${formatNumber(item.value)} (${formatPercent(
+                      breakdown.totalDamage > 0
+                        ? item.value / breakdown.totalDamage
+                        : 0
+                    )})`,
+                },
+              ]}
+              width={400}
+              height={320}
+              slotProps={{
+                legend: {
+                  position: { vertical: "bottom", horizontal: "center" },
+                },
+              }}
+              margin={{ top: 20, bottom: 60, left: 60, right: 60 }}
+            />
+          </Box>
+        ) : (
+          <Typography variant="body2" color="textSecondary" sx={{ mt: 2 }}>
+            No orb damage recorded for this run.
+          </Typography>
+        )}
+      </Grid>
+
+      <Grid size={{ xs: 12, md: 7 }}>
+        <Typography variant="subtitle1" fontWeight="bold">
+          Deck Composition by Level
+        </Typography>
+        <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap", my: 1 }}>
+          {breakdown.levelTotals.map((count, index) => (
+            <Chip
+              key={index}
+              size="small"
+              variant="outlined"
+              color="secondary"
+              label={`Lvl ${index + 1}: ${count}`}
+            />
+          ))}
+        </Box>
+        {deckRows.length > 0 && (
+          <BarChart
+            layout="horizontal"
+            yAxis={[
+              {
+                scaleType: "band",
+                data: deckRows.map((row) => getOrbName(row, orbEntities)),
+                width: 110,
+              },
+            ]}
+            series={Array.from({ length: ORB_LEVELS }, (_, index) => ({
+              label: `Lvl ${index + 1}`,
+              data: deckRows.map((row) => row.levelCounts[index]),
+              stack: "deck",
+            }))}
+            height={Math.max(160, deckRows.length * 28 + 70)}
+          />
+        )}
+      </Grid>
+
+      <Grid size={12}>
+        <DataGrid
+          rows={breakdown.rows}
+          columns={columns}
+          initialState={{
+            sorting: { sortModel: [{ field: "damageDealt", sort: "desc" }] },
+          }}
+          density="compact"
+          disableRowSelectionOnClick
+          hideFooter
+          autoHeight
+        />
+      </Grid>
+    </Grid>
+  );
+};
+
+export default OrbBreakdown;
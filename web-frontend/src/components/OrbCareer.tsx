@@ -0,0 +1,231 @@
+import React, { useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Paper,
+  Typography,
+  Grid,
+  Card,
+  CardContent,
+  Chip,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from "@mui/material";
+import { RunRecord } from "../types";
+import { Entity } from "../store/useSpriteStore";
+import { getOrbCareer } from "../utils/orbCareer";
+import WinRateRange from "./WinRateRange";
+
+interface OrbCareerProps {
+  orb: Entity;
+  runs: RunRecord[];
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const formatNumber = (num: number) => {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+  return Math.round(num).toString();
+};
+
+const formatDamagePerFire = (value: number | null) =>
+  value === null ? "—" : value.toFixed(1);
+
+// How one orb family has done across your runs
+const OrbCareer: React.FC<OrbCareerProps> = ({ orb, runs }) => {
+  const navigate = useNavigate();
+  const career = useMemo(() => getOrbCareer(orb, runs), [orb, runs]);
+
+  if (career.runsTaken === 0) {
+    return (
+      <Alert severity="info">
+        {orb.name} wasn't taken in any of the selected runs.
+      </Alert>
+    );
+  }
+
+  return (
+    <Grid container spacing={3}>
+      <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+        <Card>
+          <CardContent>
+            <Typography color="textSecondary" gutterBottom>
+              Times Taken
+            </Typography>
+            <Typography variant="h5">{career.runsTaken}</Typography>
+            <Typography variant="body2" color="textSecondary">
+              {formatPercent(career.runsTaken / career.totalRuns)} of runs
+              {career.startingRuns > 0 &&
+                `, ${career.startingRuns} as a starting orb`}
+            </Typography>
+          </CardContent>
+        </Card>
+      </Grid>
+      <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+        <Card>
+          <CardContent>
+            <Typography color="textSecondary" gutterBottom>
+              Win Rate
+            </Typography>
+            <WinRateRange
+              wins={career.winsTaken}
+              total={career.runsTaken}
+              variant="h5"
+            />
+            <Typography variant="body2" color="textSecondary">
+              Without it:{" "}
+              {career.runsWithout > 0
+                ? formatPercent(career.winsWithout / career.runsWithout)
+                : "—"}
+            </Typography>
+          </CardContent>
+        </Card>
+      </Grid>
+      <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+        <Card>
+          <CardContent>
+            <Typography color="textSecondary" gutterBottom>
+              Damage Dealt
+            </Typography>
+            <Typography variant="h5">
+              {formatNumber(career.damageDealt)}
+            </Typography>
+            <Typography variant="body2" color="textSecondary">
+              {formatNumber(career.timesFired)} shots,{" "}
+              {formatDamagePerFire(
+                career.timesFired > 0
+                  ? career.damageDealt / career.timesFired
+                  : null
+              )}{" "}
+              per shot
+            </Typography>
+          </CardContent>
+        </Card>
+      </Grid>
+      <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+        <Card>
+          <CardContent>
+            <Typography color="textSecondary" gutterBottom>
+              Highest Cruciball Beaten
+            </Typography>
+            <Typography variant="h5">
+              {career.highestCruciballBeat ?? "—"}
+            </Typography>
+            <Typography variant="body2" color="textSecondary">
+              as recorded by the game for this orb
+            </Typography>
+          </CardContent>
+        </Card>
+      </Grid>
+
+      <Grid size={{ xs: 12, md: 6 }}>
+        <Paper sx={{ p: 2, height: "100%" }}>
+          <Typography variant="h6" gutterBottom>
+            By Level
+          </Typography>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Level</TableCell>
+                  <TableCell align="right">Damage / Crit per Peg</TableCell>
+                  <TableCell align="right">Runs</TableCell>
+                  <TableCell align="right">Shots</TableCell>
+                  <TableCell align="right">Avg Damage per Fire</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {career.levels.map((level) => (
+                  <TableRow key={level.level}>
+                    <TableCell>
+                      <Chip
+                        label={`Lvl ${level.level}`}
+                        size="small"
+                        color="secondary"
+                        variant="outlined"
+                      />
+                    </TableCell>
+                    <TableCell align="right">
+                      {level.damagePerPeg ?? 0}/{level.critDamagePerPeg ?? 0}
+                    </TableCell>
+                    <TableCell align="right">{level.runs}</TableCell>
+                    <TableCell align="right">
+                      {formatNumber(level.timesFired)}
+                    </TableCell>
+                    <TableCell align="right">
+                      {formatDamagePerFire(level.damagePerFire)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      </Grid>
+
+      <Grid size={{ xs: 12, md: 6 }}>
+        <Paper sx={{ p: 2, height: "100%" }}>
+          <Typography variant="h6" gutterBottom>
+            Best Runs
+          </Typography>
+          <Typography variant="body2" color="textSecondary" sx={{ mb: 1 }}>
+            The runs where {orb.name} dealt the most damage. Click a run to
+            open it.
+          </Typography>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Class</TableCell>
+                  <TableCell>Result</TableCell>
+                  <TableCell align="right">Levels</TableCell>
+                  <TableCell align="right">Damage</TableCell>
+                  <TableCell align="right">Per Fire</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {career.topRuns.map(({ run, damageDealt, damagePerFire, levels }) => (
+                  <TableRow
+                    key={run.id}
+                    hover
+                    sx={{ cursor: "pointer" }}
+                    onClick={() =>
+                      navigate(`/runs/${encodeURIComponent(run.id)}`)
+                    }
+                  >
+                    <TableCell>
+                      {new Date(run.timestamp).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>{run.characterClass}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={run.won ? "Won" : "Lost"}
+                        color={run.won ? "success" : "error"}
+                        size="small"
+                      />
+                    </TableCell>
+                    <TableCell align="right">{levels.join(", ")}</TableCell>
+                    <TableCell align="right">
+                      {formatNumber(damageDealt)}
+                    </TableCell>
+                    <TableCell align="right">
+                      {formatDamagePerFire(damagePerFire)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      </Grid>
+    </Grid>
+  );
+};
+
+export default OrbCareer;
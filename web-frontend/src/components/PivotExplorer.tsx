@@ -0,0 +1,600 @@
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  Paper,
+  Typography,
+  Box,
+  Chip,
+  Button,
+  IconButton,
+  Alert,
+  Menu,
+  MenuItem,
+  ListItemText,
+  Divider,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+} from "@mui/material";
+import {
+  BookmarkBorder,
+  Delete,
+  Link as LinkIcon,
+  SwapVert,
+  TableChart,
+  BarChart as BarChartIcon,
+} from "@mui/icons-material";
+import { BarChart } from "@mui/x-charts";
+import { useSearchParams } from "react-router-dom";
+import { useUrlFilteredRuns } from "../hooks/useRunFilters";
+import { usePivotPresets, useAppActions } from "../store/useAppStore";
+import { AnalyticsDimension, ANALYTICS_DIMENSIONS, RunSummary } from "../utils/analytics";
+import {
+  PivotConfig,
+  PivotMetricKey,
+  PIVOT_METRICS,
+  PIVOT_DIMENSIONS,
+  MAX_PIVOT_ROWS,
+  MAX_PIVOT_COLUMNS,
+  buildPivotTable,
+  parsePivotParams,
+  writePivotParams,
+  describePivotConfig,
+  isDimension,
+} from "../utils/pivot";
+import FilterPresets from "./FilterPresets";
+import WinRateRange from "./WinRateRange";
+
+// Drag payload type for dimension chips
+const DIMENSION_MIME = "application/x-pivot-dimension";
+
+// Pivot configuration backed by the URL, so a pivot can be shared as a link
+const usePivotConfig = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const config = useMemo(() => parsePivotParams(searchParams), [searchParams]);
+
+  const setConfig = useCallback(
+    (update: Partial<PivotConfig>) => {
+      setSearchParams(
+        (prev) =>
+          writePivotParams(prev, { ...parsePivotParams(prev), ...update }),
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
+
+  return { config, setConfig };
+};
+
+interface DropZoneProps {
+  label: string;
+  dimension: AnalyticsDimension | null;
+  onDrop: (dimension: AnalyticsDimension) => void;
+  onClear?: () => void;
+}
+
+const DropZone: React.FC<DropZoneProps> = ({
+  label,
+  dimension,
+  onDrop,
+  onClear,
+}) => {
+  const [over, setOver] = useState(false);
+
+  return (
+    <Box
+      onDragOver={(e) => {
+        e.preventDefault();
+        setOver(true);
+      }}
+      onDragLeave={() => setOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setOver(false);
+        const dropped = e.dataTransfer.getData(DIMENSION_MIME);
+        if (isDimension(dropped)) {
+          onDrop(dropped);
+        }
+      }}
+      sx={{
+        flex: 1,
+        minWidth: 200,
+        p: 1.5,
+        border: 2,
+        borderStyle: "dashed",
+        borderColor: over ? "primary.main" : "divider",
+        borderRadius: 1,
+        display: "flex",
+        alignItems: "center",
+        gap: 1,
+      }}
+    >
+      <Typography variant="body2" color="textSecondary">
+        {label}:
+      </Typography>
+      {dimension ? (
+        <Chip
+          label={ANALYTICS_DIMENSIONS[dimension].label}
+          color="primary"
+          onDelete={onClear}
+        />
+      ) : (
+        <Typography variant="body2" color="textSecondary">
+          drop a dimension here
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+const PivotExplorer: React.FC = () => {
+  const runs = useUrlFilteredRuns();
+  const { config, setConfig } = usePivotConfig();
+  const presets = usePivotPresets();
+  const { savePivotPreset, deletePivotPreset } = useAppActions();
+
+  const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [presetName, setPresetName] = useState("");
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const pivot = useMemo(
+    () => buildPivotTable(runs, config),
+    [runs, config]
+  );
+
+  const currentParams = writePivotParams(new URLSearchParams(), config).toString();
+
+  const toggleMetric = (metric: PivotMetricKey) => {
+    const metrics = config.metrics.includes(metric)
+      ? config.metrics.filter((key) => key !== metric)
+      : [...config.metrics, metric];
+    // Keep the metric order stable regardless of click order
+    const ordered = (Object.keys(PIVOT_METRICS) as PivotMetricKey[]).filter(
+      (key) => metrics.includes(key)
+    );
+    if (ordered.length > 0) setConfig({ metrics: ordered });
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.warn("Failed to copy link:", error);
+    }
+  };
+
+  const handleSave = () => {
+    savePivotPreset(presetName.trim(), currentParams);
+    setSaveDialogOpen(false);
+  };
+
+  const renderValue = (metric: PivotMetricKey, summary?: RunSummary) => {
+    if (!summary || summary.count === 0) return "-";
+    if (metric === "winRate") {
+      return (
+        <WinRateRange wins={summary.wins} total={summary.count} showBar={false} />
+      );
+    }
+    const definition = PIVOT_METRICS[metric];
+    return definition.format(definition.getValue(summary));
+  };
+
+  const renderTable = () => {
+    const { rowKeys, columnKeys, cells, rowTotals, columnTotals, total } = pivot;
+    const metrics = config.metrics;
+    const hasColumns = columnKeys.length > 0;
+    const rowLabel = ANALYTICS_DIMENSIONS[config.rows].label;
+
+    return (
+      <TableContainer sx={{ maxHeight: 640 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            {hasColumns && (
+              <TableRow>
+                <TableCell />
+                {[...columnKeys, "Total"].map((column) => (
+                  <TableCell
+                    key={column}
+                    align="center"
+                    colSpan={metrics.length}
+                    sx={{ borderLeft: 1, borderColor: "divider" }}
+                  >
+                    {column}
+                  </TableCell>
+                ))}
+              </TableRow>
+            )}
+            <TableRow>
+              <TableCell>{rowLabel}</TableCell>
+              {(hasColumns ? [...columnKeys, "Total"] : ["Total"]).map(
+                (column) =>
+                  metrics.map((metric, index) => (
+                    <TableCell
+                      key={`${column}-${metric}`}
+                      align="right"
+                      sx={
+                        index === 0 && hasColumns
+                          ? { borderLeft: 1, borderColor: "divider" }
+                          : undefined
+                      }
+                    >
+                      {PIVOT_METRICS[metric].label}
+                    </TableCell>
+                  ))
+              )}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rowKeys.map((row) => (
+              <TableRow key={row} hover>
+                <TableCell component="th" scope="row">
+                  {row}
+                </TableCell>
+                {hasColumns &&
+                  columnKeys.map((column) =>
+                    metrics.map((metric, index) => (
+                      <TableCell
+                        key={`${column}-${metric}`}
+                        align="right"
+                        sx={
+                          index === 0
+                            ? { borderLeft: 1, borderColor: "divider" }
+                            : undefined
+                        }
+                      >
+                        {renderValue(metric, cells[row][column])}
+                      </TableCell>
+                    ))
+                  )}
+                {metrics.map((metric, index) => (
+                  <TableCell
+                    key={`total-${metric}`}
+                    align="right"
+                    sx={{
+                      fontWeight: "bold",
+                      ...(index === 0 && hasColumns
+                        ? { borderLeft: 1, borderColor: "divider" }
+                        : {}),
+                    }}
+                  >
+                    {renderValue(metric, rowTotals[row])}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+            <TableRow>
+              <TableCell component="th" scope="row" sx={{ fontWeight: "bold" }}>
+                Total
+              </TableCell>
+              {hasColumns &&
+                columnKeys.map((column) =>
+                  metrics.map((metric, index) => (
+                    <TableCell
+                      key={`${column}-${metric}`}
+                      align="right"
+                      sx={{
+                        fontWeight: "bold",
+                        ...(index === 0
+                          ? { borderLeft: 1, borderColor: "divider" }
+                          : {}),
+                      }}
+                    >
+                      {renderValue(metric, columnTotals[column])}
+                    </TableCell>
+                  ))
+                )}
+              {metrics.map((metric, index) => (
+                <TableCell
+                  key={`total-${metric}`}
+                  align="right"
+                  sx={{
+                    fontWeight: "bold",
+                    ...(index === 0 && hasColumns
+                      ? { borderLeft: 1, borderColor: "divider" }
+                      : {}),
+                  }}
+                >
+                  {renderValue(metric, total)}
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableBody>
+        </Table>
+      </TableContainer>
+    );
+  };
+
+  const renderChart = () => {
+    const { rowKeys, columnKeys, cells, rowTotals } = pivot;
+    // Metrics have different scales, so the chart shows the first one
+    const metric = PIVOT_METRICS[config.metrics[0]];
+    const valueFormatter = (value: number | null) =>
+      value === null ? "-" : metric.format(value);
+
+    const series =
+      columnKeys.length > 0
+        ? columnKeys.map((column) => ({
+            label: column,
+            data: rowKeys.map((row) =>
+              cells[row][column] ? metric.getValue(cells[row][column]) : null
+            ),
+            valueFormatter,
+          }))
+        : [
+            {
+              label: metric.label,
+              data: rowKeys.map((row) => metric.getValue(rowTotals[row])),
+              valueFormatter,
+            },
+          ];
+
+    return (
+      <>
+        <Typography variant="body2" color="textSecondary" gutterBottom>
+          Showing {metric.label}
+          {config.metrics.length > 1 ? " (the first selected metric)" : ""}
+        </Typography>
+        <BarChart
+          xAxis={[
+            {
+              scaleType: "band",
+              data: rowKeys,
+              tickLabelStyle: { angle: -45, textAnchor: "end" },
+            },
+          ]}
+          series={series}
+          height={420}
+          margin={{ top: 40, bottom: 100, left: 60, right: 20 }}
+        />
+      </>
+    );
+  };
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 1,
+        }}
+      >
+        <Typography variant="h4">Pivot Table</Typography>
+        <FilterPresets showActiveFilters />
+      </Box>
+
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <Box
+          sx={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            flexWrap: "wrap",
+            gap: 1,
+            mb: 2,
+          }}
+        >
+          <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap" }}>
+            {PIVOT_DIMENSIONS.map((dimension) => (
+              <Chip
+                key={dimension}
+                label={ANALYTICS_DIMENSIONS[dimension].label}
+                variant="outlined"
+                draggable
+                onDragStart={(e) =>
+                  e.dataTransfer.setData(DIMENSION_MIME, dimension)
+                }
+                sx={{ cursor: "grab" }}
+              />
+            ))}
+          </Box>
+          <Box sx={{ display: "flex", gap: 1 }}>
+            <Tooltip title={linkCopied ? "Copied" : "Copy link to this pivot"}>
+              <IconButton size="small" onClick={handleCopyLink}>
+                <LinkIcon />
+              </IconButton>
+            </Tooltip>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<BookmarkBorder />}
+              onClick={(e) => setMenuAnchor(e.currentTarget)}
+            >
+              Saved Pivots
+            </Button>
+          </Box>
+        </Box>
+
+        <Box sx={{ display: "flex", gap: 2, flexWrap: "wrap", mb: 2 }}>
+          <DropZone
+            label="Rows"
+            dimension={config.rows}
+            onDrop={(rows) =>
+              setConfig({
+                rows,
+                columns: config.columns === rows ? null : config.columns,
+              })
+            }
+          />
+          <Tooltip title="Swap rows and columns">
+            <span>
+              <IconButton
+                disabled={!config.columns}
+                onClick={() =>
+                  config.columns &&
+                  setConfig({ rows: config.columns, columns: config.rows })
+                }
+              >
+                <SwapVert />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <DropZone
+            label="Columns"
+            dimension={config.columns}
+            onDrop={(columns) =>
+              columns !== config.rows && setConfig({ columns })
+            }
+            onClear={() => setConfig({ columns: null })}
+          />
+        </Box>
+
+        <Box
+          sx={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            flexWrap: "wrap",
+            gap: 1,
+          }}
+        >
+          <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap" }}>
+            {(Object.keys(PIVOT_METRICS) as PivotMetricKey[]).map((metric) => (
+              <Chip
+                key={metric}
+                label={PIVOT_METRICS[metric].label}
+                color={config.metrics.includes(metric) ? "primary" : "default"}
+                variant={config.metrics.includes(metric) ? "filled" : "outlined"}
+                onClick={() => toggleMetric(metric)}
+              />
+            ))}
+          </Box>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={config.view}
+            onChange={(_, view) => view && setConfig({ view })}
+          >
+            <ToggleButton value="table">
+              <TableChart fontSize="small" sx={{ mr: 0.5 }} />
+              Table
+            </ToggleButton>
+            <ToggleButton value="chart">
+              <BarChartIcon fontSize="small" sx={{ mr: 0.5 }} />
+              Chart
+            </ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
+      </Paper>
+
+      <Paper sx={{ p: 2 }}>
+        {pivot.rowKeys.length === 0 ? (
+          <Alert severity="info">No runs to pivot.</Alert>
+        ) : (
+          <>
+            {(pivot.rowKeys.length >= MAX_PIVOT_ROWS ||
+              pivot.columnKeys.length >= MAX_PIVOT_COLUMNS) && (
+              <Typography variant="caption" color="textSecondary" component="p">
+                Showing the {MAX_PIVOT_ROWS} largest rows and{" "}
+                {MAX_PIVOT_COLUMNS} largest columns.
+              </Typography>
+            )}
+            {config.view === "chart" ? renderChart() : renderTable()}
+          </>
+        )}
+      </Paper>
+
+      <Menu
+        anchorEl={menuAnchor}
+        open={!!menuAnchor}
+        onClose={() => setMenuAnchor(null)}
+      >
+        {presets.length === 0 && (
+          <MenuItem disabled>No saved pivots</MenuItem>
+        )}
+        {presets.map((preset) => (
+          <MenuItem
+            key={preset.id}
+            selected={preset.params === currentParams}
+            onClick={() => {
+              setConfig(parsePivotParams(new URLSearchParams(preset.params)));
+              setMenuAnchor(null);
+            }}
+          >
+            <ListItemText
+              primary={preset.name}
+              secondary={describePivotConfig(
+                parsePivotParams(new URLSearchParams(preset.params))
+              )}
+            />
+            <IconButton
+              size="small"
+              edge="end"
+              sx={{ ml: 2 }}
+              onClick={(e) => {
+                e.stopPropagation();
+                deletePivotPreset(preset.id);
+              }}
+            >
+              <Delete fontSize="small" />
+            </IconButton>
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem
+          onClick={() => {
+            setPresetName(describePivotConfig(config));
+            setSaveDialogOpen(true);
+            setMenuAnchor(null);
+          }}
+        >
+          Save current pivot...
+        </MenuItem>
+      </Menu>
+
+      <Dialog
+        open={saveDialogOpen}
+        onClose={() => setSaveDialogOpen(false)}
+        fullWidth
+        maxWidth="xs"
+      >
+        <DialogTitle>Save Pivot</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="Pivot name"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && presetName.trim()) handleSave();
+            }}
+            helperText={
+              presets.some((preset) => preset.name === presetName.trim())
+                ? "This will replace the existing pivot"
+                : undefined
+            }
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={!presetName.trim()}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default PivotExplorer;
@@ -0,0 +1,187 @@
+import React, { useMemo } from "react";
+import {
+  Paper,
+  Typography,
+  Box,
+  Tooltip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from "@mui/material";
+import { alpha, useTheme } from "@mui/material/styles";
+import { RunRecord } from "../types";
+import {
+  getCalendarRange,
+  getCalendarWeeks,
+  getDailyPlaytime,
+  toLocalDateKey,
+  formatPlaytime,
+} from "../utils/sessions";
+import { useUrlParam } from "../hooks/useUrlState";
+
+interface PlaytimeCalendarProps {
+  runs: RunRecord[];
+}
+
+const CELL_SIZE = 12;
+const CELL_GAP = 3;
+// Shades from no play to the busiest day
+const LEVELS = 4;
+const WEEKDAY_LABELS = ["", "Mon", "", "Wed", "", "Fri", ""];
+
+const PlaytimeCalendar: React.FC<PlaytimeCalendarProps> = ({ runs }) => {
+  const theme = useTheme();
+  // Empty means the last twelve months
+  const [yearParam, setYearParam] = useUrlParam("year");
+  const year = yearParam ? Number(yearParam) : null;
+
+  const days = useMemo(() => getDailyPlaytime(runs), [runs]);
+
+  const years = useMemo(
+    () =>
+      [...new Set(Object.keys(days).map((date) => Number(date.slice(0, 4))))].sort(
+        (a, b) => b - a
+      ),
+    [days]
+  );
+
+  const { from, to } = getCalendarRange(year);
+  const weeks = getCalendarWeeks(from, to);
+
+  const daysInRange = weeks
+    .flat()
+    .filter((date): date is Date => date !== null)
+    .map((date) => days[toLocalDateKey(date)])
+    .filter(Boolean);
+  const maxSeconds = daysInRange.reduce((max, day) => Math.max(max, day.seconds), 0);
+  const totalSeconds = daysInRange.reduce((sum, day) => sum + day.seconds, 0);
+
+  const getCellColor = (seconds: number) => {
+    if (seconds <= 0 || maxSeconds <= 0) return theme.palette.action.hover;
+    const level = Math.ceil((seconds / maxSeconds) * LEVELS);
+    return alpha(theme.palette.success.main, 0.2 + (level / LEVELS) * 0.8);
+  };
+
+  // Label a week column with its month when the month starts in that week
+  const getMonthLabel = (week: (Date | null)[], index: number) => {
+    const firstDay = week.find((date) => date !== null);
+    if (!firstDay) return "";
+    const startsMonth = week.some((date) => date?.getDate() === 1);
+    return startsMonth || index === 0
+      ? firstDay.toLocaleDateString(undefined, { month: "short" })
+      : "";
+  };
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          flexWrap: "wrap",
+          gap: 2,
+          mb: 2,
+        }}
+      >
+        <Box>
+          <Typography variant="h6">Playtime Calendar</Typography>
+          <Typography variant="body2" color="textSecondary">
+            {formatPlaytime(totalSeconds)} played on {daysInRange.length} days
+          </Typography>
+        </Box>
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel shrink>Period</InputLabel>
+          <Select
+            value={yearParam}
+            label="Period"
+            onChange={(e) => setYearParam(String(e.target.value))}
+            displayEmpty
+            notched
+          >
+            <MenuItem value="">Last 12 months</MenuItem>
+            {years.map((option) => (
+              <MenuItem key={option} value={String(option)}>
+                {option}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+
+      <Box sx={{ overflowX: "auto" }}>
+        <Box sx={{ display: "flex", gap: `${CELL_GAP}px` }}>
+          <Box
+            sx={{
+              display: "flex",
+              flexDirection: "column",
+              gap: `${CELL_GAP}px`,
+              pt: 2,
+              pr: 0.5,
+            }}
+          >
+            {WEEKDAY_LABELS.map((label, index) => (
+              <Box
+                key={index}
+                sx={{ height: CELL_SIZE, fontSize: "0.625rem", lineHeight: 1 }}
+              >
+                {label}
+              </Box>
+            ))}
+          </Box>
+          {weeks.map((week, weekIndex) => (
+            <Box
+              key={weekIndex}
+              sx={{ display: "flex", flexDirection: "column", gap: `${CELL_GAP}px` }}
+            >
+              <Box
+                sx={{
+                  height: 16,
+                  width: CELL_SIZE,
+                  fontSize: "0.625rem",
+                  whiteSpace: "nowrap",
+                  overflow: "visible",
+                }}
+              >
+                {getMonthLabel(week, weekIndex)}
+              </Box>
+              {week.map((date, dayIndex) => {
+                if (!date) {
+                  return (
+                    <Box key={dayIndex} sx={{ width: CELL_SIZE, height: CELL_SIZE }} />
+                  );
+                }
+                const day = days[toLocalDateKey(date)];
+                return (
+                  <Tooltip
+                    key={dayIndex}
+                    title={`${date.toLocaleDateString()}: ${
+                      day
+                        ? `${formatPlaytime(day.seconds)}, ${day.runs} run${
+                            day.runs === 1 ? "" : "s"
+                          } started`
+                        : "no play"
+                    }`}
+                    disableInteractive
+                  >
+                    <Box
+                      sx={{
+                        width: CELL_SIZE,
+                        height: CELL_SIZE,
+                        borderRadius: 0.5,
+                        backgroundColor: getCellColor(day?.seconds ?? 0),
+                      }}
+                    />
+                  </Tooltip>
+                );
+              })}
+            </Box>
+          ))}
+        </Box>
+      </Box>
+    </Paper>
+  );
+};
+
+export default PlaytimeCalendar;
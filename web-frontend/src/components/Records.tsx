@@ -0,0 +1,241 @@
+import React from "react";
+import {
+  Paper,
+  Typography,
+  Box,
+  Grid,
+  Card,
+  CardContent,
+  CardActionArea,
+  Chip,
+  Alert,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from "@mui/material";
+import { NewReleases } from "@mui/icons-material";
+import { useNavigate } from "react-router-dom";
+import { useFilteredRuns } from "../store/useAppStore";
+import { RunRecord } from "../types";
+import { PERSONAL_RECORDS, WinStreak } from "../utils/records";
+import { useRecords } from "../hooks/useRecords";
+
+const formatDate = (run: RunRecord) => new Date(run.timestamp).toLocaleDateString();
+
+const NewChip: React.FC = () => (
+  <Chip size="small" color="secondary" icon={<NewReleases />} label="New record" />
+);
+
+const Records: React.FC = () => {
+  const navigate = useNavigate();
+  // Downloads the run list; useRecords only reads it
+  useFilteredRuns();
+  const { runs, records, streaks, newRecordIds, acknowledge } = useRecords();
+
+  const isNew = (id: string) => newRecordIds.includes(id);
+  const newRecordCount = newRecordIds.length;
+
+  const openRun = (run: RunRecord) =>
+    navigate(`/runs/${encodeURIComponent(run.id)}`);
+
+  const renderStreakTable = (
+    title: string,
+    streakList: WinStreak[],
+    idPrefix: string,
+    formatGroup: (group: string) => string
+  ) => (
+    <Paper sx={{ p: 2, height: "100%" }}>
+      <Typography variant="h6" gutterBottom>
+        {title}
+      </Typography>
+      {streakList.length === 0 ? (
+        <Typography variant="body2" color="textSecondary">
+          No wins yet.
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell />
+              <TableCell align="right">Longest Streak</TableCell>
+              <TableCell>From</TableCell>
+              <TableCell>To</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {streakList.map((streak) => {
+              const lastRun = streak.runs[streak.runs.length - 1];
+              return (
+                <TableRow
+                  key={streak.group}
+                  hover
+                  sx={{ cursor: "pointer" }}
+                  onClick={() => openRun(lastRun)}
+                >
+                  <TableCell>
+                    <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                      {formatGroup(streak.group)}
+                      {isNew(`${idPrefix}:${streak.group}`) && <NewChip />}
+                    </Box>
+                  </TableCell>
+                  <TableCell align="right">{streak.length}</TableCell>
+                  <TableCell>{formatDate(streak.runs[0])}</TableCell>
+                  <TableCell>{formatDate(lastRun)}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </Paper>
+  );
+
+  if (runs.length === 0) {
+    return (
+      <Box>
+        <Typography variant="h4" gutterBottom>
+          Records
+        </Typography>
+        <Alert severity="info">
+          No runs yet. Upload a save file to start setting records.
+        </Alert>
+      </Box>
+    );
+  }
+
+  const longestStreak = streaks.overall;
+
+  return (
+    <Box>
+      <Typography variant="h4" gutterBottom>
+        Records
+      </Typography>
+
+      {newRecordCount > 0 && (
+        <Alert
+          severity="success"
+          sx={{ mb: 2 }}
+          action={
+            <Button color="inherit" size="small" onClick={acknowledge}>
+              Mark as Seen
+            </Button>
+          }
+        >
+          {newRecordCount === 1
+            ? "A new record was set since you last checked."
+            : `${newRecordCount} new records were set since you last checked.`}
+        </Alert>
+      )}
+
+      <Grid container spacing={3}>
+        <Grid size={{ xs: 12, sm: 6 }}>
+          <Card sx={{ height: "100%" }}>
+            <CardActionArea
+              disabled={!longestStreak}
+              onClick={() =>
+                longestStreak &&
+                openRun(longestStreak.runs[longestStreak.runs.length - 1])
+              }
+              sx={{ height: "100%" }}
+            >
+              <CardContent>
+                <Box sx={{ display: "flex", justifyContent: "space-between" }}>
+                  <Typography color="textSecondary" gutterBottom>
+                    Longest Win Streak
+                  </Typography>
+                  {isNew("streak") && <NewChip />}
+                </Box>
+                <Typography variant="h4">{longestStreak?.length ?? 0}</Typography>
+                {longestStreak && (
+                  <Typography variant="body2" color="textSecondary">
+                    {formatDate(longestStreak.runs[0])} –{" "}
+                    {formatDate(longestStreak.runs[longestStreak.runs.length - 1])}
+                  </Typography>
+                )}
+              </CardContent>
+            </CardActionArea>
+          </Card>
+        </Grid>
+        <Grid size={{ xs: 12, sm: 6 }}>
+          <Card sx={{ height: "100%" }}>
+            <CardContent>
+              <Typography color="textSecondary" gutterBottom>
+                Current Win Streak
+              </Typography>
+              <Typography variant="h4">{streaks.current}</Typography>
+              <Typography variant="body2" color="textSecondary">
+                {longestStreak && streaks.current > 0
+                  ? streaks.current >= longestStreak.length
+                    ? "Your best streak yet"
+                    : `${longestStreak.length - streaks.current} more to match your best`
+                  : "Wins since your last loss"}
+              </Typography>
+            </CardContent>
+          </Card>
+        </Grid>
+
+        <Grid size={{ xs: 12, md: 6 }}>
+          {renderStreakTable(
+            "Win Streaks by Class",
+            streaks.byClass,
+            "streak:class",
+            (group) => group
+          )}
+        </Grid>
+        <Grid size={{ xs: 12, md: 6 }}>
+          {renderStreakTable(
+            "Win Streaks by Cruciball Level",
+            [...streaks.byCruciball].sort((a, b) => Number(a.group) - Number(b.group)),
+            "streak:cruciball",
+            (group) => (group === "0" ? "No Cruciball" : `Cruciball ${group}`)
+          )}
+        </Grid>
+
+        <Grid size={12}>
+          <Typography variant="h5" sx={{ mt: 1 }}>
+            All-Time Bests
+          </Typography>
+        </Grid>
+        {records.map((record) => {
+          const definition = PERSONAL_RECORDS[record.key];
+          return (
+            <Grid key={record.key} size={{ xs: 12, sm: 6, md: 4 }}>
+              <Card sx={{ height: "100%" }}>
+                <CardActionArea
+                  onClick={() => openRun(record.run)}
+                  sx={{ height: "100%" }}
+                >
+                  <CardContent>
+                    <Box sx={{ display: "flex", justifyContent: "space-between" }}>
+                      <Typography color="textSecondary" gutterBottom>
+                        {definition.label}
+                      </Typography>
+                      {isNew(record.key) && <NewChip />}
+                    </Box>
+                    <Typography variant="h5">
+                      {definition.format(record.value)}
+                    </Typography>
+                    <Typography variant="body2" color="textSecondary">
+                      {record.run.characterClass}
+                      {record.run.cruciballLevel > 0 &&
+                        ` (Cruciball ${record.run.cruciballLevel})`}{" "}
+                      - {formatDate(record.run)}
+                    </Typography>
+                    <Typography variant="caption" color="textSecondary">
+                      {definition.description}
+                    </Typography>
+                  </CardContent>
+                </CardActionArea>
+              </Card>
+            </Grid>
+          );
+        })}
+      </Grid>
+    </Box>
+  );
+};
+
+export default Records;
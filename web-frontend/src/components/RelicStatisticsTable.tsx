@@ -0,0 +1,237 @@
+import React, { useMemo, useState } from "react";
+import {
+  Paper,
+  Typography,
+  Box,
+  Chip,
+  Tooltip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from "@mui/material";
+import { DataGrid, GridColDef } from "@mui/x-data-grid";
+import { useEntities, useSpriteActions, Entity } from "../store/useSpriteStore";
+import { useWorkerTask } from "../hooks/useWorkerTask";
+import {
+  getRarityName,
+  getRarityColor,
+  getRarityTooltip,
+} from "../utils/rarityHelper";
+import { RunRecord, RelicStatistics } from "../types";
+import WinRateRange from "./WinRateRange";
+
+interface RelicStatisticsTableProps {
+  runs: RunRecord[];
+}
+
+interface RelicRow extends RelicStatistics {
+  id: string;
+  entity?: Entity;
+  winRateDelta: number;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const formatNumber = (num: number) => {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+  return Math.round(num).toString();
+};
+
+const RelicStatisticsTable: React.FC<RelicStatisticsTableProps> = ({ runs }) => {
+  const entities = useEntities();
+  const { getEntitySprite } = useSpriteActions();
+  // Relics seen in only a run or two have meaningless win rates
+  const [minPicks, setMinPicks] = useState(3);
+
+  const { data: relicStatistics, loading } = useWorkerTask(
+    "relicStatistics",
+    runs,
+    {}
+  );
+
+  const rows = useMemo<RelicRow[]>(() => {
+    return Object.values(relicStatistics ?? {})
+      .filter((stats) => stats.timesPicked >= minPicks)
+      .map((stats) => ({
+        ...stats,
+        id: stats.relicName,
+        entity: entities?.relics.find(
+          (relic) =>
+            relic.name.toLowerCase() === stats.relicName.toLowerCase() ||
+            relic.id.toLowerCase() === stats.relicName.toLowerCase()
+        ),
+        winRateDelta: stats.winRateWithRelic - stats.winRateWithoutRelic,
+      }));
+  }, [relicStatistics, entities, minPicks]);
+
+  const columns: GridColDef<RelicRow>[] = [
+    {
+      field: "relicName",
+      headerName: "Relic",
+      flex: 1,
+      minWidth: 200,
+      renderCell: (params) => {
+        const sprite = params.row.entity
+          ? getEntitySprite(params.row.entity)
+          : null;
+        return (
+          <Box sx={{ display: "flex", alignItems: "center", gap: 1, height: "100%" }}>
+            {sprite && (
+              <img
+                src={sprite.url}
+                alt={params.row.relicName}
+                style={{
+                  width: 24,
+                  height: 24,
+                  objectFit: "contain",
+                  imageRendering: "pixelated",
+                }}
+              />
+            )}
+            <span>{params.row.entity?.name || params.row.relicName}</span>
+          </Box>
+        );
+      },
+    },
+    {
+      field: "rarity",
+      headerName: "Rarity",
+      width: 120,
+      valueGetter: (_value, row) => row.entity?.rarity ?? "",
+      renderCell: (params) =>
+        params.value ? (
+          <Tooltip title={getRarityTooltip(params.value) || ""}>
+            <Chip
+              label={getRarityName(params.value)}
+              color={getRarityColor(params.value)}
+              size="small"
+            />
+          </Tooltip>
+        ) : null,
+    },
+    {
+      field: "timesPicked",
+      headerName: "Runs",
+      type: "number",
+      width: 80,
+    },
+    {
+      field: "pickRate",
+      headerName: "Pick Rate",
+      type: "number",
+      width: 100,
+      valueFormatter: (value: number) => formatPercent(value),
+    },
+    {
+      field: "winRateWithRelic",
+      headerName: "Win % With",
+      description: "Sorted by the lower end of the 95% range",
+      type: "number",
+      width: 150,
+      // Sort by the lower bound so relics seen in a handful of runs don't top the table
+      valueGetter: (_value, row) => row.winRateLowerBoundWithRelic,
+      renderCell: (params) => (
+        <WinRateRange
+          wins={params.row.winsWithRelic}
+          total={params.row.timesPicked}
+        />
+      ),
+    },
+    {
+      field: "winRateWithoutRelic",
+      headerName: "Win % Without",
+      type: "number",
+      width: 150,
+      renderCell: (params) => (
+        <WinRateRange
+          wins={params.row.winsWithoutRelic}
+          total={params.row.runsWithoutRelic}
+        />
+      ),
+    },
+    {
+      field: "winRateDelta",
+      headerName: "Difference",
+      type: "number",
+      width: 110,
+      renderCell: (params) => (
+        <Typography
+          variant="body2"
+          component="span"
+          color={params.value >= 0 ? "success.main" : "error.main"}
+        >
+          {params.value >= 0 ? "+" : ""}
+          {(params.value * 100).toFixed(1)}
+        </Typography>
+      ),
+    },
+    {
+      field: "cruciballAdjustedWinRate",
+      headerName: "Cruciball-Adjusted Win %",
+      description:
+        "Overall win rate plus this relic's wins above what its runs' cruciball levels would predict",
+      type: "number",
+      width: 190,
+      valueFormatter: (value: number) => formatPercent(value),
+    },
+    {
+      field: "averageCruciballWithRelic",
+      headerName: "Avg Cruciball",
+      type: "number",
+      width: 120,
+      valueFormatter: (value: number) => value.toFixed(1),
+    },
+    {
+      field: "averageDamageWithRelic",
+      headerName: "Avg Damage",
+      type: "number",
+      width: 110,
+      valueFormatter: (value: number) => formatNumber(value),
+    },
+  ];
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 2,
+        }}
+      >
+        <Typography variant="h6">Relic Statistics</Typography>
+        <FormControl size="small" sx={{ minWidth: 140 }}>
+          <InputLabel>Minimum Runs</InputLabel>
+          <Select
+            value={minPicks}
+            label="Minimum Runs"
+            onChange={(e) => setMinPicks(Number(e.target.value))}
+          >
+            {[1, 3, 5, 10, 25].map((count) => (
+              <MenuItem key={count} value={count}>
+                {count}+
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+      <DataGrid
+        rows={rows}
+        columns={columns}
+        loading={loading}
+        initialState={{
+          sorting: { sortModel: [{ field: "timesPicked", sort: "desc" }] },
+          pagination: { paginationModel: { pageSize: 25 } },
+        }}
+        pageSizeOptions={[25, 50, 100]}
+        disableRowSelectionOnClick
+        autoHeight
+      />
+    </Paper>
+  );
+};
+
+export default RelicStatisticsTable;
@@ -0,0 +1,221 @@
+import React, { useMemo } from "react";
+import {
+  Paper,
+  Typography,
+  Box,
+  Grid,
+  Chip,
+  Alert,
+  ToggleButton,
+  ToggleButtonGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from "@mui/material";
+import { useUrlFilteredRuns } from "../hooks/useRunFilters";
+import { useUrlParam } from "../hooks/useUrlState";
+import {
+  ROOM_CATEGORIES,
+  RoomCategory,
+  getActCount,
+  getActRoutes,
+  getElitePayoff,
+  getRoomMix,
+  getRouteFlow,
+} from "../utils/routes";
+import FilterPresets from "./FilterPresets";
+import RouteFlowDiagram from "./RouteFlowDiagram";
+import SignificanceChip from "./SignificanceChip";
+import WinRateRange from "./WinRateRange";
+
+const formatCorrelation = (value: number | null) =>
+  value === null ? "—" : `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+
+const RouteAnalysis: React.FC = () => {
+  const filteredRuns = useUrlFilteredRuns();
+  const [actParam, setActParam] = useUrlParam("act", "1");
+
+  const actCount = useMemo(() => getActCount(filteredRuns), [filteredRuns]);
+  const act = Math.min(Math.max(Number(actParam) || 1, 1), Math.max(actCount, 1));
+
+  const routes = useMemo(
+    () => getActRoutes(filteredRuns, act - 1),
+    [filteredRuns, act]
+  );
+  const flow = useMemo(() => getRouteFlow(routes), [routes]);
+  const roomMix = useMemo(() => getRoomMix(routes), [routes]);
+  const elitePayoff = useMemo(() => getElitePayoff(routes), [routes]);
+  const completedRoutes = routes.filter((route) => route.completed).length;
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 1,
+        }}
+      >
+        <Typography variant="h4">Route Analysis</Typography>
+        <FilterPresets showActiveFilters />
+      </Box>
+
+      {actCount === 0 ? (
+        <Alert severity="info">No runs with room history in the selection.</Alert>
+      ) : (
+        <Grid container spacing={3}>
+          <Grid size={12}>
+            <Box
+              sx={{
+                display: "flex",
+                alignItems: "center",
+                gap: 2,
+                flexWrap: "wrap",
+              }}
+            >
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={String(act)}
+                onChange={(_, value) => value && setActParam(value)}
+              >
+                {Array.from({ length: actCount }, (_, index) => (
+                  <ToggleButton key={index} value={String(index + 1)}>
+                    Act {index + 1}
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+              <Typography variant="body2" color="textSecondary">
+                {routes.length} runs reached act {act}, {completedRoutes} reached
+                its boss
+              </Typography>
+            </Box>
+          </Grid>
+
+          <Grid size={12}>
+            <Paper sx={{ p: 2 }}>
+              <Typography variant="h6">Room Flow</Typography>
+              <Typography variant="body2" color="textSecondary" sx={{ mb: 1 }}>
+                Each column is a room of the act. Bands follow runs from one room
+                type to the next; their width is the number of runs and their
+                colour the share of those runs that were won.
+              </Typography>
+              <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap", mb: 2 }}>
+                {(Object.keys(ROOM_CATEGORIES) as RoomCategory[]).map((category) => (
+                  <Chip
+                    key={category}
+                    size="small"
+                    label={ROOM_CATEGORIES[category].label}
+                    color={ROOM_CATEGORIES[category].color}
+                  />
+                ))}
+              </Box>
+              <RouteFlowDiagram flow={flow} />
+            </Paper>
+          </Grid>
+
+          <Grid size={{ xs: 12, lg: 5 }}>
+            <Paper sx={{ p: 2, height: "100%" }}>
+              <Typography variant="h6">Room Mix</Typography>
+              <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+                Rooms taken in act {act} by runs that reached its boss, in runs
+                that went on to win and runs that didn't.
+              </Typography>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Room</TableCell>
+                      <TableCell align="right">Avg in Wins</TableCell>
+                      <TableCell align="right">Avg in Losses</TableCell>
+                      <TableCell align="right">Correlation</TableCell>
+                      <TableCell align="right">Significance</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {roomMix.map((stat) => (
+                      <TableRow key={stat.category}>
+                        <TableCell>{ROOM_CATEGORIES[stat.category].label}</TableCell>
+                        <TableCell align="right">
+                          {stat.meanInWins.toFixed(2)}
+                        </TableCell>
+                        <TableCell align="right">
+                          {stat.meanInLosses.toFixed(2)}
+                        </TableCell>
+                        <TableCell align="right">
+                          {formatCorrelation(stat.correlation)}
+                        </TableCell>
+                        <TableCell align="right">
+                          <SignificanceChip pValue={stat.pValue} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Paper>
+          </Grid>
+
+          <Grid size={{ xs: 12, lg: 7 }}>
+            <Paper sx={{ p: 2, height: "100%" }}>
+              <Typography variant="h6">Do Elite Routes Pay Off?</Typography>
+              <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+                Win rate by the number of elites fought in act {act}, for runs
+                that reached its boss.
+              </Typography>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Class</TableCell>
+                      {elitePayoff[0]?.buckets.map((bucket) => (
+                        <TableCell key={bucket.label}>
+                          {bucket.label} Elite{bucket.label === "1" ? "" : "s"}
+                        </TableCell>
+                      ))}
+                      <TableCell align="right">Correlation</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {elitePayoff.map((row) => (
+                      <TableRow key={row.group}>
+                        <TableCell>
+                          {row.group}
+                          <Typography
+                            variant="caption"
+                            color="textSecondary"
+                            display="block"
+                          >
+                            {row.routes} runs
+                          </Typography>
+                        </TableCell>
+                        {row.buckets.map((bucket) => (
+                          <TableCell key={bucket.label}>
+                            {bucket.runs > 0 ? (
+                              <WinRateRange wins={bucket.wins} total={bucket.runs} />
+                            ) : (
+                              "—"
+                            )}
+                          </TableCell>
+                        ))}
+                        <TableCell align="right">
+                          {formatCorrelation(row.correlation)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Paper>
+          </Grid>
+        </Grid>
+      )}
+    </Box>
+  );
+};
+
+export default RouteAnalysis;
@@ -0,0 +1,180 @@
+import React from "react";
+import { Box, Tooltip } from "@mui/material";
+import { alpha, useTheme } from "@mui/material/styles";
+import {
+  ROOM_CATEGORIES,
+  RoomCategory,
+  RouteFlow,
+  RouteFlowNode,
+} from "../utils/routes";
+
+interface RouteFlowDiagramProps {
+  flow: RouteFlow;
+}
+
+const COLUMN_WIDTH = 90;
+const NODE_WIDTH = 14;
+const HEIGHT = 360;
+const LABEL_HEIGHT = 20;
+const NODE_GAP = 6;
+
+const CATEGORY_ORDER = Object.keys(ROOM_CATEGORIES) as RoomCategory[];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+interface NodeLayout {
+  node: RouteFlowNode;
+  x: number;
+  y: number;
+  height: number;
+}
+
+// Sankey-style flow of room types: one column per room of the act, bands between
+// columns sized by runs and coloured by the win rate of the runs taking them
+const RouteFlowDiagram: React.FC<RouteFlowDiagramProps> = ({ flow }) => {
+  const theme = useTheme();
+  const width = Math.max(flow.steps, 1) * COLUMN_WIDTH;
+
+  const getCategoryColor = (category: RoomCategory) => {
+    const color = ROOM_CATEGORIES[category].color;
+    return color === "default"
+      ? theme.palette.grey[500]
+      : theme.palette[color].main;
+  };
+
+  // Red for routes that lose, green for routes that win
+  const getWinRateColor = (winRate: number) =>
+    alpha(
+      winRate >= 0.5 ? theme.palette.success.main : theme.palette.error.main,
+      0.25 + Math.abs(winRate - 0.5)
+    );
+
+  // Every column shares one scale so band widths are comparable across steps
+  const maxColumnNodes = Math.max(
+    1,
+    ...Array.from({ length: flow.steps }, (_, step) =>
+      flow.nodes.filter((node) => node.step === step).length
+    )
+  );
+  const scale =
+    flow.routes > 0
+      ? (HEIGHT - LABEL_HEIGHT - (maxColumnNodes - 1) * NODE_GAP) / flow.routes
+      : 0;
+
+  const layouts = new Map<string, NodeLayout>();
+  for (let step = 0; step < flow.steps; step++) {
+    let y = LABEL_HEIGHT;
+    flow.nodes
+      .filter((node) => node.step === step)
+      .sort(
+        (a, b) =>
+          CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category)
+      )
+      .forEach((node) => {
+        const height = Math.max(1, node.runs * scale);
+        layouts.set(`${step}:${node.category}`, {
+          node,
+          x: step * COLUMN_WIDTH + (COLUMN_WIDTH - NODE_WIDTH) / 2,
+          y,
+          height,
+        });
+        y += height + NODE_GAP;
+      });
+  }
+
+  // Stack each node's outgoing and incoming bands in category order
+  const outgoingOffsets = new Map<string, number>();
+  const incomingOffsets = new Map<string, number>();
+  const bands = [...flow.links]
+    .sort(
+      (a, b) =>
+        a.step - b.step ||
+        CATEGORY_ORDER.indexOf(a.source) - CATEGORY_ORDER.indexOf(b.source) ||
+        CATEGORY_ORDER.indexOf(a.target) - CATEGORY_ORDER.indexOf(b.target)
+    )
+    .map((link) => {
+      const sourceKey = `${link.step}:${link.source}`;
+      const targetKey = `${link.step + 1}:${link.target}`;
+      const source = layouts.get(sourceKey);
+      const target = layouts.get(targetKey);
+      const thickness = Math.max(1, link.runs * scale);
+      const sourceOffset = outgoingOffsets.get(sourceKey) ?? 0;
+      const targetOffset = incomingOffsets.get(targetKey) ?? 0;
+      outgoingOffsets.set(sourceKey, sourceOffset + thickness);
+      incomingOffsets.set(targetKey, targetOffset + thickness);
+
+      const x0 = source.x + NODE_WIDTH;
+      const x1 = target.x;
+      const y0 = source.y + sourceOffset + thickness / 2;
+      const y1 = target.y + targetOffset + thickness / 2;
+      const midX = (x0 + x1) / 2;
+      return {
+        link,
+        thickness,
+        path: `M ${x0} ${y0} C ${midX} ${y0}, ${midX} ${y1}, ${x1} ${y1}`,
+      };
+    });
+
+  return (
+    <Box sx={{ overflowX: "auto" }}>
+      <svg width={width} height={HEIGHT} role="img" aria-label="Room type flow">
+        {Array.from({ length: flow.steps }, (_, step) => (
+          <text
+            key={step}
+            x={step * COLUMN_WIDTH + COLUMN_WIDTH / 2}
+            y={12}
+            textAnchor="middle"
+            fontSize={11}
+            fill={theme.palette.text.secondary}
+          >
+            Room {step + 1}
+          </text>
+        ))}
+
+        {bands.map(({ link, thickness, path }) => {
+          const winRate = link.wins / link.runs;
+          return (
+            <Tooltip
+              key={`${link.step}:${link.source}:${link.target}`}
+              title={`${ROOM_CATEGORIES[link.source].label} → ${
+                ROOM_CATEGORIES[link.target].label
+              } (room ${link.step + 1} to ${link.step + 2}): ${
+                link.runs
+              } runs, ${formatPercent(winRate)} won`}
+              disableInteractive
+              followCursor
+            >
+              <path
+                d={path}
+                fill="none"
+                stroke={getWinRateColor(winRate)}
+                strokeWidth={thickness}
+              />
+            </Tooltip>
+          );
+        })}
+
+        {[...layouts.values()].map(({ node, x, y, height }) => (
+          <Tooltip
+            key={`${node.step}:${node.category}`}
+            title={`${ROOM_CATEGORIES[node.category].label} at room ${
+              node.step + 1
+            }: ${node.runs} runs, ${formatPercent(node.wins / node.runs)} won`}
+            disableInteractive
+          >
+            <rect
+              x={x}
+              y={y}
+              width={NODE_WIDTH}
+              height={height}
+              rx={2}
+              fill={getCategoryColor(node.category)}
+            />
+          </Tooltip>
+        ))}
+      </svg>
+    </Box>
+  );
+};
+
+export default RouteFlowDiagram;
@@ -0,0 +1,564 @@
+import React, { useMemo } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import {
+  Paper,
+  Typography,
+  Box,
+  Grid,
+  Card,
+  CardContent,
+  CardActions,
+  Chip,
+  Button,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  LinearProgress,
+  Tooltip,
+} from "@mui/material";
+import { alpha, Theme } from "@mui/material/styles";
+import { ArrowBack, Close, OpenInNew } from "@mui/icons-material";
+import { useAllRuns, useRunsLoaded } from "../store/useAppStore";
+import {
+  useEntities,
+  useSpriteActions,
+  Entity,
+} from "../store/useSpriteStore";
+import {
+  groupRoomsByAct,
+  getOrbFamily,
+  parseTimeSpanSeconds,
+} from "../utils/saveFileParser";
+import { MAX_COMPARED_RUNS } from "../utils/runCompare";
+import { RunRecord } from "../types";
+import SpriteText from "./SpriteText";
+
+interface StatRow {
+  // May contain <sprite name="..."> tags, rendered through SpriteText
+  label: string;
+  get: (run: RunRecord) => number;
+  format?: (run: RunRecord) => string;
+  better?: "higher" | "lower";
+}
+
+const formatNumber = (num: number) => {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+  return num.toLocaleString();
+};
+
+const formatDuration = (run: RunRecord) => {
+  const totalMinutes = Math.floor(parseTimeSpanSeconds(run.duration) / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  return hours > 0 ? `${hours}h ${totalMinutes % 60}m` : `${totalMinutes}m`;
+};
+
+const STAT_ROWS: StatRow[] = [
+  {
+    label: "Damage Dealt",
+    get: (run) => run.damageDealt,
+    format: (run) => formatNumber(run.damageDealt),
+    better: "higher",
+  },
+  {
+    label: "Best Single Attack",
+    get: (run) => run.mostDamageDealtWithSingleAttack,
+    format: (run) => formatNumber(run.mostDamageDealtWithSingleAttack),
+    better: "higher",
+  },
+  {
+    label: '<sprite name="peg"> Pegs Hit',
+    get: (run) => run.pegsHit,
+    better: "higher",
+  },
+  {
+    label: '<sprite name="crit_peg"> Crit Pegs Hit',
+    get: (run) => run.pegsHitCrit,
+    better: "higher",
+  },
+  {
+    label: '<sprite name="refresh_peg"> Refresh Pegs Hit',
+    get: (run) => run.pegsHitRefresh,
+    better: "higher",
+  },
+  {
+    label: "Pegs Refreshed",
+    get: (run) => run.pegsRefreshed,
+    better: "higher",
+  },
+  {
+    label: '<sprite name="bomb"> Bombs Thrown',
+    get: (run) => run.bombsThrown,
+    better: "higher",
+  },
+  { label: "Shots Taken", get: (run) => run.shotsTaken },
+  {
+    label: "Crit Shots Taken",
+    get: (run) => run.critShotsTaken,
+    better: "higher",
+  },
+  {
+    label: "Damage Negated",
+    get: (run) => run.totalDamageNegated,
+    format: (run) => formatNumber(run.totalDamageNegated),
+    better: "higher",
+  },
+  {
+    label: "Final HP",
+    get: (run) => run.finalHp,
+    format: (run) => `${run.finalHp} / ${run.maxHp}`,
+    better: "higher",
+  },
+  { label: "Max HP", get: (run) => run.maxHp, better: "higher" },
+  {
+    label: '<sprite name="gold"> Coins Earned',
+    get: (run) => run.coinsEarned,
+    better: "higher",
+  },
+  { label: "Final Level", get: (run) => run.finalLevel, better: "higher" },
+  {
+    label: "Duration",
+    get: (run) => parseTimeSpanSeconds(run.duration),
+    format: formatDuration,
+  },
+];
+
+// Count of each orb level in the deck keyed by orb family, index 0 being level 1
+const getOrbLevelCounts = (run: RunRecord): Record<string, number[]> => {
+  const decks: Record<string, number[]> = {};
+
+  Object.values(run.orbStats || {}).forEach((orb) => {
+    const family = getOrbFamily(orb.name);
+    const counts = decks[family] || [0, 0, 0];
+
+    if (orb.levelInstances && orb.levelInstances.some((count) => count > 0)) {
+      orb.levelInstances.forEach((count, index) => {
+        counts[index] = (counts[index] || 0) + count;
+      });
+    } else {
+      const level = parseInt(orb.name.match(/-Lvl(\d+)$/i)?.[1] || "1");
+      counts[level - 1] = (counts[level - 1] || 0) + (orb.amountInDeck || 1);
+    }
+
+    decks[family] = counts;
+  });
+
+  return decks;
+};
+
+const formatOrbLevels = (counts?: number[]) =>
+  counts
+    ? counts
+        .map((count, index) => (count > 0 ? `L${index + 1}×${count}` : null))
+        .filter(Boolean)
+        .join(" ")
+    : "—";
+
+const highlightSx = {
+  backgroundColor: (theme: Theme) => alpha(theme.palette.warning.main, 0.12),
+};
+
+const bestSx = { fontWeight: "bold", color: "success.main" };
+
+const RunCompare: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const allRuns = useAllRuns();
+  const runsLoaded = useRunsLoaded();
+  const entities = useEntities();
+  const { getEntitySprite } = useSpriteActions();
+
+  const ids = useMemo(
+    () =>
+      (searchParams.get("ids") || "")
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean)
+        .slice(0, MAX_COMPARED_RUNS),
+    [searchParams]
+  );
+
+  const runs = useMemo(
+    () =>
+      ids
+        .map((id) => allRuns.find((run) => run.id === id))
+        .filter((run): run is RunRecord => !!run),
+    [ids, allRuns]
+  );
+
+  const orbDecks = useMemo(() => runs.map(getOrbLevelCounts), [runs]);
+  const orbFamilies = useMemo(
+    () =>
+      Array.from(new Set(orbDecks.flatMap((deck) => Object.keys(deck)))).sort(),
+    [orbDecks]
+  );
+
+  const relicNames = useMemo(
+    () =>
+      Array.from(new Set(runs.flatMap((run) => run.relicNames || []))).sort(),
+    [runs]
+  );
+
+  const acts = useMemo(
+    () => runs.map((run) => groupRoomsByAct(run.visitedRoomsInfo || [])),
+    [runs]
+  );
+  const actCount = Math.max(0, ...acts.map((runActs) => runActs.length));
+
+  const findOrbEntity = (family: string): Entity | undefined =>
+    entities?.orbs.find((orb) =>
+      orb.levels?.some(
+        (level) =>
+          getOrbFamily(level.runNameEquivalent || "").toLowerCase() ===
+          family.toLowerCase()
+      )
+    );
+
+  const findRelicEntity = (relicName: string): Entity | undefined =>
+    entities?.relics.find(
+      (relic) =>
+        relic.name.toLowerCase() === relicName.toLowerCase() ||
+        relic.id.toLowerCase() === relicName.toLowerCase()
+    );
+
+  const renderEntityName = (entity: Entity | undefined, fallback: string) => {
+    const sprite = entity ? getEntitySprite(entity) : null;
+    return (
+      <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+        {sprite && (
+          <img
+            src={sprite.url}
+            alt={entity?.name}
+            style={{
+              width: 24,
+              height: 24,
+              objectFit: "contain",
+              imageRendering: "pixelated",
+            }}
+          />
+        )}
+        <span>{entity?.name || fallback}</span>
+      </Box>
+    );
+  };
+
+  const removeRun = (id: string) => {
+    const remaining = ids.filter((runId) => runId !== id);
+    setSearchParams({ ids: remaining.join(",") }, { replace: true });
+  };
+
+  const runColumns = runs.map((run, index) => (
+    <TableCell key={run.id} align="center">
+      Run {index + 1}
+    </TableCell>
+  ));
+
+  if (!runsLoaded) {
+    return (
+      <Box>
+        <Typography variant="h4" gutterBottom>
+          Compare Runs
+        </Typography>
+        <LinearProgress />
+      </Box>
+    );
+  }
+
+  if (runs.length < 2) {
+    return (
+      <Box>
+        <Button
+          startIcon={<ArrowBack />}
+          onClick={() => navigate("/runs")}
+          sx={{ mb: 2 }}
+        >
+          Back to Runs
+        </Button>
+        <Typography variant="h4" gutterBottom>
+          Compare Runs
+        </Typography>
+        <Alert severity="info">
+          Select between 2 and {MAX_COMPARED_RUNS} runs in the run history to
+          compare them side by side.
+        </Alert>
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <Button
+        startIcon={<ArrowBack />}
+        onClick={() => navigate(-1)}
+        sx={{ mb: 2 }}
+      >
+        Back
+      </Button>
+      <Typography variant="h4" gutterBottom>
+        Compare Runs
+      </Typography>
+
+      {/* Run headers */}
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        {runs.map((run, index) => (
+          <Grid key={run.id} size={{ xs: 12, sm: 6, md: 12 / runs.length }}>
+            <Card>
+              <CardContent>
+                <Typography variant="overline" color="textSecondary">
+                  Run {index + 1}
+                </Typography>
+                <Typography variant="h6">{run.characterClass}</Typography>
+                <Typography variant="body2" color="textSecondary" gutterBottom>
+                  {new Date(run.timestamp).toLocaleString()}
+                </Typography>
+                <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap" }}>
+                  <Chip
+                    label={run.won ? "Victory" : "Defeat"}
+                    color={run.won ? "success" : "error"}
+                    size="small"
+                  />
+                  {run.cruciballLevel > 0 && (
+                    <Chip
+                      label={`Cruciball ${run.cruciballLevel}`}
+                      color="warning"
+                      size="small"
+                    />
+                  )}
+                  {!run.won && run.defeatedBy && (
+                    <Chip
+                      label={`Defeated by ${run.defeatedBy}`}
+                      variant="outlined"
+                      size="small"
+                    />
+                  )}
+                </Box>
+              </CardContent>
+              <CardActions>
+                <Button
+                  size="small"
+                  startIcon={<OpenInNew />}
+                  onClick={() => navigate(`/runs/${encodeURIComponent(run.id)}`)}
+                >
+                  Details
+                </Button>
+                {runs.length > 2 && (
+                  <Button
+                    size="small"
+                    color="inherit"
+                    startIcon={<Close />}
+                    onClick={() => removeRun(run.id)}
+                  >
+                    Remove
+                  </Button>
+                )}
+              </CardActions>
+            </Card>
+          </Grid>
+        ))}
+      </Grid>
+
+      {/* Combat stats */}
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Combat Stats
+        </Typography>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Stat</TableCell>
+                {runColumns}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {STAT_ROWS.map((row) => {
+                const values = runs.map(row.get);
+                const differs = new Set(values).size > 1;
+                const best =
+                  row.better === "higher"
+                    ? Math.max(...values)
+                    : row.better === "lower"
+                    ? Math.min(...values)
+                    : null;
+
+                return (
+                  <TableRow key={row.label} sx={differs ? highlightSx : undefined}>
+                    <TableCell>
+                      <SpriteText>{row.label}</SpriteText>
+                    </TableCell>
+                    {runs.map((run, index) => (
+                      <TableCell
+                        key={run.id}
+                        align="center"
+                        sx={differs && values[index] === best ? bestSx : undefined}
+                      >
+                        {row.format
+                          ? row.format(run)
+                          : values[index].toLocaleString()}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      <Grid container spacing={3}>
+        {/* Orb decks */}
+        <Grid size={{ xs: 12, lg: 6 }}>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              Orb Decks
+            </Typography>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Orb</TableCell>
+                    {runColumns}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {orbFamilies.map((family) => {
+                    const cells = orbDecks.map((deck) =>
+                      formatOrbLevels(deck[family])
+                    );
+                    const differs = new Set(cells).size > 1;
+
+                    return (
+                      <TableRow
+                        key={family}
+                        sx={differs ? highlightSx : undefined}
+                      >
+                        <TableCell>
+                          {renderEntityName(findOrbEntity(family), family)}
+                        </TableCell>
+                        {cells.map((cell, index) => (
+                          <TableCell key={runs[index].id} align="center">
+                            {cell}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+        </Grid>
+
+        {/* Relics */}
+        <Grid size={{ xs: 12, lg: 6 }}>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              Relics
+            </Typography>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Relic</TableCell>
+                    {runColumns}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {relicNames.map((relicName) => {
+                    const owned = runs.map((run) =>
+                      (run.relicNames || []).includes(relicName)
+                    );
+                    const differs = new Set(owned).size > 1;
+
+                    return (
+                      <TableRow
+                        key={relicName}
+                        sx={differs ? highlightSx : undefined}
+                      >
+                        <TableCell>
+                          {renderEntityName(
+                            findRelicEntity(relicName),
+                            relicName
+                          )}
+                        </TableCell>
+                        {owned.map((hasRelic, index) => (
+                          <TableCell key={runs[index].id} align="center">
+                            {hasRelic ? "✓" : "—"}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+        </Grid>
+
+        {/* Rooms per act */}
+        <Grid size={12}>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              Rooms Visited per Act
+            </Typography>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Act</TableCell>
+                    {runColumns}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {Array.from({ length: actCount }, (_, actIndex) => {
+                    const runActs = acts.map((runActs) => runActs[actIndex]);
+                    const differs =
+                      new Set(runActs.map((act) => act?.length ?? 0)).size > 1;
+
+                    return (
+                      <TableRow
+                        key={actIndex}
+                        sx={differs ? highlightSx : undefined}
+                      >
+                        <TableCell>Act {actIndex + 1}</TableCell>
+                        {runActs.map((act, index) => (
+                          <TableCell key={runs[index].id} align="center">
+                            {act ? (
+                              <Tooltip
+                                title={act.map((room) => room.name).join(" → ")}
+                              >
+                                <Box>
+                                  <Box>{act.map((room) => room.symbol).join(" ")}</Box>
+                                  <Typography
+                                    variant="caption"
+                                    color="textSecondary"
+                                  >
+                                    {act.length} rooms
+                                    {runs[index].bossNames?.[actIndex] &&
+                                      ` · ${runs[index].bossNames[actIndex]}`}
+                                  </Typography>
+                                </Box>
+                              </Tooltip>
+                            ) : (
+                              "—"
+                            )}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+        </Grid>
+      </Grid>
+    </Box>
+  );
+};
+
+export default RunCompare;
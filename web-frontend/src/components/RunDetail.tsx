@@ -1,5 +1,5 @@
 import React, { useMemo, useState } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useLocation, Link } from "react-router-dom";
 import {
   Paper,
   Typography,
@@ -14,9 +14,10 @@ import {
   Divider,
   Tooltip,
   IconButton,
+  Link as MuiLink,
 } from "@mui/material";
 import { ArrowBack, HelpOutline, ExpandMore, ExpandLess } from "@mui/icons-material";
-import { useRunsAndConfig } from "../store/useAppStore";
+import { useAllRuns } from "../store/useAppStore";
 import { useEntities, useSpriteActions } from "../store/useSpriteStore";
 import {
   getRarityName,
@@ -27,30 +28,9 @@ import {
 import SpriteText from "./SpriteText";
 import FormattedDescription from "./FormattedDescription";
 import { ArrowBackIos, ArrowForwardIos } from "@mui/icons-material";
-import { RoomInfo } from "../types";
-
-// Utility function to group rooms by acts (separated by boss encounters)
-const groupRoomsByAct = (rooms: RoomInfo[]): RoomInfo[][] => {
-  const acts: RoomInfo[][] = [];
-  let currentAct: RoomInfo[] = [];
-
-  for (const room of rooms) {
-    currentAct.push(room);
-
-    // If this is a boss room (id 7), end the current act
-    if (room.id === 7) {
-      acts.push([...currentAct]);
-      currentAct = [];
-    }
-  }
-
-  // Add any remaining rooms as the final act (if run didn't end with boss)
-  if (currentAct.length > 0) {
-    acts.push(currentAct);
-  }
-
-  return acts;
-};
+import { useWorkerTask } from "../hooks/useWorkerTask";
+import ActMap from "./ActMap";
+import OrbBreakdown from "./OrbBreakdown";
 
 interface RunOrbLevelCarouselProps {
   orbData: any; // Run data for the orb
@@ -218,7 +198,12 @@ const RunOrbLevelCarousel: React.FC<RunOrbLevelCarouselProps> = ({
 const RunDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { runs } = useRunsAndConfig();
+  const location = useLocation();
+  // Return to the run list with the filters it had when the run was opened
+  const runListPath = `/runs${
+    (location.state as { runListSearch?: string } | null)?.runListSearch || ""
+  }`;
+  const runs = useAllRuns();
   const entities = useEntities();
   const { getEntitySprite } = useSpriteActions();
   
@@ -226,7 +211,6 @@ const RunDetail: React.FC = () => {
   const [relicsExpanded, setRelicsExpanded] = useState(false);
   const [orbsExpanded, setOrbsExpanded] = useState(false);
   const [enemiesExpanded, setEnemiesExpanded] = useState(false);
-  const [roomsExpanded, setRoomsExpanded] = useState(false);
 
   const run = useMemo(() => {
     const decodedId = id ? decodeURIComponent(id) : id;
@@ -294,231 +278,27 @@ const RunDetail: React.FC = () => {
     return orbEntityMap;
   }, [run, entities]);
 
+  // Enemy names are matched to entities by word similarity in the analytics worker
+  const enemyNames = useMemo(
+    () => (run?.enemyData ? Object.keys(run.enemyData) : []),
+    [run]
+  );
+  const { data: enemyMatches } = useWorkerTask(
+    "enemyMatches",
+    null,
+    { names: enemyNames, enemies: entities?.enemies },
+    !!entities && enemyNames.length > 0
+  );
+
   const enemyEntitiesWithData = useMemo(() => {
     if (!run || !entities || !run.enemyData) return [];
 
-    // Create a probabilistic word-based matching function
-    const findEnemyEntity = (runEnemyName: string) => {
-      // Normalize and tokenize the run enemy name
-      const normalizeForMatching = (name: string) => {
-        return name
-          .toLowerCase()
-          .replace(/[-_]/g, "") // Remove hyphens and underscores
-          .replace(/enemy|prefab|container|minion/g, "") // Remove common suffixes
-          .replace(/nosword/g, "") // Remove NoSword variants
-          .trim();
-      };
-
-      const extractWords = (name: string) => {
-        return name
-          .replace(/([a-z])([A-Z])/g, "$1 $2") // Split camelCase BEFORE lowercasing
-          .replace(/([a-z])(\d)/g, "$1 $2") // Split letter-number boundaries
-          .replace(/(\d)([a-z])/g, "$1 $2") // Split number-letter boundaries
-          .toLowerCase() // Now lowercase after splitting
-          .replace(/[-_]/g, " ") // Replace hyphens and underscores with spaces
-          .replace(/\benemy\b|\bprefab\b|\bcontainer\b/g, "") // Remove common suffixes (word boundaries)
-          .replace(/\bnosword\b/g, "") // Remove NoSword variants
-          .split(/\s+/)
-          .filter((word) => word.length > 1) // Filter out single characters
-          .filter(
-            (word) =>
-              ![
-                "the",
-                "of",
-                "and",
-                "or",
-                "but",
-                "in",
-                "on",
-                "at",
-                "to",
-                "for",
-                "with",
-                "by",
-              ].includes(word)
-          ) // Filter common words
-          .map((word) => word.trim())
-          .filter((word) => word.length > 0);
-      };
-
-      const runWords = extractWords(runEnemyName);
-
-      // Calculate match scores for each entity
-      let bestMatch: any = null;
-      let bestScore = 0;
-
-      entities.enemies.forEach((entity) => {
-        const entityIdWords = extractWords(entity.id);
-        const entityNameWords = extractWords(entity.name);
-        const allEntityWords = [...entityIdWords, ...entityNameWords];
-
-        // Calculate word overlap score
-        let score = 0;
-        let totalRunWords = runWords.length;
-
-        // Calculate word matches with better scoring
-        const matchedWords = new Set<string>();
-
-        runWords.forEach((runWord) => {
-          let bestWordScore = 0;
-
-          allEntityWords.forEach((entityWord) => {
-            // Exact word match gets highest score
-            if (entityWord === runWord) {
-              bestWordScore = Math.max(bestWordScore, 3);
-              matchedWords.add(runWord);
-            }
-            // Partial word match (one contains the other) - but be more careful
-            else if (runWord.length > 3 && entityWord.includes(runWord)) {
-              bestWordScore = Math.max(bestWordScore, 2);
-              matchedWords.add(runWord);
-            } else if (entityWord.length > 3 && runWord.includes(entityWord)) {
-              bestWordScore = Math.max(bestWordScore, 1);
-              matchedWords.add(runWord);
-            }
-          });
-
-          score += bestWordScore;
-        });
-
-        // Bonus for matching multiple important words (compound names)
-        const importantWords = runWords.filter(
-          (word) =>
-            !["mines", "single", "hit", "variant", "base"].includes(word)
-        );
-        const matchedImportantWords = importantWords.filter((word) =>
-          matchedWords.has(word)
-        );
-        const importantWordRatio =
-          importantWords.length > 0
-            ? matchedImportantWords.length / importantWords.length
-            : 0;
-
-        if (importantWordRatio >= 0.6) {
-          // At least 60% of important words matched
-          score += 2;
-        }
-
-        // Special bonus for color words - they should match exactly
-        const colorWords = ["green", "blue", "red", "crystal", "rainbow"];
-        const runColorWords = runWords.filter((word) =>
-          colorWords.includes(word)
-        );
-        const entityColorWords = [...entityIdWords, ...entityNameWords].filter(
-          (word) => colorWords.includes(word)
-        );
-
-        // Penalize if colors don't match
-        if (runColorWords.length > 0 && entityColorWords.length > 0) {
-          const colorMatch = runColorWords.some((runColor) =>
-            entityColorWords.includes(runColor)
-          );
-          if (colorMatch) {
-            score += 2; // Bonus for matching color
-          } else {
-            score -= 5; // Penalty for mismatched color
-          }
-        }
-
-        // Bonus for direct ID/name matches
-        if (
-          entity.id.toLowerCase() === runEnemyName.toLowerCase() ||
-          entity.name.toLowerCase() === runEnemyName.toLowerCase()
-        ) {
-          score += 10;
-        }
-
-        // Special handling for some tricky cases
-        const normalizedRunName = normalizeForMatching(runEnemyName);
-        const normalizedEntityId = normalizeForMatching(entity.id);
-        const normalizedEntityName = normalizeForMatching(entity.name);
-
-        // Handle "Container-" prefix removal
-        if (runEnemyName.toLowerCase().startsWith("container-")) {
-          const withoutContainer = runEnemyName.substring(10).toLowerCase();
-          if (
-            entity.id.toLowerCase().includes(withoutContainer) ||
-            entity.name.toLowerCase().includes(withoutContainer)
-          ) {
-            score += 3;
-          }
-        }
-
-        // Handle close fuzzy matches after normalization
-        if (
-          normalizedEntityId === normalizedRunName ||
-          normalizedEntityName === normalizedRunName
-        ) {
-          score += 5;
-        }
-
-        // Special handling for compound names - check if the entity ID contains most of the important words
-        if (runWords.length >= 3) {
-          const entityIdLower = entity.id.toLowerCase();
-          const coreWords = runWords.filter(
-            (word) =>
-              ![
-                "mines",
-                "single",
-                "hit",
-                "variant",
-                "base",
-                "weak",
-                "ranged",
-              ].includes(word)
-          );
-
-          const wordsInEntityId = coreWords.filter((word) =>
-            entityIdLower.includes(word)
-          );
-          if (wordsInEntityId.length >= Math.ceil(coreWords.length * 0.7)) {
-            score += 3; // Bonus for compound matching
-          }
-        }
-
-        // Bonus for close length matches (prevents very short words from matching long names)
-        const lengthDiff = Math.abs(entity.id.length - runEnemyName.length);
-        if (lengthDiff <= 3) {
-          score += 0.5;
-        }
-
-        // Calculate confidence as percentage of words matched (adjusted for new scoring)
-        const confidence = totalRunWords > 0 ? score / (totalRunWords * 3) : 0;
-
-        // Only consider matches with reasonable confidence (but allow negative scores to eliminate bad matches)
-        if (score > 0 && confidence > 0.3 && score > bestScore) {
-          bestScore = score;
-          bestMatch = entity;
-        }
-      });
-
-      // Debug logging for development - show more detail
-      if (process.env.NODE_ENV === "development") {
-        const runWords = extractWords(runEnemyName);
-        console.log(`\n=== Enemy Mapping Debug for "${runEnemyName}" ===`);
-        console.log(`Run words:`, runWords);
-
-        if (bestMatch) {
-          const entityIdWords = extractWords(bestMatch.id);
-          const entityNameWords = extractWords(bestMatch.name);
-          console.log(
-            `Best match: "${bestMatch.id}" (${bestMatch.name}) - Score: ${bestScore}`
-          );
-          console.log(`Entity ID words:`, entityIdWords);
-          console.log(`Entity name words:`, entityNameWords);
-        } else {
-          console.log(`No suitable match found`);
-        }
-        console.log(`=== End Debug ===\n`);
-      }
-
-      return bestMatch;
-    };
-
     return Object.entries(run.enemyData)
       .map(([enemyName, enemyPlayData]) => {
-        // Find the enemy entity using probabilistic word matching
-        const enemy = findEnemyEntity(enemyName);
+        const enemyId = enemyMatches?.[enemyName];
+        const enemy = enemyId
+          ? entities.enemies.find((entity) => entity.id === enemyId)
+          : undefined;
 
         // Map backend data structure to frontend expected structure
         const mappedPlayData = {
@@ -538,7 +318,7 @@ const RunDetail: React.FC = () => {
         };
       })
       .filter((item) => item.entity || item.playData);
-  }, [run, entities]);
+  }, [run, entities, enemyMatches]);
 
   const formatDuration = (duration: string) => {
     const timeMatch = duration.match(/^(\d+):(\d+):(\d+)(?:\.(\d+))?$/);
@@ -566,7 +346,7 @@ const RunDetail: React.FC = () => {
       <Box>
         <Button
           startIcon={<ArrowBack />}
-          onClick={() => navigate("/runs")}
+          onClick={() => navigate(runListPath)}
           sx={{ mb: 2 }}
         >
           Back to Runs
@@ -585,7 +365,7 @@ const RunDetail: React.FC = () => {
     <Box>
       <Button
         startIcon={<ArrowBack />}
-        onClick={() => navigate("/runs")}
+        onClick={() => navigate(runListPath)}
         sx={{ mb: 2 }}
       >
         Back to Runs
@@ -783,7 +563,13 @@ const RunDetail: React.FC = () => {
                             </Avatar>
                             <Box sx={{ flex: 1, minWidth: 0 }}>
                               <Typography variant="subtitle1" fontWeight="bold">
-                                {relic!.name}
+                                <MuiLink
+                                  component={Link}
+                                  to={`/entities/relic/${encodeURIComponent(relic!.id)}`}
+                                  color="inherit"
+                                >
+                                  {relic!.name}
+                                </MuiLink>
                               </Typography>
                               {relic!.description && (
                                 <FormattedDescription
@@ -857,6 +643,13 @@ const RunDetail: React.FC = () => {
                 </IconButton>
               </Box>
 
+              {orbsExpanded && Object.keys(run.orbStats || {}).length > 0 && (
+                <>
+                  <OrbBreakdown run={run} orbEntities={orbEntities} />
+                  <Divider sx={{ my: 3 }} />
+                </>
+              )}
+
               {orbsExpanded && (
                 Object.keys(run.orbStats || {}).length > 0 ? (
                   <Grid container spacing={2}>
@@ -927,7 +720,17 @@ const RunDetail: React.FC = () => {
                                       variant="subtitle1"
                                       fontWeight="bold"
                                     >
-                                      {displayName}
+                                      {orbEntity ? (
+                                        <MuiLink
+                                          component={Link}
+                                          to={`/entities/orb/${encodeURIComponent(orbEntity.id)}`}
+                                          color="inherit"
+                                        >
+                                          {displayName}
+                                        </MuiLink>
+                                      ) : (
+                                        displayName
+                                      )}
                                     </Typography>
                                     <Chip
                                       label={`Lvl ${level}`}
@@ -1135,7 +938,17 @@ const RunDetail: React.FC = () => {
                             </Avatar>
                             <Box sx={{ flex: 1, minWidth: 0 }}>
                               <Typography variant="subtitle1" fontWeight="bold">
-                                {enemyItem.entity?.name || enemyItem.name}
+                                {enemyItem.entity ? (
+                                  <MuiLink
+                                    component={Link}
+                                    to={`/entities/enemy/${encodeURIComponent(enemyItem.entity.id)}`}
+                                    color="inherit"
+                                  >
+                                    {enemyItem.entity.name}
+                                  </MuiLink>
+                                ) : (
+                                  enemyItem.name
+                                )}
                               </Typography>
                               {enemyItem.entity &&
                                 enemyItem.entity.name !== enemyItem.name && (
@@ -1271,191 +1084,42 @@ const RunDetail: React.FC = () => {
           </Grid>
         )}
 
-        {/* Rooms Visited */}
+        {/* Act Map */}
         {run.visitedRoomsInfo && run.visitedRoomsInfo.length > 0 && (
           <Grid size={12}>
             <Paper sx={{ p: 3 }}>
-              <Box
-                sx={{
-                  display: "flex",
-                  alignItems: "center",
-                  justifyContent: "space-between",
-                  cursor: "pointer",
-                  mb: roomsExpanded ? 2 : 0,
-                }}
-                onClick={() => setRoomsExpanded(!roomsExpanded)}
-              >
-                <Typography variant="h5">
-                  Rooms Visited ({run.visitedRoomsInfo.length})
-                </Typography>
-                <IconButton size="small">
-                  {roomsExpanded ? <ExpandLess /> : <ExpandMore />}
-                </IconButton>
-              </Box>
-
-              {roomsExpanded && (
-                <Box>
-                  {/* Room Timeline by Act */}
-                  <Typography variant="h6" gutterBottom sx={{ mt: 2 }}>
-                    Room Timeline
-                  </Typography>
-                  
-                  {(() => {
-                    const acts = groupRoomsByAct(run.visitedRoomsInfo);
-                    let globalRoomIndex = 0; // Track global room position across all acts
-                    
-                    return acts.map((act, actIndex) => {
-                      const actLabel = actIndex === acts.length - 1 && !act.some(room => room.id === 7) // 7 = BOSS
-                        ? `Act ${actIndex + 1} (Incomplete)`
-                        : `Act ${actIndex + 1}`;
-                      
-                      return (
-                        <Box key={actIndex} sx={{ mb: 3 }}>
-                          <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
-                            {actLabel}
-                          </Typography>
-                          <Box 
-                            sx={{ 
-                              display: "flex", 
-                              flexWrap: "wrap", 
-                              gap: 0.5,
-                              alignItems: "center",
-                            }}
-                          >
-                            {act.map((room, roomIndex) => {
-                              globalRoomIndex++;
-                              
-                              // Handle boss rooms specially
-                              let chipContent;
-                              let tooltipTitle = `${room.name} (Room ${globalRoomIndex})`;
-                              
-                              if (room.id === 7 && run.bossNames && actIndex < run.bossNames.length) {
-                                // This is a boss room - find the boss entity and use its sprite
-                                const bossName = run.bossNames[actIndex];
-                                
-                                // First try to find entities with "boss" in the name that match the boss name
-                                let bossEntity = entities?.enemies?.find(enemy => 
-                                  enemy.name.toLowerCase().includes("boss") &&
-                                  (enemy.name.toLowerCase().includes(bossName.toLowerCase()) ||
-                                   bossName.toLowerCase().includes(enemy.name.toLowerCase().replace("boss", "").trim()))
-                                );
-                                
-                                // If no boss entity found, try miniboss entities
-                                if (!bossEntity) {
-                                  bossEntity = entities?.enemies?.find(enemy => 
-                                    enemy.name.toLowerCase().includes("miniboss") &&
-                                    (enemy.name.toLowerCase().includes(bossName.toLowerCase()) ||
-                                     bossName.toLowerCase().includes(enemy.name.toLowerCase().replace("miniboss", "").trim()))
-                                  );
-                                }
-                                
-                                // Fallback to any enemy that matches (for edge cases)
-                                if (!bossEntity) {
-                                  bossEntity = entities?.enemies?.find(enemy => 
-                                    enemy.name.toLowerCase().includes(bossName.toLowerCase()) ||
-                                    bossName.toLowerCase().includes(enemy.name.toLowerCase())
-                                  );
-                                }
-                                
-                                const bossSprite = bossEntity ? getEntitySprite(bossEntity) : null;
-                                
-                                if (bossSprite) {
-                                  chipContent = (
-                                    <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
-                                      <img 
-                                        src={bossSprite.url} 
-                                        alt={bossName}
-                                        style={{ 
-                                          width: 16, 
-                                          height: 16, 
-                                          objectFit: "contain",
-                                          imageRendering: "pixelated"
-                                        }} 
-                                      />
-                                      <span>{bossName}</span>
-                                    </Box>
-                                  );
-                                } else {
-                                  chipContent = `${room.symbol} ${bossName}`;
-                                }
-                                
-                                tooltipTitle = `${bossName} Boss (Room ${globalRoomIndex})`;
-                              } else {
-                                chipContent = `${room.symbol} ${room.name}`;
-                              }
-                              
-                              return (
-                                <Box key={roomIndex} sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
-                                  <Box sx={{ display: "flex", flexDirection: "column", alignItems: "center", gap: 0.25 }}>
-                                    <Typography 
-                                      variant="caption" 
-                                      sx={{ 
-                                        fontSize: "0.6rem", 
-                                        color: "text.secondary",
-                                        lineHeight: 1
-                                      }}
-                                    >
-                                      {globalRoomIndex}
-                                    </Typography>
-                                    <Tooltip title={tooltipTitle} arrow>
-                                      <Chip
-                                        label={chipContent}
-                                        size="small"
-                                        color={room.color as any}
-                                        variant={room.id === 7 ? "filled" : "outlined"} // Boss rooms are filled
-                                      />
-                                    </Tooltip>
-                                  </Box>
-                                  {roomIndex < act.length - 1 && (
-                                    <Typography 
-                                      variant="body2" 
-                                      sx={{ 
-                                        color: "text.secondary",
-                                        fontSize: "0.75rem",
-                                        mx: 0.5
-                                      }}
-                                    >
-                                      →
-                                    </Typography>
-                                  )}
-                                </Box>
-                              );
-                            })}
-                          </Box>
-                        </Box>
-                      );
-                    });
-                  })()}
+              <Typography variant="h5" gutterBottom>
+                Act Map ({run.visitedRoomsInfo.length} rooms)
+              </Typography>
+              <ActMap run={run} />
 
-                  {/* Room Statistics */}
-                  <Divider sx={{ my: 3 }} />
-                  <Typography variant="h6" gutterBottom>
-                    Room Statistics
-                  </Typography>
-                  <Grid container spacing={2}>
-                    {Object.entries(run.roomTypeStatistics)
-                      .sort(([, countA], [, countB]) => countB - countA) // Sort by count descending
-                      .map(([roomType, count]) => (
-                        <Grid
-                          key={roomType}
-                          size={{
-                            xs: 6,
-                            sm: 4,
-                            md: 3
-                          }}>
-                          <Card variant="outlined" sx={{ textAlign: "center", p: 1 }}>
-                            <Typography variant="body2" color="textSecondary">
-                              {roomType}
-                            </Typography>
-                            <Typography variant="h6">
-                              {count}
-                            </Typography>
-                          </Card>
-                        </Grid>
-                      ))}
-                  </Grid>
-                </Box>
-              )}
+              {/* Room Statistics */}
+              <Divider sx={{ my: 3 }} />
+              <Typography variant="h6" gutterBottom>
+                Room Statistics
+              </Typography>
+              <Grid container spacing={2}>
+                {Object.entries(run.roomTypeStatistics)
+                  .sort(([, countA], [, countB]) => countB - countA) // Sort by count descending
+                  .map(([roomType, count]) => (
+                    <Grid
+                      key={roomType}
+                      size={{
+                        xs: 6,
+                        sm: 4,
+                        md: 3
+                      }}>
+                      <Card variant="outlined" sx={{ textAlign: "center", p: 1 }}>
+                        <Typography variant="body2" color="textSecondary">
+                          {roomType}
+                        </Typography>
+                        <Typography variant="h6">
+                          {count}
+                        </Typography>
+                      </Card>
+                    </Grid>
+                  ))}
+              </Grid>
             </Paper>
           </Grid>
         )}
@@ -0,0 +1,178 @@
+import React from "react";
+import {
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Grid,
+  FormControlLabel,
+  Checkbox,
+} from "@mui/material";
+import { RunFilterState } from "../utils/runFilterParams";
+import RunQueryInput from "./RunQueryInput";
+
+interface RunFilterFieldsProps {
+  filters: RunFilterState;
+  onChange: (update: Partial<RunFilterState>) => void;
+  characterClasses: string[];
+  // Two fields per row, for narrow panels
+  compact?: boolean;
+}
+
+// The run filter form, shared by the run list and the cohort editor
+const RunFilterFields: React.FC<RunFilterFieldsProps> = ({
+  filters,
+  onChange,
+  characterClasses,
+  compact = false,
+}) => {
+  return (
+    <Grid container spacing={2}>
+      <Grid size={12}>
+        <RunQueryInput
+          value={filters.search}
+          onChange={(search) => onChange({ search })}
+        />
+      </Grid>
+
+      <Grid
+        size={{
+          xs: 12,
+          sm: 6,
+          md: compact ? 6 : 3
+        }}>
+        <FormControl fullWidth>
+          <InputLabel>Character Class</InputLabel>
+          <Select
+            value={filters.characterClass}
+            label="Character Class"
+            onChange={(e) =>
+              onChange({ characterClass: e.target.value })
+            }
+          >
+            <MenuItem value="">All Classes</MenuItem>
+            {characterClasses.map((cls) => (
+              <MenuItem key={cls} value={cls}>
+                {cls}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Grid>
+
+      <Grid
+        size={{
+          xs: 12,
+          sm: 6,
+          md: compact ? 6 : 3
+        }}>
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={filters.won === true}
+              onChange={(e) =>
+                onChange({ won: e.target.checked ? true : null })
+              }
+            />
+          }
+          label="Wins Only"
+        />
+      </Grid>
+
+      <Grid
+        size={{
+          xs: 12,
+          sm: 6,
+          md: compact ? 6 : 3
+        }}>
+        <TextField
+          fullWidth
+          label="Start Date"
+          type="date"
+          value={filters.startDate}
+          onChange={(e) => onChange({ startDate: e.target.value })}
+          InputLabelProps={{ shrink: true }}
+        />
+      </Grid>
+
+      <Grid
+        size={{
+          xs: 12,
+          sm: 6,
+          md: compact ? 6 : 3
+        }}>
+        <TextField
+          fullWidth
+          label="End Date"
+          type="date"
+          value={filters.endDate}
+          onChange={(e) => onChange({ endDate: e.target.value })}
+          InputLabelProps={{ shrink: true }}
+        />
+      </Grid>
+
+      <Grid
+        size={{
+          xs: 12,
+          sm: 6,
+          md: compact ? 6 : 3
+        }}>
+        <TextField
+          fullWidth
+          label="Min Damage"
+          type="number"
+          value={filters.minDamage}
+          onChange={(e) => onChange({ minDamage: e.target.value })}
+        />
+      </Grid>
+
+      <Grid
+        size={{
+          xs: 12,
+          sm: 6,
+          md: compact ? 6 : 3
+        }}>
+        <TextField
+          fullWidth
+          label="Max Damage"
+          type="number"
+          value={filters.maxDamage}
+          onChange={(e) => onChange({ maxDamage: e.target.value })}
+        />
+      </Grid>
+
+      <Grid
+        size={{
+          xs: 12,
+          sm: 6,
+          md: compact ? 6 : 3
+        }}>
+        <TextField
+          fullWidth
+          label="Min Duration (minutes)"
+          type="number"
+          value={filters.minDuration}
+          onChange={(e) => onChange({ minDuration: e.target.value })}
+        />
+      </Grid>
+
+      <Grid
+        size={{
+          xs: 12,
+          sm: 6,
+          md: compact ? 6 : 3
+        }}>
+        <TextField
+          fullWidth
+          label="Max Duration (minutes)"
+          type="number"
+          value={filters.maxDuration}
+          onChange={(e) => onChange({ maxDuration: e.target.value })}
+        />
+      </Grid>
+    </Grid>
+  );
+};
+
+export default RunFilterFields;
@@ -1,116 +1,167 @@
-import React, { useState, useMemo, useEffect, useCallback } from "react";
+import React, {
+  useState,
+  useMemo,
+  useEffect,
+  useCallback,
+  useRef,
+} from "react";
 import {
   Paper,
   Typography,
   Box,
-  TextField,
-  FormControl,
-  InputLabel,
-  Select,
-  MenuItem,
   Chip,
-  Grid,
-  FormControlLabel,
-  Checkbox,
   CircularProgress,
   Alert,
+  Button,
 } from "@mui/material";
-import { DataGrid, GridColDef } from "@mui/x-data-grid";
-import { useNavigate } from "react-router-dom";
-import { RunRecord } from "../types";
+import { CompareArrows, EventNote } from "@mui/icons-material";
+import {
+  DataGrid,
+  GridColDef,
+  GridPaginationModel,
+  GridSortModel,
+  GridRowSelectionModel,
+  GRID_CHECKBOX_SELECTION_COL_DEF,
+} from "@mui/x-data-grid";
+import { Link, useNavigate, useLocation } from "react-router-dom";
+import { RunRecord, RunQuery } from "../types";
 import {
   useRunHistoryData,
   useAppActions,
-  useRunsAndConfig,
+  useAppConfig,
 } from "../store/useAppStore";
+import { useRunFilters } from "../hooks/useRunFilters";
+import { useUrlParam } from "../hooks/useUrlState";
+import {
+  RunFilterState,
+  toRunQuery,
+  writeRunFilterParams,
+} from "../utils/runFilterParams";
+import { MAX_COMPARED_RUNS } from "../utils/runCompare";
+import RunFilterFields from "./RunFilterFields";
+import FilterPresets from "./FilterPresets";
 
 const RunList: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const runHistoryData = useRunHistoryData();
-  const { runs, excludeCustomRuns } = useRunsAndConfig();
+  const config = useAppConfig();
   const { getFilteredRuns } = useAppActions();
 
-  const [filters, setFilters] = useState({
-    characterClass: "",
-    won: null as boolean | null,
-    startDate: null as Date | null,
-    endDate: null as Date | null,
-    minDamage: "",
-    maxDamage: "",
-    minDuration: "",
-    maxDuration: "",
+  // Filters and sorting live in the URL so the view can be linked and survives navigation
+  const { filters, setFilters } = useRunFilters();
+  const [sortParam, setSortParam] = useUrlParam("sort", "timestamp:desc");
+
+  const [paginationModel, setPaginationModel] = useState<GridPaginationModel>({
+    page: 0,
+    pageSize: 25,
   });
+  const sortModel = useMemo<GridSortModel>(() => {
+    const [field, sort] = sortParam.split(":");
+    return field ? [{ field, sort: sort === "asc" ? "asc" : "desc" }] : [];
+  }, [sortParam]);
+  const handleSortModelChange = (model: GridSortModel) =>
+    setSortParam(model[0] ? `${model[0].field}:${model[0].sort}` : "");
+
+  // Runs picked for side-by-side comparison; kept across pages
+  const [selectedRunIds, setSelectedRunIds] = useState<string[]>([]);
 
   const [apiFilteredRuns, setApiFilteredRuns] = useState<RunRecord[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [totalCount, setTotalCount] = useState(0);
 
+  // Cursor (id of the last run on the previous page) for each page we've fetched,
+  // so paging forward stays stable when live updates add new runs at the top
+  const pageCursors = useRef<Record<number, string>>({});
+  // Responses can arrive out of order, so only the latest request may update the list
+  const latestRequestId = useRef(0);
+
   // Create a stable reference for the filter function
   const applyFilters = useCallback(
-    async (currentFilters: typeof filters) => {
+    async (
+      currentFilters: RunFilterState,
+      pagination: GridPaginationModel,
+      sort: GridSortModel
+    ) => {
+      const requestId = ++latestRequestId.current;
+      const isStale = () => requestId !== latestRequestId.current;
+
       try {
         setLoading(true);
         setError(null);
 
-        const apiFilters: Record<string, string | number | boolean> = {};
-        if (currentFilters.characterClass)
-          apiFilters.characterClass = currentFilters.characterClass;
-        if (currentFilters.won !== null) apiFilters.won = currentFilters.won;
-        if (currentFilters.startDate)
-          apiFilters.startDate = currentFilters.startDate.toISOString();
-        if (currentFilters.endDate)
-          apiFilters.endDate = currentFilters.endDate.toISOString();
-        if (currentFilters.minDamage)
-          apiFilters.minDamage = parseInt(currentFilters.minDamage);
-        if (currentFilters.maxDamage)
-          apiFilters.maxDamage = parseInt(currentFilters.maxDamage);
-        if (currentFilters.minDuration)
-          apiFilters.minDuration = parseFloat(currentFilters.minDuration);
-        if (currentFilters.maxDuration)
-          apiFilters.maxDuration = parseFloat(currentFilters.maxDuration);
-
+        const apiFilters: RunQuery = {
+          ...toRunQuery(currentFilters),
+          page: pagination.page,
+          pageSize: pagination.pageSize,
+          sortField: sort[0]?.field,
+          sortOrder: sort[0]?.sort ?? undefined,
+          cursor: pageCursors.current[pagination.page],
+        };
         const result = await getFilteredRuns(apiFilters);
+        if (isStale()) return;
         setApiFilteredRuns(result.runs);
         setTotalCount(result.totalCount);
+        if (result.nextCursor) {
+          pageCursors.current[pagination.page + 1] = result.nextCursor;
+        }
       } catch (err) {
+        if (isStale()) return;
         setError(err instanceof Error ? err.message : "Failed to filter runs");
-        // Fallback to original runs if API fails
-        if (runHistoryData) {
-          setApiFilteredRuns(runHistoryData.runs);
-          setTotalCount(runHistoryData.runs.length);
-        }
+        setApiFilteredRuns([]);
+        setTotalCount(0);
       } finally {
-        setLoading(false);
+        if (!isStale()) setLoading(false);
       }
     },
-    [getFilteredRuns, runHistoryData]
+    [getFilteredRuns]
   );
 
+  // Class statistics are available before the full run list has loaded
   const characterClasses = useMemo(() => {
-    const filteredRuns = excludeCustomRuns
-      ? runs.filter((run) => !run.isCustomRun)
-      : runs;
-    const classes = new Set(filteredRuns.map((run) => run.characterClass));
-    return Array.from(classes).sort();
-  }, [runs, excludeCustomRuns]);
+    return Object.keys(runHistoryData?.classStatistics || {}).sort();
+  }, [runHistoryData]);
+
+  // Filters, sorting, page size or config changes invalidate the page cursors and go back to page 1
+  useEffect(() => {
+    pageCursors.current = {};
+    // A response still in flight belongs to the old filters and would write a stale cursor
+    latestRequestId.current++;
+    setPaginationModel((prev) => ({ ...prev, page: 0 }));
+  }, [filters, sortModel, config, paginationModel.pageSize]);
 
-  // Apply filters via API when they change
+  // Fetch the current page via API when anything changes
   useEffect(() => {
     if (!runHistoryData) return;
 
     // Debounce the API call
-    const timeoutId = setTimeout(() => applyFilters(filters), 300);
+    const timeoutId = setTimeout(
+      () => applyFilters(filters, paginationModel, sortModel),
+      300
+    );
     return () => clearTimeout(timeoutId);
-  }, [filters, runHistoryData, applyFilters]);
+  }, [
+    filters,
+    paginationModel,
+    sortModel,
+    config,
+    runHistoryData,
+    applyFilters,
+  ]);
 
-  // Initialize with all runs from the store
-  useEffect(() => {
-    if (runHistoryData) {
-      setApiFilteredRuns(runHistoryData.runs);
-      setTotalCount(runHistoryData.runs.length);
-    }
-  }, [runHistoryData]);
+  const selectionModel = useMemo<GridRowSelectionModel>(
+    () => ({ type: "include", ids: new Set(selectedRunIds) }),
+    [selectedRunIds]
+  );
+
+  const handleSelectionChange = (model: GridRowSelectionModel) => {
+    // "Select all" on a page reports an exclude model; only explicit picks count
+    if (model.type !== "include") return;
+    setSelectedRunIds(
+      Array.from(model.ids, String).slice(0, MAX_COMPARED_RUNS)
+    );
+  };
 
   if (!runHistoryData) {
     return (
@@ -219,183 +270,41 @@ const RunList: React.FC = () => {
 
   return (
     <Box>
-      <Typography variant="h4" gutterBottom>
-        Run History ({apiFilteredRuns.length} runs)
-      </Typography>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 1,
+        }}
+      >
+        <Typography variant="h4">Run History ({totalCount} runs)</Typography>
+        <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<EventNote />}
+            component={Link}
+            to={{
+              pathname: "/runs/sessions",
+              search: writeRunFilterParams(new URLSearchParams(), filters).toString(),
+            }}
+          >
+            Sessions
+          </Button>
+          <FilterPresets />
+        </Box>
+      </Box>
       {/* Filters */}
       <Paper sx={{ p: 2, mb: 2 }}>
         <Typography variant="h6" gutterBottom>
           Filters
         </Typography>
-        <Grid container spacing={2}>
-          <Grid
-            size={{
-              xs: 12,
-              sm: 6,
-              md: 3
-            }}>
-            <FormControl fullWidth>
-              <InputLabel>Character Class</InputLabel>
-              <Select
-                value={filters.characterClass}
-                label="Character Class"
-                onChange={(e) =>
-                  setFilters((prev) => ({
-                    ...prev,
-                    characterClass: e.target.value,
-                  }))
-                }
-              >
-                <MenuItem value="">All Classes</MenuItem>
-                {characterClasses.map((cls) => (
-                  <MenuItem key={cls} value={cls}>
-                    {cls}
-                  </MenuItem>
-                ))}
-              </Select>
-            </FormControl>
-          </Grid>
-
-          <Grid
-            size={{
-              xs: 12,
-              sm: 6,
-              md: 3
-            }}>
-            <FormControlLabel
-              control={
-                <Checkbox
-                  checked={filters.won === true}
-                  onChange={(e) =>
-                    setFilters((prev) => ({
-                      ...prev,
-                      won: e.target.checked ? true : null,
-                    }))
-                  }
-                />
-              }
-              label="Wins Only"
-            />
-          </Grid>
-
-          <Grid
-            size={{
-              xs: 12,
-              sm: 6,
-              md: 3
-            }}>
-            <TextField
-              fullWidth
-              label="Start Date"
-              type="date"
-              value={
-                filters.startDate
-                  ? filters.startDate.toISOString().split("T")[0]
-                  : ""
-              }
-              onChange={(e) =>
-                setFilters((prev) => ({
-                  ...prev,
-                  startDate: e.target.value ? new Date(e.target.value) : null,
-                }))
-              }
-              InputLabelProps={{ shrink: true }}
-            />
-          </Grid>
-
-          <Grid
-            size={{
-              xs: 12,
-              sm: 6,
-              md: 3
-            }}>
-            <TextField
-              fullWidth
-              label="End Date"
-              type="date"
-              value={
-                filters.endDate
-                  ? filters.endDate.toISOString().split("T")[0]
-                  : ""
-              }
-              onChange={(e) =>
-                setFilters((prev) => ({
-                  ...prev,
-                  endDate: e.target.value ? new Date(e.target.value) : null,
-                }))
-              }
-              InputLabelProps={{ shrink: true }}
-            />
-          </Grid>
-
-          <Grid
-            size={{
-              xs: 12,
-              sm: 6,
-              md: 3
-            }}>
-            <TextField
-              fullWidth
-              label="Min Damage"
-              type="number"
-              value={filters.minDamage}
-              onChange={(e) =>
-                setFilters((prev) => ({ ...prev, minDamage: e.target.value }))
-              }
-            />
-          </Grid>
-
-          <Grid
-            size={{
-              xs: 12,
-              sm: 6,
-              md: 3
-            }}>
-            <TextField
-              fullWidth
-              label="Max Damage"
-              type="number"
-              value={filters.maxDamage}
-              onChange={(e) =>
-                setFilters((prev) => ({ ...prev, maxDamage: e.target.value }))
-              }
-            />
-          </Grid>
-
-          <Grid
-            size={{
-              xs: 12,
-              sm: 6,
-              md: 3
-            }}>
-            <TextField
-              fullWidth
-              label="Min Duration (minutes)"
-              type="number"
-              value={filters.minDuration}
-              onChange={(e) =>
-                setFilters((prev) => ({ ...prev, minDuration: e.target.value }))
-              }
-            />
-          </Grid>
-
-          <Grid
-            size={{
-              xs: 12,
-              sm: 6,
-              md: 3
-            }}>
-            <TextField
-              fullWidth
-              label="Max Duration (minutes)"
-              type="number"
-              value={filters.maxDuration}
-              onChange={(e) =>
-                setFilters((prev) => ({ ...prev, maxDuration: e.target.value }))
-              }
-            />
-          </Grid>
-        </Grid>
+        <RunFilterFields
+          filters={filters}
+          onChange={setFilters}
+          characterClasses={characterClasses}
+        />
 
         {loading && (
           <Box sx={{ display: "flex", justifyContent: "center", mt: 2 }}>
@@ -412,6 +321,39 @@ const RunList: React.FC = () => {
           </Alert>
         )}
       </Paper>
+      {selectedRunIds.length > 0 && (
+        <Paper
+          sx={{
+            p: 1.5,
+            mb: 2,
+            display: "flex",
+            alignItems: "center",
+            gap: 2,
+          }}
+        >
+          <Typography variant="body2" sx={{ flexGrow: 1 }}>
+            {selectedRunIds.length} of up to {MAX_COMPARED_RUNS} runs selected
+          </Typography>
+          <Button size="small" onClick={() => setSelectedRunIds([])}>
+            Clear
+          </Button>
+          <Button
+            size="small"
+            variant="contained"
+            startIcon={<CompareArrows />}
+            disabled={selectedRunIds.length < 2}
+            onClick={() =>
+              navigate(
+                `/runs/compare?ids=${selectedRunIds
+                  .map(encodeURIComponent)
+                  .join(",")}`
+              )
+            }
+          >
+            Compare
+          </Button>
+        </Paper>
+      )}
       {/* Data Grid */}
       <Paper sx={{ width: "100%", minHeight: 400 }}>
         <DataGrid
@@ -419,14 +361,29 @@ const RunList: React.FC = () => {
           columns={columns}
           rowCount={totalCount}
           loading={loading}
-          initialState={{
-            pagination: {
-              paginationModel: { pageSize: 25 },
-            },
-          }}
+          paginationMode="server"
+          sortingMode="server"
+          paginationModel={paginationModel}
+          onPaginationModelChange={setPaginationModel}
+          sortModel={sortModel}
+          onSortModelChange={handleSortModelChange}
           pageSizeOptions={[25, 50, 100]}
+          checkboxSelection
+          keepNonExistentRowsSelected
+          rowSelectionModel={selectionModel}
+          onRowSelectionModelChange={handleSelectionChange}
+          isRowSelectable={(params) =>
+            selectedRunIds.length < MAX_COMPARED_RUNS ||
+            selectedRunIds.includes(String(params.id))
+          }
           disableRowSelectionOnClick
-          onRowClick={(params) => navigate(`/runs/${encodeURIComponent(params.id)}`)}
+          onCellClick={(params) => {
+            // Clicking the checkbox selects the run for comparison instead of opening it
+            if (params.field === GRID_CHECKBOX_SELECTION_COL_DEF.field) return;
+            navigate(`/runs/${encodeURIComponent(params.id)}`, {
+              state: { runListSearch: location.search },
+            });
+          }}
           sx={{ 
             cursor: "pointer",
             '& .MuiDataGrid-root': {
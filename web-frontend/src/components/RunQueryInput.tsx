@@ -0,0 +1,168 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Autocomplete, TextField, Box, Typography } from "@mui/material";
+import { Search } from "@mui/icons-material";
+import { useEntities } from "../store/useSpriteStore";
+import { useRunHistoryData } from "../store/useAppStore";
+import {
+  getQuerySuggestions,
+  parseRunQuery,
+  QuerySuggestion,
+  QuerySuggestionSource,
+} from "../utils/runQuery";
+
+interface RunQueryInputProps {
+  value: string;
+  // Only called with queries that parse
+  onChange: (query: string) => void;
+}
+
+const uniqueSorted = (names: string[]) =>
+  Array.from(new Set(names.filter(Boolean))).sort((a, b) => a.localeCompare(b));
+
+const RunQueryInput: React.FC<RunQueryInputProps> = ({ value, onChange }) => {
+  const entities = useEntities();
+  const runHistoryData = useRunHistoryData();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const [inputValue, setInputValue] = useState(value);
+  const [cursor, setCursor] = useState(value.length);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const lastEmitted = useRef(value);
+
+  // Pick up queries set from outside, e.g. a preset or a shared link
+  useEffect(() => {
+    if (value !== lastEmitted.current) {
+      lastEmitted.current = value;
+      setInputValue(value);
+      setParseError(null);
+    }
+  }, [value]);
+
+  // Suggest names from the entity data, falling back to what the runs contain
+  const source = useMemo<QuerySuggestionSource>(() => {
+    const runs = runHistoryData?.runs || [];
+    const enemies = entities?.enemies || [];
+    return {
+      classes: Object.keys(runHistoryData?.classStatistics || {}).sort(),
+      relics: uniqueSorted(
+        entities?.relics.length
+          ? entities.relics.map((relic) => relic.name)
+          : runs.flatMap((run) => run.relicNames || [])
+      ),
+      orbs: uniqueSorted(
+        entities?.orbs.length
+          ? entities.orbs.map((orb) => orb.name)
+          : runs.flatMap((run) => run.orbsUsed || [])
+      ),
+      bosses: uniqueSorted(
+        enemies.length
+          ? enemies
+              .filter((enemy) => enemy.enemyType === "BOSS")
+              .map((enemy) => enemy.name)
+          : runs.flatMap((run) => run.bossNames || [])
+      ),
+      enemies: uniqueSorted(
+        enemies.length
+          ? enemies.map((enemy) => enemy.name)
+          : runs.flatMap((run) => Object.keys(run.enemyData || {}))
+      ),
+    };
+  }, [entities, runHistoryData]);
+
+  const suggestions = useMemo(
+    () => getQuerySuggestions(inputValue, cursor, source),
+    [inputValue, cursor, source]
+  );
+
+  const updateQuery = (query: string, nextCursor: number) => {
+    setInputValue(query);
+    setCursor(nextCursor);
+
+    try {
+      parseRunQuery(query);
+      setParseError(null);
+      lastEmitted.current = query;
+      onChange(query);
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : "Invalid query");
+    }
+  };
+
+  const applySuggestion = (suggestion: QuerySuggestion) => {
+    const query =
+      inputValue.slice(0, suggestion.replaceStart) +
+      suggestion.insertText +
+      inputValue.slice(suggestion.replaceEnd);
+    const nextCursor = suggestion.replaceStart + suggestion.insertText.length;
+    updateQuery(query, nextCursor);
+
+    // Keep typing where the suggestion ended
+    requestAnimationFrame(() =>
+      inputRef.current?.setSelectionRange(nextCursor, nextCursor)
+    );
+  };
+
+  return (
+    <Autocomplete<QuerySuggestion, false, true, true>
+      freeSolo
+      disableClearable
+      options={suggestions}
+      filterOptions={(options) => options}
+      getOptionLabel={(option) =>
+        typeof option === "string" ? option : option.label
+      }
+      inputValue={inputValue}
+      value={null}
+      onInputChange={(event, newValue, reason) => {
+        if (reason !== "input") return;
+        const target = event?.target as HTMLInputElement | undefined;
+        updateQuery(newValue, target?.selectionStart ?? newValue.length);
+      }}
+      onChange={(_, option) => {
+        if (option && typeof option !== "string") applySuggestion(option);
+      }}
+      renderOption={(props, option) => {
+        const { key, ...optionProps } = props;
+        return (
+          <Box component="li" key={key} {...optionProps}>
+            <Typography variant="body2" sx={{ fontFamily: "monospace", mr: 1 }}>
+              {option.label}
+            </Typography>
+            {option.description && (
+              <Typography variant="caption" color="text.secondary">
+                {option.description}
+              </Typography>
+            )}
+          </Box>
+        );
+      }}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          inputRef={inputRef}
+          label="Search"
+          placeholder='class:Peglinomancer won:true relic:"Sapper Sack" cruciball>=5 duration<15m'
+          error={!!parseError}
+          helperText={
+            parseError ||
+            "Combine field:value terms; use OR, -term and parentheses for more complex queries"
+          }
+          onKeyUp={(e) =>
+            setCursor((e.target as HTMLInputElement).selectionStart ?? 0)
+          }
+          onClick={(e) =>
+            setCursor((e.target as HTMLInputElement).selectionStart ?? 0)
+          }
+          InputProps={{
+            ...params.InputProps,
+            startAdornment: (
+              <Search color="action" sx={{ mr: 1 }} fontSize="small" />
+            ),
+          }}
+        />
+      )}
+    />
+  );
+};
+
+export default RunQueryInput;
@@ -0,0 +1,66 @@
+import React from "react";
+import { Snackbar, Alert, AlertTitle, Button, Box } from "@mui/material";
+import { useNavigate } from "react-router-dom";
+import { useRunUpdate, useAppActions } from "../store/useAppStore";
+
+const formatNumber = (num: number) => {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+  return num.toString();
+};
+
+const RunUpdateToast: React.FC = () => {
+  const navigate = useNavigate();
+  const runUpdate = useRunUpdate();
+  const { dismissRunUpdate } = useAppActions();
+
+  if (!runUpdate) return null;
+
+  const [latestRun] = runUpdate.runs;
+  const title =
+    runUpdate.runs.length === 1
+      ? "New run recorded"
+      : `${runUpdate.runs.length} new runs recorded`;
+
+  const handleView = () => {
+    navigate(
+      runUpdate.runs.length === 1
+        ? `/runs/${encodeURIComponent(latestRun.id)}`
+        : "/runs"
+    );
+    dismissRunUpdate();
+  };
+
+  return (
+    <Snackbar
+      key={runUpdate.receivedAt}
+      open
+      autoHideDuration={10000}
+      onClose={(_, reason) => {
+        if (reason !== "clickaway") dismissRunUpdate();
+      }}
+      anchorOrigin={{ vertical: "bottom", horizontal: "right" }}
+    >
+      <Alert
+        severity={latestRun.won ? "success" : "info"}
+        onClose={dismissRunUpdate}
+        action={
+          <Button color="inherit" size="small" onClick={handleView}>
+            View
+          </Button>
+        }
+      >
+        <AlertTitle>{title}</AlertTitle>
+        {runUpdate.runs.slice(0, 3).map((run) => (
+          <Box key={run.id}>
+            {run.characterClass} - {run.won ? "Victory" : "Defeat"} -{" "}
+            {formatNumber(run.damageDealt)} damage
+            {run.cruciballLevel > 0 && ` (Cruciball ${run.cruciballLevel})`}
+          </Box>
+        ))}
+      </Alert>
+    </Snackbar>
+  );
+};
+
+export default RunUpdateToast;
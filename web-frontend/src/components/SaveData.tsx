@@ -29,14 +29,17 @@ import {
   Info as InfoIcon,
 } from "@mui/icons-material";
 import {
-  useRunsAndConfig,
+  useFilteredRuns,
   usePlayerStatistics,
   useAppActions,
 } from "../store/useAppStore";
 import { api } from "../api";
+import WinRateRange from "./WinRateRange";
+import CruciballLadder from "./CruciballLadder";
+import { useRunSummary, useRunGroups } from "../hooks/useAnalytics";
 
 const SaveData: React.FC = () => {
-  const { runs } = useRunsAndConfig();
+  const runs = useFilteredRuns();
   const playerStatistics = usePlayerStatistics();
   const { refresh } = useAppActions();
 
@@ -52,86 +55,13 @@ const SaveData: React.FC = () => {
 
   // Get cruciball levels from player statistics
   const cruciballLevels = useMemo(() => {
-    if (playerStatistics?.gameplayStats?.["Cruciball Levels"]) {
-      return playerStatistics.gameplayStats[
-        "Cruciball Levels"
-      ] as unknown as Record<string, number>;
-    }
-    return {};
+    const levels = playerStatistics?.gameplayStats?.["Cruciball Levels"];
+    return typeof levels === "object" ? levels : {};
   }, [playerStatistics]);
 
   // Calculate save data statistics from runs
-  const saveStats = useMemo(() => {
-    if (!runs.length) return null;
-
-    // Group by character class
-    const classCruciballLevels = runs.reduce(
-      (acc, run) => {
-        const className = run.characterClass;
-        if (!acc[className]) {
-          acc[className] = {
-            maxCruciball: 0,
-            totalRuns: 0,
-            wins: 0,
-            totalDamage: 0,
-            bestDamage: 0,
-            avgLevel: 0,
-            totalLevels: 0,
-          };
-        }
-
-        acc[className].maxCruciball = Math.max(
-          acc[className].maxCruciball,
-          run.cruciballLevel
-        );
-        acc[className].totalRuns++;
-        if (run.won) acc[className].wins++;
-        acc[className].totalDamage += run.damageDealt;
-        acc[className].bestDamage = Math.max(
-          acc[className].bestDamage,
-          run.damageDealt
-        );
-        acc[className].totalLevels += run.finalLevel;
-        acc[className].avgLevel =
-          acc[className].totalLevels / acc[className].totalRuns;
-
-        return acc;
-      },
-      {} as Record<
-        string,
-        {
-          maxCruciball: number;
-          totalRuns: number;
-          wins: number;
-          totalDamage: number;
-          bestDamage: number;
-          avgLevel: number;
-          totalLevels: number;
-        }
-      >
-    );
-
-    // Overall stats
-    const totalRuns = runs.length;
-    const totalWins = runs.filter((r) => r.won).length;
-    const totalDamage = runs.reduce((sum, r) => sum + r.damageDealt, 0);
-    const bestRun = runs.reduce((best, current) =>
-      current.damageDealt > best.damageDealt ? current : best
-    );
-    const avgCruciball =
-      runs.reduce((sum, r) => sum + r.cruciballLevel, 0) / runs.length;
-
-    return {
-      classCruciballLevels,
-      totalRuns,
-      totalWins,
-      winRate: totalWins / totalRuns,
-      totalDamage,
-      avgDamage: totalDamage / totalRuns,
-      bestRun,
-      avgCruciball,
-    };
-  }, [runs]);
+  const saveStats = useRunSummary(runs);
+  const classStats = useRunGroups(runs, "class");
 
   const handleEditCruciball = (className: string, currentValue: number) => {
     setEditingCruciball(className);
@@ -181,7 +111,7 @@ const SaveData: React.FC = () => {
     return num.toLocaleString();
   };
 
-  if (!saveStats) {
+  if (saveStats.count === 0) {
     return (
       <Box>
         <Typography variant="h4" gutterBottom>
@@ -231,7 +161,7 @@ const SaveData: React.FC = () => {
                     <Typography color="textSecondary" gutterBottom>
                       Total Runs
                     </Typography>
-                    <Typography variant="h5">{saveStats.totalRuns}</Typography>
+                    <Typography variant="h5">{saveStats.count}</Typography>
                   </CardContent>
                 </Card>
               </Grid>
@@ -245,9 +175,11 @@ const SaveData: React.FC = () => {
                     <Typography color="textSecondary" gutterBottom>
                       Win Rate
                     </Typography>
-                    <Typography variant="h5">
-                      {(saveStats.winRate * 100).toFixed(1)}%
-                    </Typography>
+                    <WinRateRange
+                      wins={saveStats.wins}
+                      total={saveStats.count}
+                      variant="h5"
+                    />
                   </CardContent>
                 </Card>
               </Grid>
@@ -262,7 +194,7 @@ const SaveData: React.FC = () => {
                       Avg Damage
                     </Typography>
                     <Typography variant="h5">
-                      {formatNumber(saveStats.avgDamage)}
+                      {formatNumber(saveStats.meanDamage)}
                     </Typography>
                   </CardContent>
                 </Card>
@@ -278,7 +210,7 @@ const SaveData: React.FC = () => {
                       Avg Cruciball
                     </Typography>
                     <Typography variant="h5">
-                      {saveStats.avgCruciball.toFixed(1)}
+                      {saveStats.meanCruciball.toFixed(1)}
                     </Typography>
                   </CardContent>
                 </Card>
@@ -344,8 +276,10 @@ const SaveData: React.FC = () => {
                 Player Statistics
               </Typography>
               <Grid container spacing={1}>
-                {Object.entries(playerStatistics.gameplayStats).map(
-                  ([key, value]) => (
+                {/* Per-class values have their own card below */}
+                {Object.entries(playerStatistics.gameplayStats)
+                  .filter(([, value]) => typeof value !== "object")
+                  .map(([key, value]) => (
                     <Grid key={key} size={6}>
                       <Typography variant="body2" color="textSecondary">
                         {key}:
@@ -356,8 +290,7 @@ const SaveData: React.FC = () => {
                           : String(value)}
                       </Typography>
                     </Grid>
-                  )
-                )}
+                  ))}
               </Grid>
             </Paper>
           </Grid>
@@ -422,6 +355,11 @@ const SaveData: React.FC = () => {
           </Paper>
         </Grid>
 
+        {/* Cruciball Progression */}
+        <Grid size={12}>
+          <CruciballLadder runs={runs} />
+        </Grid>
+
         {/* Class Statistics Table */}
         <Grid size={12}>
           <Paper sx={{ p: 2 }}>
@@ -442,8 +380,9 @@ const SaveData: React.FC = () => {
                   </TableRow>
                 </TableHead>
                 <TableBody>
-                  {Object.entries(saveStats.classCruciballLevels).map(
-                    ([className, stats]) => {
+                  {classStats.map(
+                    (stats) => {
+                      const className = stats.key;
                       const actualCruciballLevel =
                         cruciballLevels[className] ?? stats.maxCruciball;
 
@@ -503,15 +442,18 @@ const SaveData: React.FC = () => {
                               </Box>
                             )}
                           </TableCell>
-                          <TableCell align="right">{stats.totalRuns}</TableCell>
+                          <TableCell align="right">{stats.count}</TableCell>
                           <TableCell align="right">
-                            {((stats.wins / stats.totalRuns) * 100).toFixed(1)}%
+                            <WinRateRange
+                              wins={stats.wins}
+                              total={stats.count}
+                            />
                           </TableCell>
                           <TableCell align="right">
-                            {formatNumber(stats.bestDamage)}
+                            {formatNumber(stats.maxDamage)}
                           </TableCell>
                           <TableCell align="right">
-                            {stats.avgLevel.toFixed(1)}
+                            {stats.meanFinalLevel.toFixed(1)}
                           </TableCell>
                           <TableCell align="center">-</TableCell>
                         </TableRow>
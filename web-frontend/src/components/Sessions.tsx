@@ -0,0 +1,330 @@
+import React, { useMemo } from "react";
+import {
+  Paper,
+  Typography,
+  Box,
+  Grid,
+  Card,
+  CardContent,
+  Chip,
+  Alert,
+  IconButton,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from "@mui/material";
+import { Close as CloseIcon } from "@mui/icons-material";
+import { DataGrid, GridColDef } from "@mui/x-data-grid";
+import { useNavigate } from "react-router-dom";
+import { useUrlFilteredRuns } from "../hooks/useRunFilters";
+import { useUrlParam } from "../hooks/useUrlState";
+import {
+  DEFAULT_SESSION_GAP_MINUTES,
+  SESSION_GAP_OPTIONS,
+  PlaySession,
+  detectSessions,
+  formatPlaytime,
+} from "../utils/sessions";
+import { parseTimeSpanSeconds } from "../utils/saveFileParser";
+import FilterPresets from "./FilterPresets";
+import PlaytimeCalendar from "./PlaytimeCalendar";
+
+const formatNumber = (num: number) => {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+  return Math.round(num).toString();
+};
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+
+const Sessions: React.FC = () => {
+  const navigate = useNavigate();
+  const filteredRuns = useUrlFilteredRuns();
+  const [gapParam, setGapParam] = useUrlParam(
+    "gap",
+    String(DEFAULT_SESSION_GAP_MINUTES)
+  );
+  // Session whose runs are listed below the table
+  const [selectedSessionId, setSelectedSessionId] = useUrlParam("session");
+  const gapMinutes = Number(gapParam) || DEFAULT_SESSION_GAP_MINUTES;
+
+  const sessions = useMemo(
+    () => detectSessions(filteredRuns, gapMinutes),
+    [filteredRuns, gapMinutes]
+  );
+
+  const selectedSession = sessions.find(
+    (session) => session.id === selectedSessionId
+  );
+
+  const totalPlaySeconds = sessions.reduce(
+    (sum, session) => sum + session.playSeconds,
+    0
+  );
+  const longestSession = sessions.reduce<PlaySession | null>(
+    (longest, session) =>
+      !longest || session.playSeconds > longest.playSeconds ? session : longest,
+    null
+  );
+
+  const columns: GridColDef<PlaySession>[] = [
+    {
+      field: "start",
+      headerName: "Started",
+      type: "dateTime",
+      width: 180,
+      valueFormatter: (value: Date) => value.toLocaleString(),
+    },
+    {
+      field: "end",
+      headerName: "Ended",
+      width: 90,
+      sortable: false,
+      valueFormatter: (value: Date) => formatTime(value),
+    },
+    {
+      field: "count",
+      headerName: "Runs",
+      type: "number",
+      width: 80,
+    },
+    {
+      field: "wins",
+      headerName: "Wins",
+      type: "number",
+      width: 80,
+    },
+    {
+      field: "playSeconds",
+      headerName: "Play Time",
+      type: "number",
+      width: 110,
+      valueFormatter: (value: number) => formatPlaytime(value),
+    },
+    {
+      field: "classes",
+      headerName: "Classes",
+      flex: 1,
+      minWidth: 200,
+      sortable: false,
+      renderCell: (params) => (
+        <Box sx={{ display: "flex", alignItems: "center", gap: 0.5, height: "100%" }}>
+          {params.row.classes.map((characterClass) => (
+            <Chip key={characterClass} label={characterClass} size="small" />
+          ))}
+        </Box>
+      ),
+    },
+    {
+      field: "maxDamage",
+      headerName: "Best Run",
+      type: "number",
+      width: 140,
+      renderCell: (params) =>
+        params.row.bestRun
+          ? `${formatNumber(params.row.bestRun.damageDealt)} (${
+              params.row.bestRun.characterClass
+            })`
+          : "—",
+    },
+  ];
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 1,
+        }}
+      >
+        <Typography variant="h4">Play Sessions</Typography>
+        <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel>Idle Gap</InputLabel>
+            <Select
+              value={String(gapMinutes)}
+              label="Idle Gap"
+              onChange={(e) => setGapParam(String(e.target.value))}
+            >
+              {SESSION_GAP_OPTIONS.map((minutes) => (
+                <MenuItem key={minutes} value={String(minutes)}>
+                  {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hours`}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FilterPresets showActiveFilters />
+        </Box>
+      </Box>
+
+      {sessions.length === 0 ? (
+        <Alert severity="info">No runs to build sessions from.</Alert>
+      ) : (
+        <Grid container spacing={3}>
+          <Grid size={{ xs: 12, sm: 4 }}>
+            <Card>
+              <CardContent>
+                <Typography color="textSecondary" gutterBottom>
+                  Sessions
+                </Typography>
+                <Typography variant="h5">{sessions.length}</Typography>
+                <Typography variant="body2" color="textSecondary">
+                  {(filteredRuns.length / sessions.length).toFixed(1)} runs per
+                  session
+                </Typography>
+              </CardContent>
+            </Card>
+          </Grid>
+          <Grid size={{ xs: 12, sm: 4 }}>
+            <Card>
+              <CardContent>
+                <Typography color="textSecondary" gutterBottom>
+                  Total Play Time
+                </Typography>
+                <Typography variant="h5">
+                  {formatPlaytime(totalPlaySeconds)}
+                </Typography>
+                <Typography variant="body2" color="textSecondary">
+                  {formatPlaytime(totalPlaySeconds / sessions.length)} per
+                  session
+                </Typography>
+              </CardContent>
+            </Card>
+          </Grid>
+          <Grid size={{ xs: 12, sm: 4 }}>
+            <Card>
+              <CardContent>
+                <Typography color="textSecondary" gutterBottom>
+                  Longest Session
+                </Typography>
+                <Typography variant="h5">
+                  {longestSession ? formatPlaytime(longestSession.playSeconds) : "N/A"}
+                </Typography>
+                {longestSession && (
+                  <Typography variant="body2" color="textSecondary">
+                    {longestSession.start.toLocaleDateString()},{" "}
+                    {longestSession.count} runs
+                  </Typography>
+                )}
+              </CardContent>
+            </Card>
+          </Grid>
+
+          <Grid size={12}>
+            <PlaytimeCalendar runs={filteredRuns} />
+          </Grid>
+
+          <Grid size={12}>
+            <Paper sx={{ p: 2 }}>
+              <Typography variant="h6" gutterBottom>
+                Session History
+              </Typography>
+              <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+                Runs less than {gapMinutes} minutes apart count as one session.
+                Click a session to see its runs.
+              </Typography>
+              <DataGrid
+                rows={sessions}
+                columns={columns}
+                initialState={{
+                  pagination: { paginationModel: { pageSize: 25 } },
+                }}
+                pageSizeOptions={[25, 50, 100]}
+                onRowClick={(params) => setSelectedSessionId(String(params.id))}
+                getRowClassName={(params) =>
+                  params.id === selectedSessionId ? "Mui-selected" : ""
+                }
+                sx={{ "& .MuiDataGrid-row": { cursor: "pointer" } }}
+                disableRowSelectionOnClick
+                autoHeight
+              />
+            </Paper>
+          </Grid>
+
+          {selectedSession && (
+            <Grid size={12}>
+              <Paper sx={{ p: 2 }}>
+                <Box
+                  sx={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    alignItems: "center",
+                    mb: 2,
+                  }}
+                >
+                  <Box>
+                    <Typography variant="h6">
+                      Session of {selectedSession.start.toLocaleDateString()}
+                    </Typography>
+                    <Typography variant="body2" color="textSecondary">
+                      {formatTime(selectedSession.start)} –{" "}
+                      {formatTime(selectedSession.end)},{" "}
+                      {selectedSession.wins}/{selectedSession.count} won
+                    </Typography>
+                  </Box>
+                  <IconButton size="small" onClick={() => setSelectedSessionId("")}>
+                    <CloseIcon />
+                  </IconButton>
+                </Box>
+
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Ended</TableCell>
+                      <TableCell>Class</TableCell>
+                      <TableCell>Result</TableCell>
+                      <TableCell align="right">Cruciball</TableCell>
+                      <TableCell align="right">Damage</TableCell>
+                      <TableCell align="right">Duration</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {selectedSession.runs.map((run) => (
+                      <TableRow
+                        key={run.id}
+                        hover
+                        selected={run === selectedSession.bestRun}
+                        sx={{ cursor: "pointer" }}
+                        onClick={() =>
+                          navigate(`/runs/${encodeURIComponent(run.id)}`)
+                        }
+                      >
+                        <TableCell>{formatTime(new Date(run.timestamp))}</TableCell>
+                        <TableCell>{run.characterClass}</TableCell>
+                        <TableCell>
+                          <Chip
+                            size="small"
+                            label={run.won ? "Won" : "Lost"}
+                            color={run.won ? "success" : "error"}
+                          />
+                        </TableCell>
+                        <TableCell align="right">{run.cruciballLevel}</TableCell>
+                        <TableCell align="right">
+                          {formatNumber(run.damageDealt)}
+                        </TableCell>
+                        <TableCell align="right">
+                          {formatPlaytime(parseTimeSpanSeconds(run.duration))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Paper>
+            </Grid>
+          )}
+        </Grid>
+      )}
+    </Box>
+  );
+};
+
+export default Sessions;
@@ -0,0 +1,39 @@
+import React from "react";
+import { Chip, Tooltip } from "@mui/material";
+import { getSignificanceLevel } from "../utils/significance";
+
+// A p-value as a chip, highlighted when the difference is unlikely to be chance
+const SignificanceChip: React.FC<{ pValue: number | null }> = ({ pValue }) => {
+  const level = getSignificanceLevel(pValue);
+  if (pValue === null) {
+    return <Chip size="small" variant="outlined" label="too few runs" />;
+  }
+  const label =
+    level === "strong"
+      ? "p < 0.01"
+      : `p = ${pValue.toFixed(pValue < 0.1 ? 3 : 2)}`;
+  return (
+    <Tooltip
+      title={
+        level === "none"
+          ? "The difference could easily be chance"
+          : "Unlikely to be chance at the 5% level"
+      }
+    >
+      <Chip
+        size="small"
+        label={label}
+        color={
+          level === "strong"
+            ? "success"
+            : level === "significant"
+            ? "primary"
+            : "default"
+        }
+        variant={level === "none" ? "outlined" : "filled"}
+      />
+    </Tooltip>
+  );
+};
+
+export default SignificanceChip;
@@ -7,75 +7,69 @@ import {
   Card,
   CardContent,
   Alert,
+  Button,
+  LinearProgress,
 } from "@mui/material";
+import { AltRoute, CompareArrows, PivotTableChart } from "@mui/icons-material";
+import { Link } from "react-router-dom";
 import { BarChart, PieChart, LineChart } from "@mui/x-charts";
-import { useRunHistoryData, useRunsAndConfig } from "../store/useAppStore";
+import { useRunHistoryData } from "../store/useAppStore";
+import { useUrlFilteredRuns, useRunFilters } from "../hooks/useRunFilters";
+import { writeRunFilterParams } from "../utils/runFilterParams";
+import FilterPresets from "./FilterPresets";
+import RelicStatisticsTable from "./RelicStatisticsTable";
+import SynergyHeatmap from "./SynergyHeatmap";
+import SurvivalChart from "./SurvivalChart";
+import WinRateRange from "./WinRateRange";
+import WinRateErrorBars from "./WinRateErrorBars";
+import { formatWinRateRange } from "../utils/winRate";
+import { useWorkerTask } from "../hooks/useWorkerTask";
 
 const Statistics: React.FC = () => {
   const runHistoryData = useRunHistoryData();
-  const { runs, excludeCustomRuns } = useRunsAndConfig();
+  // Respects the run filters in the URL, so a preset or shared link narrows the charts
+  const filteredRuns = useUrlFilteredRuns();
+  const { filters } = useRunFilters();
+  const filterSearch = writeRunFilterParams(
+    new URLSearchParams(),
+    filters
+  ).toString();
+  // The cohort comparison starts with the current filters as cohort A
+  const cohortSearch = writeRunFilterParams(
+    new URLSearchParams(),
+    filters,
+    "a."
+  ).toString();
 
-  // Filter runs based on config - using useMemo to prevent infinite loops
-  const filteredRuns = useMemo(() => {
-    return excludeCustomRuns ? runs.filter((run) => !run.isCustomRun) : runs;
-  }, [runs, excludeCustomRuns]);
-
-  // Calculate class statistics from filtered runs
-  const classStats = useMemo(() => {
-    return filteredRuns.reduce((acc, run) => {
-      const className = run.characterClass;
-      if (!acc[className]) {
-        acc[className] = { totalRuns: 0, wins: 0, totalDamage: 0 };
-      }
-      acc[className].totalRuns++;
-      if (run.won) acc[className].wins++;
-      acc[className].totalDamage += run.damageDealt;
-      return acc;
-    }, {} as Record<string, { totalRuns: number; wins: number; totalDamage: number }>);
-  }, [filteredRuns]);
+  // Grouped in the analytics worker, which keeps large histories responsive
+  const classTask = useWorkerTask("runGroups", filteredRuns, { dimension: "class" });
+  const orbTask = useWorkerTask("runGroups", filteredRuns, { dimension: "orb" });
+  const monthTask = useWorkerTask("runGroups", filteredRuns, { dimension: "month" });
+  const computing = classTask.loading || orbTask.loading || monthTask.loading;
+  const taskError = classTask.error ?? orbTask.error ?? monthTask.error;
+  const classGroups = useMemo(() => classTask.data ?? [], [classTask.data]);
+  const orbGroups = useMemo(() => orbTask.data ?? [], [orbTask.data]);
+  const monthGroups = monthTask.data ?? [];
 
   const classData = useMemo(() => {
-    return Object.entries(classStats).map(([name, stats]) => ({
-      className: name,
-      winRate: stats.totalRuns > 0 ? (stats.wins / stats.totalRuns) * 100 : 0,
-      totalRuns: stats.totalRuns,
-      averageDamage:
-        stats.totalRuns > 0 ? stats.totalDamage / stats.totalRuns : 0,
+    return classGroups.map((group) => ({
+      className: group.key,
+      winRate: group.winRate * 100,
+      estimate: group.winRateEstimate,
+      wins: group.wins,
+      totalRuns: group.count,
+      averageDamage: group.meanDamage,
     }));
-  }, [classStats]);
-
-  // Calculate orb statistics from filtered runs
-  const orbStats = useMemo(() => {
-    return filteredRuns.reduce((acc, run) => {
-      run.orbsUsed.forEach((orb) => {
-        if (!acc[orb]) {
-          acc[orb] = { timesUsed: 0, wins: 0 };
-        }
-        acc[orb].timesUsed++;
-        if (run.won) acc[orb].wins++;
-      });
-      return acc;
-    }, {} as Record<string, { timesUsed: number; wins: number }>);
-  }, [filteredRuns]);
+  }, [classGroups]);
 
   const orbData = useMemo(() => {
-    return Object.entries(orbStats)
-      .sort((a, b) => b[1].timesUsed - a[1].timesUsed)
-      .slice(0, 10)
-      .map(([name, stats]) => ({
-        orbName: name,
-        timesUsed: stats.timesUsed,
-        winRate: stats.timesUsed > 0 ? (stats.wins / stats.timesUsed) * 100 : 0,
-      }));
-  }, [orbStats]);
-
-  const runsByMonth = useMemo(() => {
-    return filteredRuns.reduce((acc, run) => {
-      const month = new Date(run.timestamp).toISOString().slice(0, 7);
-      acc[month] = (acc[month] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-  }, [filteredRuns]);
+    return orbGroups.slice(0, 10).map((group) => ({
+      orbName: group.key,
+      timesUsed: group.count,
+      winRate: group.winRate * 100,
+      estimate: group.winRateEstimate,
+    }));
+  }, [orbGroups]);
 
   if (!runHistoryData) {
     return (
@@ -90,15 +84,59 @@ const Statistics: React.FC = () => {
     );
   }
 
-  const monthlyData = Object.entries(runsByMonth)
-    .sort()
-    .map(([month, count]) => ({ month, count }));
+  const monthlyData = monthGroups.map((group) => ({
+    month: group.key,
+    count: group.count,
+  }));
 
   return (
     <Box>
-      <Typography variant="h4" gutterBottom>
-        Statistics
-      </Typography>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 1,
+        }}
+      >
+        <Typography variant="h4">Statistics</Typography>
+        <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<CompareArrows />}
+            component={Link}
+            to={{ pathname: "/cohorts", search: cohortSearch }}
+          >
+            Compare Cohorts
+          </Button>
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<PivotTableChart />}
+            component={Link}
+            to={{ pathname: "/pivot", search: filterSearch }}
+          >
+            Pivot Table
+          </Button>
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<AltRoute />}
+            component={Link}
+            to={{ pathname: "/routes", search: filterSearch }}
+          >
+            Routes
+          </Button>
+          <FilterPresets showActiveFilters />
+        </Box>
+      </Box>
+      {computing && <LinearProgress sx={{ mb: 2 }} />}
+      {taskError && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          Failed to compute statistics: {taskError}
+        </Alert>
+      )}
       <Grid container spacing={3}>
         {/* Class Statistics */}
         <Grid
@@ -125,12 +163,18 @@ const Statistics: React.FC = () => {
                       data: classData.map((d) => d.winRate),
                       label: "Win Rate (%)",
                       color: "#1976d2",
+                      valueFormatter: (_value, { dataIndex }) =>
+                        formatWinRateRange(classData[dataIndex].estimate),
                     },
                   ]}
+                  // Fixed so the interval above a high rate isn't cut off
+                  yAxis={[{ min: 0, max: 100 }]}
                   width={500}
                   height={350}
                   margin={{ top: 40, bottom: 80, left: 40, right: 40 }}
-                />
+                >
+                  <WinRateErrorBars estimates={classData.map((d) => d.estimate)} />
+                </BarChart>
               </Box>
             )}
           </Paper>
@@ -240,17 +284,38 @@ const Statistics: React.FC = () => {
                       data: orbData.map((d) => d.winRate),
                       label: "Win Rate (%)",
                       color: "#2e7d32",
+                      valueFormatter: (_value, { dataIndex }) =>
+                        formatWinRateRange(orbData[dataIndex].estimate),
                     },
                   ]}
+                  // Fixed so the interval above a high rate isn't cut off
+                  yAxis={[{ min: 0, max: 100 }]}
                   width={500}
                   height={350}
                   margin={{ top: 40, bottom: 80, left: 40, right: 40 }}
-                />
+                >
+                  <WinRateErrorBars estimates={orbData.map((d) => d.estimate)} />
+                </BarChart>
               </Box>
             )}
           </Paper>
         </Grid>
 
+        {/* Relic Statistics */}
+        <Grid size={12}>
+          <RelicStatisticsTable runs={filteredRuns} />
+        </Grid>
+
+        {/* Orb and relic synergies */}
+        <Grid size={12}>
+          <SynergyHeatmap runs={filteredRuns} />
+        </Grid>
+
+        {/* Where runs end */}
+        <Grid size={12}>
+          <SurvivalChart runs={filteredRuns} />
+        </Grid>
+
         {/* Activity Over Time */}
         <Grid size={12}>
           <Paper sx={{ p: 2 }}>
@@ -300,8 +365,12 @@ const Statistics: React.FC = () => {
                 <Typography variant="body2" color="textSecondary">
                   Total Runs: {cls.totalRuns}
                 </Typography>
-                <Typography variant="body2" color="textSecondary">
-                  Win Rate: {cls.winRate.toFixed(1)}%
+                <Typography
+                  variant="body2"
+                  color="textSecondary"
+                  component="div"
+                >
+                  Win Rate: <WinRateRange wins={cls.wins} total={cls.totalRuns} />
                 </Typography>
                 <Typography variant="body2" color="textSecondary">
                   Avg Damage: {cls.averageDamage.toLocaleString()}
@@ -0,0 +1,161 @@
+import React, { useState } from "react";
+import {
+  Paper,
+  Typography,
+  Box,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert,
+  LinearProgress,
+} from "@mui/material";
+import { LineChart } from "@mui/x-charts";
+import {
+  MAX_SURVIVAL_GROUPS,
+  SurvivalAxis,
+  SurvivalSplit,
+} from "../utils/survival";
+import { RunRecord } from "../types";
+import { useWorkerTask } from "../hooks/useWorkerTask";
+
+interface SurvivalChartProps {
+  runs: RunRecord[];
+}
+
+const SPLIT_LABELS: Record<SurvivalSplit, string> = {
+  none: "No Split",
+  class: "Class",
+  cruciball: "Cruciball Level",
+  period: "Calendar Quarter",
+};
+
+const SurvivalChart: React.FC<SurvivalChartProps> = ({ runs }) => {
+  const [axis, setAxis] = useState<SurvivalAxis>("act");
+  const [split, setSplit] = useState<SurvivalSplit>("none");
+
+  const { data, loading } = useWorkerTask("survivalCurves", runs, { axis, split });
+  const curves = data ?? [];
+
+  const steps = curves[0]?.points ?? [];
+  const excludedRuns = curves.reduce((sum, curve) => sum + curve.excludedRuns, 0);
+
+  // Where each group loses the most runs
+  const deadliestSteps = curves
+    .map((curve) => {
+      const worst = curve.points.reduce(
+        (best, point) => (point.deaths > (best?.deaths ?? 0) ? point : best),
+        undefined as (typeof curve.points)[number] | undefined
+      );
+      return { group: curve.group, point: worst };
+    })
+    .filter((entry) => entry.point);
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          flexWrap: "wrap",
+          gap: 2,
+          mb: 2,
+        }}
+      >
+        <Box>
+          <Typography variant="h6">Survival</Typography>
+          <Typography variant="body2" color="textSecondary">
+            Share of runs still alive after each {axis === "act" ? "act and boss" : "room"}.
+            Won runs count as surviving up to the last room they visited.
+            {split === "period" &&
+              ` Split by the calendar quarter each run ended in, showing the ${MAX_SURVIVAL_GROUPS} most recent quarters.`}
+          </Typography>
+        </Box>
+        <Box sx={{ display: "flex", gap: 2, alignItems: "center" }}>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={axis}
+            onChange={(_, value) => value && setAxis(value)}
+          >
+            <ToggleButton value="act">Acts</ToggleButton>
+            <ToggleButton value="room">Rooms</ToggleButton>
+          </ToggleButtonGroup>
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel>Split By</InputLabel>
+            <Select
+              value={split}
+              label="Split By"
+              onChange={(e) => setSplit(e.target.value as SurvivalSplit)}
+            >
+              {(Object.keys(SPLIT_LABELS) as SurvivalSplit[]).map((key) => (
+                <MenuItem key={key} value={key}>
+                  {SPLIT_LABELS[key]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+      </Box>
+
+      {loading && <LinearProgress sx={{ mb: 1 }} />}
+      {!data ? null : steps.length === 0 ||
+        curves.every((curve) => curve.runs === 0) ? (
+        <Alert severity="info">No runs with room history to chart.</Alert>
+      ) : (
+        <>
+          <Box sx={{ display: "flex", justifyContent: "center" }}>
+            <LineChart
+              xAxis={[
+                {
+                  scaleType: "point",
+                  data: steps.map((point) =>
+                    axis === "room" ? String(point.step) : point.label
+                  ),
+                  label: axis === "room" ? "Rooms Visited" : undefined,
+                  tickLabelStyle:
+                    axis === "act"
+                      ? { angle: -45, textAnchor: "end" }
+                      : undefined,
+                },
+              ]}
+              yAxis={[{ min: 0, max: 100, label: "Runs Alive (%)" }]}
+              series={curves.map((curve) => ({
+                data: curve.points.map((point) => point.survival * 100),
+                label: `${curve.group} (${curve.runs})`,
+                curve: "stepAfter",
+                showMark: false,
+                valueFormatter: (value: number | null, { dataIndex }) => {
+                  const point = curve.points[dataIndex];
+                  return value === null || !point
+                    ? ""
+                    : `${value.toFixed(1)}% alive (${point.deaths} lost of ${point.atRisk})`;
+                },
+              }))}
+              height={380}
+              margin={{ top: 40, bottom: 80, left: 60, right: 40 }}
+            />
+          </Box>
+          <Box sx={{ mt: 1 }}>
+            {deadliestSteps.map(({ group, point }) => (
+              <Typography key={group} variant="body2" color="textSecondary">
+                {curves.length > 1 ? `${group}: ` : ""}most runs end at{" "}
+                {point.label} ({point.deaths} of {point.atRisk} that got there)
+              </Typography>
+            ))}
+            {excludedRuns > 0 && (
+              <Typography variant="caption" color="textSecondary">
+                {excludedRuns} runs without room history are left out.
+              </Typography>
+            )}
+          </Box>
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default SurvivalChart;
@@ -0,0 +1,228 @@
+import React, { useState } from "react";
+import {
+  Paper,
+  Typography,
+  Box,
+  Tooltip,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert,
+  LinearProgress,
+} from "@mui/material";
+import { alpha, useTheme } from "@mui/material/styles";
+import { useNavigate } from "react-router-dom";
+import { useRunFilters } from "../hooks/useRunFilters";
+import { writeRunFilterParams } from "../utils/runFilterParams";
+import {
+  getSynergyCellKey,
+  getSynergyQuery,
+  SynergyKind,
+  SynergyCell,
+} from "../utils/synergy";
+import { RunRecord } from "../types";
+import { useWorkerTask } from "../hooks/useWorkerTask";
+
+interface SynergyHeatmapProps {
+  runs: RunRecord[];
+}
+
+const CELL_SIZE = 32;
+// Lift at which a cell reaches full colour
+const MAX_LIFT = 0.3;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const SynergyHeatmap: React.FC<SynergyHeatmapProps> = ({ runs }) => {
+  const theme = useTheme();
+  const navigate = useNavigate();
+  const { filters } = useRunFilters();
+
+  const [kind, setKind] = useState<SynergyKind>("orb-relic");
+  const [minSamples, setMinSamples] = useState(5);
+
+  // The previous matrix stays on screen while a new one is computed
+  const { data: matrix, loading } = useWorkerTask("synergyMatrix", runs, { kind });
+
+  const getCellColor = (cell?: SynergyCell) => {
+    if (!cell || cell.runs < minSamples) return theme.palette.action.hover;
+    const strength = Math.min(1, Math.abs(cell.lift) / MAX_LIFT);
+    const base =
+      cell.lift >= 0 ? theme.palette.success.main : theme.palette.error.main;
+    return alpha(base, 0.1 + strength * 0.8);
+  };
+
+  // Open the run list with the current filters narrowed to runs with both items
+  const handleCellClick = (cell: SynergyCell) => {
+    const pairQuery = getSynergyQuery(matrix.kind, cell.row, cell.column);
+    const params = writeRunFilterParams(new URLSearchParams(), {
+      ...filters,
+      search: [filters.search.trim(), pairQuery].filter(Boolean).join(" "),
+    });
+    navigate(`/runs?${params.toString()}`);
+  };
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          flexWrap: "wrap",
+          gap: 2,
+          mb: 2,
+        }}
+      >
+        <Box>
+          <Typography variant="h6">Synergies</Typography>
+          <Typography variant="body2" color="textSecondary">
+            Win rate of runs with both items compared to the{" "}
+            {matrix ? formatPercent(matrix.baselineWinRate) : "overall"} baseline. Click a cell to
+            see those runs.
+          </Typography>
+        </Box>
+        <Box sx={{ display: "flex", gap: 2, alignItems: "center" }}>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={kind}
+            onChange={(_, value) => value && setKind(value)}
+          >
+            <ToggleButton value="orb-orb">Orb / Orb</ToggleButton>
+            <ToggleButton value="orb-relic">Orb / Relic</ToggleButton>
+            <ToggleButton value="relic-relic">Relic / Relic</ToggleButton>
+          </ToggleButtonGroup>
+          <FormControl size="small" sx={{ minWidth: 140 }}>
+            <InputLabel>Minimum Runs</InputLabel>
+            <Select
+              value={minSamples}
+              label="Minimum Runs"
+              onChange={(e) => setMinSamples(Number(e.target.value))}
+            >
+              {[1, 3, 5, 10, 25].map((count) => (
+                <MenuItem key={count} value={count}>
+                  {count}+
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+      </Box>
+
+      {loading && <LinearProgress sx={{ mb: 1 }} />}
+      {!matrix ? null : matrix.rows.length === 0 || matrix.columns.length === 0 ? (
+        <Alert severity="info">Not enough runs to find synergies.</Alert>
+      ) : (
+        <Box sx={{ overflowX: "auto" }}>
+          <Box
+            component="table"
+            sx={{ borderCollapse: "separate", borderSpacing: 2 }}
+          >
+            <thead>
+              <tr>
+                <th />
+                {matrix.columns.map((column) => (
+                  <Box
+                    component="th"
+                    key={column}
+                    sx={{
+                      height: 140,
+                      verticalAlign: "bottom",
+                      fontWeight: "normal",
+                    }}
+                  >
+                    <Box
+                      sx={{
+                        writingMode: "vertical-rl",
+                        transform: "rotate(180deg)",
+                        whiteSpace: "nowrap",
+                        fontSize: "0.75rem",
+                        maxHeight: 140,
+                        overflow: "hidden",
+                        textOverflow: "ellipsis",
+                      }}
+                    >
+                      {column}
+                    </Box>
+                  </Box>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.rows.map((row) => (
+                <tr key={row}>
+                  <Box
+                    component="th"
+                    sx={{
+                      textAlign: "right",
+                      pr: 1,
+                      fontWeight: "normal",
+                      fontSize: "0.75rem",
+                      whiteSpace: "nowrap",
+                    }}
+                  >
+                    {row}
+                  </Box>
+                  {matrix.columns.map((column) => {
+                    const cell =
+                      matrix.cells[getSynergyCellKey(row, column)];
+                    const enoughSamples = !!cell && cell.runs >= minSamples;
+
+                    return (
+                      <Tooltip
+                        key={column}
+                        title={
+                          cell
+                            ? `${row} + ${column}: ${cell.wins}/${cell.runs} won (${formatPercent(
+                                cell.winRate
+                              )}, 95% range ${formatPercent(
+                                cell.lower
+                              )}–${formatPercent(cell.upper)}, adjusted ${
+                                cell.lift >= 0 ? "+" : ""
+                              }${(cell.lift * 100).toFixed(1)} vs baseline)${
+                                enoughSamples ? "" : " - too few runs"
+                              }`
+                            : `${row} + ${column}: never together`
+                        }
+                        disableInteractive
+                      >
+                        <Box
+                          component="td"
+                          onClick={() => cell && handleCellClick(cell)}
+                          sx={{
+                            width: CELL_SIZE,
+                            height: CELL_SIZE,
+                            minWidth: CELL_SIZE,
+                            backgroundColor: getCellColor(cell),
+                            borderRadius: 0.5,
+                            cursor: cell ? "pointer" : "default",
+                            textAlign: "center",
+                            fontSize: "0.65rem",
+                            color: enoughSamples
+                              ? "text.primary"
+                              : "text.disabled",
+                            "&:hover": cell
+                              ? { outline: `2px solid ${theme.palette.primary.main}` }
+                              : undefined,
+                          }}
+                        >
+                          {cell ? cell.runs : ""}
+                        </Box>
+                      </Tooltip>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </Box>
+        </Box>
+      )}
+    </Paper>
+  );
+};
+
+export default SynergyHeatmap;
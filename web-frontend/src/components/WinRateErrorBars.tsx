@@ -0,0 +1,40 @@
+import React from "react";
+import { useTheme } from "@mui/material";
+import { useXScale, useYScale } from "@mui/x-charts";
+import { WinRateEstimate } from "../utils/winRate";
+
+interface WinRateErrorBarsProps {
+  // One estimate per band on the x axis, in axis order
+  estimates: WinRateEstimate[];
+}
+
+const CAP_WIDTH = 8;
+
+// 95% Wilson intervals drawn over a win rate BarChart with a 0-100 y axis.
+// Render it as a child of the chart so it can use the chart's scales.
+const WinRateErrorBars: React.FC<WinRateErrorBarsProps> = ({ estimates }) => {
+  const theme = useTheme();
+  const xScale = useXScale<"band">();
+  const yScale = useYScale<"linear">();
+
+  return (
+    <g stroke={theme.palette.text.primary} strokeWidth={1.5} pointerEvents="none">
+      {xScale.domain().map((key, index) => {
+        const estimate = estimates[index];
+        if (!estimate || estimate.total === 0) return null;
+        const x = xScale(key) + xScale.bandwidth() / 2;
+        const top = yScale(estimate.upper * 100);
+        const bottom = yScale(estimate.lower * 100);
+        return (
+          <g key={String(key)}>
+            <line x1={x} x2={x} y1={top} y2={bottom} />
+            <line x1={x - CAP_WIDTH / 2} x2={x + CAP_WIDTH / 2} y1={top} y2={top} />
+            <line x1={x - CAP_WIDTH / 2} x2={x + CAP_WIDTH / 2} y1={bottom} y2={bottom} />
+          </g>
+        );
+      })}
+    </g>
+  );
+};
+
+export default WinRateErrorBars;
@@ -0,0 +1,83 @@
+import React from "react";
+import { Box, Tooltip, Typography } from "@mui/material";
+import {
+  estimateWinRate,
+  formatWinRatePercent,
+} from "../utils/winRate";
+
+interface WinRateRangeProps {
+  wins: number;
+  total: number;
+  // Show the interval as a small error bar under the rate
+  showBar?: boolean;
+  variant?: "body2" | "h5" | "h6";
+}
+
+const BAR_WIDTH = 80;
+
+// A win rate with its 95% Wilson interval
+const WinRateRange: React.FC<WinRateRangeProps> = ({
+  wins,
+  total,
+  showBar = true,
+  variant = "body2",
+}) => {
+  const estimate = estimateWinRate(wins, total);
+
+  return (
+    <Tooltip
+      title={`${wins}/${total} won, 95% range ${formatWinRatePercent(
+        estimate.lower
+      )}–${formatWinRatePercent(estimate.upper)}`}
+    >
+      <Box component="span" sx={{ display: "inline-block" }}>
+        <Typography variant={variant} component="span">
+          {formatWinRatePercent(estimate.rate)}
+        </Typography>
+        <Typography
+          variant="caption"
+          color="textSecondary"
+          component="span"
+          sx={{ ml: 0.5 }}
+        >
+          ({(estimate.lower * 100).toFixed(0)}–
+          {formatWinRatePercent(estimate.upper, 0)})
+        </Typography>
+        {showBar && (
+          <Box
+            sx={{
+              position: "relative",
+              width: BAR_WIDTH,
+              height: 4,
+              borderRadius: 2,
+              bgcolor: "action.hover",
+            }}
+          >
+            <Box
+              sx={{
+                position: "absolute",
+                left: estimate.lower * BAR_WIDTH,
+                width: Math.max(1, (estimate.upper - estimate.lower) * BAR_WIDTH),
+                height: "100%",
+                borderRadius: 2,
+                bgcolor: "primary.light",
+              }}
+            />
+            <Box
+              sx={{
+                position: "absolute",
+                left: estimate.rate * BAR_WIDTH - 1,
+                top: -2,
+                width: 2,
+                height: 8,
+                bgcolor: "primary.dark",
+              }}
+            />
+          </Box>
+        )}
+      </Box>
+    </Tooltip>
+  );
+};
+
+export default WinRateRange;
@@ -0,0 +1,14 @@
+import { useMemo } from "react";
+import {
+  AnalyticsDimension,
+  getRunGroups,
+  getRunSummary,
+} from "../utils/analytics";
+import { RunRecord } from "../types";
+
+// Aggregates over runs from the store, see utils/analytics.ts
+export const useRunSummary = (runs: RunRecord[]) =>
+  useMemo(() => getRunSummary(runs), [runs]);
+
+export const useRunGroups = (runs: RunRecord[], dimension: AnalyticsDimension) =>
+  useMemo(() => getRunGroups(runs, dimension), [runs, dimension]);
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useMemo } from "react";
+import {
+  selectFilteredRuns,
+  useAppActions,
+  useAppStore,
+  useRunsLoaded,
+  useSeenRecords,
+} from "../store/useAppStore";
+import { RunRecord } from "../types";
+import {
+  createSeenRecords,
+  getNewRecordIds,
+  getPersonalRecords,
+  getRecordHolders,
+  getWinStreaks,
+} from "../utils/records";
+
+const EMPTY_RUNS: RunRecord[] = [];
+
+// Records over the loaded runs and which of them are new since they were last
+// acknowledged. Doesn't download the run list, so the navigation can show the
+// new records without making every page load it.
+export const useRecords = () => {
+  // Records are all-time, so only the configured exclusions apply
+  const runs = useAppStore(selectFilteredRuns);
+  const allRuns = useAppStore((state) => state.runHistoryData?.runs || EMPTY_RUNS);
+  const runsLoaded = useRunsLoaded();
+  const seenRecords = useSeenRecords();
+  const { acknowledgeRecords } = useAppActions();
+
+  const records = useMemo(() => getPersonalRecords(runs), [runs]);
+  const streaks = useMemo(() => getWinStreaks(runs), [runs]);
+  const holders = useMemo(
+    () => getRecordHolders(records, streaks),
+    [records, streaks]
+  );
+  const newRecordIds = useMemo(
+    () => (runsLoaded ? getNewRecordIds(holders, seenRecords) : []),
+    [runsLoaded, holders, seenRecords]
+  );
+
+  const acknowledge = useCallback(
+    () => acknowledgeRecords(createSeenRecords(holders, allRuns)),
+    [acknowledgeRecords, holders, allRuns]
+  );
+
+  // The first load sets the baseline instead of flagging every record
+  useEffect(() => {
+    if (seenRecords === null && runsLoaded && runs.length > 0) acknowledge();
+  }, [seenRecords, runsLoaded, runs.length, acknowledge]);
+
+  return { runs, records, streaks, newRecordIds, acknowledge };
+};
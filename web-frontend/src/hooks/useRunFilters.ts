@@ -0,0 +1,53 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useFilteredRuns } from "../store/useAppStore";
+import {
+  RunFilterState,
+  EMPTY_RUN_FILTERS,
+  parseRunFilterParams,
+  writeRunFilterParams,
+  applyRunFilters,
+  hasRunFilters,
+} from "../utils/runFilterParams";
+
+// Run filters backed by the URL query string; a prefix keeps several sets apart
+export const useRunFilters = (prefix = "") => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(
+    () => parseRunFilterParams(searchParams, prefix),
+    [searchParams, prefix]
+  );
+
+  const setFilters = useCallback(
+    (update: Partial<RunFilterState>) => {
+      setSearchParams(
+        (prev) =>
+          writeRunFilterParams(
+            prev,
+            { ...parseRunFilterParams(prev, prefix), ...update },
+            prefix
+          ),
+        { replace: true }
+      );
+    },
+    [setSearchParams, prefix]
+  );
+
+  const clearFilters = useCallback(
+    () => setFilters(EMPTY_RUN_FILTERS),
+    [setFilters]
+  );
+
+  return { filters, setFilters, clearFilters };
+};
+
+// Runs after the config exclusions and the URL filters
+export const useUrlFilteredRuns = () => {
+  const runs = useFilteredRuns();
+  const { filters } = useRunFilters();
+  // Unfiltered views keep the store's array so cached analytics are shared
+  return useMemo(
+    () => (hasRunFilters(filters) ? applyRunFilters(runs, filters) : runs),
+    [runs, filters]
+  );
+};
@@ -0,0 +1,40 @@
+import { useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
+
+// Keep a piece of view state in the URL query string so it survives navigation
+// and can be shared as a link. Default values are left out of the URL.
+export const useUrlParam = (key: string, defaultValue = "") => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const value = searchParams.get(key) ?? defaultValue;
+
+  const setValue = useCallback(
+    (next: string) => {
+      setSearchParams(
+        (prev) => {
+          const params = new URLSearchParams(prev);
+          if (next === defaultValue || next === "") {
+            params.delete(key);
+          } else {
+            params.set(key, next);
+          }
+          return params;
+        },
+        { replace: true }
+      );
+    },
+    [key, defaultValue, setSearchParams]
+  );
+
+  return [value, setValue] as const;
+};
+
+export const useUrlBooleanParam = (key: string, defaultValue = false) => {
+  const [value, setValue] = useUrlParam(key, String(defaultValue));
+
+  const setBoolean = useCallback(
+    (next: boolean) => setValue(String(next)),
+    [setValue]
+  );
+
+  return [value === "true", setBoolean] as const;
+};
@@ -0,0 +1,65 @@
+import { useEffect, useRef, useState } from "react";
+import { RunRecord } from "../types";
+import { WorkerTasks, WorkerTaskName } from "../workers/protocol";
+import { isAbortError, runInWorker } from "../workers/workerClient";
+
+interface WorkerTaskState<Result> {
+  data: Result | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const shallowEqual = (a: object, b: object) => {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => Object.is(a[key], b[key]))
+  );
+};
+
+// Run a worker task whenever its inputs change. The previous result stays in
+// place while the next one is computed, and stale tasks are cancelled. args is
+// compared field by field, so it can be written inline as long as array fields
+// are memoized.
+export const useWorkerTask = <Task extends WorkerTaskName>(
+  task: Task,
+  runs: RunRecord[] | null,
+  args: WorkerTasks[Task]["args"],
+  enabled = true
+): WorkerTaskState<WorkerTasks[Task]["result"]> => {
+  const [state, setState] = useState<WorkerTaskState<WorkerTasks[Task]["result"]>>({
+    data: null,
+    loading: enabled,
+    error: null,
+  });
+  const argsRef = useRef(args);
+  if (!shallowEqual(argsRef.current, args)) {
+    argsRef.current = args;
+  }
+  const stableArgs = argsRef.current;
+
+  useEffect(() => {
+    if (!enabled) {
+      setState((prev) => ({ ...prev, loading: false }));
+      return;
+    }
+
+    const controller = new AbortController();
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    runInWorker(task, runs, stableArgs, controller.signal)
+      .then((data) => setState({ data, loading: false, error: null }))
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        setState((prev) => ({
+          ...prev,
+          loading: false,
+          error: error instanceof Error ? error.message : "Failed to compute",
+        }));
+      });
+
+    return () => controller.abort();
+  }, [task, runs, stableArgs, enabled]);
+
+  return state;
+};
@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { useAppStore } from "./useAppStore";
+import { makeRun } from "../test/runs";
+
+describe("mergeRuns", () => {
+  beforeEach(() => {
+    useAppStore.setState({ runHistoryData: null, runUpdate: null, runsLoaded: false });
+  });
+
+  it("counts a run sent twice once while the run list isn't loaded", () => {
+    const { mergeRuns } = useAppStore.getState();
+    mergeRuns([makeRun("a")]);
+    mergeRuns([makeRun("a"), makeRun("b")]);
+
+    expect(useAppStore.getState().runUpdate?.runs.map((run) => run.id)).toEqual([
+      "a",
+      "b",
+    ]);
+  });
+
+  it("adds only unknown runs to a loaded run list", () => {
+    useAppStore.setState({
+      runsLoaded: true,
+      runHistoryData: {
+        runs: [makeRun("a")],
+        classStatistics: {},
+        orbStatistics: {},
+        totalRuns: 1,
+        totalWins: 0,
+        winRate: 0,
+      },
+    });
+
+    const { mergeRuns } = useAppStore.getState();
+    mergeRuns([makeRun("b")]);
+    mergeRuns([makeRun("a"), makeRun("b")]);
+
+    const state = useAppStore.getState();
+    expect(state.runHistoryData?.runs.map((run) => run.id).sort()).toEqual(["a", "b"]);
+    expect(state.runUpdate?.runs.map((run) => run.id)).toEqual(["b"]);
+  });
+});
@@ -1,12 +1,50 @@
+import { useEffect } from "react";
 import { create } from "zustand";
 import { subscribeWithSelector } from "zustand/middleware";
 import { useShallow } from "zustand/react/shallow";
 import { api } from "../api";
-import { RunHistoryData, PlayerStatistics, Summary, RunRecord } from "../types";
+import {
+  RunHistoryData,
+  PlayerStatistics,
+  Summary,
+  RunRecord,
+  RunQuery,
+  RunPage,
+} from "../types";
+import {
+  parseSaveFile,
+  buildRunHistoryData,
+  buildSummary,
+  filterRuns,
+  pageRuns,
+  exportRunsToCsv,
+} from "../utils/saveFileParser";
+import { filterRunsByConfig } from "../utils/runFilters";
+import { filterRunsByQuery } from "../utils/runQuery";
+import {
+  loadStoredConfig,
+  saveStoredConfig,
+  toPersistedConfig,
+  migrateConfig,
+  exportSettingsFile,
+  parseSettingsFile,
+} from "../utils/configStorage";
+import {
+  FilterPreset,
+  PivotPreset,
+  loadFilterPresets,
+  saveFilterPresets,
+  loadPivotPresets,
+  savePivotPresets,
+  upsertPreset,
+} from "../utils/filterPresets";
+import { SeenRecords, loadSeenRecords, saveSeenRecords } from "../utils/records";
 
-interface AppConfig {
+export interface AppConfig {
   excludeCustomRuns: boolean;
   excludeTestRuns: boolean;
+  // Runs shorter than this count as test runs when excludeTestRuns is on
+  testRunMaxMinutes: number;
   excludeIncompletRuns: boolean;
 }
 
@@ -18,48 +56,81 @@ interface AppState {
 
   // Configuration
   config: AppConfig;
+  filterPresets: FilterPreset[];
+  pivotPresets: PivotPreset[];
+  // Record holders when the records were last acknowledged
+  seenRecords: SeenRecords | null;
 
   // UI State
   isLoading: boolean;
   error: string | null;
   isInitialized: boolean;
+  // False when running as a static site; save files are then decoded in the browser
+  backendAvailable: boolean;
+  // Runs pushed by the server since the last notification was dismissed
+  runUpdate: { runs: RunRecord[]; receivedAt: number } | null;
+  // The initial load only fetches statistics; pages that need the full run list load it on demand
+  runsLoaded: boolean;
+  runsLoading: boolean;
+  // Closes the live run update stream while it is open
+  closeRunUpdates: (() => void) | null;
 
   // Actions - these are stable references
   initialize: () => Promise<void>;
   refresh: () => Promise<void>;
   uploadSaveFile: (file: File) => Promise<void>;
+  loadLocalSaveFile: (file: File) => Promise<void>;
   exportData: (format: "json" | "csv") => Promise<Blob>;
   clearError: () => void;
   updateConfig: (updates: Partial<AppConfig>) => Promise<void>;
-  getFilteredRuns: (filters?: {
-    characterClass?: string;
-    won?: boolean;
-    startDate?: string;
-    endDate?: string;
-    minDamage?: number;
-    maxDamage?: number;
-    minDuration?: number;
-    maxDuration?: number;
-  }) => Promise<{ runs: RunRecord[]; totalCount: number }>;
+  importConfig: (file: File) => Promise<void>;
+  mergeRuns: (runs: RunRecord[]) => void;
+  startRunUpdates: () => void;
+  stopRunUpdates: () => void;
+  dismissRunUpdate: () => void;
+  exportConfig: () => Blob;
+  loadRuns: () => Promise<void>;
+  loadSummary: () => Promise<void>;
+  getFilteredRuns: (query?: RunQuery) => Promise<RunPage>;
+  saveFilterPreset: (name: string, params: string) => void;
+  deleteFilterPreset: (id: string) => void;
+  savePivotPreset: (name: string, params: string) => void;
+  deletePivotPreset: (id: string) => void;
+  acknowledgeRecords: (seen: SeenRecords) => void;
 
   // Computed getters
   hasData: () => boolean;
 }
 
+// The watcher may send a run again, e.g. after a second write to the stats file
+const uniqueRuns = (runs: RunRecord[]) =>
+  runs.filter(
+    (run, index) => runs.findIndex((other) => other.id === run.id) === index
+  );
+
+// The full run list download in flight, shared by everything waiting for it
+let runsRequest: Promise<void> | null = null;
+// Only the latest summary request may update the store, e.g. after quick config changes
+let summaryRequestId = 0;
+
 export const useAppStore = create<AppState>()(
   subscribeWithSelector((set, get) => ({
     // Initial state
     runHistoryData: null,
     playerStatistics: null,
     summary: null,
-    config: {
-      excludeCustomRuns: true,
-      excludeTestRuns: false,
-      excludeIncompletRuns: false,
-    },
+    config: loadStoredConfig(),
+    filterPresets: loadFilterPresets(),
+    pivotPresets: loadPivotPresets(),
+    seenRecords: loadSeenRecords(),
     isLoading: false,
     error: null,
     isInitialized: false,
+    backendAvailable: true,
+    runUpdate: null,
+    runsLoaded: false,
+    runsLoading: false,
+    closeRunUpdates: null,
 
     // Initialize the app by loading all data
     initialize: async () => {
@@ -67,30 +138,50 @@ export const useAppStore = create<AppState>()(
 
       set({ isLoading: true, error: null });
 
+      const backendAvailable = await api
+        .getHealth()
+        .then(() => true)
+        .catch(() => false);
+
+      if (!backendAvailable) {
+        set({ backendAvailable, isLoading: false, isInitialized: true });
+        return;
+      }
+
       try {
-        // Load all data in parallel
-        const [runHistoryData, statisticsData, summaryData] = await Promise.all(
-          [
-            api.getRunHistory().catch(() => null), // Allow null if no data
-            api.getStatistics().catch(() => null),
-            api.getSummary().catch(() => null),
-          ]
-        );
+        // Load statistics in parallel; runs are paged by the server and loaded when a page needs them
+        const [runHistoryData, statisticsData, serverConfig] = await Promise.all([
+          api.getRunHistory({ includeRuns: false }).catch(() => null), // Allow null if no data
+          api.getStatistics().catch(() => null),
+          api.getConfig().catch(() => null),
+        ]);
+
+        // Settings saved through the server are shared with the CLI and take precedence
+        if (serverConfig) {
+          try {
+            const config = migrateConfig(serverConfig);
+            saveStoredConfig(config);
+            set({ config });
+          } catch (error) {
+            console.warn("Ignoring invalid server config:", error);
+          }
+        }
 
         set({
           runHistoryData,
           playerStatistics: statisticsData?.playerStatistics || null,
-          summary: summaryData,
           isLoading: false,
           isInitialized: true,
           error: null,
         });
+        // The summary honours the config exclusions, so it waits for the server config
+        await get().loadSummary();
 
         console.log("App initialized with data:", {
           hasRunData: !!runHistoryData,
           totalRuns: runHistoryData?.totalRuns || 0,
           hasPlayerStats: !!statisticsData?.playerStatistics,
-          hasSummary: !!summaryData,
+          hasSummary: !!get().summary,
         });
       } catch (error) {
         console.error("Error initializing app:", error);
@@ -105,17 +196,25 @@ export const useAppStore = create<AppState>()(
 
     // Refresh all data
     refresh: async () => {
-      set({ isLoading: true, error: null });
+      // Locally parsed data only changes through uploads
+      if (!get().backendAvailable) return;
+
+      // A run list still in flight would be older than this refresh
+      const includeRuns = get().runsLoaded || get().runsLoading;
+      runsRequest = null;
+      set({ isLoading: true, runsLoading: false, error: null });
 
       try {
-        const [runHistoryData, statisticsData, summaryData] = await Promise.all(
-          [api.getRunHistory(), api.getStatistics(), api.getSummary()]
-        );
+        const [runHistoryData, statisticsData] = await Promise.all([
+          api.getRunHistory({ includeRuns }),
+          api.getStatistics(),
+          get().loadSummary(),
+        ]);
 
         set({
           runHistoryData,
           playerStatistics: statisticsData.playerStatistics,
-          summary: summaryData,
+          runsLoaded: includeRuns,
           isLoading: false,
           error: null,
         });
@@ -133,6 +232,11 @@ export const useAppStore = create<AppState>()(
       set({ isLoading: true, error: null });
 
       try {
+        if (!get().backendAvailable) {
+          await get().loadLocalSaveFile(file);
+          return;
+        }
+
         await api.loadSaveFile(file);
 
         // Refresh all data after successful upload
@@ -149,8 +253,191 @@ export const useAppStore = create<AppState>()(
       }
     },
 
+    // Fetch the full run list used by the client-side analytics pages. Callers
+    // arriving while it downloads share the same request.
+    loadRuns: () => {
+      if (get().runsLoaded) return Promise.resolve();
+      if (runsRequest) return runsRequest;
+
+      const request = (async () => {
+        set({ runsLoading: true });
+        try {
+          const runHistoryData = await api.getRunHistory();
+          if (runsRequest !== request) return;
+          set({ runHistoryData, runsLoaded: true });
+        } catch (error) {
+          if (runsRequest !== request) return;
+          set({
+            error:
+              error instanceof Error ? error.message : "Failed to load run history",
+          });
+        } finally {
+          if (runsRequest === request) {
+            runsRequest = null;
+            set({ runsLoading: false });
+          }
+        }
+      })();
+      runsRequest = request;
+      return request;
+    },
+
+    // Totals and class statistics for the runs left after the config exclusions.
+    // Without a backend they are computed from the locally parsed runs.
+    loadSummary: async () => {
+      const requestId = ++summaryRequestId;
+      const { config, backendAvailable, runHistoryData } = get();
+
+      if (!backendAvailable) {
+        set({
+          summary:
+            runHistoryData &&
+            buildSummary(filterRunsByConfig(runHistoryData.runs, config)),
+        });
+        return;
+      }
+
+      try {
+        const summary = await api.getSummary(config);
+        if (requestId === summaryRequestId) set({ summary });
+      } catch (error) {
+        if (requestId !== summaryRequestId) return;
+        set({
+          error: error instanceof Error ? error.message : "Failed to load summary",
+        });
+      }
+    },
+
+    // Keep the dashboard current while the game writes new runs
+    startRunUpdates: () => {
+      get().stopRunUpdates();
+      set({
+        closeRunUpdates: api.subscribeToRunUpdates(({ runs }) =>
+          get().mergeRuns(runs)
+        ),
+      });
+    },
+
+    stopRunUpdates: () => {
+      get().closeRunUpdates?.();
+      set({ closeRunUpdates: null });
+    },
+
+    // Add runs received from the live update stream, skipping ones we already have
+    mergeRuns: (runs: RunRecord[]) => {
+      const { runHistoryData, playerStatistics, runUpdate, runsLoaded } = get();
+      const notification = {
+        runs: uniqueRuns([...runs, ...(runUpdate?.runs || [])]),
+        receivedAt: Date.now(),
+      };
+
+      // The run list will include these runs once it loads, so only show the notification
+      if (!runsLoaded) {
+        set({ runUpdate: notification });
+        get().loadSummary();
+        return;
+      }
+
+      const knownIds = new Set(runHistoryData?.runs.map((run) => run.id));
+      const newRuns = runs.filter((run) => !knownIds.has(run.id));
+      if (newRuns.length === 0) return;
+
+      const mergedRuns = [...newRuns, ...(runHistoryData?.runs || [])].sort(
+        (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      );
+      const data = buildRunHistoryData(
+        mergedRuns,
+        runHistoryData?.playerStatistics ?? playerStatistics ?? undefined
+      );
+
+      set({
+        runHistoryData: data,
+        runUpdate: {
+          ...notification,
+          runs: uniqueRuns([...newRuns, ...(runUpdate?.runs || [])]),
+        },
+      });
+      get().loadSummary();
+    },
+
+    dismissRunUpdate: () => {
+      set({ runUpdate: null });
+    },
+
+    // Saving under an existing name replaces that preset
+    saveFilterPreset: (name: string, params: string) => {
+      const filterPresets = upsertPreset(get().filterPresets, name, params);
+      saveFilterPresets(filterPresets);
+      set({ filterPresets });
+    },
+
+    savePivotPreset: (name: string, params: string) => {
+      const pivotPresets = upsertPreset(get().pivotPresets, name, params);
+      savePivotPresets(pivotPresets);
+      set({ pivotPresets });
+    },
+
+    deletePivotPreset: (id: string) => {
+      const pivotPresets = get().pivotPresets.filter(
+        (preset) => preset.id !== id
+      );
+      savePivotPresets(pivotPresets);
+      set({ pivotPresets });
+    },
+
+    deleteFilterPreset: (id: string) => {
+      const filterPresets = get().filterPresets.filter(
+        (preset) => preset.id !== id
+      );
+      saveFilterPresets(filterPresets);
+      set({ filterPresets });
+    },
+
+    acknowledgeRecords: (seenRecords: SeenRecords) => {
+      saveSeenRecords(seenRecords);
+      set({ seenRecords });
+    },
+
+    // Decode a save or stats file in the browser and merge it into the loaded data
+    loadLocalSaveFile: async (file: File) => {
+      const parsed = await parseSaveFile(file);
+      const { runHistoryData, playerStatistics } = get();
+
+      if (parsed.kind === "save") {
+        set({
+          playerStatistics: parsed.playerStatistics,
+          runHistoryData: runHistoryData && {
+            ...runHistoryData,
+            playerStatistics: parsed.playerStatistics,
+          },
+          isLoading: false,
+        });
+        return;
+      }
+
+      const data = buildRunHistoryData(
+        parsed.runs,
+        playerStatistics ?? undefined
+      );
+      set({
+        runHistoryData: data,
+        runsLoaded: true,
+        isLoading: false,
+      });
+      await get().loadSummary();
+    },
+
     // Export data
     exportData: async (format: "json" | "csv" = "json") => {
+      if (!get().backendAvailable) {
+        const runs = get().runHistoryData?.runs || [];
+        return format === "csv"
+          ? new Blob([exportRunsToCsv(runs)], { type: "text/csv" })
+          : new Blob([JSON.stringify(runs, null, 2)], {
+              type: "application/json",
+            });
+      }
+
       try {
         return await api.exportRuns(format);
       } catch (error) {
@@ -167,8 +454,37 @@ export const useAppStore = create<AppState>()(
       set((state) => ({
         config: { ...state.config, ...updates },
       }));
+
+      const { config, backendAvailable } = get();
+      saveStoredConfig(config);
+      get().loadSummary();
+
+      if (backendAvailable) {
+        try {
+          await api.saveConfig(toPersistedConfig(config));
+        } catch (error) {
+          // Local persistence already succeeded, so only log sync failures
+          console.warn("Failed to sync config to server:", error);
+        }
+      }
     },
 
+    // Replace the config with the contents of an exported settings file
+    importConfig: async (file: File) => {
+      try {
+        const config = await parseSettingsFile(file);
+        await get().updateConfig(config);
+      } catch (error) {
+        set({
+          error:
+            error instanceof Error ? error.message : "Failed to import settings",
+        });
+        throw error;
+      }
+    },
+
+    exportConfig: () => exportSettingsFile(get().config),
+
     // Clear error state
     clearError: () => {
       set({ error: null });
@@ -180,10 +496,29 @@ export const useAppStore = create<AppState>()(
       return !!(state.runHistoryData && state.runHistoryData.totalRuns > 0);
     },
 
-    // Get filtered runs (delegates to API for server-side filtering)
-    getFilteredRuns: async (filters) => {
+    // Get one page of filtered runs (delegates to API for server-side filtering,
+    // paging and sorting). Config exclusions are always applied.
+    getFilteredRuns: async (query = {}) => {
+      const { config, backendAvailable } = get();
+
+      // The server doesn't understand search queries, so evaluate them against the full run list
+      if (!backendAvailable || query.search?.trim()) {
+        if (backendAvailable && !get().runsLoaded) {
+          await get().loadRuns();
+        }
+
+        const runs = filterRunsByQuery(
+          filterRuns(
+            filterRunsByConfig(get().runHistoryData?.runs || [], config),
+            query
+          ),
+          query.search || ""
+        );
+        return pageRuns(runs, query);
+      }
+
       try {
-        return await api.getRuns(filters);
+        return await api.getRuns({ ...config, ...query });
       } catch (error) {
         set({
           error:
@@ -207,16 +542,57 @@ export const useAppError = () => useAppStore((state) => state.error);
 export const useAppInitialized = () =>
   useAppStore((state) => state.isInitialized);
 export const useHasData = () => useAppStore((state) => state.hasData());
+export const useRunsLoaded = () => useAppStore((state) => state.runsLoaded);
+export const useRunsLoading = () => useAppStore((state) => state.runsLoading);
+export const useRunUpdate = () => useAppStore((state) => state.runUpdate);
+export const useFilterPresets = () =>
+  useAppStore((state) => state.filterPresets);
+export const usePivotPresets = () =>
+  useAppStore((state) => state.pivotPresets);
+export const useSeenRecords = () => useAppStore((state) => state.seenRecords);
+export const useBackendAvailable = () =>
+  useAppStore((state) => state.backendAvailable);
 
-// Filtered data selector that returns both runs and config for memoization in components
-export const useRunsAndConfig = () =>
-  useAppStore(
-    useShallow((state) => ({
-      runs: state.runHistoryData?.runs || [],
-      excludeCustomRuns: state.config.excludeCustomRuns,
-    }))
+// Pages reading the full run list download it the first time they render
+const useRunsOnDemand = () => {
+  const loadRuns = useAppStore((state) => state.loadRuns);
+  const needsRuns = useAppStore(
+    (state) => state.isInitialized && state.backendAvailable && !state.runsLoaded
   );
 
+  useEffect(() => {
+    if (needsRuns) loadRuns();
+  }, [needsRuns, loadRuns]);
+};
+
+// All loaded runs, ignoring the configured exclusions (e.g. for looking up a run by id)
+const EMPTY_RUNS: RunRecord[] = [];
+export const useAllRuns = () => {
+  useRunsOnDemand();
+  return useAppStore((state) => state.runHistoryData?.runs || EMPTY_RUNS);
+};
+
+// Runs with every config exclusion applied. Memoized on the runs array and config
+// objects so every page shares the same result and totals agree across pages.
+let lastRuns: RunRecord[] | null = null;
+let lastConfig: AppConfig | null = null;
+let lastFilteredRuns: RunRecord[] = EMPTY_RUNS;
+
+export const selectFilteredRuns = (state: AppState): RunRecord[] => {
+  const runs = state.runHistoryData?.runs || EMPTY_RUNS;
+  if (runs !== lastRuns || state.config !== lastConfig) {
+    lastRuns = runs;
+    lastConfig = state.config;
+    lastFilteredRuns = filterRunsByConfig(runs, state.config);
+  }
+  return lastFilteredRuns;
+};
+
+export const useFilteredRuns = () => {
+  useRunsOnDemand();
+  return useAppStore(selectFilteredRuns);
+};
+
 // Action hooks - these return stable references using useShallow
 export const useAppActions = () =>
   useAppStore(
@@ -227,6 +603,17 @@ export const useAppActions = () =>
       exportData: state.exportData,
       clearError: state.clearError,
       updateConfig: state.updateConfig,
+      importConfig: state.importConfig,
+      exportConfig: state.exportConfig,
+      dismissRunUpdate: state.dismissRunUpdate,
+      startRunUpdates: state.startRunUpdates,
+      stopRunUpdates: state.stopRunUpdates,
+      saveFilterPreset: state.saveFilterPreset,
+      deleteFilterPreset: state.deleteFilterPreset,
+      savePivotPreset: state.savePivotPreset,
+      deletePivotPreset: state.deletePivotPreset,
+      acknowledgeRecords: state.acknowledgeRecords,
       getFilteredRuns: state.getFilteredRuns,
+      loadRuns: state.loadRuns,
     }))
   );
@@ -0,0 +1,21 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { deserializeOdin } from "../utils/odinSerializer";
+import { extractRunHistory } from "../utils/saveFileParser";
+import { RunRecord } from "../types";
+
+// Fixtures from the repo's demo-data folder, shared by the specs
+
+const DEMO_DATA_DIR = resolve(__dirname, "../../../demo-data");
+
+export const readDemoFile = (name: string): Uint8Array =>
+  new Uint8Array(readFileSync(resolve(DEMO_DATA_DIR, name)));
+
+export const readDemoJson = <T>(name: string): T =>
+  JSON.parse(new TextDecoder().decode(readDemoFile(name))) as T;
+
+let demoRuns: RunRecord[] | null = null;
+
+// Runs decoded from Stats_0.data, decoded once per test file
+export const loadDemoRuns = (): RunRecord[] =>
+  (demoRuns ??= extractRunHistory(deserializeOdin(readDemoFile("Stats_0.data"))));
@@ -0,0 +1,65 @@
+import { OrbPlayData, RoomInfo, RunRecord } from "../types";
+
+// A complete run record for specs that only care about a few fields
+
+const DEFAULT_RUN: RunRecord = {
+  id: "run",
+  timestamp: new Date(2024, 0, 15, 12).toISOString(),
+  won: false,
+  score: 0,
+  damageDealt: 0,
+  pegsHit: 0,
+  duration: "00:10:00",
+  characterClass: "Peglin",
+  finalLevel: 1,
+  coinsEarned: 0,
+  orbsUsed: [],
+  relicsUsed: [],
+  isReconstructed: false,
+  isCustomRun: false,
+  cruciballLevel: 0,
+  finalHp: 0,
+  maxHp: 100,
+  mostDamageDealtWithSingleAttack: 0,
+  totalDamageNegated: 0,
+  pegsHitRefresh: 0,
+  pegsHitCrit: 0,
+  pegsRefreshed: 0,
+  bombsThrown: 0,
+  shotsTaken: 0,
+  critShotsTaken: 0,
+  orbStats: {},
+  enemyData: {},
+  relicNames: [],
+  bossNames: [],
+  roomTypeStatistics: {},
+  // Reached the first boss, so the run isn't incomplete
+  visitedRooms: [1, 7],
+  visitedRoomsInfo: [],
+  activeStatusEffects: [],
+  activeSlimePegs: [],
+};
+
+export const makeRun = (id: string, overrides: Partial<RunRecord> = {}): RunRecord => ({
+  ...DEFAULT_RUN,
+  id,
+  ...overrides,
+});
+
+// Visited rooms by room id, e.g. 1 for a battle and 7 for a boss
+export const makeRooms = (ids: number[]): RoomInfo[] =>
+  ids.map((id) => ({ id, name: "", symbol: "", color: "" }));
+
+// One entry of run.orbStats, a single copy that was never drawn
+export const makeOrb = (name: string, overrides: Partial<OrbPlayData> = {}): OrbPlayData => ({
+  id: name,
+  name,
+  damageDealt: 0,
+  timesFired: 0,
+  timesDiscarded: 0,
+  timesRemoved: 0,
+  starting: false,
+  amountInDeck: 1,
+  highestCruciballBeat: 0,
+  ...overrides,
+});
@@ -83,6 +83,8 @@ export interface ClassStatistics {
   totalRuns: number;
   wins: number;
   winRate: number;
+  winRateLowerBound: number; // 95% Wilson interval
+  winRateUpperBound: number;
   totalDamage: number;
   totalPegsHit: number;
   totalDuration: number;
@@ -102,11 +104,37 @@ export interface OrbStatistics {
   totalRunsWithOrb: number;
   totalDamageWithOrb: number;
   winRateWithOrb: number;
+  winRateLowerBoundWithOrb: number; // 95% Wilson interval
+  winRateUpperBoundWithOrb: number;
   averageDamageWithOrb: number;
 }
 
+export interface RelicStatistics {
+  relicName: string;
+  timesPicked: number;
+  winsWithRelic: number;
+  totalDamageWithRelic: number;
+  totalCruciballWithRelic: number;
+  totalRuns: number;
+  totalWins: number;
+  expectedWins: number; // wins these runs would have had at their cruciball levels' overall win rate
+  runsWithoutRelic: number;
+  winsWithoutRelic: number;
+  pickRate: number;
+  winRateWithRelic: number;
+  winRateLowerBoundWithRelic: number; // 95% Wilson interval
+  winRateUpperBoundWithRelic: number;
+  winRateWithoutRelic: number;
+  averageDamageWithRelic: number;
+  averageCruciballWithRelic: number;
+  cruciballAdjustedWinRate: number;
+}
+
+// Gameplay stats also hold per-class values, e.g. "Cruciball Levels"
+export type PlayerStatValue = string | number | Record<string, number>;
+
 export interface PlayerStatistics {
-  gameplayStats: Record<string, string | number>;
+  gameplayStats: Record<string, PlayerStatValue>;
   combatStats: Record<string, string | number>;
   pegStats: Record<string, string | number>;
   economyStats: Record<string, string | number>;
@@ -119,18 +147,51 @@ export interface Summary {
   averageDamage: number;
   averageDuration: { totalSeconds: number };
   topClasses: Record<string, ClassStatistics>;
+  // Every class among the summarized runs
+  classStatistics: Record<string, ClassStatistics>;
 }
 
 export interface RunHistoryData {
   runs: RunRecord[];
   classStatistics: Record<string, ClassStatistics>;
   orbStatistics: Record<string, OrbStatistics>;
+  relicStatistics?: Record<string, RelicStatistics>;
   playerStatistics?: PlayerStatistics;
   totalRuns: number;
   totalWins: number;
   winRate: number;
 }
 
+export interface RunQuery {
+  characterClass?: string;
+  won?: boolean;
+  startDate?: string;
+  endDate?: string;
+  minDamage?: number;
+  maxDamage?: number;
+  minDuration?: number; // minutes
+  maxDuration?: number; // minutes
+  excludeCustomRuns?: boolean;
+  excludeTestRuns?: boolean;
+  excludeIncompletRuns?: boolean;
+  search?: string; // run query language, evaluated in the browser (see utils/runQuery.ts)
+
+  // Paging and sorting
+  page?: number;
+  pageSize?: number;
+  sortField?: string;
+  sortOrder?: "asc" | "desc";
+  cursor?: string; // id of the last run on the previous page
+}
+
+export interface RunPage {
+  runs: RunRecord[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  nextCursor?: string | null;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { getRunGroups, groupRuns, percentile, summarizeRuns } from "./analytics";
+import { makeRun } from "../test/runs";
+
+describe("percentile", () => {
+  it("interpolates between the closest ranks", () => {
+    const sorted = [1, 2, 3, 4];
+    expect(percentile(sorted, 0)).toBe(1);
+    expect(percentile(sorted, 0.5)).toBe(2.5);
+    expect(percentile(sorted, 1)).toBe(4);
+    expect(percentile([], 0.5)).toBe(0);
+  });
+});
+
+describe("summarizeRuns", () => {
+  it("aggregates results, damage, durations and cruciball levels", () => {
+    const runs = [
+      makeRun("a", { won: true, damageDealt: 100, duration: "00:10:00", cruciballLevel: 2 }),
+      makeRun("b", { damageDealt: 300, duration: "00:20:00", cruciballLevel: 5 }),
+      makeRun("c", { won: true, damageDealt: 200, duration: "00:30:00", cruciballLevel: 3 }),
+    ];
+
+    const summary = summarizeRuns(runs);
+    expect(summary).toMatchObject({
+      count: 3,
+      wins: 2,
+      losses: 1,
+      totalDamage: 600,
+      meanDamage: 200,
+      medianDamage: 200,
+      maxDamage: 300,
+      meanDuration: 1200,
+      maxCruciball: 5,
+    });
+    expect(summary.winRate).toBeCloseTo(2 / 3);
+    expect(summary.durationPercentiles.p50).toBe(1200);
+    expect(summary.durationPercentiles.p90).toBe(1680);
+    expect(summary.bestRun?.id).toBe("b");
+  });
+
+  it("returns zeros for no runs", () => {
+    expect(summarizeRuns([])).toMatchObject({
+      count: 0,
+      winRate: 0,
+      meanDamage: 0,
+      maxDamage: 0,
+      bestRun: null,
+    });
+  });
+});
+
+describe("groupRuns", () => {
+  it("orders groups largest first unless the dimension has a natural order", () => {
+    const runs = [
+      makeRun("a", { characterClass: "Balladin", cruciballLevel: 10 }),
+      makeRun("b", { characterClass: "Spinventor", cruciballLevel: 2 }),
+      makeRun("c", { characterClass: "Spinventor", cruciballLevel: 10 }),
+    ];
+
+    expect(groupRuns(runs, "class").map((group) => group.key)).toEqual([
+      "Spinventor",
+      "Balladin",
+    ]);
+    expect(groupRuns(runs, "cruciball").map((group) => group.key)).toEqual([
+      "2",
+      "10",
+    ]);
+  });
+
+  it("puts a run in one group per distinct relic", () => {
+    const runs = [
+      makeRun("a", { relicNames: ["Sealed Conviction", "Sealed Conviction"] }),
+      makeRun("b", { relicNames: ["Sealed Conviction", "Refresherer"] }),
+    ];
+
+    const groups = groupRuns(runs, "relic");
+    expect(groups.map((group) => [group.key, group.count])).toEqual([
+      ["Sealed Conviction", 2],
+      ["Refresherer", 1],
+    ]);
+  });
+
+  it("keys months by local time and skips invalid timestamps", () => {
+    const runs = [
+      // Late on the last evening of January, which may already be February in UTC
+      makeRun("a", { timestamp: new Date(2024, 0, 31, 23, 30).toISOString() }),
+      makeRun("b", { timestamp: new Date(2024, 1, 1, 0, 30).toISOString() }),
+      makeRun("c", { timestamp: "not a date" }),
+    ];
+
+    const groups = groupRuns(runs, "month");
+    expect(groups.map((group) => [group.key, group.runs.map((run) => run.id)])).toEqual([
+      ["2024-01", ["a"]],
+      ["2024-02", ["b"]],
+    ]);
+  });
+});
+
+describe("getRunGroups", () => {
+  it("reuses the groups computed for the same runs array", () => {
+    const runs = [makeRun("a"), makeRun("b", { characterClass: "Roundrel" })];
+
+    const groups = getRunGroups(runs, "class");
+    expect(getRunGroups(runs, "class")).toBe(groups);
+    expect(getRunGroups([...runs], "class")).not.toBe(groups);
+    expect(groups).toEqual(groupRuns(runs, "class"));
+  });
+});
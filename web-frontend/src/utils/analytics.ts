@@ -0,0 +1,208 @@
+import { RunRecord } from "../types";
+import { getOrbFamily, parseTimeSpanSeconds } from "./saveFileParser";
+import { estimateWinRate, WinRateEstimate } from "./winRate";
+
+// Group-by aggregations over runs shared by the dashboard, statistics and save
+// data pages. Results are cached per runs array, so views reading the same array
+// from the store share one computation.
+
+export type AnalyticsDimension =
+  | "class"
+  | "cruciball"
+  | "custom"
+  | "defeatedBy"
+  | "month"
+  | "seed"
+  | "boss"
+  | "relic"
+  | "orb";
+
+export interface DurationPercentiles {
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface RunSummary {
+  count: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  winRateEstimate: WinRateEstimate;
+  totalDamage: number;
+  meanDamage: number;
+  medianDamage: number;
+  maxDamage: number;
+  meanDuration: number; // seconds
+  durationPercentiles: DurationPercentiles; // seconds
+  meanCruciball: number;
+  maxCruciball: number;
+  meanFinalLevel: number;
+  bestRun: RunRecord | null; // most damage dealt
+}
+
+export interface RunGroup extends RunSummary {
+  key: string;
+  runs: RunRecord[];
+}
+
+// A group without its runs, e.g. to send across a worker boundary
+export type RunGroupSummary = Omit<RunGroup, "runs">;
+
+interface DimensionDefinition {
+  label: string;
+  // A run can fall into several groups, e.g. one per relic
+  getKeys: (run: RunRecord) => string[];
+  // Natural order of the groups; defaults to largest first
+  compare?: (a: string, b: string) => number;
+}
+
+const unique = (values: string[]) => [...new Set(values.filter(Boolean))];
+
+// Local month like toLocalDateKey in sessions; runs without a valid date are left out
+const getMonthKeys = (run: RunRecord) => {
+  const date = new Date(run.timestamp);
+  if (Number.isNaN(date.getTime())) return [];
+  return [
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`,
+  ];
+};
+
+export const ANALYTICS_DIMENSIONS: Record<AnalyticsDimension, DimensionDefinition> = {
+  class: {
+    label: "Class",
+    getKeys: (run) => [run.characterClass],
+  },
+  cruciball: {
+    label: "Cruciball Level",
+    getKeys: (run) => [String(run.cruciballLevel)],
+    compare: (a, b) => Number(a) - Number(b),
+  },
+  custom: {
+    label: "Run Type",
+    getKeys: (run) => [run.isCustomRun ? "Custom" : "Standard"],
+  },
+  defeatedBy: {
+    label: "Defeated By",
+    // Won runs have no killer and are left out
+    getKeys: (run) => (run.won ? [] : [run.defeatedBy || "Unknown"]),
+  },
+  month: {
+    label: "Month",
+    getKeys: getMonthKeys,
+    compare: (a, b) => a.localeCompare(b),
+  },
+  seed: {
+    label: "Seed",
+    getKeys: (run) => (run.seed ? [run.seed] : []),
+  },
+  boss: {
+    label: "Boss",
+    getKeys: (run) => unique(run.bossNames || []),
+  },
+  relic: {
+    label: "Relic",
+    getKeys: (run) => unique(run.relicNames || []),
+  },
+  orb: {
+    label: "Orb",
+    getKeys: (run) => unique((run.orbsUsed || []).map(getOrbFamily)),
+  },
+};
+
+// Linear interpolation between the closest ranks of an ascending array
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+const mean = (values: number[]) =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+
+export const summarizeRuns = (runs: RunRecord[]): RunSummary => {
+  const wins = runs.filter((run) => run.won).length;
+  const damages = runs.map((run) => run.damageDealt).sort((a, b) => a - b);
+  const durations = runs
+    .map((run) => parseTimeSpanSeconds(run.duration))
+    .sort((a, b) => a - b);
+  const cruciballs = runs.map((run) => run.cruciballLevel);
+  const bestRun = runs.reduce<RunRecord | null>(
+    (best, run) => (!best || run.damageDealt > best.damageDealt ? run : best),
+    null
+  );
+
+  return {
+    count: runs.length,
+    wins,
+    losses: runs.length - wins,
+    winRate: runs.length > 0 ? wins / runs.length : 0,
+    winRateEstimate: estimateWinRate(wins, runs.length),
+    totalDamage: damages.reduce((sum, value) => sum + value, 0),
+    meanDamage: mean(damages),
+    medianDamage: percentile(damages, 0.5),
+    maxDamage: damages.length > 0 ? damages[damages.length - 1] : 0,
+    meanDuration: mean(durations),
+    durationPercentiles: {
+      p25: percentile(durations, 0.25),
+      p50: percentile(durations, 0.5),
+      p75: percentile(durations, 0.75),
+      p90: percentile(durations, 0.9),
+    },
+    meanCruciball: mean(cruciballs),
+    maxCruciball: cruciballs.reduce((max, level) => Math.max(max, level), 0),
+    meanFinalLevel: mean(runs.map((run) => run.finalLevel)),
+    bestRun,
+  };
+};
+
+export const groupRuns = (
+  runs: RunRecord[],
+  dimension: AnalyticsDimension
+): RunGroup[] => {
+  const definition = ANALYTICS_DIMENSIONS[dimension];
+  const groups: Record<string, RunRecord[]> = {};
+  runs.forEach((run) => {
+    definition.getKeys(run).forEach((key) => {
+      (groups[key] ??= []).push(run);
+    });
+  });
+
+  return Object.entries(groups)
+    .sort(([keyA, runsA], [keyB, runsB]) =>
+      definition.compare
+        ? definition.compare(keyA, keyB)
+        : runsB.length - runsA.length || keyA.localeCompare(keyB)
+    )
+    .map(([key, members]) => ({ key, runs: members, ...summarizeRuns(members) }));
+};
+
+const summaryCache = new WeakMap<RunRecord[], RunSummary>();
+const groupCache = new WeakMap<RunRecord[], Partial<Record<AnalyticsDimension, RunGroup[]>>>();
+
+// Cached versions of summarizeRuns and groupRuns; runs arrays are never mutated
+export const getRunSummary = (runs: RunRecord[]): RunSummary => {
+  let summary = summaryCache.get(runs);
+  if (!summary) {
+    summary = summarizeRuns(runs);
+    summaryCache.set(runs, summary);
+  }
+  return summary;
+};
+
+export const getRunGroups = (
+  runs: RunRecord[],
+  dimension: AnalyticsDimension
+): RunGroup[] => {
+  let byDimension = groupCache.get(runs);
+  if (!byDimension) {
+    byDimension = {};
+    groupCache.set(runs, byDimension);
+  }
+  return (byDimension[dimension] ??= groupRuns(runs, dimension));
+};
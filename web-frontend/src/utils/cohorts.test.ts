@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { compareCohorts } from "./cohorts";
+import { twoProportionTest, welchTest } from "./significance";
+import { loadDemoRuns } from "../test/demoData";
+import { makeRun } from "../test/runs";
+
+const getMetric = (comparison: ReturnType<typeof compareCohorts>, key: string) =>
+  comparison.metrics.find((metric) => metric.metric.key === key);
+
+describe("compareCohorts", () => {
+  it("compares win rates and averages between two groups of demo runs", () => {
+    const runs = loadDemoRuns();
+    const cohortA = runs.filter((run) => run.characterClass === "Spinventor");
+    const cohortB = runs.filter((run) => run.characterClass !== "Spinventor");
+    const winsA = cohortA.filter((run) => run.won).length;
+    const winsB = cohortB.filter((run) => run.won).length;
+
+    const comparison = compareCohorts(cohortA, cohortB);
+
+    expect(comparison).toMatchObject({ runsA: 10, runsB: 10, overlap: 0 });
+    expect(comparison.winRateA).toMatchObject({ wins: winsA, total: 10 });
+    expect(comparison.winRateB).toMatchObject({ wins: winsB, total: 10 });
+
+    const winRate = getMetric(comparison, "winRate");
+    expect(winRate.valueA).toBeCloseTo(winsA / 10);
+    expect(winRate.pValue).toBe(
+      twoProportionTest(winsA, 10, winsB, 10)?.pValue ?? null
+    );
+
+    const damage = getMetric(comparison, "damage");
+    expect(damage.valueA).toBeCloseTo(
+      cohortA.reduce((sum, run) => sum + run.damageDealt, 0) / 10
+    );
+    expect(damage.pValue).toBe(
+      welchTest(
+        cohortA.map((run) => run.damageDealt),
+        cohortB.map((run) => run.damageDealt)
+      ).pValue
+    );
+  });
+
+  it("finds no difference between identical cohorts", () => {
+    const runs = loadDemoRuns();
+    const comparison = compareCohorts(runs, runs);
+
+    expect(comparison.overlap).toBe(runs.length);
+    comparison.metrics.forEach(({ valueA, valueB, pValue }) => {
+      expect(valueA).toBe(valueB);
+      // null where every run has the same value
+      if (pValue !== null) expect(pValue).toBeCloseTo(1, 6);
+    });
+    expect(getMetric(comparison, "damage").pValue).toBeCloseTo(1, 6);
+  });
+
+  it("leaves runs without a value out of a metric", () => {
+    const comparison = compareCohorts(
+      [
+        makeRun("a", { won: true, finalHp: 40, shotsTaken: 10, critShotsTaken: 5 }),
+        makeRun("b", { finalHp: 0 }),
+      ],
+      [makeRun("c", { won: true, finalHp: 20 })]
+    );
+
+    expect(getMetric(comparison, "finalHp")).toMatchObject({
+      valueA: 40,
+      valueB: 20,
+      samplesA: 1,
+      samplesB: 1,
+      pValue: null,
+    });
+    expect(getMetric(comparison, "critRatio")).toMatchObject({
+      valueA: 0.5,
+      valueB: null,
+      samplesB: 0,
+    });
+  });
+
+  it("has no values or p-values for an empty cohort", () => {
+    const comparison = compareCohorts([], [makeRun("a"), makeRun("b")]);
+
+    expect(comparison.runsA).toBe(0);
+    expect(comparison.winRateA).toMatchObject({ wins: 0, total: 0, rate: 0 });
+    comparison.metrics.forEach(({ valueA, pValue }) => {
+      expect(valueA).toBeNull();
+      expect(pValue).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { RunRecord } from "../types";
+import { parseTimeSpanSeconds } from "./saveFileParser";
+import { estimateWinRate, WinRateEstimate } from "./winRate";
+import { twoProportionTest, welchTest } from "./significance";
+
+// Side-by-side aggregates for two groups of runs ("cohorts") with a significance
+// test per metric
+
+export type CohortMetricKey =
+  | "winRate"
+  | "damage"
+  | "duration"
+  | "critRatio"
+  | "coins"
+  | "finalHp";
+
+export interface CohortMetric {
+  key: CohortMetricKey;
+  label: string;
+  description?: string;
+  // null leaves the run out of this metric
+  getValue: (run: RunRecord) => number | null;
+  format: (value: number) => string;
+  higherIsBetter: boolean;
+}
+
+export interface CohortMetricComparison {
+  metric: CohortMetric;
+  valueA: number | null;
+  valueB: number | null;
+  samplesA: number;
+  samplesB: number;
+  pValue: number | null;
+}
+
+export interface CohortComparison {
+  runsA: number;
+  runsB: number;
+  // Runs that fall into both cohorts
+  overlap: number;
+  winRateA: WinRateEstimate;
+  winRateB: WinRateEstimate;
+  metrics: CohortMetricComparison[];
+}
+
+const formatCount = (value: number) =>
+  Math.round(value).toLocaleString();
+
+export const COHORT_METRICS: CohortMetric[] = [
+  {
+    key: "winRate",
+    label: "Win Rate",
+    getValue: (run) => (run.won ? 1 : 0),
+    format: (value) => `${(value * 100).toFixed(1)}%`,
+    higherIsBetter: true,
+  },
+  {
+    key: "damage",
+    label: "Avg Damage",
+    getValue: (run) => run.damageDealt,
+    format: formatCount,
+    higherIsBetter: true,
+  },
+  {
+    key: "duration",
+    label: "Avg Duration",
+    getValue: (run) => parseTimeSpanSeconds(run.duration) / 60,
+    format: (value) => `${value.toFixed(1)} min`,
+    higherIsBetter: false,
+  },
+  {
+    key: "critRatio",
+    label: "Crit Ratio",
+    description: "Share of shots that were crits, in runs with at least one shot",
+    getValue: (run) =>
+      run.shotsTaken > 0 ? run.critShotsTaken / run.shotsTaken : null,
+    format: (value) => `${(value * 100).toFixed(1)}%`,
+    higherIsBetter: true,
+  },
+  {
+    key: "coins",
+    label: "Avg Coins Earned",
+    getValue: (run) => run.coinsEarned,
+    format: formatCount,
+    higherIsBetter: true,
+  },
+  {
+    key: "finalHp",
+    label: "Avg Final HP",
+    description: "Won runs only, since lost runs always end on 0",
+    getValue: (run) => (run.won ? run.finalHp : null),
+    format: formatCount,
+    higherIsBetter: true,
+  },
+];
+
+const getValues = (runs: RunRecord[], metric: CohortMetric) =>
+  runs
+    .map(metric.getValue)
+    .filter((value): value is number => value !== null && Number.isFinite(value));
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+
+export const compareCohorts = (
+  cohortA: RunRecord[],
+  cohortB: RunRecord[]
+): CohortComparison => {
+  const winsA = cohortA.filter((run) => run.won).length;
+  const winsB = cohortB.filter((run) => run.won).length;
+  const idsA = new Set(cohortA.map((run) => run.id));
+
+  const metrics = COHORT_METRICS.map((metric) => {
+    const valuesA = getValues(cohortA, metric);
+    const valuesB = getValues(cohortB, metric);
+    const test =
+      metric.key === "winRate"
+        ? twoProportionTest(winsA, cohortA.length, winsB, cohortB.length)
+        : welchTest(valuesA, valuesB);
+
+    return {
+      metric,
+      valueA: average(valuesA),
+      valueB: average(valuesB),
+      samplesA: valuesA.length,
+      samplesB: valuesB.length,
+      pValue: test?.pValue ?? null,
+    };
+  });
+
+  return {
+    runsA: cohortA.length,
+    runsB: cohortB.length,
+    overlap: cohortB.filter((run) => idsA.has(run.id)).length,
+    winRateA: estimateWinRate(winsA, cohortA.length),
+    winRateB: estimateWinRate(winsB, cohortB.length),
+    metrics,
+  };
+};
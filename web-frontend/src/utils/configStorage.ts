@@ -0,0 +1,113 @@
+import type { AppConfig } from "../store/useAppStore";
+
+// Bump when the shape of AppConfig changes and add a migration below
+export const CONFIG_SCHEMA_VERSION = 2;
+
+const STORAGE_KEY = "peglin-save-explorer:config";
+
+export const DEFAULT_CONFIG: AppConfig = {
+  excludeCustomRuns: true,
+  excludeTestRuns: false,
+  testRunMaxMinutes: 5,
+  excludeIncompletRuns: false,
+};
+
+// Choices offered for the test run threshold, in minutes
+export const TEST_RUN_THRESHOLD_OPTIONS = [1, 2, 3, 5, 10, 15];
+
+export interface PersistedConfig {
+  version: number;
+  config: AppConfig;
+}
+
+// Each migration upgrades a raw config object from version N to N + 1
+const migrations: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 0 was the bare AppConfig object without a version wrapper
+  0: (raw) => ({ ...raw }),
+  // Version 1 treated every run under five minutes as a test run
+  1: (raw) => ({ ...raw, testRunMaxMinutes: 5 }),
+};
+
+const isValidSetting = (key: keyof AppConfig, value: unknown) =>
+  typeof DEFAULT_CONFIG[key] === "number"
+    ? typeof value === "number" && Number.isFinite(value) && value > 0
+    : typeof value === typeof DEFAULT_CONFIG[key];
+
+// Known settings with the right type, defaults for the rest
+const pickSettings = (raw: Record<string, unknown>): AppConfig =>
+  (Object.keys(DEFAULT_CONFIG) as (keyof AppConfig)[]).reduce(
+    (acc, key) => {
+      if (isValidSetting(key, raw[key])) {
+        (acc as Record<keyof AppConfig, unknown>)[key] = raw[key];
+      }
+      return acc;
+    },
+    { ...DEFAULT_CONFIG }
+  );
+
+// Upgrade a stored or imported settings object to the current schema
+export const migrateConfig = (data: unknown): AppConfig => {
+  if (!data || typeof data !== "object") {
+    throw new Error("Settings must be a JSON object");
+  }
+
+  const wrapped = data as Partial<PersistedConfig>;
+  let version = typeof wrapped.version === "number" ? wrapped.version : 0;
+  let raw = (
+    version > 0 ? wrapped.config : data
+  ) as Record<string, unknown>;
+
+  if (version > CONFIG_SCHEMA_VERSION) {
+    throw new Error(
+      `Settings version ${version} is newer than supported version ${CONFIG_SCHEMA_VERSION}`
+    );
+  }
+  if (!raw || typeof raw !== "object") {
+    throw new Error("Settings file is missing its config section");
+  }
+
+  while (version < CONFIG_SCHEMA_VERSION) {
+    raw = migrations[version](raw);
+    version++;
+  }
+
+  return pickSettings(raw);
+};
+
+export const toPersistedConfig = (config: AppConfig): PersistedConfig => ({
+  version: CONFIG_SCHEMA_VERSION,
+  config,
+});
+
+export const loadStoredConfig = (): AppConfig => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? migrateConfig(JSON.parse(stored)) : { ...DEFAULT_CONFIG };
+  } catch (error) {
+    console.warn("Ignoring invalid stored config:", error);
+    return { ...DEFAULT_CONFIG };
+  }
+};
+
+export const saveStoredConfig = (config: AppConfig) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(toPersistedConfig(config)));
+  } catch (error) {
+    console.warn("Failed to save config:", error);
+  }
+};
+
+export const exportSettingsFile = (config: AppConfig): Blob =>
+  new Blob([JSON.stringify(toPersistedConfig(config), null, 2)], {
+    type: "application/json",
+  });
+
+export const parseSettingsFile = async (file: File): Promise<AppConfig> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not a valid JSON settings file`);
+  }
+  return migrateConfig(data);
+};
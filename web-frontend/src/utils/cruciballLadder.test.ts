@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { getCruciballLadders } from "./cruciballLadder";
+import { loadDemoRuns } from "../test/demoData";
+import { makeRun } from "../test/runs";
+
+const attempt = (id: string, day: number, cruciballLevel: number, won = false) =>
+  makeRun(id, {
+    timestamp: new Date(2024, 0, day, 12).toISOString(),
+    characterClass: "Balladin",
+    cruciballLevel,
+    won,
+  });
+
+describe("getCruciballLadders", () => {
+  const runs = [
+    attempt("c2-win-2", 5, 2, true),
+    attempt("c3-loss", 6, 3),
+    attempt("c0-win", 1, 0, true),
+    attempt("c2-loss-1", 2, 2),
+    attempt("c2-win-1", 4, 2, true),
+    attempt("c2-loss-2", 3, 2),
+  ];
+
+  it("tracks the first attempt and first win of each level in date order", () => {
+    const [ladder] = getCruciballLadders(runs);
+    const rung = ladder.rungs[2];
+
+    expect(rung).toMatchObject({
+      attempts: 4,
+      wins: 2,
+      winRate: 0.5,
+      attemptsToFirstWin: 3,
+    });
+    expect(rung.firstAttempt.id).toBe("c2-loss-1");
+    expect(rung.firstWin.id).toBe("c2-win-1");
+  });
+
+  it("keeps skipped levels and finds the highest levels and the stall", () => {
+    const [ladder] = getCruciballLadders(runs);
+
+    expect(ladder.rungs.map((rung) => rung.attempts)).toEqual([1, 0, 4, 1]);
+    expect(ladder.rungs[1]).toMatchObject({ firstAttempt: null, attemptsToFirstWin: null });
+    expect(ladder).toMatchObject({
+      characterClass: "Balladin",
+      runs: 6,
+      highestAttempted: 3,
+      highestBeaten: 2,
+    });
+    expect(ladder.stall.level).toBe(3);
+  });
+
+  it("has no stall or beaten level without wins", () => {
+    const [ladder] = getCruciballLadders([attempt("a", 1, 1)]);
+
+    expect(ladder.highestBeaten).toBeNull();
+    expect(ladder.stall.level).toBe(1);
+    expect(getCruciballLadders([attempt("b", 1, 0, true)])[0].stall).toBeNull();
+  });
+
+  it("skips runs without a cruciball level", () => {
+    const ladders = getCruciballLadders([attempt("unknown", 1, -1), attempt("a", 2, 1)]);
+
+    expect(ladders[0].runs).toBe(1);
+  });
+
+  it("builds one ladder per demo class, most played first", () => {
+    const demoRuns = loadDemoRuns();
+    const ladders = getCruciballLadders(demoRuns);
+
+    expect(ladders.map((ladder) => [ladder.characterClass, ladder.runs])).toEqual([
+      ["Spinventor", 10],
+      ["Balladin", 4],
+      ["Roundrel", 4],
+      ["Peglin", 2],
+    ]);
+    ladders.forEach((ladder) => {
+      const rungs = ladder.rungs;
+      expect(rungs.reduce((sum, rung) => sum + rung.attempts, 0)).toBe(ladder.runs);
+      expect(rungs).toHaveLength(ladder.highestAttempted + 1);
+    });
+  });
+});
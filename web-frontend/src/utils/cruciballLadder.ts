@@ -0,0 +1,92 @@
+import { RunRecord } from "../types";
+
+// Cruciball progression per class, rebuilt from run history: when each level was
+// first attempted and first beaten, and how the attempts at it went.
+
+export interface CruciballRung {
+  level: number;
+  attempts: number;
+  wins: number;
+  winRate: number;
+  firstAttempt: RunRecord | null;
+  firstWin: RunRecord | null;
+  // Attempts up to and including the first win
+  attemptsToFirstWin: number | null;
+}
+
+export interface CruciballLadder {
+  characterClass: string;
+  runs: number;
+  // Every level from 0 to the highest attempted, including skipped ones
+  rungs: CruciballRung[];
+  highestAttempted: number;
+  highestBeaten: number | null;
+  // The lowest attempted level that hasn't been beaten yet
+  stall: CruciballRung | null;
+}
+
+const createRung = (level: number): CruciballRung => ({
+  level,
+  attempts: 0,
+  wins: 0,
+  winRate: 0,
+  firstAttempt: null,
+  firstWin: null,
+  attemptsToFirstWin: null,
+});
+
+const buildLadder = (characterClass: string, runs: RunRecord[]): CruciballLadder => {
+  const highestAttempted = runs.reduce(
+    (max, run) => Math.max(max, run.cruciballLevel),
+    0
+  );
+  const rungs = Array.from({ length: highestAttempted + 1 }, (_, level) =>
+    createRung(level)
+  );
+
+  runs.forEach((run) => {
+    const rung = rungs[run.cruciballLevel];
+    rung.attempts++;
+    rung.firstAttempt ??= run;
+    if (run.won) {
+      rung.wins++;
+      if (!rung.firstWin) {
+        rung.firstWin = run;
+        rung.attemptsToFirstWin = rung.attempts;
+      }
+    }
+  });
+  rungs.forEach((rung) => {
+    rung.winRate = rung.attempts > 0 ? rung.wins / rung.attempts : 0;
+  });
+
+  const beaten = rungs.filter((rung) => rung.wins > 0);
+  return {
+    characterClass,
+    runs: runs.length,
+    rungs,
+    highestAttempted,
+    highestBeaten: beaten.length > 0 ? beaten[beaten.length - 1].level : null,
+    stall: rungs.find((rung) => rung.attempts > 0 && rung.wins === 0) ?? null,
+  };
+};
+
+// One ladder per class, most played first
+export const getCruciballLadders = (runs: RunRecord[]): CruciballLadder[] => {
+  const chronological = runs
+    .filter((run) => run.cruciballLevel >= 0)
+    .sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+
+  const byClass: Record<string, RunRecord[]> = {};
+  chronological.forEach((run) => {
+    (byClass[run.characterClass] ??= []).push(run);
+  });
+
+  return Object.entries(byClass)
+    .map(([characterClass, classRuns]) => buildLadder(characterClass, classRuns))
+    .sort(
+      (a, b) => b.runs - a.runs || a.characterClass.localeCompare(b.characterClass)
+    );
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { Entity } from "../store/useSpriteStore";
+import { findBossEntity } from "./enemyMatching";
+import { getRunEnemyNames } from "./entityRuns";
+import { loadDemoRuns } from "../test/demoData";
+
+const enemy = (name: string): Entity => ({
+  id: `enemy-${name}`,
+  name,
+  type: "enemy",
+});
+
+const enemies = [
+  enemy("Boss"),
+  enemy("Slime"),
+  enemy("Slime Boss"),
+  enemy("Painter Boss"),
+  enemy("Leshy Boss"),
+  enemy("Knight Miniboss"),
+  enemy("Demon Wall Miniboss"),
+  enemy("Demon Wall Boss"),
+];
+
+describe("findBossEntity", () => {
+  const runs = loadDemoRuns();
+  const bossPrefabs = getRunEnemyNames(runs).filter((name) => /boss/i.test(name));
+
+  it.each([
+    ["SlimeBossPrefab", "Slime Boss"],
+    ["PainterBoss", "Painter Boss"],
+    ["LeshyBossPrefab", "Leshy Boss"],
+    ["KnightMiniboss", "Knight Miniboss"],
+    ["DemonWallBossPrefab", "Demon Wall Boss"],
+    ["DemonWallMinibossPrefab", "Demon Wall Miniboss"],
+  ])("matches %s from the demo runs to %s", (bossName, entityName) => {
+    expect(bossPrefabs).toContain(bossName);
+    expect(findBossEntity(bossName, enemies)?.name).toBe(entityName);
+  });
+
+  it("doesn't match every boss to an entity named just Boss", () => {
+    const bossNames = [...new Set(runs.flatMap((run) => run.bossNames || []))];
+
+    expect(bossNames.length).toBeGreaterThan(0);
+    bossNames.forEach((bossName) =>
+      expect(findBossEntity(bossName, enemies)).toBeNull()
+    );
+  });
+
+  it("falls back to unmarked entities and ignores empty names", () => {
+    expect(findBossEntity("Slime", [enemy(""), enemy("Big Slime")])?.name).toBe(
+      "Big Slime"
+    );
+    expect(findBossEntity("", enemies)).toBeNull();
+  });
+});
@@ -0,0 +1,243 @@
+import { Entity } from "../store/useSpriteStore";
+
+// Run save files name enemies after their prefabs, which rarely match the
+// extracted entity ids exactly, so match them on shared words instead
+export const findEnemyEntity = (
+  runEnemyName: string,
+  enemies: Entity[]
+): Entity | null => {
+  // Normalize and tokenize the run enemy name
+  const normalizeForMatching = (name: string) => {
+    return name
+      .toLowerCase()
+      .replace(/[-_]/g, "") // Remove hyphens and underscores
+      .replace(/enemy|prefab|container|minion/g, "") // Remove common suffixes
+      .replace(/nosword/g, "") // Remove NoSword variants
+      .trim();
+  };
+
+  const extractWords = (name: string) => {
+    return name
+      .replace(/([a-z])([A-Z])/g, "$1 $2") // Split camelCase BEFORE lowercasing
+      .replace(/([a-z])(\d)/g, "$1 $2") // Split letter-number boundaries
+      .replace(/(\d)([a-z])/g, "$1 $2") // Split number-letter boundaries
+      .toLowerCase() // Now lowercase after splitting
+      .replace(/[-_]/g, " ") // Replace hyphens and underscores with spaces
+      .replace(/\benemy\b|\bprefab\b|\bcontainer\b/g, "") // Remove common suffixes (word boundaries)
+      .replace(/\bnosword\b/g, "") // Remove NoSword variants
+      .split(/\s+/)
+      .filter((word) => word.length > 1) // Filter out single characters
+      .filter(
+        (word) =>
+          ![
+            "the",
+            "of",
+            "and",
+            "or",
+            "but",
+            "in",
+            "on",
+            "at",
+            "to",
+            "for",
+            "with",
+            "by",
+          ].includes(word)
+      ) // Filter common words
+      .map((word) => word.trim())
+      .filter((word) => word.length > 0);
+  };
+
+  const runWords = extractWords(runEnemyName);
+
+  // Calculate match scores for each entity
+  let bestMatch: Entity | null = null;
+  let bestScore = 0;
+
+  enemies.forEach((entity) => {
+    const entityIdWords = extractWords(entity.id);
+    const entityNameWords = extractWords(entity.name);
+    const allEntityWords = [...entityIdWords, ...entityNameWords];
+
+    // Calculate word overlap score
+    let score = 0;
+    const totalRunWords = runWords.length;
+
+    // Calculate word matches with better scoring
+    const matchedWords = new Set<string>();
+
+    runWords.forEach((runWord) => {
+      let bestWordScore = 0;
+
+      allEntityWords.forEach((entityWord) => {
+        // Exact word match gets highest score
+        if (entityWord === runWord) {
+          bestWordScore = Math.max(bestWordScore, 3);
+          matchedWords.add(runWord);
+        }
+        // Partial word match (one contains the other) - but be more careful
+        else if (runWord.length > 3 && entityWord.includes(runWord)) {
+          bestWordScore = Math.max(bestWordScore, 2);
+          matchedWords.add(runWord);
+        } else if (entityWord.length > 3 && runWord.includes(entityWord)) {
+          bestWordScore = Math.max(bestWordScore, 1);
+          matchedWords.add(runWord);
+        }
+      });
+
+      score += bestWordScore;
+    });
+
+    // Bonus for matching multiple important words (compound names)
+    const importantWords = runWords.filter(
+      (word) =>
+        !["mines", "single", "hit", "variant", "base"].includes(word)
+    );
+    const matchedImportantWords = importantWords.filter((word) =>
+      matchedWords.has(word)
+    );
+    const importantWordRatio =
+      importantWords.length > 0
+        ? matchedImportantWords.length / importantWords.length
+        : 0;
+
+    if (importantWordRatio >= 0.6) {
+      // At least 60% of important words matched
+      score += 2;
+    }
+
+    // Special bonus for color words - they should match exactly
+    const colorWords = ["green", "blue", "red", "crystal", "rainbow"];
+    const runColorWords = runWords.filter((word) =>
+      colorWords.includes(word)
+    );
+    const entityColorWords = [...entityIdWords, ...entityNameWords].filter(
+      (word) => colorWords.includes(word)
+    );
+
+    // Penalize if colors don't match
+    if (runColorWords.length > 0 && entityColorWords.length > 0) {
+      const colorMatch = runColorWords.some((runColor) =>
+        entityColorWords.includes(runColor)
+      );
+      if (colorMatch) {
+        score += 2; // Bonus for matching color
+      } else {
+        score -= 5; // Penalty for mismatched color
+      }
+    }
+
+    // Bonus for direct ID/name matches
+    if (
+      entity.id.toLowerCase() === runEnemyName.toLowerCase() ||
+      entity.name.toLowerCase() === runEnemyName.toLowerCase()
+    ) {
+      score += 10;
+    }
+
+    // Special handling for some tricky cases
+    const normalizedRunName = normalizeForMatching(runEnemyName);
+    const normalizedEntityId = normalizeForMatching(entity.id);
+    const normalizedEntityName = normalizeForMatching(entity.name);
+
+    // Handle "Container-" prefix removal
+    if (runEnemyName.toLowerCase().startsWith("container-")) {
+      const withoutContainer = runEnemyName.substring(10).toLowerCase();
+      if (
+        entity.id.toLowerCase().includes(withoutContainer) ||
+        entity.name.toLowerCase().includes(withoutContainer)
+      ) {
+        score += 3;
+      }
+    }
+
+    // Handle close fuzzy matches after normalization
+    if (
+      normalizedEntityId === normalizedRunName ||
+      normalizedEntityName === normalizedRunName
+    ) {
+      score += 5;
+    }
+
+    // Special handling for compound names - check if the entity ID contains most of the important words
+    if (runWords.length >= 3) {
+      const entityIdLower = entity.id.toLowerCase();
+      const coreWords = runWords.filter(
+        (word) =>
+          ![
+            "mines",
+            "single",
+            "hit",
+            "variant",
+            "base",
+            "weak",
+            "ranged",
+          ].includes(word)
+      );
+
+      const wordsInEntityId = coreWords.filter((word) =>
+        entityIdLower.includes(word)
+      );
+      if (wordsInEntityId.length >= Math.ceil(coreWords.length * 0.7)) {
+        score += 3; // Bonus for compound matching
+      }
+    }
+
+    // Bonus for close length matches (prevents very short words from matching long names)
+    const lengthDiff = Math.abs(entity.id.length - runEnemyName.length);
+    if (lengthDiff <= 3) {
+      score += 0.5;
+    }
+
+    // Calculate confidence as percentage of words matched (adjusted for new scoring)
+    const confidence = totalRunWords > 0 ? score / (totalRunWords * 3) : 0;
+
+    // Only consider matches with reasonable confidence (but allow negative scores to eliminate bad matches)
+    if (score > 0 && confidence > 0.3 && score > bestScore) {
+      bestScore = score;
+      bestMatch = entity;
+    }
+  });
+
+  return bestMatch;
+};
+
+// Lowercase letters and digits only, so "Demon Wall" matches "DemonWallMinibossPrefab"
+const compactName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Word-bounded so a miniboss isn't taken for a boss named "Mini…"
+const BOSS_MARKER = /\bboss\b/;
+const MINIBOSS_MARKER = /\bmini-?boss\b/;
+
+// Bosses are named after the boss itself, e.g. "Sealed Conviction", so prefer
+// entities marked like the boss (boss or miniboss) before falling back to any name overlap
+export const findBossEntity = (
+  bossName: string,
+  enemies: Entity[]
+): Entity | null => {
+  const name = compactName(bossName);
+  if (!name) return null;
+
+  const matchesName = (enemy: Entity) => {
+    const enemyName = enemy.name.toLowerCase();
+    // An entity named just "Boss" would otherwise match every boss
+    const unmarkedName = compactName(
+      enemyName.replace(MINIBOSS_MARKER, "").replace(BOSS_MARKER, "")
+    );
+    return (
+      unmarkedName !== "" &&
+      (compactName(enemyName).includes(name) || name.includes(unmarkedName))
+    );
+  };
+
+  const markers = name.includes("miniboss")
+    ? [MINIBOSS_MARKER, BOSS_MARKER]
+    : [BOSS_MARKER, MINIBOSS_MARKER];
+  for (const marker of markers) {
+    const match = enemies.find(
+      (enemy) => marker.test(enemy.name.toLowerCase()) && matchesName(enemy)
+    );
+    if (match) return match;
+  }
+  return enemies.find(matchesName) ?? null;
+};
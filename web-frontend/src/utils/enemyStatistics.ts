@@ -0,0 +1,89 @@
+import { RunRecord } from "../types";
+
+// Per-enemy damage taken and lethality aggregated across runs
+
+export interface EnemyStatistics {
+  name: string;
+  runsFought: number;
+  encounters: number;
+  meleeDamageReceived: number;
+  rangedDamageReceived: number;
+  totalDamageReceived: number;
+  averageDamagePerEncounter: number;
+  kills: number; // runs this enemy ended
+  killRate: number; // kills per run it was fought in
+  lossShare: number; // share of all lost runs ended by this enemy
+  killedRunIds: string[];
+}
+
+export interface EnemyStatisticsSummary {
+  enemies: EnemyStatistics[];
+  totalRuns: number;
+  totalLosses: number;
+  // Lost runs with no enemy flagged as the killer
+  unattributedLosses: number;
+}
+
+// Older saves only name the killer on the run itself
+export const isKiller = (run: RunRecord, name: string, defeatedBy: boolean) =>
+  !run.won && (defeatedBy || (!!run.defeatedBy && run.defeatedBy === name));
+
+export const getEnemyStatistics = (runs: RunRecord[]): EnemyStatisticsSummary => {
+  const stats: Record<string, EnemyStatistics> = {};
+  let totalLosses = 0;
+  let unattributedLosses = 0;
+
+  runs.forEach((run) => {
+    if (!run.won) totalLosses++;
+    let attributed = false;
+
+    Object.entries(run.enemyData || {}).forEach(([key, enemy]) => {
+      const name = enemy.name || key;
+      const entry = (stats[name] ??= {
+        name,
+        runsFought: 0,
+        encounters: 0,
+        meleeDamageReceived: 0,
+        rangedDamageReceived: 0,
+        totalDamageReceived: 0,
+        averageDamagePerEncounter: 0,
+        kills: 0,
+        killRate: 0,
+        lossShare: 0,
+        killedRunIds: [],
+      });
+
+      entry.runsFought++;
+      entry.encounters += enemy.amountFought || 0;
+      entry.meleeDamageReceived += enemy.meleeDamageReceived || 0;
+      entry.rangedDamageReceived += enemy.rangedDamageReceived || 0;
+
+      if (isKiller(run, name, enemy.defeatedBy)) {
+        entry.kills++;
+        entry.killedRunIds.push(run.id);
+        attributed = true;
+      }
+    });
+
+    if (!run.won && !attributed) unattributedLosses++;
+  });
+
+  const enemies = Object.values(stats).map((entry) => {
+    entry.totalDamageReceived =
+      entry.meleeDamageReceived + entry.rangedDamageReceived;
+    entry.averageDamagePerEncounter =
+      entry.encounters > 0 ? entry.totalDamageReceived / entry.encounters : 0;
+    entry.killRate = entry.runsFought > 0 ? entry.kills / entry.runsFought : 0;
+    entry.lossShare = totalLosses > 0 ? entry.kills / totalLosses : 0;
+    return entry;
+  });
+
+  enemies.sort(
+    (a, b) =>
+      b.kills - a.kills ||
+      b.averageDamagePerEncounter - a.averageDamagePerEncounter ||
+      a.name.localeCompare(b.name)
+  );
+
+  return { enemies, totalRuns: runs.length, totalLosses, unattributedLosses };
+};
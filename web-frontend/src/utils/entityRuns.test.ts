@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { getEnemyRuns, getRelicRuns, getRunEnemyNames, isRelicName } from "./entityRuns";
+import { Entity } from "../store/useSpriteStore";
+import { EnemyPlayData } from "../types";
+import { loadDemoRuns } from "../test/demoData";
+import { makeRun } from "../test/runs";
+
+const enemy = (name: string, overrides: Partial<EnemyPlayData> = {}): EnemyPlayData => ({
+  name,
+  amountFought: 1,
+  meleeDamageReceived: 0,
+  rangedDamageReceived: 0,
+  defeatedBy: false,
+  ...overrides,
+});
+
+const day = (date: number) => new Date(2024, 0, date, 12).toISOString();
+
+describe("getRelicRuns", () => {
+  const relic: Entity = { id: "SAPPER_SACK", name: "Sapper Sack", type: "relic" };
+
+  it("matches relics by name or by id, ignoring case", () => {
+    expect(isRelicName(relic, "sapper sack")).toBe(true);
+    expect(isRelicName(relic, "Sapper_Sack")).toBe(true);
+    expect(isRelicName(relic, "Sapper")).toBe(false);
+  });
+
+  it("lists the runs holding the relic, newest first", () => {
+    const runs = [
+      makeRun("old", { relicNames: ["Sapper Sack"], timestamp: day(1) }),
+      makeRun("other", { relicNames: ["Refresherer"], timestamp: day(2) }),
+      makeRun("by-id", { relicNames: ["SAPPER_SACK"], timestamp: day(3) }),
+      makeRun("no-relics", { relicNames: undefined, timestamp: day(4) }),
+    ];
+
+    expect(getRelicRuns(relic, runs).map((entry) => entry.run.id)).toEqual([
+      "by-id",
+      "old",
+    ]);
+  });
+
+  it("finds every demo run holding a relic", () => {
+    const runs = loadDemoRuns();
+    const [relicName] = runs.find((run) => run.relicNames.length > 0).relicNames;
+    const demoRelic: Entity = { id: relicName, name: relicName, type: "relic" };
+
+    expect(getRelicRuns(demoRelic, runs)).toHaveLength(
+      runs.filter((run) => run.relicNames.includes(relicName)).length
+    );
+  });
+});
+
+describe("getEnemyRuns", () => {
+  const runs = [
+    makeRun("killed", {
+      timestamp: day(1),
+      defeatedBy: "Slime",
+      enemyData: {
+        a: enemy("Slime", { amountFought: 2, meleeDamageReceived: 30, rangedDamageReceived: 5 }),
+        // Enemies without a name are keyed by it
+        SlimeBoss: enemy("", { amountFought: 1, meleeDamageReceived: 10 }),
+        c: enemy("Bat", { amountFought: 4 }),
+      },
+    }),
+    makeRun("survived", {
+      won: true,
+      timestamp: day(2),
+      enemyData: { a: enemy("Slime", { defeatedBy: true }) },
+    }),
+    makeRun("elsewhere", { timestamp: day(3), enemyData: { a: enemy("Bat") } }),
+  ];
+
+  it("collects the enemy names the statistics are keyed by", () => {
+    expect(getRunEnemyNames(runs)).toEqual(["Bat", "Slime", "SlimeBoss"]);
+  });
+
+  it("sums encounters and damage over all matched names", () => {
+    expect(getEnemyRuns(["Slime", "SlimeBoss"], runs)).toEqual([
+      { run: runs[1], encounters: 1, damageReceived: 0, endedRun: false },
+      { run: runs[0], encounters: 3, damageReceived: 45, endedRun: true },
+    ]);
+  });
+
+  it("skips runs that never fought the enemy", () => {
+    expect(getEnemyRuns(["Unknown"], runs)).toEqual([]);
+  });
+
+  it("finds every demo run that fought an enemy", () => {
+    const demoRuns = loadDemoRuns();
+    const [name] = getRunEnemyNames(demoRuns);
+    const fought = demoRuns.filter((run) =>
+      Object.entries(run.enemyData).some(([key, data]) => (data.name || key) === name)
+    );
+
+    const enemyRuns = getEnemyRuns([name], demoRuns);
+    expect(enemyRuns.map((entry) => entry.run.id).sort()).toEqual(
+      fought.map((run) => run.id).sort()
+    );
+    expect(enemyRuns.every((entry) => entry.encounters > 0)).toBe(true);
+  });
+});
@@ -0,0 +1,76 @@
+import { RunRecord } from "../types";
+import { Entity } from "../store/useSpriteStore";
+import { isKiller } from "./enemyStatistics";
+
+// Runs featuring a relic or an enemy, for the entity detail pages. Orbs have
+// their own, richer history in orbCareer.
+
+export interface EntityRun {
+  run: RunRecord;
+  // Enemy runs only
+  encounters?: number;
+  damageReceived?: number;
+  endedRun?: boolean;
+}
+
+const byNewest = (a: EntityRun, b: EntityRun) =>
+  new Date(b.run.timestamp).getTime() - new Date(a.run.timestamp).getTime();
+
+// Runs record relics by name, older ones by id
+export const isRelicName = (relic: Entity, relicName: string) =>
+  relic.name.toLowerCase() === relicName.toLowerCase() ||
+  relic.id.toLowerCase() === relicName.toLowerCase();
+
+export const getRelicRuns = (relic: Entity, runs: RunRecord[]): EntityRun[] =>
+  runs
+    .filter((run) =>
+      (run.relicNames || []).some((relicName) => isRelicName(relic, relicName))
+    )
+    .map((run) => ({ run }))
+    .sort(byNewest);
+
+// Enemy names as keyed in the enemy statistics
+export const getRunEnemyNames = (runs: RunRecord[]) => {
+  const names = new Set<string>();
+  runs.forEach((run) =>
+    Object.entries(run.enemyData || {}).forEach(([key, enemy]) =>
+      names.add(enemy.name || key)
+    )
+  );
+  return [...names].sort();
+};
+
+// Runs that fought any of the run enemy names matched to one entity
+export const getEnemyRuns = (
+  enemyNames: string[],
+  runs: RunRecord[]
+): EntityRun[] => {
+  const names = new Set(enemyNames);
+  return runs
+    .flatMap((run) => {
+      const fought = Object.entries(run.enemyData || {})
+        .map(([key, enemy]) => ({ name: enemy.name || key, enemy }))
+        .filter(({ name }) => names.has(name));
+      if (fought.length === 0) return [];
+      return [
+        {
+          run,
+          encounters: fought.reduce(
+            (sum, { enemy }) => sum + (enemy.amountFought || 0),
+            0
+          ),
+          damageReceived: fought.reduce(
+            (sum, { enemy }) =>
+              sum +
+              (enemy.meleeDamageReceived || 0) +
+              (enemy.rangedDamageReceived || 0),
+            0
+          ),
+          endedRun: fought.some(({ name, enemy }) =>
+            isKiller(run, name, enemy.defeatedBy)
+          ),
+        },
+      ];
+    })
+    .sort(byNewest);
+};
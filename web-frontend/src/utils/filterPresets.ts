@@ -0,0 +1,69 @@
+const FILTER_PRESETS_KEY = "peglin-save-explorer:filter-presets";
+const PIVOT_PRESETS_KEY = "peglin-save-explorer:pivot-presets";
+
+// A named view configuration, stored as the URL query string it produces
+export interface SavedPreset {
+  id: string;
+  name: string;
+  params: string;
+}
+
+// Run filters from the filter panels
+export type FilterPreset = SavedPreset;
+// Row, column and metric choices of the pivot explorer
+export type PivotPreset = SavedPreset;
+
+const loadPresets = (key: string): SavedPreset[] => {
+  try {
+    const stored = localStorage.getItem(key);
+    const presets = stored ? JSON.parse(stored) : [];
+    return Array.isArray(presets)
+      ? presets.filter(
+          (preset) =>
+            typeof preset?.id === "string" &&
+            typeof preset?.name === "string" &&
+            typeof preset?.params === "string"
+        )
+      : [];
+  } catch (error) {
+    console.warn(`Ignoring invalid stored presets in ${key}:`, error);
+    return [];
+  }
+};
+
+const savePresets = (key: string, presets: SavedPreset[]) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(presets));
+  } catch (error) {
+    console.warn(`Failed to save presets to ${key}:`, error);
+  }
+};
+
+// Saving under an existing name replaces that preset
+export const upsertPreset = (
+  presets: SavedPreset[],
+  name: string,
+  params: string
+): SavedPreset[] => {
+  const replaced = presets.find((preset) => preset.name === name);
+  const preset: SavedPreset = {
+    id: replaced?.id ?? `${Date.now()}`,
+    name,
+    params,
+  };
+  return replaced
+    ? presets.map((p) => (p.id === replaced.id ? preset : p))
+    : [...presets, preset];
+};
+
+export const loadFilterPresets = (): FilterPreset[] =>
+  loadPresets(FILTER_PRESETS_KEY);
+
+export const saveFilterPresets = (presets: FilterPreset[]) =>
+  savePresets(FILTER_PRESETS_KEY, presets);
+
+export const loadPivotPresets = (): PivotPreset[] =>
+  loadPresets(PIVOT_PRESETS_KEY);
+
+export const savePivotPresets = (presets: PivotPreset[]) =>
+  savePresets(PIVOT_PRESETS_KEY, presets);
@@ -0,0 +1,71 @@
+// Saving rendered SVG diagrams as PNG images
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// An SVG drawn as an image can't load other resources, so embed them first
+const inlineImages = async (svg: SVGSVGElement) => {
+  const images = Array.from(svg.querySelectorAll("image"));
+  await Promise.all(
+    images.map(async (image) => {
+      const href = image.getAttribute("href");
+      if (!href || href.startsWith("data:")) return;
+      try {
+        const response = await fetch(href);
+        image.setAttribute("href", await blobToDataUrl(await response.blob()));
+      } catch (error) {
+        console.warn(`Leaving out image ${href} from the export:`, error);
+        image.remove();
+      }
+    })
+  );
+};
+
+export const downloadSvgAsPng = async (
+  svg: SVGSVGElement,
+  filename: string,
+  background: string,
+  scale = 2
+) => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  await inlineImages(clone);
+
+  const width = svg.width.baseVal.value;
+  const height = svg.height.baseVal.value;
+  const source = new XMLSerializer().serializeToString(clone);
+  const url = URL.createObjectURL(
+    new Blob([source], { type: "image/svg+xml;charset=utf-8" })
+  );
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("Failed to render the image"));
+      image.src = url;
+    });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not supported");
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.scale(scale, scale);
+    ctx.drawImage(image, 0, 0, width, height);
+
+    const link = document.createElement("a");
+    link.href = canvas.toDataURL("image/png");
+    link.download = filename;
+    link.click();
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { OdinFormatError, deserializeOdin } from "./odinSerializer";
+import { readDemoFile, readDemoJson } from "../test/demoData";
+
+interface SaveDump {
+  rawDataAnalysis: {
+    fileSize: number;
+    hexDumpFirst500: string;
+  };
+}
+
+const dump = readDemoJson<SaveDump>("Save_0_dump.json");
+const saveBytes = readDemoFile("Save_0.data");
+
+// The root type name is the first entry: 0x2F, a type id, then a UTF-16 string
+const readRootTypeName = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const length = view.getInt32(7, true);
+  return new TextDecoder("utf-16le").decode(bytes.subarray(11, 11 + length * 2));
+};
+
+describe("deserializeOdin", () => {
+  it("reads the same Save_0.data the dump was taken from", () => {
+    const hexHeader = Array.from(saveBytes.subarray(0, 500), (byte) =>
+      byte.toString(16).toUpperCase().padStart(2, "0")
+    ).join(" ");
+
+    expect(saveBytes.length).toBe(dump.rawDataAnalysis.fileSize);
+    expect(hexHeader).toBe(dump.rawDataAnalysis.hexDumpFirst500);
+  });
+
+  it("decodes the save's root dictionary", () => {
+    expect(readRootTypeName(saveBytes)).toMatch(
+      /^System\.Collections\.Generic\.Dictionary`2\[\[System\.String/
+    );
+
+    const save = deserializeOdin(saveBytes) as Record<string, unknown>;
+
+    expect(Array.isArray(save)).toBe(false);
+    expect(Object.keys(save)).toEqual([
+      "SAVE_VERSION",
+      "PersistentPlayerSaveData",
+      "PermanentStats",
+      "BestiarySaveData",
+      "BestiaryHistory",
+    ]);
+  });
+
+  it("decodes the run history out of Stats_0.data", () => {
+    const stats = deserializeOdin(readDemoFile("Stats_0.data")) as Record<
+      string,
+      unknown
+    >;
+
+    expect(Object.keys(stats)).toEqual(["RunStatsHistory"]);
+  });
+
+  it("rejects truncated data with the failing offset", () => {
+    expect(() => deserializeOdin(saveBytes.subarray(0, 40))).toThrow(
+      OdinFormatError
+    );
+  });
+});
@@ -0,0 +1,501 @@
+// Minimal reader for OdinSerializer's binary format, which Peglin uses for
+// Save_X.data and Stats_X.data. This mirrors what the .NET SaveFileDumper
+// produces (plain JSON-like objects) without needing the game assembly:
+// object nodes become plain objects keyed by field name, lists/arrays become
+// arrays, and dictionaries become objects keyed by the stringified key.
+
+enum EntryType {
+  Invalid = 0x00,
+  NamedStartOfReferenceNode = 0x01,
+  UnnamedStartOfReferenceNode = 0x02,
+  NamedStartOfStructNode = 0x03,
+  UnnamedStartOfStructNode = 0x04,
+  EndOfNode = 0x05,
+  StartOfArray = 0x06,
+  EndOfArray = 0x07,
+  PrimitiveArray = 0x08,
+  NamedInternalReference = 0x09,
+  UnnamedInternalReference = 0x0a,
+  NamedExternalReferenceByIndex = 0x0b,
+  UnnamedExternalReferenceByIndex = 0x0c,
+  NamedExternalReferenceByGuid = 0x0d,
+  UnnamedExternalReferenceByGuid = 0x0e,
+  NamedSByte = 0x0f,
+  UnnamedSByte = 0x10,
+  NamedByte = 0x11,
+  UnnamedByte = 0x12,
+  NamedShort = 0x13,
+  UnnamedShort = 0x14,
+  NamedUShort = 0x15,
+  UnnamedUShort = 0x16,
+  NamedInt = 0x17,
+  UnnamedInt = 0x18,
+  NamedUInt = 0x19,
+  UnnamedUInt = 0x1a,
+  NamedLong = 0x1b,
+  UnnamedLong = 0x1c,
+  NamedULong = 0x1d,
+  UnnamedULong = 0x1e,
+  NamedFloat = 0x1f,
+  UnnamedFloat = 0x20,
+  NamedDouble = 0x21,
+  UnnamedDouble = 0x22,
+  NamedDecimal = 0x23,
+  UnnamedDecimal = 0x24,
+  NamedChar = 0x25,
+  UnnamedChar = 0x26,
+  NamedString = 0x27,
+  UnnamedString = 0x28,
+  NamedGuid = 0x29,
+  UnnamedGuid = 0x2a,
+  NamedBoolean = 0x2b,
+  UnnamedBoolean = 0x2c,
+  NamedNull = 0x2d,
+  UnnamedNull = 0x2e,
+  TypeName = 0x2f,
+  TypeID = 0x30,
+  EndOfStream = 0x31,
+  NamedExternalReferenceByString = 0x32,
+  UnnamedExternalReferenceByString = 0x33,
+}
+
+// Entry types whose payload is preceded by a field name
+const NAMED_ENTRIES = new Set<number>([
+  EntryType.NamedStartOfReferenceNode,
+  EntryType.NamedStartOfStructNode,
+  EntryType.NamedInternalReference,
+  EntryType.NamedExternalReferenceByIndex,
+  EntryType.NamedExternalReferenceByGuid,
+  EntryType.NamedSByte,
+  EntryType.NamedByte,
+  EntryType.NamedShort,
+  EntryType.NamedUShort,
+  EntryType.NamedInt,
+  EntryType.NamedUInt,
+  EntryType.NamedLong,
+  EntryType.NamedULong,
+  EntryType.NamedFloat,
+  EntryType.NamedDouble,
+  EntryType.NamedDecimal,
+  EntryType.NamedChar,
+  EntryType.NamedString,
+  EntryType.NamedGuid,
+  EntryType.NamedBoolean,
+  EntryType.NamedNull,
+  EntryType.NamedExternalReferenceByString,
+]);
+
+export class OdinFormatError extends Error {
+  constructor(message: string, public readonly offset: number) {
+    super(`${message} (at byte ${offset})`);
+    this.name = "OdinFormatError";
+  }
+}
+
+// Marker returned by readEntry when a node or array closes
+const END_OF_NODE = Symbol("endOfNode");
+const END_OF_ARRAY = Symbol("endOfArray");
+
+interface Entry {
+  name: string | null;
+  value: unknown;
+}
+
+class OdinBinaryReader {
+  private offset = 0;
+  private readonly view: DataView;
+  private readonly bytes: Uint8Array;
+  private readonly types = new Map<number, string | null>();
+  private readonly references = new Map<number, unknown>();
+
+  constructor(buffer: ArrayBuffer | Uint8Array) {
+    this.bytes =
+      buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+    this.view = new DataView(
+      this.bytes.buffer,
+      this.bytes.byteOffset,
+      this.bytes.byteLength
+    );
+  }
+
+  readRoot(): unknown {
+    const entry = this.readEntry();
+    if (typeof entry === "symbol") {
+      throw new OdinFormatError("Unexpected end of node at root", this.offset);
+    }
+    return entry.value;
+  }
+
+  private ensureAvailable(count: number) {
+    if (this.offset + count > this.bytes.byteLength) {
+      throw new OdinFormatError("Unexpected end of data", this.offset);
+    }
+  }
+
+  private readByte(): number {
+    this.ensureAvailable(1);
+    return this.bytes[this.offset++];
+  }
+
+  private readInt32(): number {
+    this.ensureAvailable(4);
+    const value = this.view.getInt32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  private readBytes(count: number): Uint8Array {
+    this.ensureAvailable(count);
+    const slice = this.bytes.subarray(this.offset, this.offset + count);
+    this.offset += count;
+    return slice;
+  }
+
+  private readString(): string {
+    const charSizeFlag = this.readByte();
+    const length = this.readInt32();
+    if (length < 0) {
+      throw new OdinFormatError(`Invalid string length ${length}`, this.offset);
+    }
+
+    if (charSizeFlag === 0) {
+      const raw = this.readBytes(length);
+      let result = "";
+      for (let i = 0; i < raw.length; i++) {
+        result += String.fromCharCode(raw[i]);
+      }
+      return result;
+    }
+
+    this.ensureAvailable(length * 2);
+    let result = "";
+    for (let i = 0; i < length; i++) {
+      result += String.fromCharCode(
+        this.view.getUint16(this.offset + i * 2, true)
+      );
+    }
+    this.offset += length * 2;
+    return result;
+  }
+
+  private readGuid(): string {
+    const raw = this.readBytes(16);
+    const hex = (indices: number[]) =>
+      indices.map((i) => raw[i].toString(16).padStart(2, "0")).join("");
+    // .NET Guid layout: first three groups are little-endian
+    return [
+      hex([3, 2, 1, 0]),
+      hex([5, 4]),
+      hex([7, 6]),
+      hex([8, 9]),
+      hex([10, 11, 12, 13, 14, 15]),
+    ].join("-");
+  }
+
+  private readDecimal(): number {
+    this.ensureAvailable(16);
+    const lo = this.view.getUint32(this.offset, true);
+    const mid = this.view.getUint32(this.offset + 4, true);
+    const hi = this.view.getUint32(this.offset + 8, true);
+    const flags = this.view.getUint32(this.offset + 12, true);
+    this.offset += 16;
+
+    const scale = (flags >> 16) & 0xff;
+    const magnitude = hi * 2 ** 64 + mid * 2 ** 32 + lo;
+    const value = magnitude / 10 ** scale;
+    return flags & 0x80000000 ? -value : value;
+  }
+
+  private readTypeEntry(): string | null {
+    const entryType = this.readByte();
+    switch (entryType) {
+      case EntryType.TypeID: {
+        const id = this.readInt32();
+        return this.types.get(id) ?? null;
+      }
+      case EntryType.TypeName: {
+        const id = this.readInt32();
+        const name = this.readString();
+        this.types.set(id, name);
+        return name;
+      }
+      case EntryType.UnnamedNull:
+        return null;
+      default:
+        throw new OdinFormatError(
+          `Expected type entry, found 0x${entryType.toString(16)}`,
+          this.offset - 1
+        );
+    }
+  }
+
+  private readEntry(): Entry | typeof END_OF_NODE | typeof END_OF_ARRAY {
+    const entryType = this.readByte();
+    const name = NAMED_ENTRIES.has(entryType) ? this.readString() : null;
+
+    switch (entryType) {
+      case EntryType.NamedStartOfReferenceNode:
+      case EntryType.UnnamedStartOfReferenceNode: {
+        const typeName = this.readTypeEntry();
+        const id = this.readInt32();
+        const value = this.readNodeContents(typeName);
+        this.references.set(id, value);
+        return { name, value };
+      }
+      case EntryType.NamedStartOfStructNode:
+      case EntryType.UnnamedStartOfStructNode: {
+        const typeName = this.readTypeEntry();
+        return { name, value: this.readNodeContents(typeName) };
+      }
+      case EntryType.EndOfNode:
+        return END_OF_NODE;
+      case EntryType.EndOfArray:
+        return END_OF_ARRAY;
+      case EntryType.StartOfArray:
+        // Arrays only appear directly inside nodes; readNodeContents handles them
+        throw new OdinFormatError("Unexpected start of array", this.offset - 1);
+      case EntryType.NamedInternalReference:
+      case EntryType.UnnamedInternalReference:
+        return { name, value: this.references.get(this.readInt32()) ?? null };
+      case EntryType.NamedExternalReferenceByIndex:
+      case EntryType.UnnamedExternalReferenceByIndex:
+        return { name, value: { $externalIndex: this.readInt32() } };
+      case EntryType.NamedExternalReferenceByGuid:
+      case EntryType.UnnamedExternalReferenceByGuid:
+        return { name, value: { $externalGuid: this.readGuid() } };
+      case EntryType.NamedExternalReferenceByString:
+      case EntryType.UnnamedExternalReferenceByString:
+        return { name, value: { $externalId: this.readString() } };
+      case EntryType.NamedSByte:
+      case EntryType.UnnamedSByte: {
+        this.ensureAvailable(1);
+        const value = this.view.getInt8(this.offset);
+        this.offset += 1;
+        return { name, value };
+      }
+      case EntryType.NamedByte:
+      case EntryType.UnnamedByte:
+        return { name, value: this.readByte() };
+      case EntryType.NamedShort:
+      case EntryType.UnnamedShort: {
+        this.ensureAvailable(2);
+        const value = this.view.getInt16(this.offset, true);
+        this.offset += 2;
+        return { name, value };
+      }
+      case EntryType.NamedUShort:
+      case EntryType.UnnamedUShort: {
+        this.ensureAvailable(2);
+        const value = this.view.getUint16(this.offset, true);
+        this.offset += 2;
+        return { name, value };
+      }
+      case EntryType.NamedInt:
+      case EntryType.UnnamedInt:
+        return { name, value: this.readInt32() };
+      case EntryType.NamedUInt:
+      case EntryType.UnnamedUInt: {
+        this.ensureAvailable(4);
+        const value = this.view.getUint32(this.offset, true);
+        this.offset += 4;
+        return { name, value };
+      }
+      case EntryType.NamedLong:
+      case EntryType.UnnamedLong: {
+        this.ensureAvailable(8);
+        const value = Number(this.view.getBigInt64(this.offset, true));
+        this.offset += 8;
+        return { name, value };
+      }
+      case EntryType.NamedULong:
+      case EntryType.UnnamedULong: {
+        this.ensureAvailable(8);
+        const value = Number(this.view.getBigUint64(this.offset, true));
+        this.offset += 8;
+        return { name, value };
+      }
+      case EntryType.NamedFloat:
+      case EntryType.UnnamedFloat: {
+        this.ensureAvailable(4);
+        const value = this.view.getFloat32(this.offset, true);
+        this.offset += 4;
+        return { name, value };
+      }
+      case EntryType.NamedDouble:
+      case EntryType.UnnamedDouble: {
+        this.ensureAvailable(8);
+        const value = this.view.getFloat64(this.offset, true);
+        this.offset += 8;
+        return { name, value };
+      }
+      case EntryType.NamedDecimal:
+      case EntryType.UnnamedDecimal:
+        return { name, value: this.readDecimal() };
+      case EntryType.NamedChar:
+      case EntryType.UnnamedChar: {
+        this.ensureAvailable(2);
+        const value = String.fromCharCode(
+          this.view.getUint16(this.offset, true)
+        );
+        this.offset += 2;
+        return { name, value };
+      }
+      case EntryType.NamedString:
+      case EntryType.UnnamedString:
+        return { name, value: this.readString() };
+      case EntryType.NamedGuid:
+      case EntryType.UnnamedGuid:
+        return { name, value: this.readGuid() };
+      case EntryType.NamedBoolean:
+      case EntryType.UnnamedBoolean:
+        return { name, value: this.readByte() !== 0 };
+      case EntryType.NamedNull:
+      case EntryType.UnnamedNull:
+        return { name, value: null };
+      default:
+        throw new OdinFormatError(
+          `Unsupported entry type 0x${entryType.toString(16)}`,
+          this.offset - 1
+        );
+    }
+  }
+
+  private readPrimitiveArray(typeName: string | null): unknown[] {
+    const elementCount = this.readInt32();
+    const bytesPerElement = this.readInt32();
+    const raw = this.readBytes(elementCount * bytesPerElement);
+    const view = new DataView(raw.buffer, raw.byteOffset, raw.byteLength);
+    const elementType = typeName?.split(",")[0] ?? "";
+
+    const values: unknown[] = [];
+    for (let i = 0; i < elementCount; i++) {
+      const at = i * bytesPerElement;
+      switch (bytesPerElement) {
+        case 1:
+          if (elementType.startsWith("System.Boolean")) {
+            values.push(view.getUint8(at) !== 0);
+          } else if (elementType.startsWith("System.SByte")) {
+            values.push(view.getInt8(at));
+          } else {
+            values.push(view.getUint8(at));
+          }
+          break;
+        case 2:
+          if (elementType.startsWith("System.Char")) {
+            values.push(String.fromCharCode(view.getUint16(at, true)));
+          } else if (elementType.startsWith("System.UInt16")) {
+            values.push(view.getUint16(at, true));
+          } else {
+            values.push(view.getInt16(at, true));
+          }
+          break;
+        case 4:
+          if (elementType.startsWith("System.Single")) {
+            values.push(view.getFloat32(at, true));
+          } else if (elementType.startsWith("System.UInt32")) {
+            values.push(view.getUint32(at, true));
+          } else {
+            values.push(view.getInt32(at, true));
+          }
+          break;
+        case 8:
+          if (elementType.startsWith("System.Double")) {
+            values.push(view.getFloat64(at, true));
+          } else if (elementType.startsWith("System.UInt64")) {
+            values.push(Number(view.getBigUint64(at, true)));
+          } else {
+            values.push(Number(view.getBigInt64(at, true)));
+          }
+          break;
+        default:
+          values.push(Array.from(raw.subarray(at, at + bytesPerElement)));
+      }
+    }
+    return values;
+  }
+
+  private readNodeContents(typeName: string | null): unknown {
+    const fields: Record<string, unknown> = {};
+    const unnamed: unknown[] = [];
+    let hasFields = false;
+    let items: unknown[] | null = null;
+
+    for (;;) {
+      const peek = this.bytes[this.offset];
+
+      if (peek === EntryType.StartOfArray) {
+        this.offset += 1;
+        this.ensureAvailable(8);
+        this.offset += 8; // int64 length, redundant with the EndOfArray marker
+        items = [];
+        for (;;) {
+          const entry = this.readEntry();
+          if (entry === END_OF_ARRAY) break;
+          if (entry === END_OF_NODE) {
+            throw new OdinFormatError("Unexpected end of node", this.offset);
+          }
+          items.push(entry.value);
+        }
+        continue;
+      }
+
+      if (peek === EntryType.PrimitiveArray) {
+        this.offset += 1;
+        items = this.readPrimitiveArray(typeName);
+        continue;
+      }
+
+      if (peek === EntryType.EndOfStream || peek === undefined) {
+        break;
+      }
+
+      const entry = this.readEntry();
+      if (entry === END_OF_NODE) break;
+      if (entry === END_OF_ARRAY) {
+        throw new OdinFormatError("Unexpected end of array", this.offset);
+      }
+      if (entry.name !== null) {
+        fields[entry.name] = entry.value;
+        hasFields = true;
+      } else {
+        unnamed.push(entry.value);
+      }
+    }
+
+    if (items === null) {
+      // Custom formatters (DateTime, TimeSpan, enums...) write a single
+      // unnamed primitive rather than named fields
+      if (!hasFields && unnamed.length === 1) {
+        return unnamed[0];
+      }
+      if (!hasFields && typeName?.includes("Dictionary`")) {
+        return {};
+      }
+      return fields;
+    }
+
+    // Dictionaries serialize as an array of { $k, $v } key/value pairs
+    if (
+      items.length > 0 &&
+      items.every(
+        (item) => item !== null && typeof item === "object" && "$k" in item
+      )
+    ) {
+      const dictionary: Record<string, unknown> = {};
+      for (const item of items as { $k: unknown; $v: unknown }[]) {
+        dictionary[String(item.$k)] = item.$v;
+      }
+      return dictionary;
+    }
+
+    return items;
+  }
+}
+
+/**
+ * Decode an OdinSerializer binary payload into plain JavaScript values.
+ * Throws OdinFormatError if the data is truncated or not in Odin's binary format.
+ */
+export const deserializeOdin = (data: ArrayBuffer | Uint8Array): unknown => {
+  return new OdinBinaryReader(data).readRoot();
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { ORB_LEVELS, getOrbBreakdown } from "./orbBreakdown";
+import { loadDemoRuns } from "../test/demoData";
+import { makeOrb as orb, makeRun } from "../test/runs";
+
+describe("getOrbBreakdown", () => {
+  it("computes shares and per-fire rates, most damage first", () => {
+    const breakdown = getOrbBreakdown(
+      makeRun("a", {
+        orbStats: {
+          stone: orb("StoneOrb-Lvl1", { damageDealt: 100, timesFired: 4, timesDiscarded: 1 }),
+          daggorb: orb("Daggorb-Lvl1", { damageDealt: 300, timesFired: 3 }),
+          unused: orb("Bramball-Lvl1"),
+        },
+      })
+    );
+
+    expect(breakdown.totalDamage).toBe(400);
+    expect(breakdown.rows.map((row) => row.id)).toEqual(["daggorb", "stone", "unused"]);
+    expect(breakdown.rows[1]).toMatchObject({
+      damageShare: 0.25,
+      damagePerFire: 25,
+      discardRate: 0.2,
+    });
+    // Never drawn
+    expect(breakdown.rows[2]).toMatchObject({ damagePerFire: null, discardRate: null });
+  });
+
+  it("counts copies per level from levelInstances", () => {
+    const { rows, levelTotals } = getOrbBreakdown(
+      makeRun("a", {
+        orbStats: {
+          stone: orb("StoneOrb-Lvl1", { amountInDeck: 3, levelInstances: [1, 2, 0] }),
+          daggorb: orb("Daggorb-Lvl1", { levelInstances: [0, 0, 1] }),
+        },
+      })
+    );
+
+    expect(rows.find((row) => row.id === "stone")).toMatchObject({
+      levelCounts: [1, 2, 0],
+      deckCount: 3,
+    });
+    expect(levelTotals).toEqual([1, 2, 1]);
+  });
+
+  it("falls back to the -LvlN suffix when levels aren't recorded", () => {
+    const { rows } = getOrbBreakdown(
+      makeRun("a", {
+        orbStats: {
+          lvl2: orb("StoneOrb-Lvl2", { amountInDeck: 2, levelInstances: [0, 0, 0] }),
+          lvl9: orb("Daggorb-Lvl9", { amountInDeck: 1 }),
+          plain: orb("Bramball", { amountInDeck: 4 }),
+        },
+      })
+    );
+    const countsOf = (id: string) => rows.find((row) => row.id === id).levelCounts;
+
+    expect(countsOf("lvl2")).toEqual([0, 2, 0]);
+    // Clamped to the highest level
+    expect(countsOf("lvl9")).toEqual([0, 0, 1]);
+    expect(countsOf("plain")).toEqual([4, 0, 0]);
+  });
+
+  it("adds up across the orbs of every demo run", () => {
+    const runs = loadDemoRuns();
+    expect(runs.some((run) => getOrbBreakdown(run).rows.length > 0)).toBe(true);
+
+    runs.forEach((run) => {
+      const { rows, totalDamage, levelTotals } = getOrbBreakdown(run);
+
+      expect(rows.reduce((sum, row) => sum + row.damageDealt, 0)).toBe(totalDamage);
+      if (totalDamage > 0) {
+        expect(rows.reduce((sum, row) => sum + row.damageShare, 0)).toBeCloseTo(1);
+      }
+      expect(levelTotals).toHaveLength(ORB_LEVELS);
+      expect(levelTotals.reduce((sum, count) => sum + count, 0)).toBe(
+        rows.reduce((sum, row) => sum + row.deckCount, 0)
+      );
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { OrbPlayData, RunRecord } from "../types";
+
+// Per-orb performance within a single run, from run.orbStats. Discard rate is the
+// share of draws that were discarded instead of fired.
+
+export const ORB_LEVELS = 3;
+
+export interface OrbBreakdownRow {
+  // Key into run.orbStats
+  id: string;
+  orb: OrbPlayData;
+  damageDealt: number;
+  damageShare: number;
+  timesFired: number;
+  damagePerFire: number | null;
+  timesDiscarded: number;
+  discardRate: number | null;
+  timesRemoved: number;
+  // Copies in the deck at each level, index 0 is level 1
+  levelCounts: number[];
+  deckCount: number;
+}
+
+export interface OrbBreakdown {
+  rows: OrbBreakdownRow[];
+  totalDamage: number;
+  // Copies in the deck at each level across all orbs
+  levelTotals: number[];
+}
+
+const getLevelCounts = (orb: OrbPlayData) => {
+  const counts = Array.from(
+    { length: ORB_LEVELS },
+    (_, index) => orb.levelInstances?.[index] ?? 0
+  );
+  if (counts.some((count) => count > 0)) return counts;
+  // Older saves don't record levels, so count the whole stack at the named level
+  const level = Number(orb.name.match(/-Lvl(\d+)$/i)?.[1] ?? 1);
+  counts[Math.min(Math.max(level, 1), ORB_LEVELS) - 1] = orb.amountInDeck || 0;
+  return counts;
+};
+
+export const getOrbBreakdown = (run: RunRecord): OrbBreakdown => {
+  const entries = Object.entries(run.orbStats || {});
+  const totalDamage = entries.reduce(
+    (sum, [, orb]) => sum + (orb.damageDealt || 0),
+    0
+  );
+  const levelTotals = new Array(ORB_LEVELS).fill(0);
+
+  const rows = entries.map(([id, orb]): OrbBreakdownRow => {
+    const levelCounts = getLevelCounts(orb);
+    levelCounts.forEach((count, index) => (levelTotals[index] += count));
+    const draws = orb.timesFired + orb.timesDiscarded;
+    return {
+      id,
+      orb,
+      damageDealt: orb.damageDealt,
+      damageShare: totalDamage > 0 ? orb.damageDealt / totalDamage : 0,
+      timesFired: orb.timesFired,
+      damagePerFire: orb.timesFired > 0 ? orb.damageDealt / orb.timesFired : null,
+      timesDiscarded: orb.timesDiscarded,
+      discardRate: draws > 0 ? orb.timesDiscarded / draws : null,
+      timesRemoved: orb.timesRemoved,
+      levelCounts,
+      deckCount: levelCounts.reduce((sum, count) => sum + count, 0),
+    };
+  });
+
+  return {
+    rows: rows.sort((a, b) => b.damageDealt - a.damageDealt),
+    totalDamage,
+    levelTotals,
+  };
+};
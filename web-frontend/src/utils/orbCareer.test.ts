@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { getOrbCareer } from "./orbCareer";
+import { Entity } from "../store/useSpriteStore";
+import { getOrbFamily } from "./saveFileParser";
+import { loadDemoRuns } from "../test/demoData";
+import { makeOrb, makeRun } from "../test/runs";
+
+const orbEntity = (family: string, levels = 3): Entity => ({
+  id: family,
+  name: family,
+  type: "orb",
+  levels: Array.from({ length: levels }, (_, index) => ({
+    level: index + 1,
+    runNameEquivalent: `${family}-Lvl${index + 1}`,
+    damagePerPeg: String(index + 2),
+  })),
+});
+
+describe("getOrbCareer", () => {
+  const stone = orbEntity("StoneOrb");
+  const runs = [
+    makeRun("two-levels", {
+      won: true,
+      orbStats: {
+        a: makeOrb("StoneOrb-Lvl1", {
+          damageDealt: 100,
+          timesFired: 10,
+          starting: true,
+          highestCruciballBeat: 2,
+        }),
+        // Run names are matched case-insensitively
+        b: makeOrb("stoneorb-lvl2", { damageDealt: 50, timesFired: 5 }),
+      },
+    }),
+    makeRun("other-orb", { orbStats: { a: makeOrb("Daggorb-Lvl1", { damageDealt: 999 }) } }),
+    makeRun("level-2", {
+      orbStats: {
+        a: makeOrb("StoneOrb-Lvl2", {
+          damageDealt: 300,
+          timesFired: 10,
+          highestCruciballBeat: 5,
+        }),
+      },
+    }),
+    makeRun("no-orbs", { won: true }),
+  ];
+
+  it("joins run orbs to the entity through runNameEquivalent", () => {
+    expect(getOrbCareer(stone, runs)).toMatchObject({
+      totalRuns: 4,
+      runsTaken: 2,
+      winsTaken: 1,
+      runsWithout: 2,
+      winsWithout: 1,
+      startingRuns: 1,
+      damageDealt: 450,
+      timesFired: 25,
+      highestCruciballBeat: 5,
+    });
+  });
+
+  it("counts a run once per level it held the orb at", () => {
+    const { levels } = getOrbCareer(stone, runs);
+
+    expect(levels).toEqual([
+      expect.objectContaining({ level: 1, runs: 1, damageDealt: 100, damagePerFire: 10 }),
+      expect.objectContaining({ level: 2, runs: 2, damageDealt: 350, timesFired: 15 }),
+      expect.objectContaining({ level: 3, runs: 0, damagePerFire: null, damagePerPeg: "4" }),
+    ]);
+  });
+
+  it("lists the runs with the most damage from the orb first", () => {
+    const { topRuns } = getOrbCareer(stone, runs);
+
+    expect(topRuns.map((taken) => [taken.run.id, taken.damageDealt, taken.levels])).toEqual([
+      ["level-2", 300, [2]],
+      ["two-levels", 150, [1, 2]],
+    ]);
+  });
+
+  it("takes nothing for an entity without run names", () => {
+    const career = getOrbCareer({ id: "x", name: "X", type: "orb" }, runs);
+
+    expect(career).toMatchObject({ runsTaken: 0, runsWithout: 4, levels: [] });
+  });
+
+  it("finds every demo run holding an orb family", () => {
+    const demoRuns = loadDemoRuns();
+    const [name] = Object.values(demoRuns[0].orbStats).map((entry) => entry.name);
+    const family = getOrbFamily(name);
+    const holding = demoRuns.filter((run) =>
+      Object.values(run.orbStats || {}).some(
+        (entry) => getOrbFamily(entry.name).toLowerCase() === family.toLowerCase() &&
+          /-Lvl[1-3]$/i.test(entry.name)
+      )
+    );
+
+    const career = getOrbCareer(orbEntity(family), demoRuns);
+    expect(career.runsTaken).toBe(holding.length);
+    expect(career.runsTaken + career.runsWithout).toBe(demoRuns.length);
+    expect(career.runsTaken).toBeGreaterThan(0);
+  });
+});
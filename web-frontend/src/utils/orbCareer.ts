@@ -0,0 +1,151 @@
+import { OrbPlayData, RunRecord } from "../types";
+import { Entity } from "../store/useSpriteStore";
+
+// An orb family's history across runs. Run orbStats entries are joined to the
+// entity through each level's runNameEquivalent, so a run holding the orb at
+// several levels counts once for taken/win rate but feeds every level's stats.
+
+// Runs listed as the orb's best
+const TOP_RUN_COUNT = 10;
+
+export interface OrbCareerLevel {
+  level: number;
+  damagePerPeg?: string;
+  critDamagePerPeg?: string;
+  runs: number;
+  damageDealt: number;
+  timesFired: number;
+  damagePerFire: number | null;
+}
+
+export interface OrbCareerRun {
+  run: RunRecord;
+  damageDealt: number;
+  timesFired: number;
+  damagePerFire: number | null;
+  levels: number[];
+}
+
+export interface OrbCareer {
+  totalRuns: number;
+  runsTaken: number;
+  winsTaken: number;
+  runsWithout: number;
+  winsWithout: number;
+  startingRuns: number;
+  damageDealt: number;
+  timesFired: number;
+  highestCruciballBeat: number | null;
+  levels: OrbCareerLevel[];
+  topRuns: OrbCareerRun[];
+}
+
+// Run orb names for each of the family's levels, lowercased
+const getLevelsByRunName = (orb: Entity) => {
+  const levels = new Map<string, number>();
+  orb.levels?.forEach((level) => {
+    if (level.runNameEquivalent) {
+      levels.set(level.runNameEquivalent.toLowerCase(), level.level);
+    }
+  });
+  return levels;
+};
+
+const getDamagePerFire = (damage: number, fired: number) =>
+  fired > 0 ? damage / fired : null;
+
+export const getOrbCareer = (orb: Entity, runs: RunRecord[]): OrbCareer => {
+  const levelsByRunName = getLevelsByRunName(orb);
+  const levels = new Map<number, OrbCareerLevel>(
+    (orb.levels ?? []).map((level) => [
+      level.level,
+      {
+        level: level.level,
+        damagePerPeg: level.damagePerPeg,
+        critDamagePerPeg: level.critDamagePerPeg,
+        runs: 0,
+        damageDealt: 0,
+        timesFired: 0,
+        damagePerFire: null,
+      },
+    ])
+  );
+
+  const career: OrbCareer = {
+    totalRuns: runs.length,
+    runsTaken: 0,
+    winsTaken: 0,
+    runsWithout: 0,
+    winsWithout: 0,
+    startingRuns: 0,
+    damageDealt: 0,
+    timesFired: 0,
+    highestCruciballBeat: null,
+    levels: [],
+    topRuns: [],
+  };
+  const takenRuns: OrbCareerRun[] = [];
+
+  runs.forEach((run) => {
+    const entries: [OrbPlayData, number][] = Object.values(run.orbStats || {})
+      .map((entry): [OrbPlayData, number] => [
+        entry,
+        levelsByRunName.get(entry.name.toLowerCase()),
+      ])
+      .filter(([, level]) => level !== undefined);
+
+    if (entries.length === 0) {
+      career.runsWithout++;
+      if (run.won) career.winsWithout++;
+      return;
+    }
+
+    career.runsTaken++;
+    if (run.won) career.winsTaken++;
+    if (entries.some(([entry]) => entry.starting)) career.startingRuns++;
+
+    const taken: OrbCareerRun = {
+      run,
+      damageDealt: 0,
+      timesFired: 0,
+      damagePerFire: null,
+      levels: [],
+    };
+    entries.forEach(([entry, level]) => {
+      taken.damageDealt += entry.damageDealt;
+      taken.timesFired += entry.timesFired;
+      if (!taken.levels.includes(level)) taken.levels.push(level);
+
+      const levelStats = levels.get(level);
+      if (levelStats) {
+        levelStats.damageDealt += entry.damageDealt;
+        levelStats.timesFired += entry.timesFired;
+      }
+      if (entry.highestCruciballBeat > (career.highestCruciballBeat ?? -1)) {
+        career.highestCruciballBeat = entry.highestCruciballBeat;
+      }
+    });
+    taken.levels.forEach((level) => {
+      const levelStats = levels.get(level);
+      if (levelStats) levelStats.runs++;
+    });
+    taken.levels.sort((a, b) => a - b);
+    taken.damagePerFire = getDamagePerFire(taken.damageDealt, taken.timesFired);
+
+    career.damageDealt += taken.damageDealt;
+    career.timesFired += taken.timesFired;
+    takenRuns.push(taken);
+  });
+
+  career.levels = [...levels.values()]
+    .map((level) => ({
+      ...level,
+      damagePerFire: getDamagePerFire(level.damageDealt, level.timesFired),
+    }))
+    .sort((a, b) => a.level - b.level);
+  career.topRuns = takenRuns
+    .sort((a, b) => b.damageDealt - a.damageDealt)
+    .slice(0, TOP_RUN_COUNT);
+
+  return career;
+};
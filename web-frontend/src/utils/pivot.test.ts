@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildPivotTable,
+  DEFAULT_PIVOT_CONFIG,
+  parsePivotParams,
+  writePivotParams,
+} from "./pivot";
+import { loadDemoRuns } from "../test/demoData";
+
+describe("parsePivotParams", () => {
+  it("round-trips a configuration written by writePivotParams", () => {
+    const config = {
+      rows: "cruciball" as const,
+      columns: "class" as const,
+      metrics: ["count" as const, "maxDamage" as const],
+      view: "chart" as const,
+    };
+
+    expect(parsePivotParams(writePivotParams(new URLSearchParams(), config))).toEqual(
+      config
+    );
+  });
+
+  it("ignores inherited object keys", () => {
+    const config = parsePivotParams(
+      new URLSearchParams("rows=toString&cols=__proto__&metrics=constructor")
+    );
+
+    expect(config).toEqual(DEFAULT_PIVOT_CONFIG);
+    expect(() => buildPivotTable(loadDemoRuns(), config)).not.toThrow();
+  });
+});
+
+describe("buildPivotTable", () => {
+  it("adds up row totals to the overall total", () => {
+    const runs = loadDemoRuns();
+    const table = buildPivotTable(runs, { rows: "class", columns: "custom" });
+
+    expect(table.total.count).toBe(runs.length);
+    expect(
+      table.rowKeys.reduce((sum, key) => sum + table.rowTotals[key].count, 0)
+    ).toBe(runs.length);
+    expect(table.columnKeys.sort()).toEqual(["Custom", "Standard"]);
+  });
+});
@@ -0,0 +1,209 @@
+import { RunRecord } from "../types";
+import {
+  AnalyticsDimension,
+  ANALYTICS_DIMENSIONS,
+  RunSummary,
+  getRunGroups,
+  groupRuns,
+  getRunSummary,
+} from "./analytics";
+
+// Pivot tables over runs: one dimension on rows, optionally one on columns, and
+// any number of metrics per cell. The configuration round-trips through the URL.
+
+export type PivotMetricKey =
+  | "count"
+  | "wins"
+  | "winRate"
+  | "meanDamage"
+  | "medianDamage"
+  | "maxDamage"
+  | "medianDuration"
+  | "meanCruciball";
+
+export type PivotView = "table" | "chart";
+
+export interface PivotMetric {
+  label: string;
+  getValue: (summary: RunSummary) => number;
+  format: (value: number) => string;
+}
+
+export interface PivotConfig {
+  rows: AnalyticsDimension;
+  columns: AnalyticsDimension | null;
+  metrics: PivotMetricKey[];
+  view: PivotView;
+}
+
+export interface PivotTable {
+  rowKeys: string[];
+  columnKeys: string[];
+  // cells[row][column]; missing when no run has both keys
+  cells: Record<string, Record<string, RunSummary>>;
+  rowTotals: Record<string, RunSummary>;
+  columnTotals: Record<string, RunSummary>;
+  total: RunSummary;
+}
+
+const formatCount = (value: number) => Math.round(value).toLocaleString();
+
+export const PIVOT_METRICS: Record<PivotMetricKey, PivotMetric> = {
+  count: { label: "Runs", getValue: (s) => s.count, format: formatCount },
+  wins: { label: "Wins", getValue: (s) => s.wins, format: formatCount },
+  winRate: {
+    label: "Win Rate",
+    getValue: (s) => s.winRate,
+    format: (value) => `${(value * 100).toFixed(1)}%`,
+  },
+  meanDamage: {
+    label: "Avg Damage",
+    getValue: (s) => s.meanDamage,
+    format: formatCount,
+  },
+  medianDamage: {
+    label: "Median Damage",
+    getValue: (s) => s.medianDamage,
+    format: formatCount,
+  },
+  maxDamage: {
+    label: "Best Damage",
+    getValue: (s) => s.maxDamage,
+    format: formatCount,
+  },
+  medianDuration: {
+    label: "Median Duration",
+    getValue: (s) => s.durationPercentiles.p50 / 60,
+    format: (value) => `${value.toFixed(1)} min`,
+  },
+  meanCruciball: {
+    label: "Avg Cruciball",
+    getValue: (s) => s.meanCruciball,
+    format: (value) => value.toFixed(1),
+  },
+};
+
+// Dimensions offered in the explorer, in display order
+export const PIVOT_DIMENSIONS: AnalyticsDimension[] = [
+  "class",
+  "cruciball",
+  "custom",
+  "boss",
+  "defeatedBy",
+  "month",
+  "relic",
+  "orb",
+  "seed",
+];
+
+// Keeps wide dimensions such as relics or seeds readable
+export const MAX_PIVOT_ROWS = 50;
+export const MAX_PIVOT_COLUMNS = 12;
+
+export const DEFAULT_PIVOT_CONFIG: PivotConfig = {
+  rows: "class",
+  columns: null,
+  metrics: ["count", "winRate", "meanDamage"],
+  view: "table",
+};
+
+const PARAM_KEYS = {
+  rows: "rows",
+  columns: "cols",
+  metrics: "metrics",
+  view: "view",
+};
+
+export const PIVOT_PARAM_KEYS = Object.values(PARAM_KEYS);
+
+// Own keys only, so URL values like "toString" or "constructor" are rejected
+const hasOwnKey = (object: object, key: string) =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+export const isDimension = (value: string | null): value is AnalyticsDimension =>
+  !!value && hasOwnKey(ANALYTICS_DIMENSIONS, value);
+
+const isMetric = (value: string): value is PivotMetricKey =>
+  hasOwnKey(PIVOT_METRICS, value);
+
+export const parsePivotParams = (params: URLSearchParams): PivotConfig => {
+  const rows = params.get(PARAM_KEYS.rows);
+  const columns = params.get(PARAM_KEYS.columns);
+  const metrics = (params.get(PARAM_KEYS.metrics) ?? "")
+    .split(",")
+    .filter(isMetric);
+  return {
+    rows: isDimension(rows) ? rows : DEFAULT_PIVOT_CONFIG.rows,
+    columns: isDimension(columns) ? columns : null,
+    metrics: metrics.length > 0 ? metrics : DEFAULT_PIVOT_CONFIG.metrics,
+    view: params.get(PARAM_KEYS.view) === "chart" ? "chart" : "table",
+  };
+};
+
+// Write the configuration into a copy of params, leaving the run filters alone
+export const writePivotParams = (
+  params: URLSearchParams,
+  config: PivotConfig
+): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  next.set(PARAM_KEYS.rows, config.rows);
+  if (config.columns) {
+    next.set(PARAM_KEYS.columns, config.columns);
+  } else {
+    next.delete(PARAM_KEYS.columns);
+  }
+  next.set(PARAM_KEYS.metrics, config.metrics.join(","));
+  if (config.view === "chart") {
+    next.set(PARAM_KEYS.view, config.view);
+  } else {
+    next.delete(PARAM_KEYS.view);
+  }
+  return next;
+};
+
+export const describePivotConfig = (config: PivotConfig) =>
+  [
+    ANALYTICS_DIMENSIONS[config.rows].label,
+    config.columns ? ANALYTICS_DIMENSIONS[config.columns].label : null,
+  ]
+    .filter(Boolean)
+    .join(" × ");
+
+export const buildPivotTable = (
+  runs: RunRecord[],
+  config: Pick<PivotConfig, "rows" | "columns">
+): PivotTable => {
+  const rowGroups = getRunGroups(runs, config.rows).slice(0, MAX_PIVOT_ROWS);
+  const columnGroups = config.columns
+    ? getRunGroups(runs, config.columns).slice(0, MAX_PIVOT_COLUMNS)
+    : [];
+  const columnKeys = columnGroups.map((group) => group.key);
+  const shownColumns = new Set(columnKeys);
+
+  const cells: PivotTable["cells"] = {};
+  const rowTotals: PivotTable["rowTotals"] = {};
+  rowGroups.forEach((rowGroup) => {
+    rowTotals[rowGroup.key] = rowGroup;
+    cells[rowGroup.key] = {};
+    if (!config.columns) return;
+    groupRuns(rowGroup.runs, config.columns)
+      .filter((cell) => shownColumns.has(cell.key))
+      .forEach((cell) => {
+        cells[rowGroup.key][cell.key] = cell;
+      });
+  });
+
+  const columnTotals: PivotTable["columnTotals"] = {};
+  columnGroups.forEach((group) => {
+    columnTotals[group.key] = group;
+  });
+
+  return {
+    rowKeys: rowGroups.map((group) => group.key),
+    columnKeys,
+    cells,
+    rowTotals,
+    columnTotals,
+    total: getRunSummary(runs),
+  };
+};
@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  createSeenRecords,
+  getNewRecordIds,
+  getPersonalRecords,
+  getRecordHolders,
+  getWinStreaks,
+  loadSeenRecords,
+  saveSeenRecords,
+} from "./records";
+import { RunRecord } from "../types";
+import { loadDemoRuns } from "../test/demoData";
+import { makeRun } from "../test/runs";
+
+const at = (day: number) => new Date(2024, 0, day, 12).toISOString();
+
+const holdersOf = (runs: RunRecord[]) =>
+  getRecordHolders(getPersonalRecords(runs), getWinStreaks(runs));
+
+describe("getPersonalRecords", () => {
+  const recordOf = (runs: RunRecord[], key: string) =>
+    getPersonalRecords(runs).find((record) => record.key === key);
+
+  it("keeps the earlier run on a tie", () => {
+    const runs = [
+      makeRun("later", { timestamp: at(2), damageDealt: 100 }),
+      makeRun("earlier", { timestamp: at(1), damageDealt: 100 }),
+    ];
+
+    expect(recordOf(runs, "damage")).toMatchObject({ value: 100, run: { id: "earlier" } });
+  });
+
+  it("picks the lowest value for records where lower is better, among eligible runs", () => {
+    const runs = [
+      makeRun("lost", { timestamp: at(1), duration: "00:05:00" }),
+      makeRun("no-time", { timestamp: at(2), won: true, duration: "00:00:00" }),
+      makeRun("slow", { timestamp: at(3), won: true, duration: "00:30:00" }),
+      makeRun("fast", { timestamp: at(4), won: true, duration: "00:20:00" }),
+    ];
+
+    expect(recordOf(runs, "fastestWin")).toMatchObject({ value: 1200, run: { id: "fast" } });
+  });
+
+  it("leaves out records no run is eligible for", () => {
+    const keys = getPersonalRecords([makeRun("lost")]).map((record) => record.key);
+
+    expect(keys).not.toContain("fastestWin");
+    expect(keys).not.toContain("lowestHpWin");
+  });
+});
+
+describe("getWinStreaks", () => {
+  // W W L W W W by date, given out of order
+  const results = [true, true, false, true, true, true];
+  const runs = results
+    .map((won, index) =>
+      makeRun(`run-${index}`, {
+        timestamp: at(index + 1),
+        won,
+        characterClass: index % 2 === 0 ? "Balladin" : "Roundrel",
+      })
+    )
+    .reverse();
+
+  it("finds the longest and current overall streaks in date order", () => {
+    const streaks = getWinStreaks(runs);
+
+    expect(streaks.overall).toMatchObject({ group: "Overall", length: 3 });
+    expect(streaks.overall.runs.map((run) => run.id)).toEqual(["run-3", "run-4", "run-5"]);
+    expect(streaks.current).toBe(3);
+  });
+
+  it("resets the current streak on the latest loss", () => {
+    const lostLast = [...runs, makeRun("loss", { timestamp: at(9) })];
+
+    expect(getWinStreaks(lostLast).current).toBe(0);
+    expect(getWinStreaks([]).current).toBe(0);
+  });
+
+  it("only breaks class streaks on losses with that class", () => {
+    // Balladin: W L W (runs 0, 2, 4), Roundrel: W W W (runs 1, 3, 5) across the Balladin loss
+    expect(
+      getWinStreaks(runs).byClass.map((streak) => [streak.group, streak.length])
+    ).toEqual([
+      ["Roundrel", 3],
+      ["Balladin", 1],
+    ]);
+  });
+
+  it("breaks ties between groups by name", () => {
+    const tied = [
+      makeRun("a", { timestamp: at(1), won: true, cruciballLevel: 5 }),
+      makeRun("b", { timestamp: at(2), won: true, cruciballLevel: 2 }),
+    ];
+
+    expect(getWinStreaks(tied).byCruciball.map((streak) => streak.group)).toEqual([
+      "2",
+      "5",
+    ]);
+  });
+
+  it("never exceeds the wins in the demo runs", () => {
+    const demoRuns = loadDemoRuns();
+    const streaks = getWinStreaks(demoRuns);
+    const wins = demoRuns.filter((run) => run.won).length;
+
+    expect(streaks.overall.length).toBeGreaterThan(0);
+    expect(streaks.overall.length).toBeLessThanOrEqual(wins);
+    expect(streaks.current).toBeLessThanOrEqual(streaks.overall.length);
+    expect(streaks.overall.runs.every((run) => run.won)).toBe(true);
+  });
+});
+
+describe("getNewRecordIds", () => {
+  const runs = [
+    makeRun("a", { timestamp: at(1), damageDealt: 100, won: true }),
+    makeRun("b", { timestamp: at(2), damageDealt: 50 }),
+  ];
+  const seen = createSeenRecords(holdersOf(runs), runs);
+
+  it("flags records taken by runs newer than the acknowledged ones", () => {
+    const newer = [...runs, makeRun("c", { timestamp: at(3), damageDealt: 200 })];
+
+    expect(getNewRecordIds(holdersOf(newer), seen)).toEqual(["damage"]);
+  });
+
+  it("ignores older runs that take a record, e.g. after a config change", () => {
+    const older = [makeRun("custom", { timestamp: at(0), damageDealt: 500 }), ...runs];
+
+    expect(getNewRecordIds(holdersOf(older), seen)).toEqual([]);
+  });
+
+  it("counts runs excluded at the time as seen", () => {
+    const excluded = makeRun("custom", { timestamp: at(5), damageDealt: 500 });
+    const seenWithExcluded = createSeenRecords(holdersOf(runs), [...runs, excluded]);
+
+    expect(seenWithExcluded.latestRun).toBe(at(5));
+    expect(getNewRecordIds(holdersOf([...runs, excluded]), seenWithExcluded)).toEqual([]);
+  });
+
+  it("flags nothing before the first acknowledgement", () => {
+    expect(getNewRecordIds(holdersOf(runs), null)).toEqual([]);
+  });
+});
+
+describe("loadSeenRecords", () => {
+  afterEach(() => localStorage.clear());
+
+  it("round-trips saved records", () => {
+    const seen = { holders: { damage: "a" }, latestRun: at(1) };
+    saveSeenRecords(seen);
+
+    expect(loadSeenRecords()).toEqual(seen);
+  });
+
+  it("takes a new baseline over the format that only kept the holders", () => {
+    localStorage.setItem(
+      "peglin-save-explorer:seen-records",
+      JSON.stringify({ damage: "a" })
+    );
+
+    expect(loadSeenRecords()).toBeNull();
+  });
+});
@@ -0,0 +1,241 @@
+import { RunRecord } from "../types";
+import { parseTimeSpanSeconds } from "./saveFileParser";
+
+// Personal records and win streaks. Ties keep the earlier run, so a record only
+// changes hands when a run actually beats it.
+
+const SEEN_RECORDS_KEY = "peglin-save-explorer:seen-records";
+
+export type PersonalRecordKey =
+  | "singleAttack"
+  | "damage"
+  | "fastestWin"
+  | "pegsHit"
+  | "coins"
+  | "lowestHpWin";
+
+interface PersonalRecordDefinition {
+  label: string;
+  description: string;
+  getValue: (run: RunRecord) => number;
+  isEligible?: (run: RunRecord) => boolean;
+  lowerIsBetter?: boolean;
+  format: (value: number) => string;
+}
+
+export interface PersonalRecord {
+  key: PersonalRecordKey;
+  run: RunRecord;
+  value: number;
+}
+
+export interface WinStreak {
+  group: string;
+  length: number;
+  runs: RunRecord[]; // oldest first
+}
+
+export interface WinStreaks {
+  overall: WinStreak | null;
+  current: number; // wins since the latest loss
+  byClass: WinStreak[];
+  byCruciball: WinStreak[];
+}
+
+const formatCount = (value: number) => Math.round(value).toLocaleString();
+
+const formatSeconds = (value: number) => {
+  const minutes = Math.floor(value / 60);
+  const seconds = Math.round(value % 60);
+  return `${minutes}m ${String(seconds).padStart(2, "0")}s`;
+};
+
+export const PERSONAL_RECORDS: Record<PersonalRecordKey, PersonalRecordDefinition> = {
+  singleAttack: {
+    label: "Biggest Single Attack",
+    description: "Most damage dealt with one shot",
+    getValue: (run) => run.mostDamageDealtWithSingleAttack,
+    format: formatCount,
+  },
+  damage: {
+    label: "Most Damage in a Run",
+    description: "Highest total damage dealt",
+    getValue: (run) => run.damageDealt,
+    format: formatCount,
+  },
+  fastestWin: {
+    label: "Fastest Win",
+    description: "Shortest winning run",
+    getValue: (run) => parseTimeSpanSeconds(run.duration),
+    isEligible: (run) => run.won && parseTimeSpanSeconds(run.duration) > 0,
+    lowerIsBetter: true,
+    format: formatSeconds,
+  },
+  pegsHit: {
+    label: "Most Pegs Hit",
+    description: "Most pegs hit in a run",
+    getValue: (run) => run.pegsHit,
+    format: formatCount,
+  },
+  coins: {
+    label: "Most Coins Earned",
+    description: "Most coins earned in a run",
+    getValue: (run) => run.coinsEarned,
+    format: formatCount,
+  },
+  lowestHpWin: {
+    label: "Closest Victory",
+    description: "Win with the least HP left",
+    getValue: (run) => run.finalHp,
+    isEligible: (run) => run.won,
+    lowerIsBetter: true,
+    format: (value) => `${formatCount(value)} HP`,
+  },
+};
+
+const byTimestamp = (a: RunRecord, b: RunRecord) =>
+  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+export const getPersonalRecords = (runs: RunRecord[]): PersonalRecord[] => {
+  const chronological = [...runs].sort(byTimestamp);
+  return (Object.keys(PERSONAL_RECORDS) as PersonalRecordKey[]).flatMap((key) => {
+    const definition = PERSONAL_RECORDS[key];
+    let best: PersonalRecord | null = null;
+    for (const run of chronological) {
+      if (definition.isEligible && !definition.isEligible(run)) continue;
+      const value = definition.getValue(run);
+      if (!Number.isFinite(value)) continue;
+      const improves =
+        !best ||
+        (definition.lowerIsBetter ? value < best.value : value > best.value);
+      if (improves) best = { key, run, value };
+    }
+    return best ? [best] : [];
+  });
+};
+
+// Longest run of consecutive wins among runs in chronological order
+const findLongestStreak = (group: string, runs: RunRecord[]): WinStreak | null => {
+  let longest: RunRecord[] = [];
+  let current: RunRecord[] = [];
+  runs.forEach((run) => {
+    if (!run.won) {
+      current = [];
+      return;
+    }
+    current.push(run);
+    if (current.length > longest.length) longest = [...current];
+  });
+  return longest.length > 0 ? { group, length: longest.length, runs: longest } : null;
+};
+
+const getStreaksBy = (
+  runs: RunRecord[],
+  getGroup: (run: RunRecord) => string
+): WinStreak[] => {
+  const groups: Record<string, RunRecord[]> = {};
+  runs.forEach((run) => {
+    (groups[getGroup(run)] ??= []).push(run);
+  });
+  return Object.entries(groups)
+    .map(([group, members]) => findLongestStreak(group, members))
+    .filter((streak): streak is WinStreak => streak !== null)
+    .sort((a, b) => b.length - a.length || a.group.localeCompare(b.group));
+};
+
+export const getWinStreaks = (runs: RunRecord[]): WinStreaks => {
+  const chronological = [...runs].sort(byTimestamp);
+  const latestLoss = chronological.map((run) => run.won).lastIndexOf(false);
+  return {
+    overall: findLongestStreak("Overall", chronological),
+    current: chronological.length - latestLoss - 1,
+    byClass: getStreaksBy(chronological, (run) => run.characterClass),
+    byCruciball: getStreaksBy(chronological, (run) => String(run.cruciballLevel)),
+  };
+};
+
+// Record id to the run holding it; a streak is held by its last run
+export const getRecordHolders = (
+  records: PersonalRecord[],
+  streaks: WinStreaks
+): Record<string, RunRecord> => {
+  const holders: Record<string, RunRecord> = {};
+  const addStreak = (id: string, streak: WinStreak | null) => {
+    if (streak) holders[id] = streak.runs[streak.runs.length - 1];
+  };
+
+  records.forEach((record) => {
+    holders[record.key] = record.run;
+  });
+  addStreak("streak", streaks.overall);
+  streaks.byClass.forEach((streak) => addStreak(`streak:class:${streak.group}`, streak));
+  streaks.byCruciball.forEach((streak) =>
+    addStreak(`streak:cruciball:${streak.group}`, streak)
+  );
+  return holders;
+};
+
+// What the records looked like when they were last acknowledged
+export interface SeenRecords {
+  // Record id to the id of the run holding it
+  holders: Record<string, string>;
+  // Timestamp of the newest run at the time, excluded runs included
+  latestRun: string;
+}
+
+export const createSeenRecords = (
+  holders: Record<string, RunRecord>,
+  allRuns: RunRecord[]
+): SeenRecords => ({
+  holders: Object.fromEntries(
+    Object.entries(holders).map(([id, run]) => [id, run.id])
+  ),
+  latestRun: allRuns.reduce(
+    (latest, run) =>
+      new Date(run.timestamp).getTime() > new Date(latest).getTime()
+        ? run.timestamp
+        : latest,
+    new Date(0).toISOString()
+  ),
+});
+
+// Records taken by a run newer than any seen when they were acknowledged. Older
+// runs changing hands, e.g. after a config change or loading another save, don't count.
+export const getNewRecordIds = (
+  holders: Record<string, RunRecord>,
+  seen: SeenRecords | null
+): string[] => {
+  if (!seen) return [];
+  const latestSeen = new Date(seen.latestRun).getTime();
+  return Object.keys(holders).filter(
+    (id) =>
+      seen.holders[id] !== holders[id].id &&
+      new Date(holders[id].timestamp).getTime() > latestSeen
+  );
+};
+
+// null before the first acknowledgement, or for the older format that only kept
+// the holders, so the baseline is taken again
+export const loadSeenRecords = (): SeenRecords | null => {
+  try {
+    const stored = localStorage.getItem(SEEN_RECORDS_KEY);
+    const seen = stored ? JSON.parse(stored) : null;
+    return seen &&
+      typeof seen.holders === "object" &&
+      seen.holders !== null &&
+      typeof seen.latestRun === "string"
+      ? seen
+      : null;
+  } catch (error) {
+    console.warn("Ignoring invalid stored records:", error);
+    return null;
+  }
+};
+
+export const saveSeenRecords = (seen: SeenRecords) => {
+  try {
+    localStorage.setItem(SEEN_RECORDS_KEY, JSON.stringify(seen));
+  } catch (error) {
+    console.warn("Failed to save seen records:", error);
+  }
+};
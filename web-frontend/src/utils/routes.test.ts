@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_FLOW_STEPS,
+  getActCount,
+  getActRoutes,
+  getElitePayoff,
+  getRoomCategory,
+  getRoomMix,
+  getRouteFlow,
+} from "./routes";
+import { loadDemoRuns } from "../test/demoData";
+import { makeRooms, makeRun } from "../test/runs";
+
+const BATTLE = 1;
+const ELITE = 2;
+const SHOP = 4;
+const BOSS = 7;
+
+const runs = [
+  makeRun("won-2-elites", {
+    won: true,
+    characterClass: "Balladin",
+    visitedRoomsInfo: makeRooms([BATTLE, ELITE, ELITE, BOSS, BATTLE, SHOP]),
+  }),
+  makeRun("won-1-elite", {
+    won: true,
+    characterClass: "Roundrel",
+    visitedRoomsInfo: makeRooms([BATTLE, ELITE, SHOP, BOSS]),
+  }),
+  makeRun("lost-no-elite", {
+    characterClass: "Balladin",
+    visitedRoomsInfo: makeRooms([BATTLE, SHOP, BOSS]),
+  }),
+  // Died before the boss, so its act 1 route doesn't count towards the mix
+  makeRun("died-early", {
+    characterClass: "Balladin",
+    visitedRoomsInfo: makeRooms([BATTLE]),
+  }),
+];
+
+describe("getRoomCategory", () => {
+  it("maps room ids to categories", () => {
+    expect(makeRooms([1, 2, 3, 4, 5, 6, 7, 8]).map(getRoomCategory)).toEqual([
+      "battle",
+      "elite",
+      "treasure",
+      "shop",
+      "scenario",
+      "unknown",
+      "boss",
+      "minigame",
+    ]);
+  });
+});
+
+describe("getActRoutes", () => {
+  it("splits rooms into acts at each boss", () => {
+    expect(getActCount(runs)).toBe(2);
+    expect(getActRoutes(runs, 1)).toEqual([
+      { run: runs[0], rooms: ["battle", "shop"], completed: false },
+    ]);
+    expect(getActRoutes(runs, 0).map((route) => route.completed)).toEqual([
+      true,
+      true,
+      true,
+      false,
+    ]);
+  });
+});
+
+describe("getRouteFlow", () => {
+  it("counts runs and wins through each room and transition", () => {
+    const flow = getRouteFlow(getActRoutes(runs, 0));
+
+    expect(flow).toMatchObject({ routes: 4, steps: 4 });
+    expect(flow.nodes).toContainEqual({ step: 0, category: "battle", runs: 4, wins: 2 });
+    expect(flow.nodes).toContainEqual({ step: 1, category: "elite", runs: 2, wins: 2 });
+    expect(flow.links).toContainEqual({
+      step: 0,
+      source: "battle",
+      target: "elite",
+      runs: 2,
+      wins: 2,
+    });
+    expect(flow.links).toContainEqual({
+      step: 1,
+      source: "shop",
+      target: "boss",
+      runs: 1,
+      wins: 0,
+    });
+  });
+
+  it("cuts long routes off", () => {
+    const long = makeRun("long", {
+      visitedRoomsInfo: makeRooms(Array(MAX_FLOW_STEPS + 4).fill(BATTLE)),
+    });
+
+    expect(getRouteFlow(getActRoutes([long], 0)).steps).toBe(MAX_FLOW_STEPS);
+  });
+
+  it("starts every demo route in the first step", () => {
+    const routes = getActRoutes(loadDemoRuns(), 0);
+    const flow = getRouteFlow(routes);
+
+    expect(routes.length).toBeGreaterThan(0);
+    expect(
+      flow.nodes
+        .filter((node) => node.step === 0)
+        .reduce((sum, node) => sum + node.runs, 0)
+    ).toBe(routes.length);
+  });
+});
+
+describe("getRoomMix", () => {
+  it("compares room counts in won and lost routes that finished the act", () => {
+    const mix = getRoomMix(getActRoutes(runs, 0));
+    const elite = mix.find((stat) => stat.category === "elite");
+    const battle = mix.find((stat) => stat.category === "battle");
+
+    expect(elite).toMatchObject({ meanInWins: 1.5, meanInLosses: 0 });
+    // Elites 2, 1, 0 against outcomes 1, 1, 0
+    expect(elite.correlation).toBeCloseTo(Math.sqrt(3) / 2);
+    // Every finished route had one battle
+    expect(battle).toMatchObject({ meanInWins: 1, meanInLosses: 1, correlation: null });
+  });
+});
+
+describe("getElitePayoff", () => {
+  it("buckets finished routes by elites fought, overall and per class", () => {
+    const payoff = getElitePayoff(getActRoutes(runs, 0));
+
+    expect(payoff.map((group) => [group.group, group.routes])).toEqual([
+      ["All Classes", 3],
+      ["Balladin", 2],
+      ["Roundrel", 1],
+    ]);
+    expect(payoff[0].buckets).toEqual([
+      { label: "0", runs: 1, wins: 0 },
+      { label: "1", runs: 1, wins: 1 },
+      { label: "2", runs: 1, wins: 1 },
+      { label: "3+", runs: 0, wins: 0 },
+    ]);
+    expect(payoff[2].correlation).toBeNull();
+  });
+});
@@ -0,0 +1,243 @@
+import { RoomInfo, RunRecord } from "../types";
+import { groupRoomsByAct } from "./saveFileParser";
+import { pearsonCorrelation, welchTest } from "./significance";
+
+// Pathing analysis from visitedRoomsInfo: how runs move between room types within
+// an act, and whether the rooms they pick go with winning. Room mixes only count
+// runs that finished the act, so a run that died early doesn't look elite-shy.
+
+export type RoomCategory =
+  | "battle"
+  | "elite"
+  | "treasure"
+  | "shop"
+  | "scenario"
+  | "minigame"
+  | "unknown"
+  | "boss";
+
+export interface RoomCategoryDefinition {
+  label: string;
+  // Palette key, as in RoomInfo.color
+  color: "error" | "warning" | "success" | "info" | "secondary" | "primary" | "default";
+}
+
+// Display order, also the stacking order in the flow diagram
+export const ROOM_CATEGORIES: Record<RoomCategory, RoomCategoryDefinition> = {
+  battle: { label: "Battle", color: "error" },
+  elite: { label: "Elite", color: "warning" },
+  treasure: { label: "Treasure", color: "success" },
+  shop: { label: "Shop", color: "info" },
+  scenario: { label: "Scenario", color: "secondary" },
+  minigame: { label: "Peg Minigame", color: "primary" },
+  unknown: { label: "Unknown", color: "default" },
+  boss: { label: "Boss", color: "error" },
+};
+
+// Room types whose share of a route is reported
+export const MIX_CATEGORIES: RoomCategory[] = [
+  "elite",
+  "shop",
+  "treasure",
+  "scenario",
+  "minigame",
+  "battle",
+];
+
+// Routes longer than this are cut off in the flow diagram
+export const MAX_FLOW_STEPS = 16;
+// Elite counts from this value up share a bucket
+const MAX_ELITE_BUCKET = 3;
+
+const ROOM_ID_CATEGORIES: Record<number, RoomCategory> = {
+  1: "battle",
+  2: "elite",
+  3: "treasure",
+  4: "shop",
+  5: "scenario",
+  7: "boss",
+  8: "minigame",
+};
+
+export const getRoomCategory = (room: RoomInfo): RoomCategory =>
+  ROOM_ID_CATEGORIES[room.id] ?? "unknown";
+
+export interface ActRoute {
+  run: RunRecord;
+  rooms: RoomCategory[];
+  // Reached the act's boss
+  completed: boolean;
+}
+
+export interface RouteFlowNode {
+  step: number;
+  category: RoomCategory;
+  runs: number;
+  wins: number;
+}
+
+export interface RouteFlowLink {
+  step: number; // step of the source node
+  source: RoomCategory;
+  target: RoomCategory;
+  runs: number;
+  wins: number;
+}
+
+export interface RouteFlow {
+  routes: number;
+  steps: number;
+  nodes: RouteFlowNode[];
+  links: RouteFlowLink[];
+}
+
+export interface RoomMixStat {
+  category: RoomCategory;
+  meanInWins: number;
+  meanInLosses: number;
+  // Correlation between the room count and winning the run
+  correlation: number | null;
+  pValue: number | null;
+}
+
+export interface ElitePayoffBucket {
+  label: string;
+  runs: number;
+  wins: number;
+}
+
+export interface ElitePayoff {
+  group: string;
+  routes: number;
+  buckets: ElitePayoffBucket[];
+  correlation: number | null;
+}
+
+// Number of acts reached by any of the runs
+export const getActCount = (runs: RunRecord[]) =>
+  runs.reduce(
+    (max, run) => Math.max(max, groupRoomsByAct(run.visitedRoomsInfo || []).length),
+    0
+  );
+
+// Routes through one act (0-based) of the runs that reached it
+export const getActRoutes = (runs: RunRecord[], act: number): ActRoute[] =>
+  runs.flatMap((run) => {
+    const rooms = groupRoomsByAct(run.visitedRoomsInfo || [])[act];
+    if (!rooms || rooms.length === 0) return [];
+    return [
+      {
+        run,
+        rooms: rooms.map(getRoomCategory),
+        completed: rooms[rooms.length - 1].id === 7,
+      },
+    ];
+  });
+
+export const getRouteFlow = (routes: ActRoute[]): RouteFlow => {
+  const nodes = new Map<string, RouteFlowNode>();
+  const links = new Map<string, RouteFlowLink>();
+  let steps = 0;
+
+  routes.forEach(({ run, rooms }) => {
+    const shown = rooms.slice(0, MAX_FLOW_STEPS);
+    steps = Math.max(steps, shown.length);
+    shown.forEach((category, step) => {
+      const nodeKey = `${step}:${category}`;
+      const node = nodes.get(nodeKey) ?? { step, category, runs: 0, wins: 0 };
+      node.runs++;
+      if (run.won) node.wins++;
+      nodes.set(nodeKey, node);
+
+      if (step === 0) return;
+      const source = shown[step - 1];
+      const linkKey = `${step - 1}:${source}:${category}`;
+      const link = links.get(linkKey) ?? {
+        step: step - 1,
+        source,
+        target: category,
+        runs: 0,
+        wins: 0,
+      };
+      link.runs++;
+      if (run.won) link.wins++;
+      links.set(linkKey, link);
+    });
+  });
+
+  return {
+    routes: routes.length,
+    steps,
+    nodes: [...nodes.values()],
+    links: [...links.values()],
+  };
+};
+
+const countRooms = (route: ActRoute, category: RoomCategory) =>
+  route.rooms.filter((room) => room === category).length;
+
+const mean = (values: number[]) =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+
+export const getRoomMix = (routes: ActRoute[]): RoomMixStat[] => {
+  const completed = routes.filter((route) => route.completed);
+  const outcomes = completed.map((route) => (route.run.won ? 1 : 0));
+
+  return MIX_CATEGORIES.map((category) => {
+    const counts = completed.map((route) => countRooms(route, category));
+    const inWins = counts.filter((_, index) => outcomes[index] === 1);
+    const inLosses = counts.filter((_, index) => outcomes[index] === 0);
+    return {
+      category,
+      meanInWins: mean(inWins),
+      meanInLosses: mean(inLosses),
+      correlation: pearsonCorrelation(counts, outcomes),
+      pValue: welchTest(inWins, inLosses)?.pValue ?? null,
+    };
+  });
+};
+
+const getEliteBucketLabel = (elites: number) =>
+  elites >= MAX_ELITE_BUCKET ? `${MAX_ELITE_BUCKET}+` : String(elites);
+
+const buildElitePayoff = (group: string, routes: ActRoute[]): ElitePayoff => {
+  const buckets: ElitePayoffBucket[] = Array.from(
+    { length: MAX_ELITE_BUCKET + 1 },
+    (_, elites) => ({ label: getEliteBucketLabel(elites), runs: 0, wins: 0 })
+  );
+  const elites = routes.map((route) => countRooms(route, "elite"));
+  routes.forEach((route, index) => {
+    const bucket = buckets[Math.min(elites[index], MAX_ELITE_BUCKET)];
+    bucket.runs++;
+    if (route.run.won) bucket.wins++;
+  });
+  return {
+    group,
+    routes: routes.length,
+    buckets,
+    correlation: pearsonCorrelation(
+      elites,
+      routes.map((route) => (route.run.won ? 1 : 0))
+    ),
+  };
+};
+
+// Win rate by number of elites fought in the act, overall and per class
+export const getElitePayoff = (routes: ActRoute[]): ElitePayoff[] => {
+  const completed = routes.filter((route) => route.completed);
+  const byClass: Record<string, ActRoute[]> = {};
+  completed.forEach((route) => {
+    (byClass[route.run.characterClass] ??= []).push(route);
+  });
+
+  return [
+    buildElitePayoff("All Classes", completed),
+    ...Object.entries(byClass)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([characterClass, classRoutes]) =>
+        buildElitePayoff(characterClass, classRoutes)
+      ),
+  ];
+};
@@ -0,0 +1,2 @@
+// How many runs the compare page shows side by side
+export const MAX_COMPARED_RUNS = 4;
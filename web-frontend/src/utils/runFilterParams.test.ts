@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_RUN_FILTERS, applyRunFilters, toRunQuery } from "./runFilterParams";
+import { makeRun } from "../test/runs";
+
+describe("toRunQuery", () => {
+  it("sends dates as the bounds of local days", () => {
+    const query = toRunQuery({
+      ...EMPTY_RUN_FILTERS,
+      startDate: "2024-03-10",
+      endDate: "2024-03-12",
+    });
+
+    expect(query.startDate).toBe(new Date(2024, 2, 10).toISOString());
+    expect(query.endDate).toBe(new Date(2024, 2, 12, 23, 59, 59, 999).toISOString());
+  });
+});
+
+describe("applyRunFilters", () => {
+  it("includes both the first and the last day", () => {
+    const runs = [
+      makeRun("before", { timestamp: new Date(2024, 2, 9, 23, 59).toISOString() }),
+      makeRun("first", { timestamp: new Date(2024, 2, 10, 0, 1).toISOString() }),
+      makeRun("last", { timestamp: new Date(2024, 2, 12, 23, 59).toISOString() }),
+      makeRun("after", { timestamp: new Date(2024, 2, 13, 0, 1).toISOString() }),
+    ];
+    const filters = { ...EMPTY_RUN_FILTERS, startDate: "2024-03-10", endDate: "2024-03-12" };
+
+    expect(applyRunFilters(runs, filters).map((run) => run.id)).toEqual(["first", "last"]);
+    // The preset label describes the same runs
+    expect(
+      applyRunFilters(runs, { ...EMPTY_RUN_FILTERS, search: "date>=2024-03-10 date<=2024-03-12" })
+        .map((run) => run.id)
+    ).toEqual(["first", "last"]);
+  });
+});
@@ -0,0 +1,130 @@
+import { RunQuery, RunRecord } from "../types";
+import { filterRuns } from "./saveFileParser";
+import { filterRunsByQuery } from "./runQuery";
+import { fromLocalDateKey } from "./sessions";
+
+// Run filters shared by RunList, Dashboard and Statistics, stored in the URL
+export interface RunFilterState {
+  search: string;
+  characterClass: string;
+  won: boolean | null;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  minDamage: string;
+  maxDamage: string;
+  minDuration: string; // minutes
+  maxDuration: string; // minutes
+}
+
+export const EMPTY_RUN_FILTERS: RunFilterState = {
+  search: "",
+  characterClass: "",
+  won: null,
+  startDate: "",
+  endDate: "",
+  minDamage: "",
+  maxDamage: "",
+  minDuration: "",
+  maxDuration: "",
+};
+
+const PARAM_KEYS: Record<keyof RunFilterState, string> = {
+  search: "q",
+  characterClass: "class",
+  won: "won",
+  startDate: "from",
+  endDate: "to",
+  minDamage: "minDamage",
+  maxDamage: "maxDamage",
+  minDuration: "minDuration",
+  maxDuration: "maxDuration",
+};
+
+export const RUN_FILTER_PARAM_KEYS = Object.values(PARAM_KEYS);
+
+// prefix namespaces the keys when a view holds more than one set of filters
+export const parseRunFilterParams = (
+  params: URLSearchParams,
+  prefix = ""
+): RunFilterState => {
+  const get = (key: keyof RunFilterState) => params.get(prefix + PARAM_KEYS[key]);
+  const won = get("won");
+  return {
+    search: get("search") ?? "",
+    characterClass: get("characterClass") ?? "",
+    won: won === "true" ? true : won === "false" ? false : null,
+    startDate: get("startDate") ?? "",
+    endDate: get("endDate") ?? "",
+    minDamage: get("minDamage") ?? "",
+    maxDamage: get("maxDamage") ?? "",
+    minDuration: get("minDuration") ?? "",
+    maxDuration: get("maxDuration") ?? "",
+  };
+};
+
+// Write the filters into a copy of params, leaving unrelated params (tabs, sorting) alone
+export const writeRunFilterParams = (
+  params: URLSearchParams,
+  filters: RunFilterState,
+  prefix = ""
+): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  (Object.keys(PARAM_KEYS) as (keyof RunFilterState)[]).forEach((key) => {
+    const value = filters[key];
+    if (value === null || value === "") {
+      next.delete(prefix + PARAM_KEYS[key]);
+    } else {
+      next.set(prefix + PARAM_KEYS[key], String(value));
+    }
+  });
+  return next;
+};
+
+export const hasRunFilters = (filters: RunFilterState) =>
+  (Object.keys(filters) as (keyof RunFilterState)[]).some(
+    (key) => filters[key] !== EMPTY_RUN_FILTERS[key]
+  );
+
+export const toRunQuery = (filters: RunFilterState): RunQuery => {
+  const query: RunQuery = {};
+  if (filters.search.trim()) query.search = filters.search;
+  if (filters.characterClass) query.characterClass = filters.characterClass;
+  if (filters.won !== null) query.won = filters.won;
+  // Dates are local days and both ends are inclusive, like date>= and date<= in the search
+  if (filters.startDate) query.startDate = fromLocalDateKey(filters.startDate).toISOString();
+  if (filters.endDate) {
+    const nextDay = fromLocalDateKey(filters.endDate);
+    nextDay.setDate(nextDay.getDate() + 1);
+    query.endDate = new Date(nextDay.getTime() - 1).toISOString();
+  }
+  if (filters.minDamage) query.minDamage = parseInt(filters.minDamage);
+  if (filters.maxDamage) query.maxDamage = parseInt(filters.maxDamage);
+  if (filters.minDuration) query.minDuration = parseFloat(filters.minDuration);
+  if (filters.maxDuration) query.maxDuration = parseFloat(filters.maxDuration);
+  return query;
+};
+
+// Apply the filters to runs that are already in memory; invalid search queries match nothing
+export const applyRunFilters = (runs: RunRecord[], filters: RunFilterState): RunRecord[] => {
+  const query = toRunQuery(filters);
+  try {
+    return filterRunsByQuery(filterRuns(runs, query), query.search || "");
+  } catch {
+    return [];
+  }
+};
+
+// Short summary in query syntax, e.g. for chips and preset names
+export const describeRunFilters = (filters: RunFilterState): string => {
+  const parts: string[] = [];
+  if (filters.characterClass) parts.push(`class:${filters.characterClass}`);
+  if (filters.won !== null) parts.push(`won:${filters.won}`);
+  if (filters.startDate) parts.push(`date>=${filters.startDate}`);
+  if (filters.endDate) parts.push(`date<=${filters.endDate}`);
+  if (filters.minDamage) parts.push(`damage>=${filters.minDamage}`);
+  if (filters.maxDamage) parts.push(`damage<=${filters.maxDamage}`);
+  if (filters.minDuration) parts.push(`duration>=${filters.minDuration}m`);
+  if (filters.maxDuration) parts.push(`duration<=${filters.maxDuration}m`);
+  if (filters.search.trim()) parts.push(filters.search.trim());
+  return parts.join(" ");
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { describeRunExclusions, filterRunsByConfig, isTestRun } from "./runFilters";
+import { DEFAULT_CONFIG, migrateConfig } from "./configStorage";
+import { makeRun } from "../test/runs";
+
+describe("isTestRun", () => {
+  it("uses the configured threshold", () => {
+    const run = makeRun("a", { duration: "00:04:00" });
+    expect(isTestRun(run, 5)).toBe(true);
+    expect(isTestRun(run, 3)).toBe(false);
+  });
+});
+
+describe("filterRunsByConfig", () => {
+  it("only drops runs under the threshold when test runs are excluded", () => {
+    const runs = [
+      makeRun("short", { duration: "00:01:30" }),
+      makeRun("long", { duration: "00:12:00" }),
+    ];
+    const config = { ...DEFAULT_CONFIG, excludeTestRuns: true, testRunMaxMinutes: 2 };
+
+    expect(filterRunsByConfig(runs, config).map((run) => run.id)).toEqual(["long"]);
+    expect(
+      filterRunsByConfig(runs, { ...config, excludeTestRuns: false })
+    ).toHaveLength(2);
+    expect(describeRunExclusions(config)).toContain("test (under 2 min)");
+  });
+});
+
+describe("migrateConfig", () => {
+  it("keeps the old five minute cutoff for version 1 settings", () => {
+    expect(
+      migrateConfig({ version: 1, config: { excludeTestRuns: true } })
+    ).toMatchObject({ excludeTestRuns: true, testRunMaxMinutes: 5 });
+  });
+
+  it("ignores an invalid threshold", () => {
+    expect(
+      migrateConfig({ version: 2, config: { testRunMaxMinutes: -1 } })
+        .testRunMaxMinutes
+    ).toBe(DEFAULT_CONFIG.testRunMaxMinutes);
+  });
+});
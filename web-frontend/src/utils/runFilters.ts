@@ -0,0 +1,34 @@
+import { RunRecord } from "../types";
+import type { AppConfig } from "../store/useAppStore";
+import { parseTimeSpanSeconds } from "./saveFileParser";
+
+// Room type id of boss rooms in visitedRooms
+const BOSS_ROOM_ID = 7;
+
+// Duration is the only signal a test run leaves, so the cutoff is a user setting
+export const isTestRun = (run: RunRecord, maxMinutes: number): boolean =>
+  parseTimeSpanSeconds(run.duration) < maxMinutes * 60;
+
+// A run is incomplete if it ended before reaching the first boss (level 1-0)
+export const isIncompleteRun = (run: RunRecord): boolean =>
+  !run.won && !(run.visitedRooms || []).includes(BOSS_ROOM_ID);
+
+// Apply every exclusion rule from the app configuration
+export const filterRunsByConfig = (
+  runs: RunRecord[],
+  config: AppConfig
+): RunRecord[] =>
+  runs.filter(
+    (run) =>
+      !(config.excludeCustomRuns && run.isCustomRun) &&
+      !(config.excludeTestRuns && isTestRun(run, config.testRunMaxMinutes)) &&
+      !(config.excludeIncompletRuns && isIncompleteRun(run))
+  );
+
+// Human-readable list of the rules currently excluding runs
+export const describeRunExclusions = (config: AppConfig): string[] =>
+  [
+    config.excludeCustomRuns && "custom",
+    config.excludeTestRuns && `test (under ${config.testRunMaxMinutes} min)`,
+    config.excludeIncompletRuns && "incomplete",
+  ].filter(Boolean) as string[];
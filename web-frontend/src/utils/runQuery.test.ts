@@ -0,0 +1,258 @@
+import { describe, expect, it } from "vitest";
+import {
+  QueryParseError,
+  filterRunsByQuery,
+  getQuerySuggestions,
+  parseRunQuery,
+} from "./runQuery";
+import { makeRun } from "../test/runs";
+
+const runs = [
+  makeRun("a", {
+    characterClass: "Spinventor",
+    won: true,
+    cruciballLevel: 5,
+    damageDealt: 12000,
+    duration: "00:12:00",
+    relicNames: ["Sapper Sack"],
+    orbsUsed: ["StoneOrb-Lvl2", "Bramball-Lvl1"],
+    timestamp: new Date(2024, 2, 10, 12).toISOString(),
+  }),
+  makeRun("b", {
+    characterClass: "Balladin",
+    cruciballLevel: 2,
+    damageDealt: 3000,
+    duration: "00:35:00",
+    relicNames: ["Refresherer"],
+    orbsUsed: ["StoneOrb-Lvl1"],
+    defeatedBy: "Slime",
+    timestamp: new Date(2024, 2, 31, 12).toISOString(),
+  }),
+  makeRun("c", {
+    characterClass: "Peglin",
+    won: true,
+    isCustomRun: true,
+    cruciballLevel: 10,
+    damageDealt: 1500000,
+    duration: "01:05:00",
+    orbsUsed: ["Daggorb-Lvl3"],
+    timestamp: new Date(2024, 3, 2, 12).toISOString(),
+  }),
+];
+
+const matchingIds = (query: string) =>
+  filterRunsByQuery(runs, query).map((run) => run.id);
+
+const parseError = (query: string) => {
+  try {
+    parseRunQuery(query);
+  } catch (error) {
+    return error;
+  }
+  throw new Error(`"${query}" parsed without an error`);
+};
+
+describe("parseRunQuery", () => {
+  it("returns null for an empty query", () => {
+    expect(parseRunQuery("  ")).toBeNull();
+  });
+
+  it("keeps quoted values together", () => {
+    expect(parseRunQuery('relic:"Sapper Sack"')).toEqual({
+      type: "compare",
+      field: "relic",
+      operator: ":",
+      value: "Sapper Sack",
+    });
+  });
+
+  it("resolves field aliases", () => {
+    expect(parseRunQuery("cb>=5 killedby:slime")).toEqual({
+      type: "and",
+      children: [
+        { type: "compare", field: "cruciball", operator: ">=", value: "5" },
+        { type: "compare", field: "defeatedby", operator: ":", value: "slime" },
+      ],
+    });
+  });
+
+  it("binds NOT tighter than AND and AND tighter than OR", () => {
+    expect(parseRunQuery("NOT a b OR -c")).toEqual({
+      type: "or",
+      children: [
+        {
+          type: "and",
+          children: [
+            { type: "not", child: { type: "text", value: "a" } },
+            { type: "text", value: "b" },
+          ],
+        },
+        { type: "not", child: { type: "text", value: "c" } },
+      ],
+    });
+  });
+
+  it("groups with parentheses and accepts an explicit AND", () => {
+    expect(parseRunQuery("a AND (b OR c)")).toEqual({
+      type: "and",
+      children: [
+        { type: "text", value: "a" },
+        {
+          type: "or",
+          children: [
+            { type: "text", value: "b" },
+            { type: "text", value: "c" },
+          ],
+        },
+      ],
+    });
+  });
+
+  it.each([
+    ['relic:"Sapper', "Unterminated quoted value", 6],
+    ["!won", 'Unexpected character "!"', 0],
+    ["foo:bar", 'Unknown field "foo"', 0],
+    ["won:true class:", "Missing value for class", 15],
+    ["class>x", "class does not support >", 5],
+    ["damage>lots", '"lots" is not a number', 7],
+    ["duration<soon", '"soon" is not a duration', 9],
+    ["won:maybe", '"maybe" should be true or false', 4],
+    ["(won:true", "Missing closing parenthesis", 0],
+    ["won:true)", "Unexpected closing parenthesis", 8],
+    ["class:Peglin OR", "Expected a search term", 15],
+  ])("rejects %s", (query, message, position) => {
+    const error = parseError(query);
+    expect(error).toBeInstanceOf(QueryParseError);
+    expect(error).toMatchObject({ message, position });
+  });
+});
+
+describe("filterRunsByQuery", () => {
+  it.each([
+    ["cruciball=5", ["a"]],
+    ["cruciball!=5", ["b", "c"]],
+    ["cruciball>5", ["c"]],
+    ["cruciball>=5", ["a", "c"]],
+    ["cruciball<5", ["b"]],
+    ["cruciball<=5", ["a", "b"]],
+    ["damage>=1.5m", ["c"]],
+    ["damage<5k", ["b"]],
+    ["duration<15m", ["a"]],
+    ["duration>1h", ["c"]],
+    // A bare number is minutes
+    ["duration>=35", ["b", "c"]],
+  ])("compares numbers with %s", (query, ids) => {
+    expect(matchingIds(query)).toEqual(ids);
+  });
+
+  it.each([
+    // ":" is a contains match, "=" and "!=" compare the whole value
+    ["class:spin", ["a"]],
+    ["class=spin", []],
+    ["class=Spinventor", ["a"]],
+    ["class!=spinventor", ["b", "c"]],
+    ['relic:"Sapper Sack"', ["a"]],
+    ["relic=sapper-sack", ["a"]],
+    ["won:true", ["a", "c"]],
+    ["won:no", ["b"]],
+    ["custom:true", ["c"]],
+  ])("matches text and flags with %s", (query, ids) => {
+    expect(matchingIds(query)).toEqual(ids);
+  });
+
+  it.each([
+    ["orb=StoneOrb", ["a", "b"]],
+    ["orb=StoneOrb-Lvl2", ["a"]],
+    ["orb:bramball", ["a"]],
+    ["orbs=daggorb", ["c"]],
+  ])("matches orbs and their families with %s", (query, ids) => {
+    expect(matchingIds(query)).toEqual(ids);
+  });
+
+  it.each([
+    ["date:2024-03", ["a", "b"]],
+    ["date=2024-04-02", ["c"]],
+    ["date>=2024-03-31", ["b", "c"]],
+    ["date<2024-03-31", ["a"]],
+  ])("compares dates with %s", (query, ids) => {
+    expect(matchingIds(query)).toEqual(ids);
+  });
+
+  it.each([
+    ["won:true cruciball>5 OR class:balladin", ["b", "c"]],
+    ["won:true (cruciball>5 OR class:spinventor)", ["a", "c"]],
+    ["NOT won:true OR cruciball=10", ["b", "c"]],
+    ["-won:true class:peglin", []],
+  ])("combines terms in %s", (query, ids) => {
+    expect(matchingIds(query)).toEqual(ids);
+  });
+
+  it("searches bare words across classes, relics, orbs and enemies", () => {
+    expect(matchingIds("slime")).toEqual(["b"]);
+    expect(matchingIds("sapper")).toEqual(["a"]);
+    expect(matchingIds("peglin")).toEqual(["c"]);
+  });
+});
+
+describe("getQuerySuggestions", () => {
+  const source = {
+    classes: ["Peglin", "Balladin"],
+    relics: ["Sapper Sack", "Refresherer"],
+    orbs: ["StoneOrb"],
+    bosses: [],
+    enemies: ["Slime"],
+  };
+
+  it("suggests field names for a partial word", () => {
+    expect(getQuerySuggestions("cru", 3, source)).toEqual([
+      {
+        label: "cruciball:",
+        description: "Cruciball level",
+        insertText: "cruciball:",
+        replaceStart: 0,
+        replaceEnd: 3,
+      },
+    ]);
+  });
+
+  it("keeps the minus of a negated term", () => {
+    expect(getQuerySuggestions("won:true -re", 12, source)).toMatchObject([
+      { label: "relic:", insertText: "-relic:", replaceStart: 9, replaceEnd: 12 },
+    ]);
+  });
+
+  it("quotes suggested values that contain spaces", () => {
+    expect(getQuerySuggestions("relic:sap", 9, source)).toEqual([
+      {
+        label: "Sapper Sack",
+        description: "relic:",
+        insertText: '"Sapper Sack" ',
+        replaceStart: 6,
+        replaceEnd: 9,
+      },
+    ]);
+  });
+
+  it("completes a value inside an open quote", () => {
+    expect(getQuerySuggestions('relic:"Sapper S', 15, source)).toMatchObject([
+      { label: "Sapper Sack", replaceStart: 6, replaceEnd: 15 },
+    ]);
+  });
+
+  it("only looks at the text before the cursor", () => {
+    expect(getQuerySuggestions("class:Bal won:true", 9, source)).toMatchObject([
+      { label: "Balladin", replaceStart: 6, replaceEnd: 9 },
+    ]);
+  });
+
+  it("starts a new token after an opening parenthesis", () => {
+    expect(
+      getQuerySuggestions("class:P (won:", 13, source).map((s) => s.label)
+    ).toEqual(["true", "false"]);
+  });
+
+  it("suggests nothing for unknown fields and respects the limit", () => {
+    expect(getQuerySuggestions("foo:", 4, source)).toEqual([]);
+    expect(getQuerySuggestions("", 0, source, 3)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,509 @@
+// Text query language for filtering runs, e.g.
+//   class:Spinventor won:true relic:"Sapper Sack" orb:bramball cruciball>=5 duration<15m
+// Terms are ANDed together; use OR, NOT / -term and parentheses for anything else.
+// Bare words match against class, relics, orbs, bosses, enemies and defeatedBy.
+
+import { RunRecord } from "../types";
+import { getOrbFamily, parseTimeSpanSeconds } from "./saveFileParser";
+import { toLocalDateKey } from "./sessions";
+
+export type QueryOperator = ":" | "=" | "!=" | ">" | ">=" | "<" | "<=";
+
+export type QueryNode =
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  | { type: "compare"; field: QueryField; operator: QueryOperator; value: string }
+  | { type: "text"; value: string };
+
+export class QueryParseError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = "QueryParseError";
+  }
+}
+
+type FieldKind = "text" | "list" | "number" | "duration" | "boolean" | "date";
+
+interface FieldDefinition {
+  kind: FieldKind;
+  description: string;
+  get: (run: RunRecord) => string | string[] | number | boolean;
+}
+
+export const QUERY_FIELDS = {
+  class: {
+    kind: "text",
+    description: "Character class",
+    get: (run) => run.characterClass,
+  },
+  won: { kind: "boolean", description: "Run was won", get: (run) => run.won },
+  custom: {
+    kind: "boolean",
+    description: "Custom run",
+    get: (run) => run.isCustomRun,
+  },
+  relic: {
+    kind: "list",
+    description: "Relic picked up during the run",
+    get: (run) => run.relicNames || [],
+  },
+  orb: {
+    kind: "list",
+    description: "Orb in the deck",
+    // Include the families so orb="StoneOrb" matches every level
+    get: (run) => {
+      const orbs = run.orbsUsed || [];
+      return [...orbs, ...orbs.map(getOrbFamily)];
+    },
+  },
+  boss: {
+    kind: "list",
+    description: "Boss encountered",
+    get: (run) => run.bossNames || [],
+  },
+  enemy: {
+    kind: "list",
+    description: "Enemy fought",
+    get: (run) => Object.keys(run.enemyData || {}),
+  },
+  defeatedby: {
+    kind: "text",
+    description: "Enemy that ended the run",
+    get: (run) => run.defeatedBy || "",
+  },
+  cruciball: {
+    kind: "number",
+    description: "Cruciball level",
+    get: (run) => run.cruciballLevel,
+  },
+  damage: {
+    kind: "number",
+    description: "Total damage dealt (supports k/m suffixes)",
+    get: (run) => run.damageDealt,
+  },
+  level: {
+    kind: "number",
+    description: "Final level reached",
+    get: (run) => run.finalLevel,
+  },
+  coins: {
+    kind: "number",
+    description: "Coins earned",
+    get: (run) => run.coinsEarned,
+  },
+  pegs: { kind: "number", description: "Pegs hit", get: (run) => run.pegsHit },
+  duration: {
+    kind: "duration",
+    description: "Run length, e.g. 15m, 1h30m, 90s",
+    get: (run) => parseTimeSpanSeconds(run.duration),
+  },
+  date: {
+    kind: "date",
+    description: "Local date the run ended (YYYY-MM-DD)",
+    get: (run) => {
+      const date = new Date(run.timestamp);
+      return Number.isNaN(date.getTime()) ? "" : toLocalDateKey(date);
+    },
+  },
+  seed: { kind: "text", description: "Run seed", get: (run) => run.seed || "" },
+} satisfies Record<string, FieldDefinition>;
+
+export type QueryField = keyof typeof QUERY_FIELDS;
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  killedby: "defeatedby",
+  cb: "cruciball",
+  relics: "relic",
+  orbs: "orb",
+  bosses: "boss",
+  enemies: "enemy",
+};
+
+// Lowercase and strip everything but letters and digits so "Sapper Sack",
+// "sapper-sack" and "SapperSack" all compare equal
+export const normalizeQueryText = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Tokenizer
+
+type Token =
+  | { kind: "word"; text: string; quoted: boolean; start: number; end: number }
+  | { kind: "operator"; text: QueryOperator; start: number; end: number }
+  | { kind: "lparen" | "rparen" | "minus"; start: number; end: number };
+
+const OPERATORS: QueryOperator[] = [">=", "<=", "!=", ":", "=", ">", "<"];
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === "(" || char === ")") {
+      tokens.push({ kind: char === "(" ? "lparen" : "rparen", start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    // A leading minus negates the next term ("-orb:stone")
+    if (char === "-" && (tokens.length === 0 || tokens[tokens.length - 1].kind !== "operator")) {
+      tokens.push({ kind: "minus", start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => input.startsWith(op, i));
+    if (operator) {
+      tokens.push({ kind: "operator", text: operator, start: i, end: i + operator.length });
+      i += operator.length;
+      continue;
+    }
+
+    if (char === '"') {
+      const close = input.indexOf('"', i + 1);
+      if (close === -1) {
+        throw new QueryParseError("Unterminated quoted value", i);
+      }
+      tokens.push({
+        kind: "word",
+        text: input.slice(i + 1, close),
+        quoted: true,
+        start: i,
+        end: close + 1,
+      });
+      i = close + 1;
+      continue;
+    }
+
+    const start = i;
+    while (i < input.length && !/[\s()":=!<>]/.test(input[i])) i++;
+    if (i === start) {
+      throw new QueryParseError(`Unexpected character "${char}"`, i);
+    }
+    tokens.push({ kind: "word", text: input.slice(start, i), quoted: false, start, end: i });
+  }
+
+  return tokens;
+};
+
+// Parser: or := and ("OR" and)* ; and := unary ("AND"? unary)* ;
+// unary := ("NOT" | "-") unary | primary ; primary := "(" or ")" | term
+
+export const parseRunQuery = (input: string): QueryNode | null => {
+  const tokens = tokenize(input);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isKeyword = (token: Token | undefined, keyword: string) =>
+    token?.kind === "word" && !token.quoted && token.text.toUpperCase() === keyword;
+
+  const parseTerm = (): QueryNode => {
+    const token = tokens[position++];
+    if (!token || token.kind !== "word") {
+      throw new QueryParseError("Expected a search term", token?.start ?? input.length);
+    }
+
+    const next = peek();
+    if (next?.kind !== "operator") {
+      return { type: "text", value: token.text };
+    }
+
+    position++;
+    const rawField = token.text.toLowerCase();
+    const field = (FIELD_ALIASES[rawField] ?? rawField) as QueryField;
+    if (!(field in QUERY_FIELDS)) {
+      throw new QueryParseError(`Unknown field "${token.text}"`, token.start);
+    }
+
+    const valueToken = tokens[position++];
+    if (!valueToken || valueToken.kind !== "word") {
+      throw new QueryParseError(`Missing value for ${token.text}`, next.end);
+    }
+
+    const kind = QUERY_FIELDS[field].kind;
+    const isRange = [">", ">=", "<", "<="].includes(next.text);
+    if (isRange && !["number", "duration", "date"].includes(kind)) {
+      throw new QueryParseError(`${token.text} does not support ${next.text}`, next.start);
+    }
+    if (kind === "number" && Number.isNaN(parseNumber(valueToken.text))) {
+      throw new QueryParseError(`"${valueToken.text}" is not a number`, valueToken.start);
+    }
+    if (kind === "duration" && Number.isNaN(parseDuration(valueToken.text))) {
+      throw new QueryParseError(`"${valueToken.text}" is not a duration`, valueToken.start);
+    }
+    if (kind === "boolean" && parseBoolean(valueToken.text) === null) {
+      throw new QueryParseError(`"${valueToken.text}" should be true or false`, valueToken.start);
+    }
+
+    return { type: "compare", field, operator: next.text, value: valueToken.text };
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = peek();
+    if (token?.kind === "lparen") {
+      position++;
+      const node = parseOr();
+      if (peek()?.kind !== "rparen") {
+        throw new QueryParseError("Missing closing parenthesis", token.start);
+      }
+      position++;
+      return node;
+    }
+    return parseTerm();
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (token?.kind === "minus" || isKeyword(token, "NOT")) {
+      position++;
+      return { type: "not", child: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    while (position < tokens.length && peek().kind !== "rparen" && !isKeyword(peek(), "OR")) {
+      if (isKeyword(peek(), "AND")) position++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  };
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (isKeyword(peek(), "OR")) {
+      position++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  };
+
+  if (tokens.length === 0) return null;
+
+  const root = parseOr();
+  if (position < tokens.length) {
+    throw new QueryParseError("Unexpected closing parenthesis", tokens[position].start);
+  }
+  return root;
+};
+
+// Value parsing
+
+const parseNumber = (text: string): number => {
+  const match = text.toLowerCase().match(/^(-?\d+(?:\.\d+)?)([km]?)$/);
+  if (!match) return NaN;
+  const multiplier = match[2] === "k" ? 1000 : match[2] === "m" ? 1000000 : 1;
+  return Number(match[1]) * multiplier;
+};
+
+// Durations in seconds; a bare number means minutes
+const parseDuration = (text: string): number => {
+  const lower = text.toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(lower)) return Number(lower) * 60;
+
+  const match = lower.match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s)?$/);
+  if (!match || lower === "") return NaN;
+  const [, hours, minutes, seconds] = match;
+  return Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + Number(seconds || 0);
+};
+
+const parseBoolean = (text: string): boolean | null => {
+  const lower = text.toLowerCase();
+  if (["true", "yes", "1", "y"].includes(lower)) return true;
+  if (["false", "no", "0", "n"].includes(lower)) return false;
+  return null;
+};
+
+const compareValues = (
+  actual: number | string,
+  expected: number | string,
+  operator: QueryOperator
+): boolean => {
+  switch (operator) {
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    case "!=":
+      return actual !== expected;
+    default:
+      return actual === expected;
+  }
+};
+
+const textMatches = (actual: string, expected: string, exact: boolean) => {
+  const normalizedActual = normalizeQueryText(actual);
+  const normalizedExpected = normalizeQueryText(expected);
+  return exact
+    ? normalizedActual === normalizedExpected
+    : normalizedActual.includes(normalizedExpected);
+};
+
+// Evaluation
+
+const evaluateCompare = (
+  run: RunRecord,
+  node: Extract<QueryNode, { type: "compare" }>
+): boolean => {
+  const definition: FieldDefinition = QUERY_FIELDS[node.field];
+  const actual = definition.get(run);
+  const negate = node.operator === "!=";
+  // ":" is a fuzzy contains match, "=" and "!=" compare whole values
+  const exact = node.operator !== ":";
+
+  switch (definition.kind) {
+    case "text": {
+      const matches = textMatches(actual as string, node.value, exact);
+      return negate ? !matches : matches;
+    }
+    case "list": {
+      const matches = (actual as string[]).some((item) =>
+        textMatches(item, node.value, exact)
+      );
+      return negate ? !matches : matches;
+    }
+    case "boolean": {
+      const matches = actual === parseBoolean(node.value);
+      return negate ? !matches : matches;
+    }
+    case "number":
+      return compareValues(actual as number, parseNumber(node.value), node.operator);
+    case "duration":
+      return compareValues(actual as number, parseDuration(node.value), node.operator);
+    case "date":
+      // ":" on dates is a prefix match so date:2025-07 means the whole month
+      if (node.operator === ":") return (actual as string).startsWith(node.value);
+      return compareValues(actual as string, node.value, node.operator);
+  }
+};
+
+const TEXT_SEARCH_FIELDS: QueryField[] = ["class", "relic", "orb", "boss", "enemy", "defeatedby"];
+
+export const evaluateRunQuery = (node: QueryNode | null, run: RunRecord): boolean => {
+  if (!node) return true;
+
+  switch (node.type) {
+    case "and":
+      return node.children.every((child) => evaluateRunQuery(child, run));
+    case "or":
+      return node.children.some((child) => evaluateRunQuery(child, run));
+    case "not":
+      return !evaluateRunQuery(node.child, run);
+    case "compare":
+      return evaluateCompare(run, node);
+    case "text":
+      return TEXT_SEARCH_FIELDS.some((field) =>
+        evaluateCompare(run, { type: "compare", field, operator: ":", value: node.value })
+      );
+  }
+};
+
+// Parse once and filter; throws QueryParseError for invalid queries
+export const filterRunsByQuery = (runs: RunRecord[], query: string): RunRecord[] => {
+  const ast = parseRunQuery(query);
+  return ast ? runs.filter((run) => evaluateRunQuery(ast, run)) : runs;
+};
+
+// Autocomplete
+
+export interface QuerySuggestion {
+  label: string;
+  description?: string;
+  // Replaces the text between replaceStart and replaceEnd in the query
+  insertText: string;
+  replaceStart: number;
+  replaceEnd: number;
+}
+
+export interface QuerySuggestionSource {
+  classes: string[];
+  relics: string[];
+  orbs: string[];
+  bosses: string[];
+  enemies: string[];
+}
+
+const quoteIfNeeded = (value: string) => (/[\s():=!<>]/.test(value) ? `"${value}"` : value);
+
+const valueSuggestionsFor = (field: QueryField, source: QuerySuggestionSource): string[] => {
+  switch (field) {
+    case "class":
+      return source.classes;
+    case "relic":
+      return source.relics;
+    case "orb":
+      return source.orbs;
+    case "boss":
+      return source.bosses;
+    case "enemy":
+    case "defeatedby":
+      return source.enemies;
+    case "won":
+    case "custom":
+      return ["true", "false"];
+    case "duration":
+      return ["5m", "15m", "30m", "1h"];
+    default:
+      return [];
+  }
+};
+
+// Suggest field names or values for the token under the cursor
+export const getQuerySuggestions = (
+  query: string,
+  cursor: number,
+  source: QuerySuggestionSource,
+  limit = 10
+): QuerySuggestion[] => {
+  // Find the start of the token the cursor is in, honouring an open quote
+  const before = query.slice(0, cursor);
+  const quoteCount = (before.match(/"/g) || []).length;
+  const unquoted = quoteCount % 2 === 1 ? before.slice(0, before.lastIndexOf('"')) : before;
+  const tokenStart = Math.max(unquoted.lastIndexOf(" "), unquoted.lastIndexOf("(")) + 1;
+  const token = before.slice(tokenStart);
+
+  const fieldMatch = token.match(/^-?([a-z]+)(:|=|!=|>=|<=|>|<)(.*)$/i);
+  if (fieldMatch) {
+    const [, rawField, operator, rawValue] = fieldMatch;
+    const field = (FIELD_ALIASES[rawField.toLowerCase()] ?? rawField.toLowerCase()) as QueryField;
+    if (!(field in QUERY_FIELDS)) return [];
+
+    const valueStart = tokenStart + token.length - rawValue.length;
+    const partial = normalizeQueryText(rawValue.replace(/"/g, ""));
+    return valueSuggestionsFor(field, source)
+      .filter((value) => normalizeQueryText(value).includes(partial))
+      .slice(0, limit)
+      .map((value) => ({
+        label: value,
+        description: `${rawField}${operator}`,
+        insertText: `${quoteIfNeeded(value)} `,
+        replaceStart: valueStart,
+        replaceEnd: cursor,
+      }));
+  }
+
+  const negated = token.startsWith("-");
+  const partial = (negated ? token.slice(1) : token).toLowerCase();
+  return (Object.keys(QUERY_FIELDS) as QueryField[])
+    .filter((field) => field.startsWith(partial))
+    .slice(0, limit)
+    .map((field) => ({
+      label: `${field}:`,
+      description: QUERY_FIELDS[field].description,
+      insertText: `${negated ? "-" : ""}${field}:`,
+      replaceStart: tokenStart,
+      replaceEnd: cursor,
+    }));
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { deserializeOdin } from "./odinSerializer";
+import {
+  buildSummary,
+  extractPlayerStatistics,
+  extractRunHistory,
+  groupRoomsByAct,
+} from "./saveFileParser";
+import { loadDemoRuns, readDemoFile } from "../test/demoData";
+
+const countBy = <T>(items: T[], key: (item: T) => string | number) =>
+  items.reduce<Record<string, number>>((counts, item) => {
+    counts[key(item)] = (counts[key(item)] ?? 0) + 1;
+    return counts;
+  }, {});
+
+describe("extractRunHistory", () => {
+  const runs = extractRunHistory(deserializeOdin(readDemoFile("Stats_0.data")));
+
+  it("reads every run in Stats_0.data, newest first", () => {
+    expect(runs).toHaveLength(20);
+    const timestamps = runs.map((run) => run.timestamp);
+    expect(timestamps).toEqual([...timestamps].sort().reverse());
+  });
+
+  it("maps class, result and cruciball level", () => {
+    expect(countBy(runs, (run) => run.characterClass)).toEqual({
+      Balladin: 4,
+      Spinventor: 10,
+      Peglin: 2,
+      Roundrel: 4,
+    });
+    expect(countBy(runs, (run) => String(run.won))).toEqual({ true: 15, false: 5 });
+    expect(countBy(runs, (run) => String(run.isCustomRun))).toEqual({
+      false: 18,
+      true: 2,
+    });
+    expect(Math.min(...runs.map((run) => run.cruciballLevel))).toBe(4);
+    expect(Math.max(...runs.map((run) => run.cruciballLevel))).toBe(20);
+  });
+
+  it("decodes the newest run's fields", () => {
+    expect(runs[0]).toMatchObject({
+      id: "94690492-3fef-4fb5-b819-9b1ff54381fd",
+      timestamp: "2025-07-28T20:08:34.738Z",
+      won: true,
+      characterClass: "Balladin",
+      cruciballLevel: 5,
+      damageDealt: 48548,
+      pegsHit: 2261,
+      duration: "00:23:48.7950000",
+      orbsUsed: ["StoneOrb-Lvl1", "Sphear-Lvl1", "Orbelisk-Lvl1", "Bouldorb-Lvl1"],
+    });
+  });
+
+  it("maps visited rooms to room info, ending each completed act on a boss", () => {
+    const run = runs[0];
+    expect(run.visitedRoomsInfo).toHaveLength(run.visitedRooms.length);
+    expect(run.visitedRoomsInfo[0]).toEqual({
+      id: 1,
+      name: "BATTLE",
+      symbol: "⚔",
+      color: "error",
+    });
+
+    const acts = groupRoomsByAct(run.visitedRoomsInfo);
+    expect(acts).toHaveLength(3);
+    acts.forEach((act) => expect(act[act.length - 1].name).toBe("BOSS"));
+  });
+});
+
+describe("extractPlayerStatistics", () => {
+  it("reads the lifetime stats from Save_0.data", () => {
+    const stats = extractPlayerStatistics(
+      deserializeOdin(readDemoFile("Save_0.data"))
+    );
+
+    expect(stats.gameplayStats).toMatchObject({
+      "Games Played": 285,
+      "Games Won": 51,
+    });
+    expect(stats.combatStats["Total Damage Dealt"]).toBe(101074469);
+  });
+});
+
+describe("buildSummary", () => {
+  it("ranks top classes by the lower bound of their win rate", () => {
+    const [run] = loadDemoRuns();
+    const runs = [
+      { ...run, id: "lucky", characterClass: "Lucky", won: true },
+      ...Array.from({ length: 10 }, (_, i) => ({
+        ...run,
+        id: `steady-${i}`,
+        characterClass: "Steady",
+        won: i < 9,
+      })),
+    ];
+
+    const summary = buildSummary(runs);
+    expect(Object.keys(summary.topClasses)).toEqual(["Steady", "Lucky"]);
+  });
+});
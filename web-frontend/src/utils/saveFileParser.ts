@@ -0,0 +1,632 @@
+// Converts decoded Peglin save/stats files into the same shapes the web API
+// returns, so the frontend can work without the .NET backend.
+// Mirrors RunHistoryManager.ParseStatsFileRun and DataAnalysisService on the server,
+// plus the filter/export endpoints that operate on the loaded runs.
+
+import { deserializeOdin } from "./odinSerializer";
+import { wilsonInterval } from "./winRate";
+import {
+  RunRecord,
+  RunHistoryData,
+  ClassStatistics,
+  OrbStatistics,
+  RelicStatistics,
+  OrbPlayData,
+  EnemyPlayData,
+  PlayerStatistics,
+  PlayerStatValue,
+  RoomInfo,
+  Summary,
+  RunQuery,
+  RunPage,
+} from "../types";
+
+type RawObject = Record<string, unknown>;
+
+export type ParsedSaveFile =
+  | { kind: "stats"; runs: RunRecord[] }
+  | { kind: "save"; playerStatistics: PlayerStatistics };
+
+// Fallback names used by the server when game assembly mappings are unavailable
+const CLASS_NAMES = ["Peglin", "Balladin", "Roundrel", "Spinventor"];
+
+const ROOM_TYPES: Record<number, { name: string; symbol: string; color: string }> = {
+  0: { name: "NONE", symbol: "⭕", color: "default" },
+  1: { name: "BATTLE", symbol: "⚔", color: "error" },
+  2: { name: "MINI_BOSS", symbol: "👹", color: "warning" },
+  3: { name: "TREASURE", symbol: "💰", color: "success" },
+  4: { name: "STORE", symbol: "🏪", color: "info" },
+  5: { name: "SCENARIO", symbol: "📜", color: "secondary" },
+  6: { name: "UNKNOWN", symbol: "❓", color: "default" },
+  7: { name: "BOSS", symbol: "🐉", color: "error" },
+  8: { name: "PEG_MINIGAME", symbol: "🎯", color: "primary" },
+};
+
+// .NET ticks (100ns) between 0001-01-01 and 1970-01-01
+const TICKS_AT_UNIX_EPOCH = 621355968000000000n;
+
+const asObject = (value: unknown): RawObject | null =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as RawObject)
+    : null;
+
+const asArray = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : [];
+
+const asNumber = (value: unknown, fallback = 0): number =>
+  typeof value === "number" ? value : fallback;
+
+const asBoolean = (value: unknown): boolean => value === true;
+
+const asString = (value: unknown): string | undefined =>
+  value === null || value === undefined ? undefined : String(value);
+
+export const getCharacterClassName = (classIndex: number): string =>
+  CLASS_NAMES[classIndex] ?? `Unknown Class (${classIndex})`;
+
+export const getRoomInfo = (roomId: number): RoomInfo => {
+  const room = ROOM_TYPES[roomId];
+  return {
+    id: roomId,
+    name: room?.name ?? `Unknown Room (${roomId})`,
+    symbol: room?.symbol ?? `#${roomId}`,
+    color: room?.color ?? "default",
+  };
+};
+
+// Orbs are recorded per level, e.g. "StoneOrb-Lvl2"; the family is "StoneOrb"
+export const getOrbFamily = (orbName: string) => orbName.replace(/-Lvl\d+$/i, "");
+
+// Group rooms by acts (separated by boss encounters)
+export const groupRoomsByAct = (rooms: RoomInfo[]): RoomInfo[][] => {
+  const acts: RoomInfo[][] = [];
+  let currentAct: RoomInfo[] = [];
+
+  for (const room of rooms) {
+    currentAct.push(room);
+
+    // If this is a boss room (id 7), end the current act
+    if (room.id === 7) {
+      acts.push([...currentAct]);
+      currentAct = [];
+    }
+  }
+
+  // Add any remaining rooms as the final act (if run didn't end with boss)
+  if (currentAct.length > 0) {
+    acts.push(currentAct);
+  }
+
+  return acts;
+};
+
+// DateTime.ToBinary() packs the kind into the top two bits; the rest are UTC ticks
+const fromDateTimeBinary = (value: unknown): string => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return new Date(0).toISOString();
+  }
+  const ticks = BigInt.asUintN(62, BigInt(Math.trunc(value)));
+  return new Date(Number((ticks - TICKS_AT_UNIX_EPOCH) / 10000n)).toISOString();
+};
+
+// Formats milliseconds like a serialized .NET TimeSpan ("[d.]hh:mm:ss.fffffff")
+const toTimeSpanString = (milliseconds: number): string => {
+  const totalTicks = Math.max(0, Math.round(milliseconds * 10000));
+  const fraction = totalTicks % 10000000;
+  const totalSeconds = Math.floor(totalTicks / 10000000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, "0");
+
+  let result = `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+  if (days > 0) result = `${days}.${result}`;
+  if (fraction > 0) result += `.${fraction.toString().padStart(7, "0")}`;
+  return result;
+};
+
+export const parseTimeSpanSeconds = (duration: string): number => {
+  const match = duration.match(/^(?:(\d+)\.)?(\d+):(\d+):(\d+)(?:\.(\d+))?$/);
+  if (!match) return 0;
+  const [, days, hours, minutes, seconds, fraction] = match;
+  return (
+    Number(days || 0) * 86400 +
+    Number(hours) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    (fraction ? Number(`0.${fraction}`) : 0)
+  );
+};
+
+const parseOrbPlayData = (orb: RawObject, fallbackName: string): OrbPlayData => {
+  const name = asString(orb.name) ?? asString(orb.id) ?? fallbackName;
+  const levelInstances = asArray(orb.levelInstances);
+  return {
+    id: asString(orb.id) ?? name,
+    name,
+    damageDealt: asNumber(orb.damageDealt),
+    timesFired: asNumber(orb.timesFired),
+    timesDiscarded: asNumber(orb.timesDiscarded),
+    timesRemoved: asNumber(orb.timesRemoved),
+    starting: asBoolean(orb.starting),
+    amountInDeck: asNumber(orb.amountInDeck),
+    highestCruciballBeat: asNumber(orb.highestCruciballBeat),
+    levelInstances:
+      levelInstances.length >= 3
+        ? levelInstances.slice(0, 3).map((level) => asNumber(level))
+        : undefined,
+  };
+};
+
+const parseEnemyPlayData = (enemy: RawObject, fallbackName: string): EnemyPlayData => ({
+  name: asString(enemy.name) ?? fallbackName,
+  amountFought: asNumber(enemy.amountFought),
+  meleeDamageReceived: asNumber(enemy.meleeDamageReceived),
+  rangedDamageReceived: asNumber(enemy.rangedDamageReceived),
+  defeatedBy: asBoolean(enemy.defeatedBy),
+});
+
+const parseStatsRun = (run: RawObject): RunRecord => {
+  const won = asBoolean(run.hasWon);
+  const orbPlayData = asArray(run.orbPlayData).map(asObject).filter(Boolean);
+  const relicIds = asArray(run.relics).map((id) => asNumber(id));
+  const visitedRooms = asArray(run.visitedRooms).map((id) => asNumber(id));
+  const visitedBosses = asArray(run.visitedBosses).map((id) => asNumber(id));
+  const statusEffects = asArray(run.statusEffects).map((count) => asNumber(count));
+  const slimePegs = asArray(run.slimePegs).map((id) => asNumber(id));
+
+  // Parse orb play data
+  const orbStats: Record<string, OrbPlayData> = {};
+  orbPlayData.forEach((orb) => {
+    const stats = parseOrbPlayData(orb, "Unknown");
+    orbStats[stats.name] = stats;
+  });
+
+  // Parse enemy play data (array in stats files, keyed by name for the UI)
+  const enemyData: Record<string, EnemyPlayData> = {};
+  asArray(run.enemyPlayData)
+    .map(asObject)
+    .filter(Boolean)
+    .forEach((enemy) => {
+      const stats = parseEnemyPlayData(enemy, "Unknown");
+      enemyData[stats.name] = stats;
+    });
+
+  const visitedRoomsInfo = visitedRooms.map(getRoomInfo);
+  const roomTypeStatistics = visitedRoomsInfo.reduce(
+    (acc, room) => {
+      acc[room.name] = (acc[room.name] || 0) + 1;
+      return acc;
+    },
+    {} as Record<string, number>
+  );
+
+  return {
+    id: asString(run.runId) ?? crypto.randomUUID(),
+    timestamp: fromDateTimeBinary(run.endDate),
+    won,
+    score: 0, // Score not stored in stats file
+    damageDealt: asNumber(run.totalDamageDealt),
+    pegsHit: asNumber(run.pegsHit),
+    duration: toTimeSpanString(asNumber(run.runTimerElapsedMilliseconds)),
+    characterClass: getCharacterClassName(asNumber(run.selectedClass)),
+    seed: asString(run.seed),
+    finalLevel: asNumber(run.defeatedOnLevel, won ? 7 : 0),
+    coinsEarned: asNumber(run.coinsEarned),
+    orbsUsed: orbPlayData.map(
+      (orb) => asString(orb.name) ?? asString(orb.id) ?? "Unknown"
+    ),
+    relicsUsed: [],
+    isReconstructed: false,
+    isCustomRun: asBoolean(run.isCustomRun),
+    cruciballLevel: asNumber(run.cruciballLevel),
+    defeatedBy: asString(run.defeatedBy),
+    finalHp: asNumber(run.finalHp),
+    maxHp: asNumber(run.maxHp),
+    mostDamageDealtWithSingleAttack: asNumber(run.mostDamageDealtWithSingleAttack),
+    totalDamageNegated: asNumber(run.totalDamageNegated),
+    pegsHitRefresh: asNumber(run.pegsHitRefresh),
+    pegsHitCrit: asNumber(run.pegsHitCrit),
+    pegsRefreshed: asNumber(run.pegsRefreshed),
+    bombsThrown: asNumber(run.bombsThrown),
+    shotsTaken: asNumber(run.shotsTaken),
+    critShotsTaken: asNumber(run.critShotsTaken),
+    orbStats,
+    enemyData,
+    relicNames: relicIds.map((id) => `Unknown Relic (${id})`),
+    bossNames: visitedBosses.map((id) => `Unknown Boss (${id})`),
+    roomTypeStatistics,
+    visitedRooms,
+    visitedRoomsInfo,
+    // Index is the status effect id, value is how many times it was applied
+    activeStatusEffects: statusEffects.flatMap((count, effectId) =>
+      count > 0
+        ? [`Unknown Status Effect (${effectId})${count > 1 ? ` (${count})` : ""}`]
+        : []
+    ),
+    activeSlimePegs: slimePegs.map((id) => `Unknown Slime (${id})`),
+  };
+};
+
+// Extract run history from a decoded Stats_N.data file, newest first
+export const extractRunHistory = (statsData: unknown): RunRecord[] => {
+  const history = asObject(asObject(asObject(statsData)?.RunStatsHistory)?.Value);
+  return asArray(history?.runsHistory)
+    .map(asObject)
+    .filter(Boolean)
+    .map(parseStatsRun)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+// Extract player statistics from a decoded Save_N.data file
+export const extractPlayerStatistics = (saveData: unknown): PlayerStatistics => {
+  const root = asObject(saveData);
+  const stats = asObject(asObject(root?.PermanentStats)?.Value) ?? {};
+  const playerData = asObject(asObject(root?.PersistentPlayerSaveData)?.Value) ?? {};
+
+  const pick = (entries: [string, string][]) =>
+    entries.reduce(
+      (acc, [key, label]) => {
+        if (typeof stats[key] === "number") acc[label] = stats[key] as number;
+        return acc;
+      },
+      {} as Record<string, string | number>
+    );
+
+  const gameplayStats: Record<string, PlayerStatValue> = pick([
+    ["totalRuns", "Games Played"],
+    ["totalWins", "Games Won"],
+    ["totalCustomRuns", "Custom Runs"],
+    ["totalCustomRunWins", "Custom Run Wins"],
+  ]);
+
+  // Add cruciball levels for each character class
+  const cruciballLevels = asArray(playerData._cruciballLevels);
+  if (cruciballLevels.length > 0) {
+    gameplayStats["Cruciball Levels"] = cruciballLevels.reduce<Record<string, number>>(
+      (acc, level, index) => {
+        acc[getCharacterClassName(index)] = asNumber(level);
+        return acc;
+      },
+      {}
+    );
+  }
+
+  return {
+    gameplayStats,
+    combatStats: pick([
+      ["totalDamageDealt", "Total Damage Dealt"],
+      ["mostDamageDealt", "Most Damage Dealt"],
+      ["totalDamageNegated", "Damage Blocked"],
+      ["totalShotsTaken", "Shots Taken"],
+      ["totalCritShotsTaken", "Crit Shots Taken"],
+    ]),
+    pegStats: pick([
+      ["totalPegsHit", "Total Pegs Hit"],
+      ["totalPegsHitRefresh", "Refresh Pegs Hit"],
+      ["totalPegsHitCrit", "Crit Pegs Hit"],
+      ["totalBombsThrown", "Bombs Thrown"],
+      ["mostPegsHitInOneTurn", "Most Pegs Hit In One Turn"],
+    ]),
+    economyStats: pick([
+      ["totalCoinsEarned", "Coins Earned"],
+      ["totalCoinsSpent", "Coins Spent"],
+      ["mostCoinsEarned", "Most Coins Earned"],
+    ]),
+  };
+};
+
+export const getClassStatistics = (
+  runs: RunRecord[]
+): Record<string, ClassStatistics> => {
+  const classStats = runs.reduce(
+    (acc, run) => {
+      const stats = (acc[run.characterClass] ??= {
+        className: run.characterClass,
+        totalRuns: 0,
+        wins: 0,
+        winRate: 0,
+        winRateLowerBound: 0,
+        winRateUpperBound: 0,
+        totalDamage: 0,
+        totalPegsHit: 0,
+        totalDuration: 0,
+        totalCoinsEarned: 0,
+        highestCruciball: 0,
+        bestDamageRun: 0,
+        averageDamage: 0,
+        averagePegsHit: 0,
+        averageDuration: 0,
+        averageCoinsEarned: 0,
+      });
+
+      stats.totalRuns++;
+      if (run.won) stats.wins++;
+      stats.totalDamage += run.damageDealt;
+      stats.totalPegsHit += run.pegsHit;
+      stats.totalDuration += parseTimeSpanSeconds(run.duration);
+      stats.totalCoinsEarned += run.coinsEarned;
+      stats.highestCruciball = Math.max(stats.highestCruciball, run.cruciballLevel);
+      stats.bestDamageRun = Math.max(stats.bestDamageRun, run.damageDealt);
+      return acc;
+    },
+    {} as Record<string, ClassStatistics>
+  );
+
+  Object.values(classStats).forEach((stats) => {
+    stats.winRate = stats.wins / stats.totalRuns;
+    const interval = wilsonInterval(stats.wins, stats.totalRuns);
+    stats.winRateLowerBound = interval.lower;
+    stats.winRateUpperBound = interval.upper;
+    stats.averageDamage = stats.totalDamage / stats.totalRuns;
+    stats.averagePegsHit = stats.totalPegsHit / stats.totalRuns;
+    stats.averageDuration = stats.totalDuration / stats.totalRuns;
+    stats.averageCoinsEarned = stats.totalCoinsEarned / stats.totalRuns;
+  });
+
+  return classStats;
+};
+
+export const getOrbStatistics = (
+  runs: RunRecord[]
+): Record<string, OrbStatistics> => {
+  const orbStats: Record<string, OrbStatistics> = {};
+
+  runs.forEach((run) => {
+    run.orbsUsed.forEach((orb) => {
+      if (!orb) return;
+
+      const stats = (orbStats[orb] ??= {
+        orbName: orb,
+        timesUsed: 0,
+        winsWithOrb: 0,
+        totalRunsWithOrb: 0,
+        totalDamageWithOrb: 0,
+        winRateWithOrb: 0,
+        winRateLowerBoundWithOrb: 0,
+        winRateUpperBoundWithOrb: 0,
+        averageDamageWithOrb: 0,
+      });
+
+      stats.timesUsed++;
+      stats.totalRunsWithOrb++;
+      if (run.won) stats.winsWithOrb++;
+      stats.totalDamageWithOrb += run.damageDealt;
+      stats.winRateWithOrb = stats.winsWithOrb / stats.totalRunsWithOrb;
+      const interval = wilsonInterval(stats.winsWithOrb, stats.totalRunsWithOrb);
+      stats.winRateLowerBoundWithOrb = interval.lower;
+      stats.winRateUpperBoundWithOrb = interval.upper;
+      stats.averageDamageWithOrb = stats.totalDamageWithOrb / stats.totalRunsWithOrb;
+    });
+  });
+
+  return orbStats;
+};
+
+// Mirrors RunHistoryManager.GetRelicStatistics
+export const getRelicStatistics = (
+  runs: RunRecord[]
+): Record<string, RelicStatistics> => {
+  const relicStats: Record<string, RelicStatistics> = {};
+  if (runs.length === 0) return relicStats;
+
+  const totalWins = runs.filter((run) => run.won).length;
+  const overallWinRate = totalWins / runs.length;
+
+  // Win rate at each cruciball level, used to tell how many wins a relic's runs would have had anyway
+  const cruciballTotals: Record<number, { runs: number; wins: number }> = {};
+  runs.forEach((run) => {
+    const totals = (cruciballTotals[run.cruciballLevel] ??= { runs: 0, wins: 0 });
+    totals.runs++;
+    if (run.won) totals.wins++;
+  });
+
+  runs.forEach((run) => {
+    const levelTotals = cruciballTotals[run.cruciballLevel];
+
+    new Set(run.relicNames || []).forEach((relic) => {
+      if (!relic) return;
+
+      const stats = (relicStats[relic] ??= {
+        relicName: relic,
+        timesPicked: 0,
+        winsWithRelic: 0,
+        totalDamageWithRelic: 0,
+        totalCruciballWithRelic: 0,
+        totalRuns: runs.length,
+        totalWins,
+        expectedWins: 0,
+        runsWithoutRelic: 0,
+        winsWithoutRelic: 0,
+        pickRate: 0,
+        winRateWithRelic: 0,
+        winRateLowerBoundWithRelic: 0,
+        winRateUpperBoundWithRelic: 0,
+        winRateWithoutRelic: 0,
+        averageDamageWithRelic: 0,
+        averageCruciballWithRelic: 0,
+        cruciballAdjustedWinRate: 0,
+      });
+
+      stats.timesPicked++;
+      if (run.won) stats.winsWithRelic++;
+      stats.totalDamageWithRelic += run.damageDealt;
+      stats.totalCruciballWithRelic += run.cruciballLevel;
+      stats.expectedWins += levelTotals.wins / levelTotals.runs;
+    });
+  });
+
+  Object.values(relicStats).forEach((stats) => {
+    stats.runsWithoutRelic = stats.totalRuns - stats.timesPicked;
+    stats.winsWithoutRelic = stats.totalWins - stats.winsWithRelic;
+    stats.pickRate = stats.timesPicked / stats.totalRuns;
+    stats.winRateWithRelic = stats.winsWithRelic / stats.timesPicked;
+    const interval = wilsonInterval(stats.winsWithRelic, stats.timesPicked);
+    stats.winRateLowerBoundWithRelic = interval.lower;
+    stats.winRateUpperBoundWithRelic = interval.upper;
+    stats.winRateWithoutRelic =
+      stats.runsWithoutRelic > 0 ? stats.winsWithoutRelic / stats.runsWithoutRelic : 0;
+    stats.averageDamageWithRelic = stats.totalDamageWithRelic / stats.timesPicked;
+    stats.averageCruciballWithRelic = stats.totalCruciballWithRelic / stats.timesPicked;
+    // Overall win rate plus the relic's wins above expectation
+    stats.cruciballAdjustedWinRate = Math.min(
+      1,
+      Math.max(0, overallWinRate + (stats.winsWithRelic - stats.expectedWins) / stats.timesPicked)
+    );
+  });
+
+  return relicStats;
+};
+
+export const buildRunHistoryData = (
+  runs: RunRecord[],
+  playerStatistics?: PlayerStatistics
+): RunHistoryData => {
+  const totalWins = runs.filter((run) => run.won).length;
+  return {
+    runs,
+    classStatistics: getClassStatistics(runs),
+    orbStatistics: getOrbStatistics(runs),
+    relicStatistics: getRelicStatistics(runs),
+    playerStatistics,
+    totalRuns: runs.length,
+    totalWins,
+    winRate: runs.length > 0 ? totalWins / runs.length : 0,
+  };
+};
+
+// Same shape as /api/summary; pass the runs left after the config exclusions
+export const buildSummary = (runs: RunRecord[]): Summary => {
+  const classStatistics = getClassStatistics(runs);
+  const totalWins = runs.filter((run) => run.won).length;
+  // Ranked by the lower bound of the win rate so a 1/1 class doesn't top the list
+  const topClasses = Object.entries(classStatistics)
+    .sort(
+      ([, a], [, b]) =>
+        wilsonInterval(b.wins, b.totalRuns).lower -
+        wilsonInterval(a.wins, a.totalRuns).lower
+    )
+    .slice(0, 3);
+
+  return {
+    totalRuns: runs.length,
+    totalWins,
+    winRate: runs.length > 0 ? Math.round((totalWins / runs.length) * 10000) / 100 : 0,
+    averageDamage:
+      runs.length > 0
+        ? Math.round(runs.reduce((sum, run) => sum + run.damageDealt, 0) / runs.length)
+        : 0,
+    averageDuration: {
+      totalSeconds:
+        runs.length > 0
+          ? runs.reduce((sum, run) => sum + parseTimeSpanSeconds(run.duration), 0) /
+            runs.length
+          : 0,
+    },
+    topClasses: Object.fromEntries(topClasses),
+    classStatistics,
+  };
+};
+
+// Same rules as /api/runs/filtered (config exclusions are applied by runFilters.ts)
+export const filterRuns = (runs: RunRecord[], filters: RunQuery = {}): RunRecord[] =>
+  runs.filter((run) => {
+    const durationMinutes = parseTimeSpanSeconds(run.duration) / 60;
+    const timestamp = new Date(run.timestamp).getTime();
+
+    if (filters.characterClass && run.characterClass !== filters.characterClass) return false;
+    if (filters.won !== undefined && filters.won !== null && run.won !== filters.won) return false;
+    if (filters.startDate && timestamp < new Date(filters.startDate).getTime()) return false;
+    if (filters.endDate && timestamp > new Date(filters.endDate).getTime()) return false;
+    if (filters.minDamage !== undefined && run.damageDealt < filters.minDamage) return false;
+    if (filters.maxDamage !== undefined && run.damageDealt > filters.maxDamage) return false;
+    if (filters.minDuration !== undefined && durationMinutes < filters.minDuration) return false;
+    if (filters.maxDuration !== undefined && durationMinutes > filters.maxDuration) return false;
+    return true;
+  });
+
+const SORT_KEYS: Record<string, (run: RunRecord) => string | number | boolean> = {
+  timestamp: (run) => run.timestamp,
+  characterClass: (run) => run.characterClass,
+  won: (run) => run.won,
+  damageDealt: (run) => run.damageDealt,
+  pegsHit: (run) => run.pegsHit,
+  duration: (run) => parseTimeSpanSeconds(run.duration),
+  finalLevel: (run) => run.finalLevel,
+  cruciballLevel: (run) => run.cruciballLevel,
+  coinsEarned: (run) => run.coinsEarned,
+};
+
+// Same paging and cursor rules as /api/runs/filtered
+export const pageRuns = (runs: RunRecord[], query: RunQuery = {}): RunPage => {
+  const pageSize = Math.min(Math.max(query.pageSize ?? 25, 1), 500);
+  const direction = query.sortOrder === "asc" ? 1 : -1;
+  const key = SORT_KEYS[query.sortField ?? ""] ?? SORT_KEYS.timestamp;
+
+  // Id is the tiebreaker so the order (and therefore cursors) stays stable
+  const sortedRuns = [...runs].sort((a, b) => {
+    const aValue = key(a);
+    const bValue = key(b);
+    if (aValue < bValue) return -direction;
+    if (aValue > bValue) return direction;
+    return a.id.localeCompare(b.id);
+  });
+
+  let startIndex = (query.page ?? 0) * pageSize;
+  if (query.cursor) {
+    const cursorIndex = sortedRuns.findIndex((run) => run.id === query.cursor);
+    if (cursorIndex >= 0) startIndex = cursorIndex + 1;
+  }
+
+  const pageOfRuns = sortedRuns.slice(startIndex, startIndex + pageSize);
+  const hasMore = startIndex + pageOfRuns.length < sortedRuns.length;
+
+  return {
+    runs: pageOfRuns,
+    totalCount: sortedRuns.length,
+    page: Math.floor(startIndex / pageSize),
+    pageSize,
+    nextCursor: hasMore && pageOfRuns.length > 0 ? pageOfRuns[pageOfRuns.length - 1].id : null,
+  };
+};
+
+// Same columns as /api/export?format=csv
+export const exportRunsToCsv = (runs: RunRecord[]): string => {
+  const header =
+    "Id,Timestamp,Won,Score,DamageDealt,PegsHit,Duration,CharacterClass,Seed,FinalLevel,CoinsEarned,CruciballLevel";
+  const rows = runs.map((run) =>
+    [
+      run.id,
+      run.timestamp.replace("T", " ").slice(0, 19),
+      run.won ? "True" : "False",
+      run.score,
+      run.damageDealt,
+      run.pegsHit,
+      parseTimeSpanSeconds(run.duration),
+      run.characterClass,
+      run.seed ?? "",
+      run.finalLevel,
+      run.coinsEarned,
+      run.cruciballLevel,
+    ].join(",")
+  );
+  return [header, ...rows].join("\n") + "\n";
+};
+
+// Decode a Save_N.data or Stats_N.data file picked by the user
+export const parseSaveFile = async (file: File): Promise<ParsedSaveFile> => {
+  const decoded = asObject(deserializeOdin(await file.arrayBuffer()));
+
+  if (decoded?.RunStatsHistory) {
+    return { kind: "stats", runs: extractRunHistory(decoded) };
+  }
+
+  if (decoded?.PermanentStats || decoded?.PersistentPlayerSaveData) {
+    return { kind: "save", playerStatistics: extractPlayerStatistics(decoded) };
+  }
+
+  throw new Error(
+    `${file.name} does not look like a Peglin save or stats file`
+  );
+};
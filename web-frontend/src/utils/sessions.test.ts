@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectSessions,
+  getCalendarWeeks,
+  getDailyPlaytime,
+  toLocalDateKey,
+} from "./sessions";
+import { parseTimeSpanSeconds } from "./saveFileParser";
+import { loadDemoRuns } from "../test/demoData";
+import { makeRun } from "../test/runs";
+
+// Timestamps are when a run ended
+const endingAt = (id: string, hours: number, minutes: number, duration: string, day = 15) =>
+  makeRun(id, { timestamp: new Date(2024, 0, day, hours, minutes).toISOString(), duration });
+
+describe("detectSessions", () => {
+  // 10:00–10:10, 10:30–10:40, 11:30–11:45
+  const runs = [
+    endingAt("c", 11, 45, "00:15:00"),
+    endingAt("a", 10, 10, "00:10:00"),
+    endingAt("b", 10, 40, "00:10:00"),
+  ];
+
+  it("starts a new session when the idle gap is exceeded", () => {
+    const sessions = detectSessions(runs, 30);
+
+    // Most recent first, runs oldest first within a session
+    expect(sessions.map((session) => session.runs.map((run) => run.id))).toEqual([
+      ["c"],
+      ["a", "b"],
+    ]);
+    expect(sessions[1]).toMatchObject({
+      start: new Date(2024, 0, 15, 10, 0),
+      end: new Date(2024, 0, 15, 10, 40),
+      playSeconds: 20 * 60,
+      count: 2,
+    });
+  });
+
+  it("follows the chosen gap", () => {
+    expect(detectSessions(runs, 10)).toHaveLength(3);
+    expect(detectSessions(runs, 60)).toHaveLength(1);
+  });
+
+  it("measures the gap from the latest end of overlapping runs", () => {
+    // The long run ends at 11:00, so a run starting 11:20 is within 30 minutes of it
+    const overlapping = [
+      endingAt("long", 11, 0, "01:00:00"),
+      endingAt("short", 10, 20, "00:10:00"),
+      endingAt("late", 11, 30, "00:10:00"),
+    ];
+
+    expect(detectSessions(overlapping, 30)).toHaveLength(1);
+  });
+
+  it("puts every demo run in exactly one session", () => {
+    const demoRuns = loadDemoRuns();
+    const sessions = detectSessions(demoRuns);
+
+    expect(sessions.flatMap((session) => session.runs.map((run) => run.id)).sort()).toEqual(
+      demoRuns.map((run) => run.id).sort()
+    );
+    sessions.slice(1).forEach((session, index) =>
+      expect(session.start.getTime()).toBeLessThan(sessions[index].start.getTime())
+    );
+  });
+});
+
+describe("getDailyPlaytime", () => {
+  it("splits a run that crosses midnight between both days", () => {
+    // 23:30–00:30
+    const days = getDailyPlaytime([endingAt("late", 0, 30, "01:00:00", 16)]);
+
+    expect(days).toEqual({
+      "2024-01-15": { date: "2024-01-15", seconds: 30 * 60, runs: 1 },
+      "2024-01-16": { date: "2024-01-16", seconds: 30 * 60, runs: 0 },
+    });
+  });
+
+  it("keys days by local date", () => {
+    const days = getDailyPlaytime([endingAt("a", 0, 20, "00:10:00")]);
+
+    expect(Object.keys(days)).toEqual([toLocalDateKey(new Date(2024, 0, 15))]);
+  });
+
+  it("adds up to the total playtime of the demo runs", () => {
+    const demoRuns = loadDemoRuns();
+    const days = Object.values(getDailyPlaytime(demoRuns));
+
+    expect(days.reduce((sum, day) => sum + day.runs, 0)).toBe(demoRuns.length);
+    expect(days.reduce((sum, day) => sum + day.seconds, 0)).toBeCloseTo(
+      demoRuns.reduce((sum, run) => sum + parseTimeSpanSeconds(run.duration), 0)
+    );
+  });
+});
+
+describe("getCalendarWeeks", () => {
+  it("pads the first and last weeks to start on Sunday", () => {
+    // Wednesday 3 to Tuesday 16 January 2024
+    const weeks = getCalendarWeeks(new Date(2024, 0, 3), new Date(2024, 0, 16));
+
+    expect(weeks).toHaveLength(3);
+    expect(weeks[0].slice(0, 3)).toEqual([null, null, null]);
+    expect(weeks[0][3]).toEqual(new Date(2024, 0, 3));
+    expect(weeks[2][2]).toEqual(new Date(2024, 0, 16));
+    expect(weeks[2].slice(3)).toEqual([null, null, null, null]);
+  });
+});
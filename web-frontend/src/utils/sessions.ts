@@ -0,0 +1,163 @@
+import { RunRecord } from "../types";
+import { RunSummary, summarizeRuns } from "./analytics";
+import { parseTimeSpanSeconds } from "./saveFileParser";
+
+// Play sessions rebuilt from run times. A run's timestamp is when it ended, so it
+// started `duration` earlier; runs whose start follows the previous run's end
+// within the idle gap belong to the same session.
+
+export const DEFAULT_SESSION_GAP_MINUTES = 30;
+export const SESSION_GAP_OPTIONS = [10, 30, 60, 120, 240];
+
+export interface PlaySession extends RunSummary {
+  id: string;
+  start: Date;
+  end: Date;
+  runs: RunRecord[]; // oldest first
+  playSeconds: number; // sum of run durations
+  classes: string[];
+}
+
+export interface DailyPlaytime {
+  date: string; // local YYYY-MM-DD
+  seconds: number;
+  runs: number;
+}
+
+interface RunInterval {
+  run: RunRecord;
+  start: number;
+  end: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getRunInterval = (run: RunRecord): RunInterval | null => {
+  const end = new Date(run.timestamp).getTime();
+  if (Number.isNaN(end)) return null;
+  return {
+    run,
+    start: end - parseTimeSpanSeconds(run.duration) * 1000,
+    end,
+  };
+};
+
+export const formatPlaytime = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+// Day keys use local time so a late-night session lands on the evening it was played
+export const toLocalDateKey = (date: Date) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+// Local midnight of a YYYY-MM-DD key; new Date(key) would read it as UTC
+export const fromLocalDateKey = (key: string) => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const createSession = (intervals: RunInterval[]): PlaySession => {
+  const runs = intervals.map((interval) => interval.run);
+  const start = new Date(intervals[0].start);
+  return {
+    ...summarizeRuns(runs),
+    id: start.toISOString(),
+    start,
+    end: new Date(Math.max(...intervals.map((interval) => interval.end))),
+    runs,
+    playSeconds: runs.reduce(
+      (sum, run) => sum + parseTimeSpanSeconds(run.duration),
+      0
+    ),
+    classes: [...new Set(runs.map((run) => run.characterClass))],
+  };
+};
+
+// Sessions, most recent first
+export const detectSessions = (
+  runs: RunRecord[],
+  gapMinutes = DEFAULT_SESSION_GAP_MINUTES
+): PlaySession[] => {
+  const intervals = runs
+    .map(getRunInterval)
+    .filter((interval): interval is RunInterval => interval !== null)
+    .sort((a, b) => a.start - b.start);
+
+  const sessions: PlaySession[] = [];
+  let current: RunInterval[] = [];
+  let currentEnd = -Infinity;
+  intervals.forEach((interval) => {
+    if (current.length > 0 && interval.start - currentEnd > gapMinutes * 60 * 1000) {
+      sessions.push(createSession(current));
+      current = [];
+    }
+    current.push(interval);
+    currentEnd = Math.max(currentEnd, interval.end);
+  });
+  if (current.length > 0) {
+    sessions.push(createSession(current));
+  }
+
+  return sessions.reverse();
+};
+
+// Playtime per local day; runs that cross midnight are split between both days
+export const getDailyPlaytime = (
+  runs: RunRecord[]
+): Record<string, DailyPlaytime> => {
+  const days: Record<string, DailyPlaytime> = {};
+  const getDay = (date: string) =>
+    (days[date] ??= { date, seconds: 0, runs: 0 });
+
+  runs.forEach((run) => {
+    const interval = getRunInterval(run);
+    if (!interval) return;
+    getDay(toLocalDateKey(new Date(interval.start))).runs++;
+
+    let cursor = interval.start;
+    while (cursor < interval.end) {
+      const cursorDate = new Date(cursor);
+      const nextMidnight = new Date(
+        cursorDate.getFullYear(),
+        cursorDate.getMonth(),
+        cursorDate.getDate() + 1
+      ).getTime();
+      const sliceEnd = Math.min(interval.end, nextMidnight);
+      getDay(toLocalDateKey(cursorDate)).seconds += (sliceEnd - cursor) / 1000;
+      cursor = sliceEnd;
+    }
+  });
+
+  return days;
+};
+
+// Weeks (Sunday first) covering the given range, for a GitHub-style calendar;
+// days outside the range are null
+export const getCalendarWeeks = (from: Date, to: Date): (Date | null)[][] => {
+  const first = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const last = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+  const cursor = new Date(first);
+  cursor.setDate(cursor.getDate() - cursor.getDay());
+
+  const weeks: (Date | null)[][] = [];
+  while (cursor <= last) {
+    const week: (Date | null)[] = [];
+    for (let day = 0; day < 7; day++) {
+      week.push(cursor >= first && cursor <= last ? new Date(cursor) : null);
+      cursor.setDate(cursor.getDate() + 1);
+    }
+    weeks.push(week);
+  }
+  return weeks;
+};
+
+export const getCalendarRange = (year: number | null, now = new Date()) =>
+  year === null
+    ? { from: new Date(now.getTime() - 364 * DAY_MS), to: now }
+    : { from: new Date(year, 0, 1), to: new Date(year, 11, 31) };
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  getSignificanceLevel,
+  normalCdf,
+  pearsonCorrelation,
+  twoProportionTest,
+  welchTest,
+} from "./significance";
+
+describe("normalCdf", () => {
+  it("matches the standard normal table", () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 7);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 4);
+    expect(normalCdf(-1)).toBeCloseTo(0.158655, 5);
+  });
+});
+
+describe("twoProportionTest", () => {
+  it("computes the pooled z statistic and two-sided p-value", () => {
+    // 45/100 vs 30/100: pooled p = 0.375, SE = 0.06847
+    const result = twoProportionTest(45, 100, 30, 100);
+    expect(result.statistic).toBeCloseTo(2.1909, 4);
+    expect(result.pValue).toBeCloseTo(0.02846, 4);
+  });
+
+  it("finds no difference between identical groups", () => {
+    const result = twoProportionTest(5, 10, 5, 10);
+    expect(result.statistic).toBe(0);
+    expect(result.pValue).toBeCloseTo(1, 6);
+  });
+
+  it("returns null for empty groups or zero variance", () => {
+    expect(twoProportionTest(0, 0, 3, 10)).toBeNull();
+    expect(twoProportionTest(3, 10, 0, 0)).toBeNull();
+    expect(twoProportionTest(5, 5, 3, 3)).toBeNull();
+  });
+});
+
+describe("welchTest", () => {
+  // Example 1 from the Wikipedia article on Welch's t-test: t = -2.46, df = 25.0
+  const a = [27.5, 21.0, 19.0, 23.6, 17.0, 17.9, 16.9, 20.1, 21.9, 22.6, 23.1, 19.6, 19.0, 21.7, 21.4];
+  const b = [27.1, 22.0, 20.8, 23.4, 23.4, 23.5, 25.8, 22.0, 24.8, 20.2, 21.9, 22.1, 22.9, 20.5, 24.4];
+
+  it("computes t and the Welch–Satterthwaite degrees of freedom", () => {
+    const result = welchTest(a, b);
+    expect(result.statistic).toBeCloseTo(-2.4554, 4);
+    expect(result.degreesOfFreedom).toBeCloseTo(24.9885, 4);
+    // Normal approximation of the two-sided p-value
+    expect(result.pValue).toBeCloseTo(0.01407, 4);
+  });
+
+  it("is antisymmetric in its arguments", () => {
+    expect(welchTest(b, a).statistic).toBeCloseTo(-welchTest(a, b).statistic, 10);
+  });
+
+  it("finds no difference between identical samples", () => {
+    const result = welchTest(a, [...a]);
+    expect(result.statistic).toBe(0);
+    expect(result.pValue).toBeCloseTo(1, 6);
+  });
+
+  it("returns null for fewer than two values or zero variance", () => {
+    expect(welchTest([], b)).toBeNull();
+    expect(welchTest([1], b)).toBeNull();
+    expect(welchTest([3, 3, 3], [3, 3])).toBeNull();
+  });
+});
+
+describe("pearsonCorrelation", () => {
+  it("matches a hand-computed coefficient", () => {
+    // Sxy = 6, Sxx = 10, Syy = 6, so r = 6 / sqrt(60)
+    expect(pearsonCorrelation([1, 2, 3, 4, 5], [2, 4, 5, 4, 5])).toBeCloseTo(
+      0.774597,
+      6
+    );
+  });
+
+  it("is exactly 1 or -1 for linear relationships", () => {
+    expect(pearsonCorrelation([1, 2, 3], [10, 20, 30])).toBeCloseTo(1, 10);
+    expect(pearsonCorrelation([1, 2, 3], [3, 2, 1])).toBeCloseTo(-1, 10);
+  });
+
+  it("returns null for fewer than two pairs or zero variance", () => {
+    expect(pearsonCorrelation([], [])).toBeNull();
+    expect(pearsonCorrelation([1], [1])).toBeNull();
+    expect(pearsonCorrelation([2, 2, 2], [1, 2, 3])).toBeNull();
+  });
+});
+
+describe("getSignificanceLevel", () => {
+  it.each([
+    [null, "none"],
+    [0.005, "strong"],
+    [0.01, "significant"],
+    [0.049, "significant"],
+    [0.05, "none"],
+  ] as const)("classifies p = %s as %s", (pValue, level) => {
+    expect(getSignificanceLevel(pValue)).toBe(level);
+  });
+});
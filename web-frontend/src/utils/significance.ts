@@ -0,0 +1,93 @@
+// Two-sample significance tests for comparing groups of runs. p-values use the
+// normal approximation, which is rough below ~30 runs per group.
+
+export type SignificanceLevel = "strong" | "significant" | "none";
+
+export interface TestResult {
+  statistic: number;
+  pValue: number;
+  // Welch–Satterthwaite degrees of freedom, for t statistics
+  degreesOfFreedom?: number;
+}
+
+// Abramowitz & Stegun 7.1.26, accurate to ~1e-7
+const erf = (x: number) => {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+      t +
+      0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return sign * y;
+};
+
+export const normalCdf = (z: number) => 0.5 * (1 + erf(z / Math.SQRT2));
+
+const twoSidedP = (z: number) => 2 * (1 - normalCdf(Math.abs(z)));
+
+// Pooled two-proportion z-test, e.g. for win rates
+export const twoProportionTest = (
+  successesA: number,
+  totalA: number,
+  successesB: number,
+  totalB: number
+): TestResult | null => {
+  if (totalA <= 0 || totalB <= 0) return null;
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (se === 0) return null;
+  const z = (successesA / totalA - successesB / totalB) / se;
+  return { statistic: z, pValue: twoSidedP(z) };
+};
+
+const meanAndVariance = (values: number[]) => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance =
+    values.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+    (values.length - 1);
+  return { mean, variance };
+};
+
+// Welch's unequal-variance test on the difference of means
+export const welchTest = (a: number[], b: number[]): TestResult | null => {
+  if (a.length < 2 || b.length < 2) return null;
+  const statsA = meanAndVariance(a);
+  const statsB = meanAndVariance(b);
+  const varianceA = statsA.variance / a.length;
+  const varianceB = statsB.variance / b.length;
+  const se = Math.sqrt(varianceA + varianceB);
+  if (se === 0) return null;
+  const t = (statsA.mean - statsB.mean) / se;
+  const degreesOfFreedom =
+    (varianceA + varianceB) ** 2 /
+    (varianceA ** 2 / (a.length - 1) + varianceB ** 2 / (b.length - 1));
+  return { statistic: t, pValue: twoSidedP(t), degreesOfFreedom };
+};
+
+export const getSignificanceLevel = (pValue: number | null): SignificanceLevel => {
+  if (pValue === null) return "none";
+  if (pValue < 0.01) return "strong";
+  if (pValue < 0.05) return "significant";
+  return "none";
+};
+
+// Pearson correlation; with a 0/1 outcome this is the point-biserial correlation
+export const pearsonCorrelation = (xs: number[], ys: number[]): number | null => {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 2) return null;
+  const meanX = xs.slice(0, n).reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.slice(0, n).reduce((sum, y) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+};
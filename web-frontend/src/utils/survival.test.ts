@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { getSurvivalCurve, getSurvivalCurves } from "./survival";
+import { RunRecord } from "../types";
+import { makeRooms, makeRun } from "../test/runs";
+
+const NORMAL = 1;
+const BOSS = 7;
+
+const runThrough = (
+  id: string,
+  roomIds: number[],
+  overrides: Partial<RunRecord> = {}
+) =>
+  makeRun(id, { visitedRoomsInfo: makeRooms(roomIds), ...overrides });
+
+const pointsOf = (runs: RunRecord[], axis: "room" | "act") =>
+  getSurvivalCurve(runs, axis).points.map(({ label, atRisk, deaths, survival }) => [
+    label,
+    atRisk,
+    deaths,
+    survival,
+  ]);
+
+describe("getSurvivalCurve", () => {
+  it("computes Kaplan–Meier survival per room, censoring won runs", () => {
+    const runs = [
+      runThrough("lost-2", [NORMAL, NORMAL]),
+      runThrough("lost-3", [NORMAL, NORMAL, NORMAL]),
+      runThrough("won-2", [NORMAL, NORMAL], { won: true }),
+      runThrough("won-4", [NORMAL, NORMAL, NORMAL, BOSS], { won: true }),
+      runThrough("lost-4", [NORMAL, NORMAL, NORMAL, BOSS]),
+      runThrough("no-rooms", []),
+    ];
+
+    // Room 3: the won run that stopped at room 2 is no longer at risk,
+    // so 1 death among 3 runs rather than among 4
+    const points = pointsOf(runs, "room");
+    expect(points.map(([label, atRisk, deaths]) => [label, atRisk, deaths])).toEqual([
+      ["Room 1", 5, 0],
+      ["Room 2", 5, 1],
+      ["Room 3", 3, 1],
+      ["Room 4", 2, 1],
+    ]);
+    expect(points.map(([, , , survival]) => survival)).toEqual([
+      1,
+      expect.closeTo(4 / 5),
+      expect.closeTo((4 / 5) * (2 / 3)),
+      expect.closeTo((4 / 5) * (2 / 3) * (1 / 2)),
+    ]);
+
+    const curve = getSurvivalCurve(runs, "room");
+    expect(curve.runs).toBe(5);
+    expect(curve.excludedRuns).toBe(1);
+  });
+
+  it("steps through the rooms and boss of each act", () => {
+    const runs = [
+      runThrough("act-1", [NORMAL, NORMAL]),
+      runThrough("boss-1", [NORMAL, BOSS]),
+      runThrough("won-act-2", [NORMAL, BOSS, NORMAL], { won: true }),
+      runThrough("boss-2", [NORMAL, BOSS, NORMAL, BOSS]),
+      runThrough("won-boss-1", [NORMAL, BOSS], { won: true }),
+    ];
+
+    expect(pointsOf(runs, "act")).toEqual([
+      ["Act 1", 5, 1, expect.closeTo(0.8)],
+      ["Act 1 Boss", 4, 1, expect.closeTo(0.6)],
+      ["Act 2", 2, 0, expect.closeTo(0.6)],
+      ["Act 2 Boss", 1, 1, 0],
+    ]);
+  });
+
+  it("never drops survival when only won runs end", () => {
+    const runs = [
+      runThrough("a", [NORMAL], { won: true }),
+      runThrough("b", [NORMAL, NORMAL], { won: true }),
+    ];
+
+    expect(
+      getSurvivalCurve(runs, "room").points.map((point) => point.survival)
+    ).toEqual([1, 1]);
+  });
+});
+
+describe("getSurvivalCurves", () => {
+  it("shares the x axis between groups", () => {
+    const runs = [
+      runThrough("a", [NORMAL], { characterClass: "Balladin" }),
+      runThrough("b", [NORMAL, NORMAL, NORMAL], { characterClass: "Roundrel" }),
+      runThrough("c", [NORMAL, NORMAL], { characterClass: "Roundrel" }),
+    ];
+
+    const curves = getSurvivalCurves(runs, "room", "class");
+    expect(curves.map((curve) => [curve.group, curve.runs])).toEqual([
+      ["Roundrel", 2],
+      ["Balladin", 1],
+    ]);
+    curves.forEach((curve) => expect(curve.points).toHaveLength(3));
+  });
+
+  it("splits by local calendar quarter, oldest first", () => {
+    const runs = [
+      runThrough("a", [NORMAL], { timestamp: new Date(2024, 3, 1, 0, 30).toISOString() }),
+      runThrough("b", [NORMAL], { timestamp: new Date(2024, 2, 31, 23, 30).toISOString() }),
+      runThrough("c", [NORMAL], { timestamp: new Date(2023, 11, 1).toISOString() }),
+    ];
+
+    expect(
+      getSurvivalCurves(runs, "room", "period").map((curve) => [curve.group, curve.runs])
+    ).toEqual([
+      ["2023 Q4", 1],
+      ["2024 Q1", 1],
+      ["2024 Q2", 1],
+    ]);
+  });
+
+  it("orders cruciball bands by level", () => {
+    const runs = [
+      runThrough("a", [NORMAL], { cruciballLevel: 7 }),
+      runThrough("b", [NORMAL], { cruciballLevel: 6 }),
+      runThrough("c", [NORMAL], { cruciballLevel: 0 }),
+      runThrough("d", [NORMAL], { cruciballLevel: 3 }),
+    ];
+
+    expect(
+      getSurvivalCurves(runs, "room", "cruciball").map((curve) => curve.group)
+    ).toEqual(["No Cruciball", "Cruciball 1–5", "Cruciball 6–10"]);
+  });
+});
@@ -0,0 +1,165 @@
+import { RunRecord } from "../types";
+import { groupRoomsByAct } from "./saveFileParser";
+
+// Kaplan–Meier survival of runs: the share of runs still alive after each room or
+// act. Lost runs die at their last visited room; won runs are censored there, so a
+// short winning custom run doesn't count as surviving rooms it never reached.
+
+export type SurvivalAxis = "room" | "act";
+export type SurvivalSplit = "none" | "class" | "cruciball" | "period";
+
+export interface SurvivalPoint {
+  step: number;
+  label: string;
+  atRisk: number; // runs that reached this step
+  deaths: number; // runs lost at this step
+  survival: number; // share of runs alive after this step
+}
+
+export interface SurvivalCurve {
+  group: string;
+  runs: number;
+  excludedRuns: number; // runs without room history
+  points: SurvivalPoint[];
+}
+
+interface RunExit {
+  step: number;
+  died: boolean;
+}
+
+const BOSS_ROOM_ID = 7;
+// Splits with more groups than this keep only the largest (or most recent) ones
+export const MAX_SURVIVAL_GROUPS = 6;
+
+// Act steps alternate between the rooms of an act and its boss:
+// 0 = act 1 rooms, 1 = act 1 boss, 2 = act 2 rooms, ...
+export const getActStepLabel = (step: number) =>
+  step % 2 === 0
+    ? `Act ${step / 2 + 1}`
+    : `Act ${(step - 1) / 2 + 1} Boss`;
+
+const getRunExit = (run: RunRecord, axis: SurvivalAxis): RunExit | null => {
+  const rooms = run.visitedRoomsInfo || [];
+  if (rooms.length === 0) return null;
+
+  if (axis === "room") {
+    return { step: rooms.length, died: !run.won };
+  }
+
+  const acts = groupRoomsByAct(rooms);
+  const lastRoom = rooms[rooms.length - 1];
+  const actIndex = acts.length - 1;
+  return {
+    step: actIndex * 2 + (lastRoom.id === BOSS_ROOM_ID ? 1 : 0),
+    died: !run.won,
+  };
+};
+
+const getStepLabel = (step: number, axis: SurvivalAxis) =>
+  axis === "room" ? `Room ${step}` : getActStepLabel(step);
+
+export const getSurvivalCurve = (
+  runs: RunRecord[],
+  axis: SurvivalAxis,
+  group = "All Runs",
+  maxStep?: number
+): SurvivalCurve => {
+  const exits = runs
+    .map((run) => getRunExit(run, axis))
+    .filter((exit): exit is RunExit => exit !== null);
+
+  const firstStep = axis === "room" ? 1 : 0;
+  const lastStep =
+    maxStep ?? exits.reduce((max, exit) => Math.max(max, exit.step), firstStep);
+
+  const points: SurvivalPoint[] = [];
+  let survival = 1;
+  for (let step = firstStep; step <= lastStep; step++) {
+    const atRisk = exits.filter((exit) => exit.step >= step).length;
+    const deaths = exits.filter(
+      (exit) => exit.died && exit.step === step
+    ).length;
+    if (atRisk > 0) survival *= 1 - deaths / atRisk;
+    points.push({
+      step,
+      label: getStepLabel(step, axis),
+      atRisk,
+      deaths,
+      survival,
+    });
+  }
+
+  return {
+    group,
+    runs: exits.length,
+    excludedRuns: runs.length - exits.length,
+    points,
+  };
+};
+
+const getCruciballBand = (level: number) => {
+  if (level <= 0) return "No Cruciball";
+  const start = Math.floor((level - 1) / 5) * 5 + 1;
+  return `Cruciball ${start}–${start + 4}`;
+};
+
+const getPeriod = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()} Q${Math.floor(date.getMonth() / 3) + 1}`;
+};
+
+const getGroupKey = (run: RunRecord, split: SurvivalSplit) => {
+  switch (split) {
+    case "class":
+      return run.characterClass;
+    case "cruciball":
+      return getCruciballBand(run.cruciballLevel);
+    case "period":
+      return getPeriod(run.timestamp);
+    default:
+      return "All Runs";
+  }
+};
+
+export const getSurvivalCurves = (
+  runs: RunRecord[],
+  axis: SurvivalAxis,
+  split: SurvivalSplit
+): SurvivalCurve[] => {
+  const groups: Record<string, RunRecord[]> = {};
+  runs.forEach((run) => {
+    const key = getGroupKey(run, split);
+    (groups[key] ??= []).push(run);
+  });
+
+  let entries = Object.entries(groups);
+  if (split === "period") {
+    // Most recent periods, oldest first
+    entries = entries.sort((a, b) => a[0].localeCompare(b[0])).slice(-MAX_SURVIVAL_GROUPS);
+  } else {
+    entries = entries
+      .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+      .slice(0, MAX_SURVIVAL_GROUPS);
+    if (split === "cruciball") {
+      // "No Cruciball" first, then ascending bands
+      entries.sort((a, b) => {
+        const level = (key: string) => Number(key.match(/\d+/)?.[0] ?? 0);
+        return level(a[0]) - level(b[0]);
+      });
+    }
+  }
+
+  // Share one x axis across groups
+  const exits = runs
+    .map((run) => getRunExit(run, axis))
+    .filter((exit): exit is RunExit => exit !== null);
+  const maxStep = exits.reduce(
+    (max, exit) => Math.max(max, exit.step),
+    axis === "room" ? 1 : 0
+  );
+
+  return entries.map(([group, groupRuns]) =>
+    getSurvivalCurve(groupRuns, axis, group, maxStep)
+  );
+};
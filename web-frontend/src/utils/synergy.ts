@@ -0,0 +1,130 @@
+import { RunRecord } from "../types";
+import { getOrbFamily } from "./saveFileParser";
+import { estimateWinRate } from "./winRate";
+
+// Co-occurrence of orbs and relics across runs, compared against the overall win rate
+
+export type SynergyKind = "orb-orb" | "orb-relic" | "relic-relic";
+
+export interface SynergyCell {
+  row: string;
+  column: string;
+  runs: number;
+  wins: number;
+  winRate: number;
+  // 95% Wilson interval of winRate
+  lower: number;
+  upper: number;
+  // Win rate shrunk towards the baseline, minus the baseline, so pairs seen
+  // in only a couple of runs stay close to zero
+  lift: number;
+}
+
+export interface SynergyMatrix {
+  kind: SynergyKind;
+  rows: string[];
+  columns: string[];
+  // Keyed by getSynergyCellKey(row, column); pairs that never appear together are missing
+  cells: Record<string, SynergyCell>;
+  baselineWinRate: number;
+  totalRuns: number;
+}
+
+export interface SynergyOptions {
+  // Only the most common items are shown on each axis
+  maxItems?: number;
+}
+
+export const getSynergyCellKey = (row: string, column: string) =>
+  `${row}\u0000${column}`;
+
+// Orb families from both the deck list and the per-orb stats
+const getRunOrbs = (run: RunRecord): Set<string> =>
+  new Set(
+    [
+      ...(run.orbsUsed || []),
+      ...Object.values(run.orbStats || {}).map((orb) => orb.name),
+    ]
+      .filter(Boolean)
+      .map(getOrbFamily)
+  );
+
+const getRunRelics = (run: RunRecord): Set<string> =>
+  new Set((run.relicNames || []).filter(Boolean));
+
+const mostCommon = (sets: Set<string>[], limit: number): string[] => {
+  const counts: Record<string, number> = {};
+  sets.forEach((items) =>
+    items.forEach((item) => {
+      counts[item] = (counts[item] || 0) + 1;
+    })
+  );
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([item]) => item);
+};
+
+export const getSynergyMatrix = (
+  runs: RunRecord[],
+  kind: SynergyKind,
+  { maxItems = 15 }: SynergyOptions = {}
+): SynergyMatrix => {
+  const orbSets = runs.map(getRunOrbs);
+  const relicSets = runs.map(getRunRelics);
+  const rowSets = kind === "relic-relic" ? relicSets : orbSets;
+  const columnSets = kind === "orb-orb" ? orbSets : relicSets;
+
+  const rows = mostCommon(rowSets, maxItems);
+  const columns = kind === "orb-relic" ? mostCommon(columnSets, maxItems) : rows;
+
+  const totalWins = runs.filter((run) => run.won).length;
+  const baselineWinRate = runs.length > 0 ? totalWins / runs.length : 0;
+
+  const cells: Record<string, SynergyCell> = {};
+  runs.forEach((run, index) => {
+    const rowItems = rows.filter((item) => rowSets[index].has(item));
+    const columnItems = columns.filter((item) => columnSets[index].has(item));
+
+    rowItems.forEach((row) => {
+      columnItems.forEach((column) => {
+        const key = getSynergyCellKey(row, column);
+        const cell = (cells[key] ??= {
+          row,
+          column,
+          runs: 0,
+          wins: 0,
+          winRate: 0,
+          lower: 0,
+          upper: 1,
+          lift: 0,
+        });
+        cell.runs++;
+        if (run.won) cell.wins++;
+      });
+    });
+  });
+
+  Object.values(cells).forEach((cell) => {
+    const estimate = estimateWinRate(cell.wins, cell.runs, baselineWinRate);
+    cell.winRate = estimate.rate;
+    cell.lower = estimate.lower;
+    cell.upper = estimate.upper;
+    cell.lift = estimate.shrunk - baselineWinRate;
+  });
+
+  return { kind, rows, columns, cells, baselineWinRate, totalRuns: runs.length };
+};
+
+// Run query (see runQuery.ts) matching the runs in a cell
+export const getSynergyQuery = (kind: SynergyKind, row: string, column: string) => {
+  const quote = (value: string) => `"${value}"`;
+  const rowField = kind === "relic-relic" ? "relic" : "orb";
+  const columnField = kind === "orb-orb" ? "orb" : "relic";
+
+  const terms = [`${rowField}=${quote(row)}`];
+  if (row !== column || rowField !== columnField) {
+    terms.push(`${columnField}=${quote(column)}`);
+  }
+  return terms.join(" ");
+};
@@ -0,0 +1,74 @@
+// Win rates with sample-size awareness: Wilson score intervals for error bars and
+// "best" rankings, and Bayesian shrinkage towards a prior for point estimates.
+// Mirrors Utils/WinRateStatistics.cs in the backend.
+
+// z for a 95% two-sided interval
+export const Z_95 = 1.96;
+
+// Weight of the prior in pseudo-runs; a 1/1 record moves only 1/11 of the way to 100%
+export const DEFAULT_PRIOR_STRENGTH = 10;
+
+export interface WinRateEstimate {
+  wins: number;
+  total: number;
+  rate: number;
+  lower: number;
+  upper: number;
+  // Rate shrunk towards the prior, see shrinkWinRate
+  shrunk: number;
+}
+
+export const wilsonInterval = (
+  wins: number,
+  total: number,
+  z = Z_95
+): { lower: number; upper: number } => {
+  if (total <= 0) return { lower: 0, upper: 1 };
+
+  const p = wins / total;
+  const z2 = z * z;
+  const denominator = 1 + z2 / total;
+  const center = (p + z2 / (2 * total)) / denominator;
+  const margin =
+    (z * Math.sqrt((p * (1 - p)) / total + z2 / (4 * total * total))) /
+    denominator;
+
+  return {
+    lower: Math.max(0, center - margin),
+    upper: Math.min(1, center + margin),
+  };
+};
+
+// Posterior mean under a Beta prior centred on priorRate
+export const shrinkWinRate = (
+  wins: number,
+  total: number,
+  priorRate: number,
+  priorStrength = DEFAULT_PRIOR_STRENGTH
+): number => (wins + priorRate * priorStrength) / (total + priorStrength);
+
+export const estimateWinRate = (
+  wins: number,
+  total: number,
+  priorRate = 0.5
+): WinRateEstimate => ({
+  wins,
+  total,
+  rate: total > 0 ? wins / total : 0,
+  ...wilsonInterval(wins, total),
+  shrunk: shrinkWinRate(wins, total, priorRate),
+});
+
+// Sort comparator that ranks by the interval's lower bound, so a 1/1 record
+// doesn't outrank 40/60
+export const compareByLowerBound = (a: WinRateEstimate, b: WinRateEstimate) =>
+  b.lower - a.lower || b.total - a.total;
+
+export const formatWinRatePercent = (value: number, digits = 1) =>
+  `${(value * 100).toFixed(digits)}%`;
+
+// e.g. "52.0% (40.1–63.5%, n=25)"
+export const formatWinRateRange = (estimate: WinRateEstimate) =>
+  `${formatWinRatePercent(estimate.rate)} (${(estimate.lower * 100).toFixed(
+    1
+  )}–${formatWinRatePercent(estimate.upper)}, n=${estimate.total})`;
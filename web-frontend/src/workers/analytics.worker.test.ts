@@ -0,0 +1,96 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { loadDemoRuns } from "../test/demoData";
+import { WorkerRequest, WorkerResponse } from "./protocol";
+import { runTask } from "./tasks";
+
+// The worker script talks to its global scope, which is the jsdom window here
+const responses: WorkerResponse[] = [];
+const send = (request: WorkerRequest) =>
+  self.onmessage?.({ data: request } as MessageEvent<WorkerRequest>);
+
+describe("analytics worker", () => {
+  beforeAll(async () => {
+    vi.spyOn(self, "postMessage").mockImplementation((response: WorkerResponse) => {
+      responses.push(response);
+    });
+    await import("./analytics.worker");
+  });
+
+  beforeEach(() => {
+    responses.length = 0;
+  });
+
+  it("answers tasks with the result of runTask", async () => {
+    const runs = loadDemoRuns();
+    send({ type: "setRuns", datasetId: 1, runs });
+    send({ type: "task", id: 1, task: "relicStatistics", datasetId: 1, args: {} });
+
+    await vi.waitFor(() => expect(responses).toHaveLength(1));
+    expect(responses[0]).toEqual({
+      type: "result",
+      id: 1,
+      result: await runTask("relicStatistics", runs, {}),
+    });
+  });
+
+  it("reports a task cancelled before it started without its result", async () => {
+    send({ type: "setRuns", datasetId: 2, runs: loadDemoRuns() });
+    send({
+      type: "task",
+      id: 2,
+      task: "runGroups",
+      datasetId: 2,
+      args: { dimension: "class" },
+    });
+    send({ type: "cancel", id: 2 });
+    send({ type: "task", id: 3, task: "relicStatistics", datasetId: 2, args: {} });
+
+    await vi.waitFor(() => expect(responses).toHaveLength(2));
+    expect(responses[0]).toEqual({ type: "cancelled", id: 2 });
+    expect(responses[1]).toMatchObject({ type: "result", id: 3 });
+  });
+
+  it("cancels a task that yields while it runs", async () => {
+    const names = Array.from({ length: 100 }, (_, index) => `Enemy${index}`);
+    send({
+      type: "task",
+      id: 5,
+      task: "enemyMatches",
+      datasetId: null,
+      args: { names, enemies: [] },
+    });
+
+    // Let the task start and reach its first yield
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    send({ type: "cancel", id: 5 });
+
+    await vi.waitFor(() => expect(responses).toHaveLength(1));
+    expect(responses[0]).toEqual({ type: "cancelled", id: 5 });
+  });
+
+  it("ignores cancels for tasks that already finished", async () => {
+    send({ type: "setRuns", datasetId: 6, runs: loadDemoRuns() });
+    send({ type: "task", id: 6, task: "relicStatistics", datasetId: 6, args: {} });
+    await vi.waitFor(() => expect(responses).toHaveLength(1));
+
+    send({ type: "cancel", id: 6 });
+    // A reused id must not be cancelled by the stale message
+    send({ type: "task", id: 6, task: "relicStatistics", datasetId: 6, args: {} });
+
+    await vi.waitFor(() => expect(responses).toHaveLength(2));
+    expect(responses[1]).toMatchObject({ type: "result", id: 6 });
+  });
+
+  it("reports an error for a released dataset", async () => {
+    send({ type: "setRuns", datasetId: 4, runs: loadDemoRuns() });
+    send({ type: "releaseRuns", datasetId: 4 });
+    send({ type: "task", id: 4, task: "relicStatistics", datasetId: 4, args: {} });
+
+    await vi.waitFor(() => expect(responses).toHaveLength(1));
+    expect(responses[0]).toEqual({
+      type: "error",
+      id: 4,
+      message: "Unknown runs dataset 4",
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { RunRecord } from "../types";
+import { WorkerRequest, WorkerResponse } from "./protocol";
+import { runTask, TaskCancelledError } from "./tasks";
+
+// Runs aggregations off the main thread. Tasks are queued and started on the
+// next tick, so a cancel sent right after a task is seen before it starts. Once
+// started, only tasks that yield between chunks (see tasks.ts) notice a cancel.
+
+const workerScope = self as unknown as Worker;
+
+const datasets = new Map<number, RunRecord[]>();
+const queue: Extract<WorkerRequest, { type: "task" }>[] = [];
+const cancelled = new Set<number>();
+let running: number | null = null;
+let draining = false;
+
+const respond = (response: WorkerResponse) => {
+  workerScope.postMessage(response);
+};
+
+const drainQueue = async () => {
+  while (queue.length > 0) {
+    const request = queue.shift();
+    const isCancelled = () => cancelled.has(request.id);
+    if (isCancelled()) {
+      cancelled.delete(request.id);
+      respond({ type: "cancelled", id: request.id });
+      continue;
+    }
+
+    running = request.id;
+    try {
+      const runs = request.datasetId === null ? [] : datasets.get(request.datasetId);
+      if (!runs) {
+        throw new Error(`Unknown runs dataset ${request.datasetId}`);
+      }
+      const result = await runTask(request.task, runs, request.args, isCancelled);
+      respond(
+        isCancelled()
+          ? { type: "cancelled", id: request.id }
+          : { type: "result", id: request.id, result }
+      );
+    } catch (error) {
+      respond(
+        error instanceof TaskCancelledError
+          ? { type: "cancelled", id: request.id }
+          : {
+              type: "error",
+              id: request.id,
+              message: error instanceof Error ? error.message : "Task failed",
+            }
+      );
+    } finally {
+      running = null;
+      cancelled.delete(request.id);
+    }
+
+    // Yield so that cancel messages for queued tasks are handled
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  draining = false;
+};
+
+workerScope.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case "setRuns":
+      datasets.set(request.datasetId, request.runs);
+      break;
+    case "releaseRuns":
+      datasets.delete(request.datasetId);
+      break;
+    case "cancel":
+      // Cancels for finished tasks would otherwise stay in the set forever
+      if (request.id === running || queue.some((task) => task.id === request.id)) {
+        cancelled.add(request.id);
+      }
+      break;
+    case "task":
+      queue.push(request);
+      if (!draining) {
+        draining = true;
+        setTimeout(drainQueue, 0);
+      }
+      break;
+  }
+};
@@ -0,0 +1,66 @@
+import { RelicStatistics, RunRecord } from "../types";
+import { Entity } from "../store/useSpriteStore";
+import { AnalyticsDimension, RunGroupSummary } from "../utils/analytics";
+import { SynergyKind, SynergyMatrix } from "../utils/synergy";
+import { SurvivalAxis, SurvivalSplit, SurvivalCurve } from "../utils/survival";
+
+// Message protocol between the page and the analytics worker. Runs are sent once
+// per array as a numbered dataset; tasks then refer to the dataset by id.
+
+export interface FrameRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Arguments and result of each task
+export interface WorkerTasks {
+  runGroups: {
+    args: { dimension: AnalyticsDimension };
+    result: RunGroupSummary[];
+  };
+  relicStatistics: {
+    args: Record<string, never>;
+    result: Record<string, RelicStatistics>;
+  };
+  synergyMatrix: {
+    args: { kind: SynergyKind };
+    result: SynergyMatrix;
+  };
+  survivalCurves: {
+    args: { axis: SurvivalAxis; split: SurvivalSplit };
+    result: SurvivalCurve[];
+  };
+  // Run enemy name to the id of the matching enemy entity
+  enemyMatches: {
+    args: { names: string[]; enemies: Entity[] };
+    result: Record<string, string | null>;
+  };
+  // Indices of the frames of a sprite sheet that have any visible pixel
+  nonEmptyFrames: {
+    args: { url: string; frames: FrameRegion[] };
+    result: number[];
+  };
+}
+
+export type WorkerTaskName = keyof WorkerTasks;
+
+export type WorkerRequest =
+  | { type: "setRuns"; datasetId: number; runs: RunRecord[] }
+  | { type: "releaseRuns"; datasetId: number }
+  | {
+      [Task in WorkerTaskName]: {
+        type: "task";
+        id: number;
+        task: Task;
+        datasetId: number | null;
+        args: WorkerTasks[Task]["args"];
+      };
+    }[WorkerTaskName]
+  | { type: "cancel"; id: number };
+
+export type WorkerResponse =
+  | { type: "result"; id: number; result: unknown }
+  | { type: "error"; id: number; message: string }
+  | { type: "cancelled"; id: number };
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { Entity } from "../store/useSpriteStore";
+import { AnalyticsDimension, ANALYTICS_DIMENSIONS, groupRuns } from "../utils/analytics";
+import { findEnemyEntity } from "../utils/enemyMatching";
+import { getRunEnemyNames } from "../utils/entityRuns";
+import { getRelicStatistics } from "../utils/saveFileParser";
+import { SurvivalAxis, SurvivalSplit, getSurvivalCurves } from "../utils/survival";
+import { SynergyKind, getSynergyMatrix } from "../utils/synergy";
+import { loadDemoRuns } from "../test/demoData";
+import { runTask, TaskCancelledError } from "./tasks";
+
+// Every task must return what the main-thread utils it replaced return
+describe("runTask", () => {
+  const runs = loadDemoRuns();
+
+  it.each(Object.keys(ANALYTICS_DIMENSIONS) as AnalyticsDimension[])(
+    "groups runs by %s without their members",
+    async (dimension) => {
+      const groups = await runTask("runGroups", runs, { dimension });
+
+      const expected = groupRuns(runs, dimension);
+      expect(groups).toHaveLength(expected.length);
+      groups.forEach((group, index) => {
+        expect(group).not.toHaveProperty("runs");
+        expect({ ...group, runs: expected[index].runs }).toEqual(expected[index]);
+      });
+    }
+  );
+
+  it("computes relic statistics", async () => {
+    const stats = await runTask("relicStatistics", runs, {});
+
+    expect(Object.keys(stats).length).toBeGreaterThan(0);
+    expect(stats).toEqual(getRelicStatistics(runs));
+  });
+
+  it.each<SynergyKind>(["orb-orb", "orb-relic", "relic-relic"])(
+    "builds the %s synergy matrix",
+    async (kind) => {
+      expect(await runTask("synergyMatrix", runs, { kind })).toEqual(
+        getSynergyMatrix(runs, kind)
+      );
+    }
+  );
+
+  it.each(
+    (["room", "act"] as SurvivalAxis[]).flatMap((axis) =>
+      (["none", "class", "cruciball", "period"] as SurvivalSplit[]).map(
+        (split) => [axis, split] as const
+      )
+    )
+  )("builds survival curves by %s split by %s", async (axis, split) => {
+    expect(await runTask("survivalCurves", runs, { axis, split })).toEqual(
+      getSurvivalCurves(runs, axis, split)
+    );
+  });
+
+  it("matches run enemy names to enemy entities", async () => {
+    const names = getRunEnemyNames(runs);
+    const enemies: Entity[] = names.slice(0, 8).map((name) => ({
+      id: `enemy-${name}`,
+      name: name.replace(/([a-z])([A-Z])/g, "$1 $2"),
+      type: "enemy",
+    }));
+
+    const matches = await runTask("enemyMatches", [], { names, enemies });
+
+    expect(Object.keys(matches)).toEqual(names);
+    names.forEach((name) =>
+      expect(matches[name]).toBe(findEnemyEntity(name, enemies)?.id ?? null)
+    );
+    expect(Object.values(matches).filter(Boolean).length).toBeGreaterThan(0);
+  });
+
+  it("stops matching enemies once cancelled", async () => {
+    await expect(
+      runTask(
+        "enemyMatches",
+        [],
+        { names: ["Slime"], enemies: [] },
+        () => true
+      )
+    ).rejects.toBeInstanceOf(TaskCancelledError);
+  });
+
+  it("keeps every frame where sprite sheets can't be decoded", async () => {
+    const frames = [
+      { x: 0, y: 0, width: 16, height: 16 },
+      { x: 16, y: 0, width: 16, height: 16 },
+    ];
+
+    expect(
+      await runTask("nonEmptyFrames", [], { url: "/sprites/sheet.png", frames })
+    ).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,108 @@
+import { RunRecord } from "../types";
+import { groupRuns, RunGroup, RunGroupSummary } from "../utils/analytics";
+import { getRelicStatistics } from "../utils/saveFileParser";
+import { getSynergyMatrix } from "../utils/synergy";
+import { getSurvivalCurves } from "../utils/survival";
+import { findEnemyEntity } from "../utils/enemyMatching";
+import { WorkerTasks, WorkerTaskName } from "./protocol";
+
+// Task implementations, run inside the worker or, where workers are unavailable,
+// on the main thread. Loops over many items check isCancelled and yield between
+// chunks so a cancel sent while they run is received; the single-pass aggregations
+// can only be cancelled while they wait in the queue.
+
+export class TaskCancelledError extends Error {
+  constructor() {
+    super("Task cancelled");
+    this.name = "TaskCancelledError";
+  }
+}
+
+const CHUNK_SIZE = 25;
+
+// Call before each item of a long loop; lets pending messages through every CHUNK_SIZE items
+const checkpoint = async (index: number, isCancelled: () => boolean) => {
+  if (index > 0 && index % CHUNK_SIZE === 0) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  if (isCancelled()) throw new TaskCancelledError();
+};
+
+type TaskHandler<Task extends WorkerTaskName> = (
+  runs: RunRecord[],
+  args: WorkerTasks[Task]["args"],
+  isCancelled: () => boolean
+) => WorkerTasks[Task]["result"] | Promise<WorkerTasks[Task]["result"]>;
+
+// Decodes the sheet once and checks each frame's alpha channel
+const findNonEmptyFrames: TaskHandler<"nonEmptyFrames"> = async (
+  _runs,
+  { url, frames },
+  isCancelled
+) => {
+  const allFrames = frames.map((_, index) => index);
+  if (typeof OffscreenCanvas === "undefined" || typeof createImageBitmap === "undefined") {
+    return allFrames;
+  }
+
+  try {
+    const response = await fetch(url);
+    const bitmap = await createImageBitmap(await response.blob());
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return allFrames;
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const nonEmpty: number[] = [];
+    for (let index = 0; index < frames.length; index++) {
+      await checkpoint(index, isCancelled);
+      const frame = frames[index];
+      const { data } = ctx.getImageData(frame.x, frame.y, frame.width, frame.height);
+      for (let i = 3; i < data.length; i += 4) {
+        if (data[i] > 0) {
+          nonEmpty.push(index);
+          break;
+        }
+      }
+    }
+    return nonEmpty;
+  } catch (error) {
+    if (error instanceof TaskCancelledError) throw error;
+    // Unreadable sheets keep all their frames, like a sheet with no empty ones
+    console.warn(`Failed to analyse sprite frames of ${url}:`, error);
+    return allFrames;
+  }
+};
+
+const HANDLERS: { [Task in WorkerTaskName]: TaskHandler<Task> } = {
+  runGroups: (runs, { dimension }) =>
+    // Members are dropped, they would be copied back for nothing
+    groupRuns(runs, dimension).map((group) => {
+      const summary: Partial<RunGroup> = { ...group };
+      delete summary.runs;
+      return summary as RunGroupSummary;
+    }),
+  relicStatistics: (runs) => getRelicStatistics(runs),
+  synergyMatrix: (runs, { kind }) => getSynergyMatrix(runs, kind),
+  survivalCurves: (runs, { axis, split }) => getSurvivalCurves(runs, axis, split),
+  enemyMatches: async (_runs, { names, enemies }, isCancelled) => {
+    const matches: Record<string, string | null> = {};
+    for (let index = 0; index < names.length; index++) {
+      await checkpoint(index, isCancelled);
+      matches[names[index]] = findEnemyEntity(names[index], enemies)?.id ?? null;
+    }
+    return matches;
+  },
+  nonEmptyFrames: findNonEmptyFrames,
+};
+
+export const runTask = async <Task extends WorkerTaskName>(
+  task: Task,
+  runs: RunRecord[],
+  args: WorkerTasks[Task]["args"],
+  isCancelled: () => boolean = () => false
+): Promise<WorkerTasks[Task]["result"]> => {
+  const handler = HANDLERS[task] as TaskHandler<Task>;
+  return handler(runs, args, isCancelled);
+};
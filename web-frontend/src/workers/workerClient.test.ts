@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { loadDemoRuns } from "../test/demoData";
+import { groupRuns } from "../utils/analytics";
+import { WorkerRequest, WorkerResponse } from "./protocol";
+
+type WorkerClient = typeof import("./workerClient");
+
+// Stands in for the analytics worker, recording what the page posts to it
+class FakeWorker {
+  static instance: FakeWorker | null = null;
+  posted: WorkerRequest[] = [];
+  onmessage: ((event: MessageEvent<WorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+
+  constructor() {
+    FakeWorker.instance = this;
+  }
+
+  postMessage(request: WorkerRequest) {
+    this.posted.push(request);
+  }
+
+  respond(response: WorkerResponse) {
+    this.onmessage?.({ data: response } as MessageEvent<WorkerResponse>);
+  }
+
+  terminate() {}
+}
+
+// The client keeps its worker in module state, so each test gets a fresh copy
+const loadClient = async (): Promise<WorkerClient> => {
+  vi.resetModules();
+  return import("./workerClient");
+};
+
+describe("runInWorker without a worker", () => {
+  let client: WorkerClient;
+
+  beforeEach(async () => {
+    vi.stubGlobal("Worker", undefined);
+    client = await loadClient();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("runs the task on the main thread", async () => {
+    const runs = loadDemoRuns();
+    const groups = await client.runInWorker("runGroups", runs, { dimension: "class" });
+
+    expect(groups.map((group) => group.key)).toEqual(
+      groupRuns(runs, "class").map((group) => group.key)
+    );
+  });
+
+  it("rejects with an AbortError when already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await client
+      .runInWorker("relicStatistics", loadDemoRuns(), {}, controller.signal)
+      .catch((reason) => reason);
+    expect(client.isAbortError(error)).toBe(true);
+  });
+
+  it("drops the result of a task aborted while it ran", async () => {
+    const controller = new AbortController();
+    const task = client.runInWorker(
+      "relicStatistics",
+      loadDemoRuns(),
+      {},
+      controller.signal
+    );
+    controller.abort();
+
+    const error = await task.catch((reason) => reason);
+    expect(client.isAbortError(error)).toBe(true);
+  });
+});
+
+describe("runInWorker with a worker", () => {
+  let client: WorkerClient;
+
+  beforeEach(async () => {
+    vi.stubGlobal("Worker", FakeWorker);
+    client = await loadClient();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeWorker.instance = null;
+  });
+
+  it("posts the runs once and resolves with the worker's result", async () => {
+    const runs = loadDemoRuns();
+    const first = client.runInWorker("relicStatistics", runs, {});
+    const second = client.runInWorker("relicStatistics", runs, {});
+
+    const worker = FakeWorker.instance;
+    const tasks = worker.posted.filter((request) => request.type === "task");
+    expect(worker.posted.filter((request) => request.type === "setRuns")).toHaveLength(1);
+    expect(tasks).toHaveLength(2);
+
+    tasks.forEach((request, index) =>
+      worker.respond({ type: "result", id: request.id, result: { index } })
+    );
+    await expect(first).resolves.toEqual({ index: 0 });
+    await expect(second).resolves.toEqual({ index: 1 });
+  });
+
+  it("cancels an aborted task and ignores its late result", async () => {
+    const controller = new AbortController();
+    const task = client.runInWorker(
+      "runGroups",
+      loadDemoRuns(),
+      { dimension: "class" },
+      controller.signal
+    );
+    const resolved = vi.fn();
+    const rejected = vi.fn();
+    task.then(resolved, rejected);
+
+    const worker = FakeWorker.instance;
+    const request = worker.posted.find((posted) => posted.type === "task");
+    controller.abort();
+
+    expect(worker.posted).toContainEqual({ type: "cancel", id: request.id });
+    await vi.waitFor(() => expect(rejected).toHaveBeenCalled());
+    expect(client.isAbortError(rejected.mock.calls[0][0])).toBe(true);
+
+    // The worker was already done when the cancel arrived
+    worker.respond({ type: "result", id: request.id, result: [] });
+    await Promise.resolve();
+    expect(resolved).not.toHaveBeenCalled();
+  });
+
+  it("rejects with an AbortError when the worker reports a cancellation", async () => {
+    const task = client.runInWorker("relicStatistics", loadDemoRuns(), {});
+    const worker = FakeWorker.instance;
+    const request = worker.posted.find((posted) => posted.type === "task");
+
+    worker.respond({ type: "cancelled", id: request.id });
+    const error = await task.catch((reason) => reason);
+    expect(client.isAbortError(error)).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+import { RunRecord } from "../types";
+import {
+  WorkerRequest,
+  WorkerResponse,
+  WorkerTasks,
+  WorkerTaskName,
+} from "./protocol";
+import { runTask, TaskCancelledError } from "./tasks";
+
+// Main-thread side of the analytics worker. Each runs array is posted once and
+// then referred to by id; a few recent arrays are kept so switching filters back
+// and forth does not copy the runs again.
+
+const MAX_DATASETS = 8;
+
+interface PendingTask {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextTaskId = 1;
+let nextDatasetId = 1;
+const pending = new Map<number, PendingTask>();
+// Insertion order doubles as recency order
+const datasets = new Map<RunRecord[], number>();
+
+export const createAbortError = () =>
+  new DOMException("The task was cancelled", "AbortError");
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+const post = (request: WorkerRequest) => worker?.postMessage(request);
+
+const handleResponse = (event: MessageEvent<WorkerResponse>) => {
+  const response = event.data;
+  const task = pending.get(response.id);
+  if (!task) return;
+  pending.delete(response.id);
+
+  switch (response.type) {
+    case "result":
+      task.resolve(response.result);
+      break;
+    case "error":
+      task.reject(new Error(response.message));
+      break;
+    case "cancelled":
+      task.reject(createAbortError());
+      break;
+  }
+};
+
+// A worker that fails to load is dropped; later tasks run on the main thread
+const handleWorkerError = (event: ErrorEvent) => {
+  console.error("Analytics worker failed, falling back to the main thread:", event.message);
+  workerFailed = true;
+  worker?.terminate();
+  worker = null;
+  datasets.clear();
+  pending.forEach((task) => task.reject(new Error("Analytics worker failed")));
+  pending.clear();
+};
+
+const getWorker = (): Worker | null => {
+  if (worker || workerFailed) return worker;
+  if (typeof Worker === "undefined") {
+    workerFailed = true;
+    return null;
+  }
+  worker = new Worker(new URL("./analytics.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  worker.onmessage = handleResponse;
+  worker.onerror = handleWorkerError;
+  return worker;
+};
+
+const getDatasetId = (runs: RunRecord[]): number => {
+  const existing = datasets.get(runs);
+  if (existing !== undefined) {
+    datasets.delete(runs);
+    datasets.set(runs, existing);
+    return existing;
+  }
+
+  const datasetId = nextDatasetId++;
+  datasets.set(runs, datasetId);
+  post({ type: "setRuns", datasetId, runs });
+
+  if (datasets.size > MAX_DATASETS) {
+    const [oldestRuns, oldestId] = datasets.entries().next().value;
+    datasets.delete(oldestRuns);
+    post({ type: "releaseRuns", datasetId: oldestId });
+  }
+  return datasetId;
+};
+
+// Cancellation rejects with an AbortError here too, and results of tasks
+// that finish after their signal was aborted are dropped
+const runInline = async <Task extends WorkerTaskName>(
+  task: Task,
+  runs: RunRecord[] | null,
+  args: WorkerTasks[Task]["args"],
+  signal?: AbortSignal
+): Promise<WorkerTasks[Task]["result"]> => {
+  if (signal?.aborted) throw createAbortError();
+  try {
+    const result = await runTask(task, runs ?? [], args, () => !!signal?.aborted);
+    if (signal?.aborted) throw createAbortError();
+    return result;
+  } catch (error) {
+    throw error instanceof TaskCancelledError ? createAbortError() : error;
+  }
+};
+
+// Run a task in the worker. Pass runs only for tasks that read them. Aborting
+// the signal cancels the task and rejects with an AbortError.
+export const runInWorker = <Task extends WorkerTaskName>(
+  task: Task,
+  runs: RunRecord[] | null,
+  args: WorkerTasks[Task]["args"],
+  signal?: AbortSignal
+): Promise<WorkerTasks[Task]["result"]> => {
+  if (!getWorker()) return runInline(task, runs, args, signal);
+  if (signal?.aborted) return Promise.reject(createAbortError());
+
+  const id = nextTaskId++;
+  const datasetId = runs ? getDatasetId(runs) : null;
+
+  return new Promise((resolve, reject) => {
+    pending.set(id, {
+      resolve: resolve as (result: unknown) => void,
+      reject,
+    });
+    post({ type: "task", id, task, datasetId, args } as WorkerRequest);
+
+    signal?.addEventListener(
+      "abort",
+      () => {
+        if (!pending.has(id)) return;
+        pending.delete(id);
+        post({ type: "cancel", id });
+        reject(createAbortError());
+      },
+      { once: true }
+    );
+  });
+};